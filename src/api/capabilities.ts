@@ -0,0 +1,68 @@
+// 界面功能与其依赖的网关方法；满足列表中任一方法即视为可用（兼容不同版本的方法命名）
+export const CAPABILITY_METHODS = {
+  chat: ['chat.send'],
+  chatInject: ['chat.inject'],
+  sessions: ['sessions.list', 'session.list'],
+  sessionUsage: ['sessions.usage', 'usage.sessions'],
+  usageCost: ['usage.cost', 'cost.usage'],
+  agentFiles: ['agents.files.list', 'agent.files.list'],
+  agentFilesWrite: ['agents.files.set', 'agent.files.set'],
+  fileUpload: ['agents.files.upload', 'agent.files.upload', 'files.upload'],
+  cron: ['cron.list', 'crons.list', 'schedule.list', 'schedules.list'],
+  cronCreate: ['cron.add', 'cron.create', 'crons.add', 'crons.create'],
+  cronUpdate: ['cron.update', 'crons.update', 'schedule.update', 'schedules.update'],
+  cronRemove: ['cron.remove', 'cron.delete', 'crons.remove', 'crons.delete', 'schedule.delete', 'schedules.delete'],
+  cronRun: ['cron.run', 'crons.run', 'cron.trigger', 'crons.trigger'],
+  models: ['models.list', 'model.list'],
+  config: ['config.get'],
+  configWrite: ['config.patch', 'config.apply'],
+  channels: ['channels.status', 'channels.list', 'channel.list'],
+  plugins: ['plugins.list', 'plugin.list', 'plugins.status', 'plugin.status'],
+  pluginInstall: ['plugins.install', 'plugin.install'],
+  skills: ['skills.status', 'skills.list'],
+  skillInstall: ['skills.install'],
+  skillUpdate: ['skills.update'],
+  nodes: ['node.list'],
+  presence: ['system-presence'],
+  health: ['health'],
+  status: ['status'],
+  logs: ['logs.tail'],
+  execApprovals: ['exec.approvals.get', 'exec.approvals.set'],
+  nodeExecApprovals: ['exec.approvals.node.get', 'exec.approvals.node.set'],
+  execApprovalResolve: ['exec.approval.resolve'],
+  update: ['update.run'],
+} satisfies Record<string, readonly string[]>
+
+export type CapabilityId = keyof typeof CAPABILITY_METHODS
+
+export const CAPABILITY_IDS = Object.keys(CAPABILITY_METHODS) as CapabilityId[]
+
+// unknown：网关握手时没有公布方法列表，无从判断，界面按可用处理
+export type CapabilityStatus = 'available' | 'unavailable' | 'unknown'
+
+export interface CapabilityReport {
+  id: CapabilityId
+  status: CapabilityStatus
+  // 功能依赖的方法（任一即可）
+  methods: readonly string[]
+  // 网关实际公布的匹配方法
+  matched: string[]
+}
+
+export function isCapabilityId(value: unknown): value is CapabilityId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(CAPABILITY_METHODS, value)
+}
+
+export function resolveCapability(id: CapabilityId, gatewayMethods: readonly string[]): CapabilityReport {
+  const methods = CAPABILITY_METHODS[id]
+  if (gatewayMethods.length === 0) {
+    return { id, status: 'unknown', methods, matched: [] }
+  }
+  const advertised = new Set(gatewayMethods)
+  const matched = methods.filter((method) => advertised.has(method))
+  return { id, status: matched.length > 0 ? 'available' : 'unavailable', methods, matched }
+}
+
+export function resolveCapabilities(gatewayMethods: readonly string[]): CapabilityReport[] {
+  return CAPABILITY_IDS.map((id) => resolveCapability(id, gatewayMethods))
+}
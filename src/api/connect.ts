@@ -1,6 +1,7 @@
-import { getPreferredLocale } from '@/i18n/locale'
 import { buildDeviceAuthPayload } from './device-auth-payload'
 import { loadOrCreateDeviceIdentity, signDevicePayload } from './device-identity'
+import { getClientRuntime } from './runtime'
+import { getSupportedProtocolRange } from './protocol'
 
 export interface ConnectParams {
   minProtocol: number
@@ -32,41 +33,21 @@ export interface ConnectParams {
   userAgent?: string
 }
 
-const DEFAULT_MIN_PROTOCOL = 3
-const DEFAULT_MAX_PROTOCOL = 3
 const DEFAULT_CLIENT_ID: ConnectParams['client']['id'] = 'cli'
 const DEFAULT_CLIENT_MODE: ConnectParams['client']['mode'] = 'cli'
 
-function getClientVersion(): string {
-  return import.meta.env.VITE_APP_VERSION || '0.1.0'
-}
-
-function getClientPlatform(): string {
-  if (typeof navigator === 'undefined') return 'web'
-  const nav = navigator as Navigator & { userAgentData?: { platform?: string } }
-  const raw = nav.userAgentData?.platform || navigator.platform || 'web'
-  return String(raw).toLowerCase() || 'web'
-}
-
-function getClientLocale(): string | undefined {
-  if (typeof window === 'undefined') return undefined
-  return getPreferredLocale()
-}
-
-function getClientUserAgent(): string | undefined {
-  if (typeof navigator === 'undefined') return undefined
-  return navigator.userAgent || undefined
-}
-
 function buildBaseConnectParams(token: string): ConnectParams {
+  const runtime = getClientRuntime()
+  // 支持范围由已注册的协议适配器决定
+  const protocols = getSupportedProtocolRange()
   return {
-    minProtocol: DEFAULT_MIN_PROTOCOL,
-    maxProtocol: DEFAULT_MAX_PROTOCOL,
+    minProtocol: protocols.min,
+    maxProtocol: protocols.max,
     client: {
       id: DEFAULT_CLIENT_ID,
-      displayName: 'OpenClaw Admin',
-      version: getClientVersion(),
-      platform: getClientPlatform(),
+      displayName: runtime.clientDisplayName,
+      version: runtime.clientVersion,
+      platform: runtime.getPlatform() || 'web',
       mode: DEFAULT_CLIENT_MODE,
     },
     role: 'operator',
@@ -78,14 +59,14 @@ function buildBaseConnectParams(token: string): ConnectParams {
     auth: {
       token: token || '',
     },
-    locale: getClientLocale(),
-    userAgent: getClientUserAgent(),
+    locale: runtime.getLocale(),
+    userAgent: runtime.getUserAgent(),
   }
 }
 
 export async function buildConnectParams(
   token: string,
-  opts?: { nonce?: string | null },
+  opts?: { nonce?: string | null; deviceIdentityScope?: string | null },
 ): Promise<ConnectParams> {
   const params = buildBaseConnectParams(token)
   const nonce = typeof opts?.nonce === 'string' ? opts.nonce.trim() : ''
@@ -94,7 +75,7 @@ export async function buildConnectParams(
     throw new Error('missing connect.challenge nonce')
   }
 
-  const deviceIdentity = await loadOrCreateDeviceIdentity()
+  const deviceIdentity = await loadOrCreateDeviceIdentity(opts?.deviceIdentityScope)
   const signedAtMs = Date.now()
   const payload = buildDeviceAuthPayload({
     deviceId: deviceIdentity.deviceId,
@@ -0,0 +1,157 @@
+const DEFAULT_SAMPLE_CAPACITY = 60
+const DEFAULT_RECONNECT_CAPACITY = 20
+
+// 单次心跳探测的结果；探测在下一次心跳前未收到响应或连接中断时记为丢失
+export interface ConnectionSample {
+  at: number
+  latencyMs: number | null
+  lost: boolean
+  // 采样时仍在发送队列中的请求数
+  queueDepth: number
+  // 距上一个采样点收到的事件数，折算为每分钟
+  eventsPerMinute: number
+}
+
+export interface ReconnectRecord {
+  // 已建立的连接意外断开的时间
+  droppedAt: number
+  // 重新完成握手的时间；仍在重连中为 null
+  restoredAt: number | null
+  durationMs: number | null
+  attempts: number
+}
+
+// 可序列化的快照，共享连接模式下由宿主端原样转发给各页面
+export interface ConnectionMetricsSnapshot {
+  samples: ConnectionSample[]
+  reconnects: ReconnectRecord[]
+  reconnectCount: number
+  probesSent: number
+  probesLost: number
+  lastLatencyMs: number | null
+  queueDepth: number
+  updatedAt: number
+}
+
+export interface ConnectionMetricsOptions {
+  capacity?: number
+}
+
+interface PendingProbe {
+  id: string
+  sentAt: number
+}
+
+/**
+ * 连接质量统计：由传输层的心跳循环驱动，记录往返延迟、探测丢失、
+ * 重连次数与耗时、发送队列深度以及事件吞吐。
+ */
+export class ConnectionMetrics {
+  private samples: ConnectionSample[] = []
+  private reconnects: ReconnectRecord[] = []
+  private readonly capacity: number
+  private pendingProbe: PendingProbe | null = null
+  private eventsSinceSample = 0
+  private lastSampleAt: number
+  private reconnectCount = 0
+  private probesSent = 0
+  private probesLost = 0
+  private queueDepth = 0
+
+  constructor(options: ConnectionMetricsOptions = {}) {
+    this.capacity = Math.max(2, options.capacity ?? DEFAULT_SAMPLE_CAPACITY)
+    this.lastSampleAt = Date.now()
+  }
+
+  // 发出新探测前调用；上一次探测仍未响应时先记为丢失，返回是否产生了新采样
+  beginProbe(id: string, queueDepth: number, now = Date.now()): boolean {
+    const expired = this.expireProbe(queueDepth, now)
+    this.pendingProbe = { id, sentAt: now }
+    this.probesSent += 1
+    return expired
+  }
+
+  // 收到响应时调用；不是探测请求的响应返回 false
+  resolveProbe(id: string, queueDepth: number, now = Date.now()): boolean {
+    if (!this.pendingProbe || this.pendingProbe.id !== id) return false
+    const latencyMs = Math.max(0, now - this.pendingProbe.sentAt)
+    this.pendingProbe = null
+    this.pushSample({ latencyMs, lost: false, queueDepth }, now)
+    return true
+  }
+
+  recordEvent(): void {
+    this.eventsSinceSample += 1
+  }
+
+  // 已建立的连接意外断开
+  markDropped(queueDepth: number, now = Date.now()): void {
+    this.expireProbe(queueDepth, now)
+    const last = this.reconnects[this.reconnects.length - 1]
+    if (last && last.restoredAt === null) return
+    this.reconnects.push({ droppedAt: now, restoredAt: null, durationMs: null, attempts: 0 })
+    if (this.reconnects.length > DEFAULT_RECONNECT_CAPACITY) this.reconnects.shift()
+  }
+
+  markConnected(attempts: number, now = Date.now()): void {
+    const last = this.reconnects[this.reconnects.length - 1]
+    if (!last || last.restoredAt !== null) return
+    last.restoredAt = now
+    last.durationMs = now - last.droppedAt
+    last.attempts = attempts
+    this.reconnectCount += 1
+  }
+
+  // 主动断开：丢弃未完成的探测与重连记录，不计入丢失
+  markClosed(): void {
+    this.pendingProbe = null
+    const last = this.reconnects[this.reconnects.length - 1]
+    if (last && last.restoredAt === null) this.reconnects.pop()
+  }
+
+  setQueueDepth(depth: number): void {
+    this.queueDepth = depth
+  }
+
+  snapshot(now = Date.now()): ConnectionMetricsSnapshot {
+    const lastAnswered = [...this.samples].reverse().find((sample) => sample.latencyMs !== null)
+    return {
+      samples: this.samples.map((sample) => ({ ...sample })),
+      reconnects: this.reconnects.map((record) => ({ ...record })),
+      reconnectCount: this.reconnectCount,
+      probesSent: this.probesSent,
+      probesLost: this.probesLost,
+      lastLatencyMs: lastAnswered?.latencyMs ?? null,
+      queueDepth: this.queueDepth,
+      updatedAt: now,
+    }
+  }
+
+  private expireProbe(queueDepth: number, now: number): boolean {
+    if (!this.pendingProbe) return false
+    this.pendingProbe = null
+    this.probesLost += 1
+    this.pushSample({ latencyMs: null, lost: true, queueDepth }, now)
+    return true
+  }
+
+  private pushSample(sample: Omit<ConnectionSample, 'at' | 'eventsPerMinute'>, now: number): void {
+    const elapsedMs = now - this.lastSampleAt
+    const eventsPerMinute = elapsedMs > 0 ? Math.round((this.eventsSinceSample * 60000) / elapsedMs) : 0
+    this.samples.push({ ...sample, at: now, eventsPerMinute })
+    if (this.samples.length > this.capacity) this.samples.shift()
+    this.eventsSinceSample = 0
+    this.lastSampleAt = now
+    this.queueDepth = sample.queueDepth
+  }
+}
+
+// 采样中探测丢失的比例（0-1）
+export function probeDropRate(samples: ConnectionSample[]): number {
+  if (samples.length === 0) return 0
+  return samples.filter((sample) => sample.lost).length / samples.length
+}
+
+export function createEmptyMetricsSnapshot(now = Date.now()): ConnectionMetricsSnapshot {
+  return new ConnectionMetrics().snapshot(now)
+}
@@ -1,4 +1,5 @@
 import { getPublicKeyAsync, signAsync, utils } from '@noble/ed25519'
+import { readStorage, writeStorage } from './runtime'
 
 type StoredIdentity = {
   version: 1
@@ -60,9 +61,15 @@ async function generateIdentity(): Promise<DeviceIdentity> {
   }
 }
 
-export async function loadOrCreateDeviceIdentity(): Promise<DeviceIdentity> {
+function resolveStorageKey(scope?: string | null): string {
+  const normalized = scope?.trim()
+  return normalized ? `${STORAGE_KEY}:${normalized}` : STORAGE_KEY
+}
+
+export async function loadOrCreateDeviceIdentity(scope?: string | null): Promise<DeviceIdentity> {
+  const storageKey = resolveStorageKey(scope)
   try {
-    const raw = localStorage.getItem(STORAGE_KEY)
+    const raw = readStorage(storageKey)
     if (raw) {
       const parsed = JSON.parse(raw) as StoredIdentity
       if (
@@ -77,7 +84,7 @@ export async function loadOrCreateDeviceIdentity(): Promise<DeviceIdentity> {
             ...parsed,
             deviceId: derivedId,
           }
-          localStorage.setItem(STORAGE_KEY, JSON.stringify(updated))
+          writeStorage(storageKey, JSON.stringify(updated))
           return {
             deviceId: derivedId,
             publicKey: parsed.publicKey,
@@ -103,7 +110,7 @@ export async function loadOrCreateDeviceIdentity(): Promise<DeviceIdentity> {
     privateKey: identity.privateKey,
     createdAtMs: Date.now(),
   }
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored))
+  writeStorage(storageKey, JSON.stringify(stored))
   return identity
 }
 
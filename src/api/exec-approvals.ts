@@ -0,0 +1,115 @@
+import type {
+  ExecApprovalDecision,
+  ExecApprovalRequest,
+  ExecApprovalResolved,
+  ExecApprovalsAsk,
+  ExecApprovalsFile,
+  ExecApprovalsSecurity,
+} from './types'
+
+// 网关在 Agent 需要人工确认命令时推送 requested，任一客户端处理后推送 resolved
+export const EXEC_APPROVAL_REQUESTED_EVENT = 'exec.approval.requested'
+export const EXEC_APPROVAL_RESOLVED_EVENT = 'exec.approval.resolved'
+
+function asRecord(value: unknown): Record<string, unknown> {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    return value as Record<string, unknown>
+  }
+  return {}
+}
+
+function asNonEmptyString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null
+}
+
+function asTimestamp(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : null
+}
+
+function asSecurity(value: unknown): ExecApprovalsSecurity | null {
+  return value === 'deny' || value === 'allowlist' || value === 'full' ? value : null
+}
+
+function asAsk(value: unknown): ExecApprovalsAsk | null {
+  return value === 'off' || value === 'on-miss' || value === 'always' ? value : null
+}
+
+function asDecision(value: unknown): ExecApprovalDecision | null {
+  return value === 'allow-once' || value === 'allow-always' || value === 'deny' ? value : null
+}
+
+// 兼容请求字段平铺在 payload 上与嵌套在 payload.request 里两种结构；缺少 id 或命令时返回 null
+export function parseExecApprovalRequest(payload: unknown): ExecApprovalRequest | null {
+  const row = asRecord(payload)
+  const request = { ...row, ...asRecord(row.request) }
+  const id = asNonEmptyString(row.id) ?? asNonEmptyString(request.id) ?? asNonEmptyString(request.approvalId)
+  const argv = Array.isArray(request.argv) ? request.argv.filter((item): item is string => typeof item === 'string') : []
+  const command = asNonEmptyString(request.command) ?? (argv.length > 0 ? argv.join(' ') : null)
+  if (!id || !command) return null
+
+  return {
+    id,
+    command,
+    cwd: asNonEmptyString(request.cwd),
+    resolvedPath: asNonEmptyString(request.resolvedPath),
+    agentId: asNonEmptyString(request.agentId),
+    sessionKey: asNonEmptyString(request.sessionKey),
+    host: asNonEmptyString(request.host),
+    nodeId: asNonEmptyString(request.nodeId),
+    security: asSecurity(request.security),
+    ask: asAsk(request.ask),
+    createdAtMs: asTimestamp(row.createdAtMs) ?? asTimestamp(request.createdAtMs) ?? Date.now(),
+    expiresAtMs: asTimestamp(row.expiresAtMs) ?? asTimestamp(request.expiresAtMs),
+  }
+}
+
+export function parseExecApprovalResolved(payload: unknown): ExecApprovalResolved | null {
+  const row = asRecord(payload)
+  const id = asNonEmptyString(row.id) ?? asNonEmptyString(row.approvalId)
+  if (!id) return null
+  return {
+    id,
+    decision: asDecision(row.decision),
+    resolvedBy: asNonEmptyString(row.resolvedBy),
+  }
+}
+
+/**
+ * 为“始终允许”生成白名单规则：优先用解析后的可执行文件绝对路径，
+ * 否则取命令的第一个词，不把参数写进规则，同一程序的其他调用也能放行。
+ */
+export function buildExecAllowlistPattern(request: Pick<ExecApprovalRequest, 'command' | 'resolvedPath'>): string {
+  if (request.resolvedPath) return request.resolvedPath
+  const first = request.command.trim().match(/^(?:"([^"]+)"|'([^']+)'|(\S+))/)
+  return (first?.[1] ?? first?.[2] ?? first?.[3] ?? request.command).trim()
+}
+
+// 把规则追加到指定 Agent 的白名单；已存在相同规则时原样返回
+export function appendExecAllowlistPattern(
+  file: ExecApprovalsFile,
+  agentId: string,
+  pattern: string,
+  usage?: { command?: string; resolvedPath?: string | null }
+): { file: ExecApprovalsFile; added: boolean } {
+  const agents = { ...(file.agents ?? {}) }
+  const agent = agents[agentId] ?? {}
+  const allowlist = agent.allowlist ?? []
+  if (allowlist.some((entry) => entry.pattern === pattern)) {
+    return { file, added: false }
+  }
+
+  agents[agentId] = {
+    ...agent,
+    allowlist: [
+      ...allowlist,
+      {
+        id: `rule-${Date.now()}`,
+        pattern,
+        lastUsedAt: Date.now(),
+        lastUsedCommand: usage?.command || undefined,
+        lastResolvedPath: usage?.resolvedPath || undefined,
+      },
+    ],
+  }
+  return { file: { ...file, agents }, added: true }
+}
@@ -0,0 +1,322 @@
+import { ConnectionState, type RPCFrame, type RPCResponse } from './types'
+import type { ConnectParams } from './connect'
+import { OpenClawWebSocket } from './websocket'
+import { localize } from './runtime'
+
+// 需要广播给所有标签页的 OpenClawWebSocket 事件；rpc:<id> 单独按请求方路由
+export const SHARED_TRANSPORT_EVENTS = [
+  'stateChange',
+  'connected',
+  'disconnected',
+  'reconnecting',
+  'error',
+  'failed',
+  'gap',
+  'event',
+  'metrics',
+] as const
+
+export type SharedTransportEvent = (typeof SHARED_TRANSPORT_EVENTS)[number]
+
+export type ClientMessage =
+  | { kind: 'attach'; clientId: string; url: string; auth?: string; deviceIdentityScope?: string | null }
+  | { kind: 'detach'; clientId: string }
+  | { kind: 'send'; clientId: string; frame: RPCFrame }
+  | { kind: 'cancel'; clientId: string; id: string }
+  | { kind: 'sign-result'; clientId: string; signId: string; params?: ConnectParams; error?: string }
+  | { kind: 'bye'; clientId: string }
+
+export type HostMessage =
+  | { kind: 'emit'; event: SharedTransportEvent; args: unknown[] }
+  | { kind: 'rpc'; frame: RPCResponse<unknown> }
+  | { kind: 'sign'; signId: string; auth: string; nonce: string | null; deviceIdentityScope: string | null }
+
+export interface GatewayHostOptions {
+  // 宿主环境无法访问设备身份（SharedWorker）时，把 connect 签名转交给已接入的页面
+  delegateSigning: boolean
+}
+
+interface HostedClient {
+  post: (msg: HostMessage) => void
+  socketKey: string | null
+}
+
+interface HostedSocket {
+  key: string
+  socket: OpenClawWebSocket
+  clients: Set<string>
+  helloPayload: unknown
+  pendingRequests: Map<string, () => void>
+  cleanups: Array<() => void>
+}
+
+interface PendingSign {
+  clientId: string
+  resolve: (params: ConnectParams) => void
+  reject: (error: Error) => void
+  timer: ReturnType<typeof setTimeout>
+}
+
+const SIGN_TIMEOUT_MS = 8000
+const HOST_REQUEST_ID_SEPARATOR = '|'
+
+function socketKeyOf(url: string, auth?: string, deviceIdentityScope?: string | null): string {
+  return JSON.stringify([url, auth || '', deviceIdentityScope || null])
+}
+
+/**
+ * 持有真实网关连接的一端（SharedWorker 或当选的 leader 标签页）。
+ * 相同地址/Token/设备身份的页面共用一条 WebSocket，最后一个页面离开时关闭。
+ */
+export class GatewayHost {
+  private readonly options: GatewayHostOptions
+  private clients = new Map<string, HostedClient>()
+  private sockets = new Map<string, HostedSocket>()
+  private pendingSigns = new Map<string, PendingSign>()
+  private signSeq = 0
+
+  constructor(options: GatewayHostOptions) {
+    this.options = options
+  }
+
+  addClient(clientId: string, post: (msg: HostMessage) => void): void {
+    const existing = this.clients.get(clientId)
+    if (existing) {
+      existing.post = post
+      return
+    }
+    this.clients.set(clientId, { post, socketKey: null })
+  }
+
+  removeClient(clientId: string): void {
+    this.detach(clientId)
+    this.clients.delete(clientId)
+    for (const [signId, pending] of this.pendingSigns) {
+      if (pending.clientId !== clientId) continue
+      this.settleSign(signId, { error: 'client left' })
+    }
+  }
+
+  handleMessage(msg: ClientMessage): void {
+    switch (msg.kind) {
+      case 'attach':
+        this.attach(msg.clientId, msg.url, msg.auth, msg.deviceIdentityScope)
+        break
+      case 'detach':
+        this.detach(msg.clientId)
+        break
+      case 'send':
+        this.forward(msg.clientId, msg.frame)
+        break
+      case 'cancel':
+        this.cancel(msg.clientId, msg.id)
+        break
+      case 'sign-result':
+        this.settleSign(msg.signId, msg)
+        break
+      case 'bye':
+        this.removeClient(msg.clientId)
+        break
+    }
+  }
+
+  dispose(): void {
+    for (const hosted of [...this.sockets.values()]) {
+      this.closeSocket(hosted)
+    }
+    for (const signId of [...this.pendingSigns.keys()]) {
+      this.settleSign(signId, { error: 'host disposed' })
+    }
+    this.clients.clear()
+  }
+
+  private attach(clientId: string, url: string, auth?: string, deviceIdentityScope?: string | null): void {
+    const client = this.clients.get(clientId)
+    if (!client) return
+
+    const key = socketKeyOf(url, auth, deviceIdentityScope)
+    if (client.socketKey && client.socketKey !== key) {
+      this.detach(clientId)
+    }
+
+    let hosted = this.sockets.get(key)
+    if (!hosted) {
+      hosted = this.openSocket(key)
+    }
+    hosted.clients.add(clientId)
+    client.socketKey = key
+
+    const { socket } = hosted
+    if (socket.state === ConnectionState.DISCONNECTED || socket.state === ConnectionState.FAILED) {
+      socket.connect(url, auth, { deviceIdentityScope })
+      return
+    }
+
+    // 后加入的页面补发当前状态与 hello 数据，避免等到下一次状态变化
+    client.post({ kind: 'emit', event: 'stateChange', args: [socket.state] })
+    if (socket.state === ConnectionState.CONNECTED) {
+      client.post({ kind: 'emit', event: 'connected', args: [hosted.helloPayload] })
+    }
+    client.post({ kind: 'emit', event: 'metrics', args: [socket.getMetrics()] })
+  }
+
+  private detach(clientId: string): void {
+    const client = this.clients.get(clientId)
+    if (!client?.socketKey) return
+
+    const hosted = this.sockets.get(client.socketKey)
+    client.socketKey = null
+    if (!hosted) return
+
+    hosted.clients.delete(clientId)
+    const prefix = `${clientId}${HOST_REQUEST_ID_SEPARATOR}`
+    for (const [hostId, off] of hosted.pendingRequests) {
+      if (!hostId.startsWith(prefix)) continue
+      off()
+      hosted.pendingRequests.delete(hostId)
+    }
+
+    if (hosted.clients.size === 0) {
+      this.closeSocket(hosted)
+    }
+  }
+
+  private openSocket(key: string): HostedSocket {
+    const socket = new OpenClawWebSocket(
+      this.options.delegateSigning
+        ? { connectParamsBuilder: (auth, opts) => this.requestSignature(key, auth, opts) }
+        : undefined,
+    )
+    const hosted: HostedSocket = {
+      key,
+      socket,
+      clients: new Set(),
+      helloPayload: null,
+      pendingRequests: new Map(),
+      cleanups: [],
+    }
+
+    for (const event of SHARED_TRANSPORT_EVENTS) {
+      hosted.cleanups.push(
+        socket.on(event, (...args: unknown[]) => {
+          if (event === 'connected') {
+            hosted.helloPayload = args[0] ?? null
+          }
+          this.broadcast(hosted, { kind: 'emit', event, args })
+        }),
+      )
+    }
+
+    this.sockets.set(key, hosted)
+    return hosted
+  }
+
+  private closeSocket(hosted: HostedSocket): void {
+    // 先解绑再断开，避免把 DISCONNECTED 广播给仍在使用其他连接的页面
+    hosted.cleanups.forEach((cleanup) => cleanup())
+    hosted.cleanups = []
+    hosted.pendingRequests.forEach((off) => off())
+    hosted.pendingRequests.clear()
+    hosted.socket.disconnect()
+    this.sockets.delete(hosted.key)
+  }
+
+  private forward(clientId: string, frame: RPCFrame): void {
+    const client = this.clients.get(clientId)
+    const hosted = client?.socketKey ? this.sockets.get(client.socketKey) : undefined
+
+    if (frame.type !== 'req') {
+      hosted?.socket.send(frame)
+      return
+    }
+
+    if (!client) return
+    if (!hosted) {
+      client.post({
+        kind: 'rpc',
+        frame: {
+          type: 'res',
+          id: frame.id,
+          ok: false,
+          error: {
+            message: localize(
+              `共享连接未建立，已拒绝请求: ${frame.method}`,
+              `Shared connection not established. Rejected request: ${frame.method}`,
+            ),
+          },
+        },
+      })
+      return
+    }
+
+    // 各页面的请求 id 各自递增，转发前加上页面前缀避免冲突
+    const hostId = `${clientId}${HOST_REQUEST_ID_SEPARATOR}${frame.id}`
+    const off = hosted.socket.on(`rpc:${hostId}`, (response: unknown) => {
+      off()
+      hosted.pendingRequests.delete(hostId)
+      const res = response as RPCResponse<unknown>
+      this.clients.get(clientId)?.post({ kind: 'rpc', frame: { ...res, id: frame.id } })
+    })
+    hosted.pendingRequests.set(hostId, off)
+    hosted.socket.send({ ...frame, id: hostId })
+  }
+
+  private cancel(clientId: string, id: string): void {
+    const client = this.clients.get(clientId)
+    const hosted = client?.socketKey ? this.sockets.get(client.socketKey) : undefined
+    if (!hosted) return
+
+    const hostId = `${clientId}${HOST_REQUEST_ID_SEPARATOR}${id}`
+    hosted.pendingRequests.get(hostId)?.()
+    hosted.pendingRequests.delete(hostId)
+    hosted.socket.cancel(hostId)
+  }
+
+  private broadcast(hosted: HostedSocket, msg: HostMessage): void {
+    for (const clientId of hosted.clients) {
+      this.clients.get(clientId)?.post(msg)
+    }
+  }
+
+  private requestSignature(
+    key: string,
+    auth: string,
+    opts?: { nonce?: string | null; deviceIdentityScope?: string | null },
+  ): Promise<ConnectParams> {
+    const hosted = this.sockets.get(key)
+    const clientId = hosted ? [...hosted.clients][0] : undefined
+    const client = clientId ? this.clients.get(clientId) : undefined
+    if (!clientId || !client) {
+      return Promise.reject(new Error('no tab available to sign the connect request'))
+    }
+
+    const signId = `sign-${++this.signSeq}`
+    return new Promise<ConnectParams>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        // 页面可能已关闭但没来得及发送 bye，移除后由下一次重连换一个页面签名
+        this.settleSign(signId, { error: 'sign request timeout' })
+        this.removeClient(clientId)
+      }, SIGN_TIMEOUT_MS)
+      this.pendingSigns.set(signId, { clientId, resolve, reject, timer })
+      client.post({
+        kind: 'sign',
+        signId,
+        auth,
+        nonce: opts?.nonce ?? null,
+        deviceIdentityScope: opts?.deviceIdentityScope ?? null,
+      })
+    })
+  }
+
+  private settleSign(signId: string, result: { params?: ConnectParams; error?: string }): void {
+    const pending = this.pendingSigns.get(signId)
+    if (!pending) return
+    this.pendingSigns.delete(signId)
+    clearTimeout(pending.timer)
+    if (result.params) {
+      pending.resolve(result.params)
+    } else {
+      pending.reject(new Error(result.error || 'sign failed'))
+    }
+  }
+}
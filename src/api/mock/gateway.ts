@@ -0,0 +1,1054 @@
+import {
+  MOCK_DEFAULT_MODEL,
+  createMockMessage,
+  createMockState,
+  formatMockLogLine,
+  hashConfig,
+  textContent,
+  type MockAgent,
+  type MockChatMessage,
+  type MockSession,
+  type MockState,
+} from './state'
+
+export const MOCK_SERVER_VERSION = 'mock'
+export const MOCK_PROTOCOL = 3
+
+export type MockEventListener = (event: string, payload: unknown) => void
+
+type Params = Record<string, unknown>
+type Handler = (params: Params) => unknown
+
+export class MockGatewayError extends Error {
+  readonly code: string
+  readonly details?: Record<string, unknown>
+
+  constructor(code: string, message: string, details?: Record<string, unknown>) {
+    super(message)
+    this.name = 'MockGatewayError'
+    this.code = code
+    this.details = details
+  }
+}
+
+export interface MockGatewayOptions {
+  // 流式回复每一步之间的间隔；组件测试可设为 0
+  streamStepMs?: number
+  // 每次请求的模拟网络延迟
+  latencyMs?: number
+  state?: MockState
+}
+
+interface ActiveRun {
+  runId: string
+  sessionKey: string
+  text: string
+  timer: ReturnType<typeof setTimeout> | null
+}
+
+const DEFAULT_STREAM_STEP_MS = 90
+const DEFAULT_LATENCY_MS = 40
+const MAX_IDEMPOTENCY_KEYS = 500
+
+function asString(value: unknown): string {
+  if (typeof value === 'string') return value.trim()
+  if (typeof value === 'number') return String(value)
+  return ''
+}
+
+function asRecord(value: unknown): Params {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Params) : {}
+}
+
+function cloneJson<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T
+}
+
+function pickString(params: Params, keys: string[]): string {
+  for (const key of keys) {
+    const value = asString(params[key])
+    if (value) return value
+  }
+  return ''
+}
+
+// RFC 7396 merge patch：null 表示删除字段
+function applyMergePatch(target: Params, patch: Params): void {
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete target[key]
+    } else if (value && typeof value === 'object' && !Array.isArray(value)) {
+      const current = target[key]
+      const next = current && typeof current === 'object' && !Array.isArray(current) ? (current as Params) : {}
+      applyMergePatch(next, value as Params)
+      target[key] = next
+    } else {
+      target[key] = cloneJson(value)
+    }
+  }
+}
+
+function setAtPath(target: Params, path: string, value: unknown): void {
+  const segments = path.split('.').map((segment) => segment.trim()).filter(Boolean)
+  const leaf = segments.pop()
+  if (!leaf) return
+  let cursor = target
+  for (const segment of segments) {
+    const next = cursor[segment]
+    if (!next || typeof next !== 'object' || Array.isArray(next)) {
+      cursor[segment] = {}
+    }
+    cursor = cursor[segment] as Params
+  }
+  cursor[leaf] = cloneJson(value)
+}
+
+function emptyTotals() {
+  return {
+    input: 0,
+    output: 0,
+    cacheRead: 0,
+    cacheWrite: 0,
+    totalTokens: 0,
+    totalCost: 0,
+    inputCost: 0,
+    outputCost: 0,
+    cacheReadCost: 0,
+    cacheWriteCost: 0,
+    missingCostEntries: 0,
+  }
+}
+
+function totalsFor(input: number, output: number) {
+  const inputCost = input * 0.000003
+  const outputCost = output * 0.000015
+  return {
+    ...emptyTotals(),
+    input,
+    output,
+    totalTokens: input + output,
+    inputCost,
+    outputCost,
+    totalCost: inputCost + outputCost,
+  }
+}
+
+function addTotals(into: ReturnType<typeof emptyTotals>, add: ReturnType<typeof emptyTotals>): void {
+  for (const key of Object.keys(into) as Array<keyof typeof into>) {
+    into[key] += add[key]
+  }
+}
+
+function isoDate(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10)
+}
+
+function composeReply(text: string, toolName: string): string {
+  const quoted = text.length > 80 ? `${text.slice(0, 77)}...` : text
+  return [
+    `This reply comes from the **mock gateway**, so nothing left your browser.`,
+    '',
+    `You asked: _${quoted}_`,
+    '',
+    `- The \`${toolName}\` tool call above was simulated`,
+    '- Streaming, tool and lifecycle events follow the real gateway format',
+    '- Sessions, cron jobs, config and agent files are kept in memory until reload',
+  ].join('\n')
+}
+
+/**
+ * 内存中的网关实现：按真实 Gateway 的方法名与返回结构响应 RPC，
+ * 并为 chat.send 产生 agent/chat 流式事件。与 UI 框架无关，可在测试中直接实例化。
+ */
+export class MockGateway {
+  readonly state: MockState
+  private readonly listeners = new Set<MockEventListener>()
+  private readonly runs = new Map<string, ActiveRun>()
+  private readonly handlers: Record<string, Handler>
+  private readonly streamStepMs: number
+  private readonly latencyMs: number
+  private runCounter = 0
+  private logCursorBase = 0
+  // 与真实网关一致：同一 idempotencyKey 重复发送只返回首次结果，不重复投递
+  private readonly sentByIdempotencyKey = new Map<string, { runId: string; status: string }>()
+  // 等待人工确认的执行审批
+  private readonly pendingApprovals = new Set<string>()
+
+  constructor(options: MockGatewayOptions = {}) {
+    this.state = options.state ?? createMockState()
+    this.streamStepMs = options.streamStepMs ?? DEFAULT_STREAM_STEP_MS
+    this.latencyMs = options.latencyMs ?? DEFAULT_LATENCY_MS
+    this.handlers = {
+      health: () => this.health(),
+      status: () => this.status(),
+      'system-presence': () => this.presence(),
+      'sessions.list': () => this.listSessions(),
+      'sessions.get': (params) => this.getSession(params),
+      'sessions.reset': (params) => this.resetSession(params),
+      'sessions.delete': (params) => this.deleteSession(params),
+      'sessions.export': (params) => this.exportSession(params),
+      'sessions.usage': () => this.sessionsUsage(),
+      'usage.cost': (params) => this.usageCost(params),
+      'chat.history': (params) => this.chatHistory(params),
+      'chat.send': (params) => this.chatSend(params),
+      'chat.inject': (params) => this.chatInject(params),
+      'chat.abort': (params) => this.chatAbort(params),
+      'agent.abort': (params) => this.chatAbort(params),
+      'cron.list': (params) => this.listCron(params),
+      'cron.status': () => this.cronStatus(),
+      'cron.runs': (params) => this.cronRuns(params),
+      'cron.add': (params) => this.addCron(params),
+      'cron.update': (params) => this.updateCron(params),
+      'cron.remove': (params) => this.removeCron(params),
+      'cron.run': (params) => this.runCron(params),
+      'config.get': () => this.getConfig(),
+      'config.patch': (params) => this.patchConfig(params),
+      'config.apply': () => ({ ok: true }),
+      'agents.list': () => this.listAgents(),
+      'agents.files.list': (params) => this.listAgentFiles(params),
+      'agents.files.get': (params) => this.getAgentFile(params),
+      'agents.files.set': (params) => this.setAgentFile(params),
+      'agents.files.upload': (params) => this.uploadAgentFile(params),
+      'logs.tail': (params) => this.tailLogs(params),
+      'models.list': () => ({ models: cloneJson(this.state.models) }),
+      'tools.list': () => ({ tools: cloneJson(this.state.tools) }),
+      'skills.status': () => ({ skills: cloneJson(this.state.skills) }),
+      'plugins.list': () => ({ plugins: cloneJson(this.state.plugins) }),
+      'node.list': () => ({ nodes: cloneJson(this.state.nodes) }),
+      'channels.status': () => this.channelsStatus(),
+      'exec.approvals.get': () => this.execApprovals(),
+      'exec.approval.resolve': (params) => this.resolveExecApproval(params),
+    }
+  }
+
+  get methods(): string[] {
+    return Object.keys(this.handlers)
+  }
+
+  // connect 成功后返回给客户端的 hello 载荷
+  hello(): Record<string, unknown> {
+    return {
+      type: 'hello-ok',
+      protocol: MOCK_PROTOCOL,
+      server: { version: MOCK_SERVER_VERSION, host: 'mock-gateway' },
+      features: {
+        methods: this.methods,
+        events: ['agent', 'chat', 'cron', 'presence', 'exec.approval.requested', 'exec.approval.resolved'],
+      },
+      policy: { tickIntervalMs: 30000 },
+    }
+  }
+
+  subscribe(listener: MockEventListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  async request(method: string, params: unknown): Promise<unknown> {
+    const handler = this.handlers[method]
+    if (this.latencyMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, this.latencyMs))
+    }
+    if (!handler) {
+      throw new MockGatewayError('INVALID_REQUEST', `unknown method: ${method}`)
+    }
+    return handler(asRecord(params))
+  }
+
+  // 停止所有进行中的模拟回复（测试清理或重置演示数据时使用）
+  dispose(): void {
+    for (const run of this.runs.values()) {
+      if (run.timer) clearTimeout(run.timer)
+    }
+    this.runs.clear()
+    this.listeners.clear()
+  }
+
+  private emit(event: string, payload: unknown): void {
+    for (const listener of this.listeners) {
+      listener(event, payload)
+    }
+  }
+
+  private log(level: string, subsystem: string, message: string): void {
+    this.state.logLines.push(formatMockLogLine(Date.now(), level, subsystem, message))
+    // 只保留最近的日志，cursor 仍按累计行数递增
+    if (this.state.logLines.length > 500) {
+      this.state.logLines.shift()
+      this.logCursorBase += 1
+    }
+  }
+
+  private requireSession(params: Params): MockSession {
+    const key = pickString(params, ['sessionKey', 'key', 'session'])
+    if (!key) throw new MockGatewayError('INVALID_REQUEST', 'invalid params: missing required property "key"')
+    const session = this.state.sessions.find((item) => item.key === key)
+    if (!session) throw new MockGatewayError('NOT_FOUND', `session not found: ${key}`)
+    return session
+  }
+
+  private ensureSession(key: string): MockSession {
+    const existing = this.state.sessions.find((item) => item.key === key)
+    if (existing) return existing
+    const agentId = key.startsWith('agent:') ? key.split(':')[1] || 'main' : 'main'
+    const session: MockSession = {
+      key,
+      sessionId: `mock-session-${Date.now().toString(36)}`,
+      agentId,
+      channel: 'webchat',
+      model: MOCK_DEFAULT_MODEL,
+      updatedAt: Date.now(),
+      inputTokens: 0,
+      outputTokens: 0,
+      messages: [],
+    }
+    this.state.sessions.unshift(session)
+    return session
+  }
+
+  private requireAgent(params: Params): MockAgent {
+    const agentId = pickString(params, ['agentId', 'id', 'agent'])
+    const agent = this.state.agents.find((item) => item.id === agentId)
+    if (!agent) throw new MockGatewayError('NOT_FOUND', `unknown agent: ${agentId || '(empty)'}`)
+    return agent
+  }
+
+  // ---- 状态概览 ----
+
+  private health() {
+    const now = Date.now()
+    const recent = this.state.sessions.slice(0, 5).map((session) => ({
+      key: session.key,
+      updatedAt: session.updatedAt,
+      age: now - session.updatedAt,
+    }))
+    const sessions = { path: '~/.openclaw/agents/main/sessions/sessions.json', count: this.state.sessions.length, recent }
+    return {
+      ok: true,
+      ts: now,
+      durationMs: 3,
+      channels: {
+        telegram: { accountId: 'default', configured: true, linked: true, authAgeMs: null },
+        discord: { accountId: 'default', configured: true, linked: true, authAgeMs: null },
+      },
+      channelOrder: ['telegram', 'discord'],
+      channelLabels: { telegram: 'Telegram', discord: 'Discord' },
+      heartbeatSeconds: 1800,
+      defaultAgentId: 'main',
+      agents: this.state.agents.map((agent) => ({
+        agentId: agent.id,
+        name: agent.name,
+        isDefault: agent.id === 'main',
+        heartbeat: { enabled: agent.id === 'main', every: '30m' },
+        sessions: {
+          ...sessions,
+          count: this.state.sessions.filter((session) => session.agentId === agent.id).length,
+          recent: recent.filter((entry) => entry.key.startsWith(`agent:${agent.id}:`)),
+        },
+      })),
+      sessions,
+    }
+  }
+
+  private status() {
+    const now = Date.now()
+    const recent = this.state.sessions.map((session) => ({
+      agentId: session.agentId,
+      key: session.key,
+      kind: session.key.includes(':channel:') ? 'group' : 'direct',
+      sessionId: session.sessionId,
+      updatedAt: session.updatedAt,
+      age: now - session.updatedAt,
+      inputTokens: session.inputTokens,
+      outputTokens: session.outputTokens,
+      totalTokens: session.inputTokens + session.outputTokens,
+      totalTokensFresh: true,
+      remainingTokens: 200000 - session.inputTokens - session.outputTokens,
+      percentUsed: Math.round(((session.inputTokens + session.outputTokens) / 200000) * 100),
+      model: session.model,
+      contextTokens: 200000,
+      flags: [],
+    }))
+    return {
+      heartbeat: {
+        defaultAgentId: 'main',
+        agents: this.state.agents.map((agent) => ({
+          agentId: agent.id,
+          enabled: agent.id === 'main',
+          every: '30m',
+          everyMs: 30 * 60_000,
+        })),
+      },
+      channelSummary: ['Telegram: linked', 'Discord: linked'],
+      queuedSystemEvents: [],
+      sessions: {
+        paths: ['~/.openclaw/agents/main/sessions/sessions.json'],
+        count: recent.length,
+        defaults: { model: MOCK_DEFAULT_MODEL, contextTokens: 200000 },
+        recent,
+        byAgent: this.state.agents.map((agent) => ({
+          agentId: agent.id,
+          path: `~/.openclaw/agents/${agent.id}/sessions/sessions.json`,
+          count: recent.filter((entry) => entry.agentId === agent.id).length,
+          recent: recent.filter((entry) => entry.agentId === agent.id),
+        })),
+      },
+    }
+  }
+
+  private presence() {
+    const now = Date.now()
+    return [
+      {
+        instanceId: 'mock-gateway',
+        host: 'mock-gateway',
+        ip: '127.0.0.1',
+        version: MOCK_SERVER_VERSION,
+        platform: 'web',
+        mode: 'gateway',
+        reason: 'self',
+        text: 'Mock gateway (in-browser)',
+        ts: now,
+      },
+      {
+        instanceId: 'mock-node-macbook',
+        host: 'MacBook Pro',
+        platform: 'darwin',
+        deviceFamily: 'Mac',
+        mode: 'node',
+        roles: ['node'],
+        lastInputSeconds: 42,
+        reason: 'periodic',
+        ts: now - 60_000,
+      },
+    ]
+  }
+
+  private channelsStatus() {
+    return {
+      ts: Date.now(),
+      channelOrder: ['telegram', 'discord'],
+      channelLabels: { telegram: 'Telegram', discord: 'Discord' },
+      channels: {
+        telegram: { configured: true, running: true, connected: true },
+        discord: { configured: true, running: true, connected: true },
+      },
+      channelAccounts: {
+        telegram: [{ accountId: 'default', enabled: true, configured: true, running: true, connected: true }],
+        discord: [{ accountId: 'default', enabled: true, configured: true, running: true, connected: true }],
+      },
+      channelDefaultAccountId: { telegram: 'default', discord: 'default' },
+    }
+  }
+
+  private execApprovals() {
+    const file = {
+      version: 1,
+      defaults: { security: 'allowlist', ask: 'on-miss' },
+      agents: {
+        main: { allowlist: [{ pattern: '/usr/bin/git' }, { pattern: '/bin/ls' }] },
+      },
+    }
+    return {
+      path: '~/.openclaw/exec-approvals.json',
+      exists: true,
+      hash: hashConfig(file),
+      file,
+    }
+  }
+
+  private resolveExecApproval(params: Params) {
+    const id = pickString(params, ['id', 'approvalId'])
+    const decision = pickString(params, ['decision'])
+    if (!this.pendingApprovals.has(id)) throw new MockGatewayError('NOT_FOUND', `unknown approval id: ${id || '(empty)'}`)
+    if (decision !== 'allow-once' && decision !== 'allow-always' && decision !== 'deny') {
+      throw new MockGatewayError('INVALID_REQUEST', 'invalid params: decision must be allow-once, allow-always or deny')
+    }
+    this.pendingApprovals.delete(id)
+    this.emit('exec.approval.resolved', { id, decision, resolvedBy: 'mock-web', ts: Date.now() })
+    this.log('info', 'exec', `approval ${id} resolved: ${decision}`)
+    return { ok: true }
+  }
+
+  // ---- 会话 ----
+
+  private sessionRow(session: MockSession) {
+    return {
+      key: session.key,
+      sessionId: session.sessionId,
+      agentId: session.agentId,
+      label: session.label,
+      kind: session.key.includes(':channel:') ? 'group' : 'direct',
+      lastChannel: session.channel,
+      updatedAt: session.updatedAt,
+      model: session.model,
+      inputTokens: session.inputTokens,
+      outputTokens: session.outputTokens,
+      totalTokens: session.inputTokens + session.outputTokens,
+      messageCount: session.messages.length,
+    }
+  }
+
+  private listSessions() {
+    const sessions = [...this.state.sessions].sort((a, b) => b.updatedAt - a.updatedAt)
+    return {
+      ts: Date.now(),
+      path: '~/.openclaw/agents/main/sessions/sessions.json',
+      count: sessions.length,
+      sessions: sessions.map((session) => this.sessionRow(session)),
+    }
+  }
+
+  private getSession(params: Params) {
+    const session = this.requireSession(params)
+    return { ...this.sessionRow(session), messages: cloneJson(session.messages) }
+  }
+
+  private resetSession(params: Params) {
+    // reason=new 用于新建会话，Key 不存在时直接创建
+    const key = pickString(params, ['key', 'sessionKey'])
+    const session = key && pickString(params, ['reason']) === 'new' ? this.ensureSession(key) : this.requireSession(params)
+    session.messages = []
+    session.inputTokens = 0
+    session.outputTokens = 0
+    session.sessionId = `mock-session-${Date.now().toString(36)}`
+    session.updatedAt = Date.now()
+    this.log('info', 'sessions', `session reset: ${session.key}`)
+    return { ok: true, key: session.key }
+  }
+
+  private deleteSession(params: Params) {
+    const session = this.requireSession(params)
+    this.state.sessions = this.state.sessions.filter((item) => item !== session)
+    this.log('info', 'sessions', `session deleted: ${session.key}`)
+    return { ok: true, key: session.key }
+  }
+
+  private exportSession(params: Params) {
+    const session = this.requireSession(params)
+    return {
+      key: session.key,
+      sessionId: session.sessionId,
+      exportedAt: new Date().toISOString(),
+      messages: cloneJson(session.messages),
+    }
+  }
+
+  private sessionsUsage() {
+    const now = Date.now()
+    const totals = emptyTotals()
+    const sessions = this.state.sessions.map((session) => {
+      const usage = totalsFor(session.inputTokens, session.outputTokens)
+      addTotals(totals, usage)
+      return {
+        key: session.key,
+        label: session.label,
+        sessionId: session.sessionId,
+        updatedAt: session.updatedAt,
+        agentId: session.agentId,
+        channel: session.channel,
+        chatType: 'direct',
+        modelProvider: session.model.split('/')[0],
+        model: session.model,
+        usage,
+      }
+    })
+    const messages = this.state.sessions.flatMap((session) => session.messages)
+    const byKey = (keyOf: (session: MockSession) => string) => {
+      const map = new Map<string, ReturnType<typeof emptyTotals>>()
+      for (const session of this.state.sessions) {
+        const key = keyOf(session)
+        const entry = map.get(key) ?? emptyTotals()
+        addTotals(entry, totalsFor(session.inputTokens, session.outputTokens))
+        map.set(key, entry)
+      }
+      return [...map.entries()]
+    }
+    return {
+      updatedAt: now,
+      startDate: isoDate(now - 6 * 86_400_000),
+      endDate: isoDate(now),
+      sessions,
+      totals,
+      aggregates: {
+        messages: {
+          total: messages.length,
+          user: messages.filter((item) => item.role === 'user').length,
+          assistant: messages.filter((item) => item.role === 'assistant').length,
+          toolCalls: messages.filter((item) => item.role === 'tool').length,
+          toolResults: messages.filter((item) => item.role === 'tool').length,
+          errors: 0,
+        },
+        tools: { totalCalls: 1, uniqueTools: 1, tools: [{ name: 'calendar', count: 1 }] },
+        byModel: byKey((session) => session.model).map(([model, entryTotals]) => ({
+          provider: model.split('/')[0],
+          model,
+          count: this.state.sessions.filter((session) => session.model === model).length,
+          totals: entryTotals,
+        })),
+        byProvider: byKey((session) => session.model.split('/')[0] || 'unknown').map(([provider, entryTotals]) => ({
+          provider,
+          count: this.state.sessions.filter((session) => session.model.startsWith(`${provider}/`)).length,
+          totals: entryTotals,
+        })),
+        byAgent: byKey((session) => session.agentId).map(([agentId, entryTotals]) => ({ agentId, totals: entryTotals })),
+        byChannel: byKey((session) => session.channel).map(([channel, entryTotals]) => ({ channel, totals: entryTotals })),
+        daily: Array.from({ length: 7 }, (_, index) => {
+          const tokens = 4000 + ((index * 3571) % 9000)
+          return {
+            date: isoDate(now - (6 - index) * 86_400_000),
+            tokens,
+            cost: Number((tokens * 0.000006).toFixed(4)),
+            messages: 6 + (index % 4) * 3,
+            toolCalls: index % 3,
+            errors: index === 4 ? 1 : 0,
+          }
+        }),
+      },
+    }
+  }
+
+  private usageCost(params: Params) {
+    const now = Date.now()
+    const days = typeof params.days === 'number' && params.days > 0 ? Math.min(Math.floor(params.days), 90) : 30
+    const totals = emptyTotals()
+    const daily = Array.from({ length: days }, (_, index) => {
+      const input = 9000 + ((index * 7919) % 15000)
+      const output = 2500 + ((index * 3571) % 5000)
+      const entry = totalsFor(input, output)
+      addTotals(totals, entry)
+      return { date: isoDate(now - (days - 1 - index) * 86_400_000), ...entry }
+    })
+    return { updatedAt: now, days, daily, totals }
+  }
+
+  // ---- 对话 ----
+
+  private chatHistory(params: Params) {
+    const key = pickString(params, ['sessionKey', 'key', 'session'])
+    const session = this.state.sessions.find((item) => item.key === key)
+    return {
+      sessionKey: key,
+      sessionId: session?.sessionId,
+      messages: session ? cloneJson(session.messages) : [],
+    }
+  }
+
+  private chatSend(params: Params) {
+    const sessionKey = pickString(params, ['sessionKey', 'key', 'session'])
+    const text = pickString(params, ['userMessage', 'message', 'input', 'text', 'content'])
+    if (!sessionKey) throw new MockGatewayError('INVALID_REQUEST', 'invalid params: missing required property "sessionKey"')
+    if (!text) throw new MockGatewayError('INVALID_REQUEST', 'invalid params: missing required property "message"')
+
+    const idempotencyKey = pickString(params, ['idempotencyKey'])
+    const duplicate = idempotencyKey ? this.sentByIdempotencyKey.get(idempotencyKey) : undefined
+    if (duplicate) {
+      return { ...duplicate, status: this.runs.has(duplicate.runId) ? 'in_flight' : 'ok', cached: true }
+    }
+
+    const session = this.ensureSession(sessionKey)
+    const model = pickString(params, ['modelRef', 'modelOverride', 'model'])
+    if (model) session.model = model
+    session.messages.push(createMockMessage('user', text, Date.now()))
+    session.updatedAt = Date.now()
+    session.inputTokens += text.length * 4
+
+    this.runCounter += 1
+    const runId = idempotencyKey || `mock-run-${Date.now().toString(36)}-${this.runCounter}`
+    if (idempotencyKey) {
+      this.sentByIdempotencyKey.set(idempotencyKey, { runId, status: 'started' })
+      if (this.sentByIdempotencyKey.size > MAX_IDEMPOTENCY_KEYS) {
+        const oldest = this.sentByIdempotencyKey.keys().next().value
+        if (oldest !== undefined) this.sentByIdempotencyKey.delete(oldest)
+      }
+    }
+    this.startRun({ runId, sessionKey, text: '', timer: null }, text)
+    this.log('info', 'agent', `run started for ${sessionKey}`)
+    return { runId, status: 'started' }
+  }
+
+  private chatInject(params: Params) {
+    const sessionKey = pickString(params, ['sessionKey', 'key', 'session'])
+    const text = pickString(params, ['message', 'text', 'content'])
+    if (!sessionKey) throw new MockGatewayError('INVALID_REQUEST', 'invalid params: missing required property "sessionKey"')
+    if (!text) throw new MockGatewayError('INVALID_REQUEST', 'invalid params: missing required property "message"')
+
+    const session = this.ensureSession(sessionKey)
+    const message = createMockMessage('assistant', text, Date.now())
+    session.messages.push(message)
+    session.updatedAt = Date.now()
+    return { ok: true, messageId: message.id }
+  }
+
+  private chatAbort(params: Params) {
+    const runId = pickString(params, ['runId'])
+    const sessionKey = pickString(params, ['sessionKey', 'key'])
+    const targets = [...this.runs.values()].filter((run) =>
+      runId ? run.runId === runId : !sessionKey || run.sessionKey === sessionKey,
+    )
+    for (const run of targets) {
+      this.finishRun(run, 'aborted')
+    }
+    return { ok: true, aborted: targets.length > 0, runIds: targets.map((run) => run.runId) }
+  }
+
+  private startRun(run: ActiveRun, userText: string): void {
+    this.runs.set(run.runId, run)
+    const toolName = /search|find|look up|news/i.test(userText) ? 'web_search' : 'read'
+    const toolCallId = `${run.runId}-tool-1`
+    const chunks = composeReply(userText, toolName).match(/\S+\s*/g) ?? []
+    const agentEvent = (stream: string, data: Params) =>
+      this.emit('agent', { runId: run.runId, sessionKey: run.sessionKey, stream, ts: Date.now(), data })
+
+    const steps: Array<() => void> = [
+      () => agentEvent('lifecycle', { phase: 'start' }),
+    ]
+    // 提到执行命令时模拟一次审批请求，便于演示审批提示
+    if (/\b(exec|shell|run command)\b/i.test(userText)) {
+      steps.push(() => {
+        const id = `mock-approval-${run.runId}`
+        this.pendingApprovals.add(id)
+        const now = Date.now()
+        this.emit('exec.approval.requested', {
+          id,
+          request: {
+            command: 'rg --files src',
+            cwd: '~/.openclaw/workspace',
+            resolvedPath: '/usr/bin/rg',
+            agentId: run.sessionKey.startsWith('agent:') ? run.sessionKey.split(':')[1] || 'main' : 'main',
+            sessionKey: run.sessionKey,
+            host: 'gateway',
+            security: 'allowlist',
+            ask: 'on-miss',
+          },
+          createdAtMs: now,
+          expiresAtMs: now + 120_000,
+        })
+      })
+    }
+    steps.push(
+      () =>
+        agentEvent('tool', {
+          phase: 'start',
+          name: toolName,
+          toolCallId,
+          args: toolName === 'web_search' ? { query: userText } : { path: 'AGENTS.md' },
+        }),
+      () =>
+        agentEvent('tool', {
+          phase: 'result',
+          name: toolName,
+          toolCallId,
+          isError: false,
+          result: toolName === 'web_search' ? '3 results (simulated)' : '# Agents\n\nYou are Claw...',
+        }),
+    )
+    // 每次推送 2~3 个词，节奏接近真实模型输出
+    for (let index = 0; index < chunks.length; index += 3) {
+      const delta = chunks.slice(index, index + 3).join('')
+      steps.push(() => {
+        run.text += delta
+        agentEvent('assistant', { text: run.text, delta })
+        this.emit('chat', {
+          runId: run.runId,
+          sessionKey: run.sessionKey,
+          state: 'delta',
+          message: { role: 'assistant', content: textContent(run.text), timestamp: Date.now() },
+        })
+      })
+    }
+    steps.push(() => this.finishRun(run, 'final'))
+
+    const next = () => {
+      const step = steps.shift()
+      if (!step || !this.runs.has(run.runId)) return
+      step()
+      run.timer = steps.length > 0 ? setTimeout(next, this.streamStepMs) : null
+    }
+    run.timer = setTimeout(next, this.streamStepMs)
+  }
+
+  private finishRun(run: ActiveRun, state: 'final' | 'aborted'): void {
+    if (run.timer) clearTimeout(run.timer)
+    run.timer = null
+    this.runs.delete(run.runId)
+
+    const session = this.state.sessions.find((item) => item.key === run.sessionKey)
+    let message: MockChatMessage | undefined
+    if (session && run.text.trim()) {
+      message = createMockMessage('assistant', run.text.trimEnd(), Date.now(), { model: session.model })
+      session.messages.push(message)
+      session.updatedAt = Date.now()
+      session.outputTokens += run.text.length
+    }
+
+    this.emit('chat', {
+      runId: run.runId,
+      sessionKey: run.sessionKey,
+      state,
+      ...(message ? { message: cloneJson(message) } : {}),
+    })
+    this.emit('agent', {
+      runId: run.runId,
+      sessionKey: run.sessionKey,
+      stream: 'lifecycle',
+      ts: Date.now(),
+      data: { phase: 'end', aborted: state === 'aborted' },
+    })
+    this.log('info', 'agent', `run ${state === 'final' ? 'finished' : 'aborted'} for ${run.sessionKey}`)
+  }
+
+  // ---- 定时任务 ----
+
+  private findCron(params: Params): Params {
+    const id = pickString(params, ['id', 'jobId', 'taskId'])
+    const job = this.state.cronJobs.find((item) => item.id === id)
+    if (!job) throw new MockGatewayError('NOT_FOUND', `cron job not found: ${id || '(empty)'}`)
+    return job
+  }
+
+  private listCron(params: Params) {
+    const includeDisabled = params.includeDisabled === true
+    const jobs = this.state.cronJobs.filter((job) => includeDisabled || job.enabled !== false)
+    return { jobs: cloneJson(jobs) }
+  }
+
+  private cronStatus() {
+    const nextWakes = this.state.cronJobs
+      .filter((job) => job.enabled !== false)
+      .map((job) => asRecord(job.state).nextRunAtMs)
+      .filter((value): value is number => typeof value === 'number')
+    return {
+      enabled: true,
+      jobs: this.state.cronJobs.length,
+      nextWakeAtMs: nextWakes.length > 0 ? Math.min(...nextWakes) : undefined,
+    }
+  }
+
+  private cronRuns(params: Params) {
+    const job = this.findCron(params)
+    const limit = typeof params.limit === 'number' && params.limit > 0 ? params.limit : 50
+    const entries = this.state.cronRuns
+      .filter((run) => run.jobId === job.id)
+      .sort((a, b) => b.ts - a.ts)
+      .slice(0, limit)
+    return { entries: cloneJson(entries) }
+  }
+
+  private addCron(params: Params) {
+    const raw = asRecord(params.job ?? params)
+    const name = asString(raw.name)
+    if (!name) throw new MockGatewayError('INVALID_REQUEST', 'invalid params: missing required property "name"')
+    if (!raw.schedule) throw new MockGatewayError('INVALID_REQUEST', 'invalid params: missing required property "schedule"')
+    const now = Date.now()
+    const job: Params = {
+      sessionTarget: 'isolated',
+      wakeMode: 'now',
+      enabled: true,
+      ...cloneJson(raw),
+      id: asString(raw.id) || `mock-cron-${now.toString(36)}`,
+      createdAtMs: now,
+      updatedAtMs: now,
+      state: { nextRunAtMs: now + 60 * 60_000 },
+    }
+    this.state.cronJobs.push(job)
+    this.log('info', 'cron', `job added: ${String(job.id)}`)
+    return cloneJson(job)
+  }
+
+  private updateCron(params: Params) {
+    const job = this.findCron(params)
+    const patch = asRecord(params.patch ?? params)
+    for (const [key, value] of Object.entries(patch)) {
+      if (key === 'id' || key === 'jobId' || key === 'taskId') continue
+      job[key] = cloneJson(value)
+    }
+    job.updatedAtMs = Date.now()
+    return cloneJson(job)
+  }
+
+  private removeCron(params: Params) {
+    const job = this.findCron(params)
+    this.state.cronJobs = this.state.cronJobs.filter((item) => item !== job)
+    this.state.cronRuns = this.state.cronRuns.filter((run) => run.jobId !== job.id)
+    return { ok: true, removed: true }
+  }
+
+  private runCron(params: Params) {
+    const job = this.findCron(params)
+    const jobId = String(job.id)
+    const mode = asString(params.mode) || 'force'
+    if (mode === 'due' && asRecord(job.state).nextRunAtMs && Number(asRecord(job.state).nextRunAtMs) > Date.now()) {
+      return { ok: true, ran: false, reason: 'not-due' }
+    }
+
+    const runAtMs = Date.now()
+    this.emit('cron', { jobId, action: 'started', runAtMs })
+    setTimeout(() => {
+      const durationMs = Date.now() - runAtMs
+      this.state.cronRuns.push({
+        ts: Date.now(),
+        jobId,
+        action: 'finished',
+        status: 'ok',
+        summary: 'Manual run completed (mock)',
+        runAtMs,
+        durationMs,
+      })
+      job.state = {
+        ...asRecord(job.state),
+        lastRunAtMs: runAtMs,
+        lastStatus: 'ok',
+        lastDurationMs: durationMs,
+        consecutiveErrors: 0,
+      }
+      this.emit('cron', { jobId, action: 'finished', status: 'ok', runAtMs, durationMs })
+      this.log('info', 'cron', `job ${jobId} finished (manual)`)
+    }, this.streamStepMs * 10)
+    return { ok: true, ran: true }
+  }
+
+  // ---- 配置 ----
+
+  private getConfig() {
+    const raw = JSON.stringify(this.state.config, null, 2)
+    return {
+      path: '~/.openclaw/openclaw.json',
+      exists: true,
+      raw,
+      hash: this.state.configHash,
+      valid: true,
+      config: cloneJson(this.state.config),
+    }
+  }
+
+  private patchConfig(params: Params) {
+    const baseHash = asString(params.baseHash)
+    if (baseHash && baseHash !== this.state.configHash) {
+      throw new MockGatewayError('CONFLICT', 'config changed since last load; re-run config.get and retry')
+    }
+
+    if (typeof params.raw === 'string') {
+      let patch: unknown
+      try {
+        patch = JSON.parse(params.raw)
+      } catch {
+        throw new MockGatewayError('INVALID_REQUEST', 'invalid params: raw must be JSON')
+      }
+      applyMergePatch(this.state.config, asRecord(patch))
+    } else if (Array.isArray(params.patches)) {
+      for (const item of params.patches) {
+        const row = asRecord(item)
+        const path = asString(row.path)
+        if (path) setAtPath(this.state.config, path, row.value ?? null)
+      }
+    } else {
+      throw new MockGatewayError('INVALID_REQUEST', 'invalid params: missing required property "raw"')
+    }
+
+    this.state.configHash = hashConfig(this.state.config)
+    this.log('info', 'config', 'config patched')
+    return { ok: true, hash: this.state.configHash, restart: { scheduled: false } }
+  }
+
+  // ---- 智能体与工作区文件 ----
+
+  private listAgents() {
+    return {
+      defaultId: 'main',
+      mainKey: 'main',
+      scope: 'per-sender',
+      agents: this.state.agents.map((agent) => ({
+        id: agent.id,
+        name: agent.name,
+        identity: { name: agent.name, emoji: agent.emoji },
+        workspace: agent.workspace,
+        default: agent.id === 'main',
+      })),
+    }
+  }
+
+  private fileRow(agent: MockAgent, name: string, withContent: boolean) {
+    const file = agent.files.find((item) => item.name === name)
+    const path = `${agent.workspace}/${name}`
+    if (!file) return { name, path, missing: true }
+    return {
+      name,
+      path,
+      missing: false,
+      size: file.encoding === 'base64'
+        ? Math.floor((file.content.length * 3) / 4) - (file.content.match(/=+$/)?.[0].length ?? 0)
+        : new TextEncoder().encode(file.content).length,
+      updatedAtMs: file.updatedAtMs,
+      ...(withContent ? { content: file.content } : {}),
+    }
+  }
+
+  private listAgentFiles(params: Params) {
+    const agent = this.requireAgent(params)
+    return {
+      agentId: agent.id,
+      workspace: agent.workspace,
+      files: agent.files.map((file) => this.fileRow(agent, file.name, false)),
+    }
+  }
+
+  private getAgentFile(params: Params) {
+    const agent = this.requireAgent(params)
+    const name = pickString(params, ['name'])
+    if (!name) throw new MockGatewayError('INVALID_REQUEST', 'invalid params: missing required property "name"')
+    return { agentId: agent.id, workspace: agent.workspace, file: this.fileRow(agent, name, true) }
+  }
+
+  private setAgentFile(params: Params) {
+    const agent = this.requireAgent(params)
+    const name = pickString(params, ['name'])
+    if (!name) throw new MockGatewayError('INVALID_REQUEST', 'invalid params: missing required property "name"')
+    const content = typeof params.content === 'string' ? params.content : ''
+    const existing = agent.files.find((item) => item.name === name)
+    if (existing) {
+      existing.content = content
+      existing.updatedAtMs = Date.now()
+    } else {
+      agent.files.push({ name, content, updatedAtMs: Date.now() })
+    }
+    this.log('info', 'agents', `file written: ${agent.id}/${name}`)
+    return { ok: true, agentId: agent.id, workspace: agent.workspace, file: this.fileRow(agent, name, false) }
+  }
+
+  private uploadAgentFile(params: Params) {
+    const agent = this.requireAgent(params)
+    const name = pickString(params, ['name'])
+    if (!name) throw new MockGatewayError('INVALID_REQUEST', 'invalid params: missing required property "name"')
+    const content = typeof params.content === 'string' ? params.content : ''
+    const encoding = pickString(params, ['encoding']) === 'base64' ? 'base64' : undefined
+    agent.files = agent.files.filter((item) => item.name !== name)
+    agent.files.push({ name, content, updatedAtMs: Date.now(), encoding })
+    this.log('info', 'agents', `file uploaded: ${agent.id}/${name}`)
+    return { ok: true, agentId: agent.id, workspace: agent.workspace, file: this.fileRow(agent, name, false) }
+  }
+
+  // ---- 日志 ----
+
+  private tailLogs(params: Params) {
+    const lines = this.state.logLines
+    const end = this.logCursorBase + lines.length
+    const limit = typeof params.limit === 'number' && params.limit > 0 ? Math.floor(params.limit) : 200
+    const cursor = typeof params.cursor === 'number' ? Math.floor(params.cursor) : undefined
+    // cursor 落在已丢弃的范围或超出末尾时视为日志轮转
+    const reset = cursor !== undefined && (cursor < this.logCursorBase || cursor > end)
+    const start = cursor === undefined || reset ? Math.max(this.logCursorBase, end - limit) : cursor
+    const slice = lines.slice(start - this.logCursorBase, start - this.logCursorBase + limit)
+    const nextCursor = start + slice.length
+    return {
+      file: '/tmp/openclaw/openclaw-mock.log',
+      cursor: nextCursor,
+      size: lines.reduce((total, line) => total + line.length + 1, 0),
+      lines: slice,
+      truncated: nextCursor < end,
+      ...(reset ? { reset: true } : {}),
+    }
+  }
+}
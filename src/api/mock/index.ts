@@ -0,0 +1,54 @@
+import type { WebSocketFactory } from '../runtime'
+import type { WireRecording } from '../wire-recorder'
+import { MockGateway } from './gateway'
+import { ReplayGateway } from './replay'
+import { MockWebSocket } from './socket'
+import { isMockGatewayUrl, isReplayGatewayUrl } from './urls'
+
+export { MockGateway, MockGatewayError, MOCK_PROTOCOL, MOCK_SERVER_VERSION, type MockEventListener, type MockGatewayOptions } from './gateway'
+export { ReplayGateway } from './replay'
+export { MockWebSocket, type MockBackend } from './socket'
+export { createMockState, type MockState } from './state'
+export { MOCK_GATEWAY_URL, REPLAY_GATEWAY_URL, isMockGatewayUrl, isReplayGatewayUrl } from './urls'
+
+let sharedGateway: MockGateway | null = null
+let replayRecording: WireRecording | null = null
+
+// 同一页面（或 SharedWorker）内的所有模拟连接共用一份数据，重连后状态不丢失
+export function getMockGateway(): MockGateway {
+  if (!sharedGateway) {
+    sharedGateway = new MockGateway()
+  }
+  return sharedGateway
+}
+
+export function resetMockGateway(): void {
+  sharedGateway?.dispose()
+  sharedGateway = null
+}
+
+// 录制只保存在当前上下文的内存中；SharedWorker 内创建的连接看不到页面载入的录制
+export function setReplayRecording(recording: WireRecording | null): void {
+  replayRecording = recording
+}
+
+export function getReplayRecording(): WireRecording | null {
+  return replayRecording
+}
+
+// 包装 WebSocket 工厂：mock:// 连到内存网关，replay:// 回放已载入的录制，其余地址照常建立真实连接
+export function withMockGateway(factory: WebSocketFactory, gateway?: () => MockGateway): WebSocketFactory {
+  return (url) => {
+    if (isMockGatewayUrl(url)) {
+      return new MockWebSocket((gateway ?? getMockGateway)())
+    }
+    if (isReplayGatewayUrl(url)) {
+      if (!replayRecording) {
+        throw new Error('No wire recording loaded for replay')
+      }
+      // 每次连接重新构建，回放从头开始
+      return new MockWebSocket(new ReplayGateway(replayRecording))
+    }
+    return factory(url)
+  }
+}
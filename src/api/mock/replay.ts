@@ -0,0 +1,127 @@
+import type { RPCRequest, RPCResponse } from '../types'
+import type { WireRecord, WireRecording } from '../wire-recorder'
+import { NOT_RECORDED_ERROR_CODE } from '../rpc-error'
+import { MockGatewayError, type MockEventListener } from './gateway'
+import type { MockBackend } from './socket'
+
+// 回放时单次响应的最长等待，避免录制中偶发的慢请求拖慢复现
+const MAX_REPLAY_LATENCY_MS = 5000
+
+interface RecordedExchange {
+  method: string
+  paramsKey: string
+  response: RPCResponse<unknown>
+  latencyMs: number
+  used: boolean
+}
+
+function paramsKeyOf(params: unknown): string {
+  return JSON.stringify(params ?? null)
+}
+
+/**
+ * 按录制文件回放网关：请求按 方法 + 参数 匹配录制的响应（同一请求多次出现时依次返回），
+ * 录制中的事件按原始时间间隔重新推送。录制里没有的方法返回 unknown method，
+ * 让 RPCClient 走与录制时相同的降级路径。
+ */
+export class ReplayGateway implements MockBackend {
+  private readonly exchanges: RecordedExchange[] = []
+  private readonly events: Array<{ offsetMs: number; event: string; payload: unknown }> = []
+  private readonly helloPayload: unknown
+
+  constructor(recording: WireRecording) {
+    const requests = new Map<string, WireRecord>()
+    let helloPayload: unknown = null
+    let connectedAt: number | null = null
+
+    for (const record of recording.records) {
+      if (record.kind === 'req' && record.id) {
+        requests.set(record.id, record)
+        continue
+      }
+      if (record.kind === 'res' && record.id) {
+        const request = requests.get(record.id)
+        const frame = record.frame as RPCResponse<unknown>
+        if (!request) continue
+        const method = request.method || ''
+        if (method === 'connect') {
+          if (frame.ok) {
+            helloPayload = frame.payload
+            connectedAt ??= record.at
+          }
+          continue
+        }
+        this.exchanges.push({
+          method,
+          paramsKey: paramsKeyOf((request.frame as RPCRequest).params),
+          response: frame,
+          latencyMs: Math.min(Math.max(0, record.latencyMs ?? 0), MAX_REPLAY_LATENCY_MS),
+          used: false,
+        })
+        continue
+      }
+      if (record.kind === 'event' && record.event && record.event !== 'connect.challenge') {
+        const base = connectedAt ?? recording.records[0]?.at ?? record.at
+        this.events.push({
+          offsetMs: Math.max(0, record.at - base),
+          event: record.event,
+          payload: (record.frame as { payload?: unknown }).payload,
+        })
+      }
+    }
+
+    this.helloPayload = helloPayload ?? {
+      server: { version: 'replay' },
+      features: { methods: [...new Set(this.exchanges.map((item) => item.method))] },
+    }
+  }
+
+  get requestCount(): number {
+    return this.exchanges.length
+  }
+
+  get eventCount(): number {
+    return this.events.length
+  }
+
+  hello(): unknown {
+    return this.helloPayload
+  }
+
+  async request(method: string, params: unknown): Promise<unknown> {
+    const key = paramsKeyOf(params)
+    const sameMethod = this.exchanges.filter((item) => item.method === method)
+    // 优先同参数且未用过的响应，其次同参数的最后一次，再退回同方法
+    const exchange =
+      sameMethod.find((item) => item.paramsKey === key && !item.used) ??
+      [...sameMethod].reverse().find((item) => item.paramsKey === key) ??
+      sameMethod.find((item) => !item.used) ??
+      sameMethod[sameMethod.length - 1]
+
+    if (!exchange) {
+      // 不用 "unknown method"，避免被结构缓存记为网关不支持该方法
+      throw new MockGatewayError(NOT_RECORDED_ERROR_CODE, `not in recording: ${method}`)
+    }
+    exchange.used = true
+    if (exchange.latencyMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, exchange.latencyMs))
+    }
+    if (exchange.response.ok) {
+      return exchange.response.payload
+    }
+    const error = exchange.response.error
+    throw new MockGatewayError(
+      error?.code === undefined ? 'UNAVAILABLE' : String(error.code),
+      error?.message || 'recorded error',
+    )
+  }
+
+  subscribe(listener: MockEventListener): () => void {
+    const timers = this.events.map((item) =>
+      setTimeout(() => listener(item.event, item.payload), item.offsetMs),
+    )
+    return () => {
+      timers.forEach((timer) => clearTimeout(timer))
+    }
+  }
+}
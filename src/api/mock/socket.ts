@@ -0,0 +1,149 @@
+import { WS_READY_STATE, type WebSocketLike } from '../runtime'
+import type { RPCFrame, RPCRequest } from '../types'
+import { MockGatewayError, type MockEventListener } from './gateway'
+
+function createNonce(): string {
+  const bytes = new Uint8Array(16)
+  globalThis.crypto.getRandomValues(bytes)
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+// 内存连接背后的网关实现：模拟网关与录制回放共用同一套握手
+export interface MockBackend {
+  hello(): unknown
+  request(method: string, params: unknown): Promise<unknown>
+  subscribe(listener: MockEventListener): () => void
+}
+
+/**
+ * 实现 WebSocketLike 的内存连接：走与真实网关相同的
+ * connect.challenge -> connect(设备签名) -> hello 握手，之后把 req 帧交给 MockBackend。
+ */
+export class MockWebSocket implements WebSocketLike {
+  readyState: number = WS_READY_STATE.CONNECTING
+  onopen: ((event: unknown) => void) | null = null
+  onmessage: ((event: { data: unknown }) => void) | null = null
+  onclose: ((event: { code: number; reason: string }) => void) | null = null
+  onerror: ((event: unknown) => void) | null = null
+
+  private readonly gateway: MockBackend
+  private readonly nonce = createNonce()
+  private authenticated = false
+  private seq = 0
+  private unsubscribe: (() => void) | null = null
+
+  constructor(gateway: MockBackend) {
+    this.gateway = gateway
+    // 与浏览器 WebSocket 一样异步触发 open，调用方有机会先挂上回调
+    setTimeout(() => {
+      if (this.readyState !== WS_READY_STATE.CONNECTING) return
+      this.readyState = WS_READY_STATE.OPEN
+      this.onopen?.({ type: 'open' })
+      this.pushEvent('connect.challenge', { nonce: this.nonce, ts: Date.now() })
+    }, 0)
+  }
+
+  send(data: string): void {
+    if (this.readyState !== WS_READY_STATE.OPEN) {
+      throw new Error('MockWebSocket is not open')
+    }
+    let frame: RPCFrame
+    try {
+      frame = JSON.parse(data) as RPCFrame
+    } catch {
+      this.close(1003, 'invalid frame')
+      return
+    }
+    if (frame.type !== 'req') return
+    if (frame.method === 'connect') {
+      this.handleConnect(frame)
+      return
+    }
+    if (!this.authenticated) {
+      this.reply(frame.id, false, undefined, new MockGatewayError('UNAUTHORIZED', 'connect handshake required'))
+      return
+    }
+    void this.gateway.request(frame.method, frame.params).then(
+      (payload) => this.reply(frame.id, true, payload),
+      (error: unknown) => this.reply(frame.id, false, undefined, error),
+    )
+  }
+
+  close(code = 1000, reason = ''): void {
+    if (this.readyState === WS_READY_STATE.CLOSED || this.readyState === WS_READY_STATE.CLOSING) return
+    this.readyState = WS_READY_STATE.CLOSING
+    this.unsubscribe?.()
+    this.unsubscribe = null
+    setTimeout(() => {
+      this.readyState = WS_READY_STATE.CLOSED
+      this.onclose?.({ code, reason })
+    }, 0)
+  }
+
+  private handleConnect(frame: RPCRequest): void {
+    const params = (frame.params ?? {}) as {
+      minProtocol?: unknown
+      maxProtocol?: unknown
+      device?: { id?: unknown; signature?: unknown; nonce?: unknown }
+    }
+    const hello = this.gateway.hello() as { protocol?: unknown }
+    // 与真实网关一致：客户端上报的范围不含网关的协议版本时拒绝握手
+    if (
+      typeof hello.protocol === 'number' &&
+      typeof params.minProtocol === 'number' &&
+      typeof params.maxProtocol === 'number' &&
+      (hello.protocol < params.minProtocol || hello.protocol > params.maxProtocol)
+    ) {
+      this.reply(
+        frame.id,
+        false,
+        undefined,
+        new MockGatewayError('INVALID_REQUEST', 'protocol mismatch', { expectedProtocol: hello.protocol }),
+      )
+      return
+    }
+    const device = params.device
+    // 不校验签名本身，只确认客户端完成了基于 nonce 的设备签名流程
+    if (!device || typeof device.signature !== 'string' || !device.signature || typeof device.id !== 'string') {
+      this.reply(frame.id, false, undefined, new MockGatewayError('INVALID_REQUEST', 'device signature required'))
+      return
+    }
+    if (device.nonce !== this.nonce) {
+      this.reply(frame.id, false, undefined, new MockGatewayError('INVALID_REQUEST', 'device nonce mismatch'))
+      return
+    }
+
+    this.authenticated = true
+    this.unsubscribe = this.gateway.subscribe((event, payload) => this.pushEvent(event, payload))
+    this.reply(frame.id, true, hello)
+  }
+
+  private reply(id: string, ok: boolean, payload?: unknown, error?: unknown): void {
+    const frame: Record<string, unknown> = { type: 'res', id, ok }
+    if (ok) {
+      frame.payload = payload
+    } else {
+      frame.error = {
+        code: error instanceof MockGatewayError ? error.code : 'UNAVAILABLE',
+        message: error instanceof Error ? error.message : String(error),
+        ...(error instanceof MockGatewayError && error.details ? { details: error.details } : {}),
+      }
+    }
+    this.deliver(frame)
+  }
+
+  private pushEvent(event: string, payload: unknown): void {
+    // connect.challenge 不计入 seq，与真实网关一致
+    const frame: Record<string, unknown> = { type: 'event', event, payload }
+    if (event !== 'connect.challenge') {
+      this.seq += 1
+      frame.seq = this.seq
+    }
+    this.deliver(frame)
+  }
+
+  private deliver(frame: Record<string, unknown>): void {
+    if (this.readyState !== WS_READY_STATE.OPEN) return
+    this.onmessage?.({ data: JSON.stringify(frame) })
+  }
+}
@@ -0,0 +1,407 @@
+// 模拟网关的内存数据：字段形状对齐真实 Gateway 的返回，便于离线开发与演示
+
+export interface MockChatMessage {
+  id: string
+  role: 'user' | 'assistant' | 'tool' | 'system'
+  content: Array<{ type: 'text'; text: string }>
+  timestamp: string
+  model?: string
+  toolName?: string
+}
+
+export interface MockSession {
+  key: string
+  sessionId: string
+  agentId: string
+  channel: string
+  label?: string
+  model: string
+  updatedAt: number
+  inputTokens: number
+  outputTokens: number
+  messages: MockChatMessage[]
+}
+
+export interface MockCronRun {
+  ts: number
+  jobId: string
+  action: 'finished'
+  status: 'ok' | 'error' | 'skipped'
+  summary?: string
+  error?: string
+  runAtMs: number
+  durationMs: number
+  sessionKey?: string
+}
+
+export interface MockAgentFile {
+  name: string
+  content: string
+  updatedAtMs: number
+  // 通过上传方法写入的二进制文件以 base64 保存
+  encoding?: 'base64'
+}
+
+export interface MockAgent {
+  id: string
+  name: string
+  emoji: string
+  workspace: string
+  files: MockAgentFile[]
+}
+
+export interface MockState {
+  startedAt: number
+  sessions: MockSession[]
+  cronJobs: Array<Record<string, unknown>>
+  cronRuns: MockCronRun[]
+  config: Record<string, unknown>
+  configHash: string
+  agents: MockAgent[]
+  logLines: string[]
+  models: Array<Record<string, unknown>>
+  tools: Array<Record<string, unknown>>
+  skills: Array<Record<string, unknown>>
+  plugins: Array<Record<string, unknown>>
+  nodes: Array<Record<string, unknown>>
+}
+
+const MINUTE = 60_000
+const HOUR = 60 * MINUTE
+
+export const MOCK_DEFAULT_MODEL = 'anthropic/claude-sonnet-4-5'
+
+export function textContent(text: string): MockChatMessage['content'] {
+  return [{ type: 'text', text }]
+}
+
+let messageCounter = 0
+
+export function createMockMessage(
+  role: MockChatMessage['role'],
+  text: string,
+  at: number,
+  extra?: Partial<MockChatMessage>,
+): MockChatMessage {
+  messageCounter += 1
+  return {
+    id: `mock-msg-${messageCounter}`,
+    role,
+    content: textContent(text),
+    timestamp: new Date(at).toISOString(),
+    ...extra,
+  }
+}
+
+// 配置快照的 hash 只用于乐观锁校验，不需要与真实网关算法一致
+export function hashConfig(config: Record<string, unknown>): string {
+  const text = JSON.stringify(config)
+  let hash = 0x811c9dc5
+  for (let index = 0; index < text.length; index += 1) {
+    hash ^= text.charCodeAt(index)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return `mock-${(hash >>> 0).toString(16).padStart(8, '0')}`
+}
+
+function seedSessions(now: number): MockSession[] {
+  const mainStart = now - 3 * HOUR
+  const telegramStart = now - 26 * HOUR
+  const discordStart = now - 5 * 24 * HOUR
+
+  return [
+    {
+      key: 'agent:main:main',
+      sessionId: 'mock-session-main',
+      agentId: 'main',
+      channel: 'webchat',
+      label: 'Main',
+      model: MOCK_DEFAULT_MODEL,
+      updatedAt: now - 4 * MINUTE,
+      inputTokens: 18240,
+      outputTokens: 5120,
+      messages: [
+        createMockMessage('user', 'What is on my calendar tomorrow?', mainStart),
+        createMockMessage('tool', 'calendar.list → 3 events', mainStart + 4000, { toolName: 'calendar' }),
+        createMockMessage(
+          'assistant',
+          'Tomorrow you have:\n\n- **09:30** Stand-up\n- **13:00** Lunch with Alex\n- **16:00** Design review\n\nWant me to set reminders?',
+          mainStart + 9000,
+          { model: MOCK_DEFAULT_MODEL },
+        ),
+        createMockMessage('user', 'Yes, 10 minutes before each one.', now - 5 * MINUTE),
+        createMockMessage('assistant', 'Done — three reminders are scheduled.', now - 4 * MINUTE, {
+          model: MOCK_DEFAULT_MODEL,
+        }),
+      ],
+    },
+    {
+      key: 'agent:main:telegram:dm:424242',
+      sessionId: 'mock-session-telegram',
+      agentId: 'main',
+      channel: 'telegram',
+      model: MOCK_DEFAULT_MODEL,
+      updatedAt: telegramStart + 2 * MINUTE,
+      inputTokens: 6400,
+      outputTokens: 1900,
+      messages: [
+        createMockMessage('user', 'Summarize the latest release notes', telegramStart),
+        createMockMessage(
+          'assistant',
+          'The release adds cron delivery targets, faster session loading and a new logs viewer.',
+          telegramStart + 2 * MINUTE,
+          { model: MOCK_DEFAULT_MODEL },
+        ),
+      ],
+    },
+    {
+      key: 'agent:research:discord:channel:998877',
+      sessionId: 'mock-session-discord',
+      agentId: 'research',
+      channel: 'discord',
+      model: 'openai/gpt-5',
+      updatedAt: discordStart + 10 * MINUTE,
+      inputTokens: 31000,
+      outputTokens: 8800,
+      messages: [
+        createMockMessage('user', '@bot compare SQLite and DuckDB for analytics', discordStart),
+        createMockMessage(
+          'assistant',
+          'DuckDB is columnar and vectorized, so scans and aggregations are much faster; SQLite wins for small transactional workloads.',
+          discordStart + 10 * MINUTE,
+          { model: 'openai/gpt-5' },
+        ),
+      ],
+    },
+  ]
+}
+
+function seedCronJobs(now: number): Array<Record<string, unknown>> {
+  return [
+    {
+      id: 'mock-cron-morning-brief',
+      agentId: 'main',
+      name: 'Morning brief',
+      description: 'Weather, calendar and inbox summary',
+      enabled: true,
+      createdAtMs: now - 14 * 24 * HOUR,
+      updatedAtMs: now - 2 * 24 * HOUR,
+      schedule: { kind: 'cron', expr: '0 8 * * *', tz: 'UTC' },
+      sessionTarget: 'isolated',
+      wakeMode: 'now',
+      payload: { kind: 'agentTurn', message: 'Prepare my morning brief.' },
+      delivery: { mode: 'announce', channel: 'telegram', to: '424242' },
+      state: {
+        nextRunAtMs: now + 9 * HOUR,
+        lastRunAtMs: now - 15 * HOUR,
+        lastStatus: 'ok',
+        lastDurationMs: 12400,
+      },
+    },
+    {
+      id: 'mock-cron-heartbeat-check',
+      agentId: 'main',
+      name: 'Inbox check',
+      enabled: true,
+      createdAtMs: now - 7 * 24 * HOUR,
+      updatedAtMs: now - 7 * 24 * HOUR,
+      schedule: { kind: 'every', everyMs: 30 * MINUTE },
+      sessionTarget: 'main',
+      wakeMode: 'next-heartbeat',
+      payload: { kind: 'systemEvent', text: 'Check the inbox for urgent mail.' },
+      state: {
+        nextRunAtMs: now + 12 * MINUTE,
+        lastRunAtMs: now - 18 * MINUTE,
+        lastStatus: 'error',
+        lastError: 'IMAP timeout',
+        lastDurationMs: 30000,
+        consecutiveErrors: 1,
+      },
+    },
+    {
+      id: 'mock-cron-weekly-report',
+      agentId: 'research',
+      name: 'Weekly research digest',
+      enabled: false,
+      createdAtMs: now - 30 * 24 * HOUR,
+      updatedAtMs: now - 3 * 24 * HOUR,
+      schedule: { kind: 'cron', expr: '0 17 * * 5', tz: 'Europe/Berlin' },
+      sessionTarget: 'isolated',
+      wakeMode: 'now',
+      payload: { kind: 'agentTurn', message: 'Write the weekly research digest.', model: 'openai/gpt-5' },
+      delivery: { mode: 'none' },
+      state: {},
+    },
+  ]
+}
+
+function seedCronRuns(now: number): MockCronRun[] {
+  const runs: MockCronRun[] = []
+  for (let day = 1; day <= 5; day += 1) {
+    const runAtMs = now - day * 24 * HOUR - 15 * HOUR
+    runs.push({
+      ts: runAtMs + 12000,
+      jobId: 'mock-cron-morning-brief',
+      action: 'finished',
+      status: 'ok',
+      summary: 'Brief delivered to telegram',
+      runAtMs,
+      durationMs: 11000 + day * 300,
+      sessionKey: `agent:main:cron:mock-cron-morning-brief:${day}`,
+    })
+  }
+  runs.push({
+    ts: now - 18 * MINUTE + 30000,
+    jobId: 'mock-cron-heartbeat-check',
+    action: 'finished',
+    status: 'error',
+    error: 'IMAP timeout',
+    runAtMs: now - 18 * MINUTE,
+    durationMs: 30000,
+  })
+  return runs
+}
+
+function seedConfig(): Record<string, unknown> {
+  return {
+    gateway: {
+      port: 18789,
+      bind: 'loopback',
+      auth: { mode: 'token', token: 'mock-gateway-token' },
+    },
+    agents: {
+      defaults: {
+        model: { primary: MOCK_DEFAULT_MODEL, fallbacks: ['openai/gpt-5'] },
+        workspace: '~/.openclaw/workspace',
+        heartbeat: { every: '30m' },
+      },
+      list: [
+        { id: 'main', default: true, identity: { name: 'Claw', emoji: '🦞' } },
+        { id: 'research', workspace: '~/.openclaw/workspace-research', identity: { name: 'Scout', emoji: '🔭' } },
+      ],
+    },
+    channels: {
+      telegram: { enabled: true, botToken: 'mock-telegram-token', dmPolicy: 'pairing' },
+      discord: { enabled: true, token: 'mock-discord-token', groupPolicy: 'allowlist' },
+    },
+    models: {
+      providers: {
+        anthropic: { apiKey: 'mock-anthropic-key' },
+        openai: { apiKey: 'mock-openai-key' },
+      },
+    },
+    cron: { enabled: true },
+  }
+}
+
+function seedAgents(now: number): MockAgent[] {
+  return [
+    {
+      id: 'main',
+      name: 'Claw',
+      emoji: '🦞',
+      workspace: '~/.openclaw/workspace',
+      files: [
+        {
+          name: 'AGENTS.md',
+          content: '# Agents\n\nYou are Claw, a helpful personal assistant.\n',
+          updatedAtMs: now - 3 * 24 * HOUR,
+        },
+        { name: 'SOUL.md', content: 'Be concise, warm and proactive.\n', updatedAtMs: now - 10 * 24 * HOUR },
+        { name: 'USER.md', content: 'Name: Demo User\nTimezone: UTC\n', updatedAtMs: now - 10 * 24 * HOUR },
+        { name: 'HEARTBEAT.md', content: '- Check the inbox\n- Review the calendar\n', updatedAtMs: now - HOUR },
+      ],
+    },
+    {
+      id: 'research',
+      name: 'Scout',
+      emoji: '🔭',
+      workspace: '~/.openclaw/workspace-research',
+      files: [
+        { name: 'AGENTS.md', content: '# Research agent\n\nCite your sources.\n', updatedAtMs: now - 5 * 24 * HOUR },
+      ],
+    },
+  ]
+}
+
+export function formatMockLogLine(at: number, level: string, subsystem: string, message: string): string {
+  return JSON.stringify({ time: new Date(at).toISOString(), level, subsystem, message })
+}
+
+function seedLogLines(now: number): string[] {
+  const entries: Array<[number, string, string, string]> = [
+    [now - 40 * MINUTE, 'info', 'gateway', 'listening on ws://127.0.0.1:18789'],
+    [now - 39 * MINUTE, 'info', 'telegram', 'bot connected as @openclaw_demo_bot'],
+    [now - 39 * MINUTE, 'info', 'discord', 'logged in as OpenClaw#0001'],
+    [now - 30 * MINUTE, 'debug', 'cron', 'scheduler tick: 3 jobs, next wake in 12m'],
+    [now - 18 * MINUTE, 'warn', 'cron', 'job mock-cron-heartbeat-check failed: IMAP timeout'],
+    [now - 5 * MINUTE, 'info', 'agent', 'run started for agent:main:main'],
+    [now - 4 * MINUTE, 'info', 'agent', 'run finished for agent:main:main (2.1s)'],
+  ]
+  return entries.map(([at, level, subsystem, message]) => formatMockLogLine(at, level, subsystem, message))
+}
+
+function seedModels(): Array<Record<string, unknown>> {
+  return [
+    { id: MOCK_DEFAULT_MODEL, name: 'Claude Sonnet 4.5', provider: 'anthropic', contextWindow: 200000 },
+    { id: 'anthropic/claude-haiku-4-5', name: 'Claude Haiku 4.5', provider: 'anthropic', contextWindow: 200000 },
+    { id: 'openai/gpt-5', name: 'GPT-5', provider: 'openai', contextWindow: 400000 },
+  ]
+}
+
+function seedTools(): Array<Record<string, unknown>> {
+  return [
+    { name: 'exec', description: 'Run shell commands', category: 'runtime' },
+    { name: 'read', description: 'Read files in the workspace', category: 'fs' },
+    { name: 'write', description: 'Write files in the workspace', category: 'fs' },
+    { name: 'web_search', description: 'Search the web', category: 'web' },
+    { name: 'browser', description: 'Control a headless browser', category: 'web', enabled: false },
+  ]
+}
+
+function seedSkills(): Array<Record<string, unknown>> {
+  return [
+    { name: 'weather', description: 'Current weather and forecasts', source: 'bundled', bundled: true, eligible: true },
+    { name: 'github', description: 'Work with issues and pull requests', source: 'bundled', bundled: true, eligible: true },
+    { name: 'daily-brief', description: 'Compose the morning brief', source: 'workspace', eligible: true },
+  ]
+}
+
+export function createMockState(now = Date.now()): MockState {
+  const config = seedConfig()
+  return {
+    startedAt: now - 40 * MINUTE,
+    sessions: seedSessions(now),
+    cronJobs: seedCronJobs(now),
+    cronRuns: seedCronRuns(now),
+    config,
+    configHash: hashConfig(config),
+    agents: seedAgents(now),
+    logLines: seedLogLines(now),
+    models: seedModels(),
+    tools: seedTools(),
+    skills: seedSkills(),
+    plugins: [
+      { name: '@openclaw/voice-call', installed: true, version: '0.4.1', enabled: true, status: 'loaded' },
+      { name: '@openclaw/matrix', installed: false },
+    ],
+    nodes: [
+      {
+        id: 'mock-node-macbook',
+        name: 'MacBook Pro',
+        platform: 'darwin',
+        connected: true,
+        capabilities: ['canvas', 'camera', 'screen'],
+        lastSeen: new Date(now - MINUTE).toISOString(),
+      },
+      {
+        id: 'mock-node-pixel',
+        name: 'Pixel 9',
+        platform: 'android',
+        connected: false,
+        capabilities: ['camera', 'location'],
+        lastSeen: new Date(now - 6 * HOUR).toISOString(),
+      },
+    ],
+  }
+}
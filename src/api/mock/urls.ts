@@ -0,0 +1,11 @@
+// 地址判断单独成模块：页面据此决定是否加载模拟网关，不必把整个模拟实现打进首屏代码
+export const MOCK_GATEWAY_URL = 'mock://gateway'
+export const REPLAY_GATEWAY_URL = 'replay://recording'
+
+export function isMockGatewayUrl(url: string | null | undefined): boolean {
+  return typeof url === 'string' && url.trim().toLowerCase().startsWith('mock://')
+}
+
+export function isReplayGatewayUrl(url: string | null | undefined): boolean {
+  return typeof url === 'string' && url.trim().toLowerCase().startsWith('replay://')
+}
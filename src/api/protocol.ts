@@ -0,0 +1,182 @@
+import { localize } from './runtime'
+
+// connect 时上报客户端支持的协议范围，网关在 hello 中返回选定的版本；
+// 每个版本对应一个适配器，RPCClient 按协商结果改写请求参数与响应载荷。
+// 目前支持 v2-v3；新增版本时注册对应适配器即可扩大上报的范围
+
+export interface ProtocolRange {
+  min: number
+  max: number
+}
+
+export interface ProtocolAdapter {
+  protocol: number
+  // 发出前把客户端使用的参数结构改写为该协议版本的结构
+  adaptParams?: (method: string, params: Record<string, unknown> | undefined) => Record<string, unknown> | undefined
+  // 把该协议版本的响应载荷改写为客户端解码逻辑使用的结构
+  adaptPayload?: (method: string, payload: unknown) => unknown
+}
+
+export interface GatewayHelloInfo {
+  // 网关选定的协议版本；旧网关不返回时为 null
+  protocol: number | null
+  version: string | null
+  commit: string | null
+  host: string | null
+}
+
+export type GatewayCompatibilityStatus = 'compatible' | 'gateway-older' | 'gateway-newer' | 'unknown'
+
+export interface GatewayCompatibility {
+  status: GatewayCompatibilityStatus
+  // 不兼容的依据：协议版本或网关构建版本
+  basis: 'protocol' | 'version' | null
+  hello: GatewayHelloInfo
+  supported: ProtocolRange
+  testedVersions: { min: string; max: string | null }
+}
+
+// 已验证过的网关构建版本；低于下限的网关缺少设备鉴权等必需能力，上限为 null 表示不限制
+export const TESTED_GATEWAY_VERSIONS: GatewayCompatibility['testedVersions'] = {
+  min: '2026.2.14',
+  max: null,
+}
+
+const adapters = new Map<number, ProtocolAdapter>()
+
+export function registerProtocolAdapter(adapter: ProtocolAdapter): void {
+  adapters.set(adapter.protocol, adapter)
+}
+
+// v3：RPCClient 的解码与降级逻辑即按此版本编写，无需改写
+registerProtocolAdapter({ protocol: 3 })
+
+// v2 的聊天类方法用 key 标识会话
+const LEGACY_SESSION_METHOD = /^(chat|agent)\./
+// v2 的响应载荷外面还包一层 { ok, result } 或 { ok, data }
+const LEGACY_ENVELOPE_KEYS = new Set(['ok', 'result', 'data'])
+
+function unwrapLegacyEnvelope(payload: unknown): unknown {
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) return payload
+  const row = payload as Record<string, unknown>
+  const keys = Object.keys(row)
+  if (keys.length === 0 || keys.some((key) => !LEGACY_ENVELOPE_KEYS.has(key))) return payload
+  if ('result' in row === 'data' in row) return payload
+  return 'result' in row ? row.result : row.data
+}
+
+// v2：改写为 v3 的结构后复用同一套解码与降级逻辑
+registerProtocolAdapter({
+  protocol: 2,
+  adaptParams: (method, params) => {
+    if (!params || !LEGACY_SESSION_METHOD.test(method)) return params
+    if (typeof params.sessionKey !== 'string' || 'key' in params) return params
+    const { sessionKey, ...rest } = params
+    return { ...rest, key: sessionKey }
+  },
+  adaptPayload: (_method, payload) => unwrapLegacyEnvelope(payload),
+})
+
+export function getSupportedProtocolRange(): ProtocolRange {
+  const versions = [...adapters.keys()]
+  return { min: Math.min(...versions), max: Math.max(...versions) }
+}
+
+export function formatProtocolRange(range: ProtocolRange): string {
+  return range.min === range.max ? `v${range.min}` : `v${range.min}-v${range.max}`
+}
+
+// 未返回协议版本的网关按支持范围内的最高版本处理；超出范围时取最接近的适配器
+export function resolveProtocolAdapter(protocol: number | null): ProtocolAdapter {
+  const range = getSupportedProtocolRange()
+  const target = protocol === null ? range.max : Math.min(range.max, Math.max(range.min, protocol))
+  const exact = adapters.get(target)
+  if (exact) return exact
+  const lower = [...adapters.keys()].filter((version) => version <= target).sort((a, b) => b - a)[0]
+  return adapters.get(lower ?? range.max)!
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    return value as Record<string, unknown>
+  }
+  return {}
+}
+
+function asNonEmptyString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null
+}
+
+export function parseGatewayHello(payload: unknown): GatewayHelloInfo {
+  const row = asRecord(payload)
+  const server = asRecord(row.server)
+  const protocol = typeof row.protocol === 'number' && Number.isInteger(row.protocol) ? row.protocol : null
+  return {
+    protocol,
+    version: asNonEmptyString(server.version) ?? asNonEmptyString(row.version),
+    commit: asNonEmptyString(server.commit),
+    host: asNonEmptyString(server.host),
+  }
+}
+
+// 按数字段比较 2026.2.14 / v2026.02.14-beta.1 这类版本号；无法解析时返回 null
+export function compareGatewayVersions(a: string, b: string): number | null {
+  const parse = (value: string) => value.trim().replace(/^v/i, '').split(/[-+]/)[0]!.split('.').map(Number)
+  const left = parse(a)
+  const right = parse(b)
+  if (left.some((part) => !Number.isFinite(part)) || right.some((part) => !Number.isFinite(part))) return null
+  for (let index = 0; index < Math.max(left.length, right.length); index += 1) {
+    const diff = (left[index] ?? 0) - (right[index] ?? 0)
+    if (diff !== 0) return diff < 0 ? -1 : 1
+  }
+  return 0
+}
+
+export function evaluateGatewayCompatibility(hello: GatewayHelloInfo): GatewayCompatibility {
+  const supported = getSupportedProtocolRange()
+  const result = (status: GatewayCompatibilityStatus, basis: GatewayCompatibility['basis']): GatewayCompatibility => ({
+    status,
+    basis,
+    hello,
+    supported,
+    testedVersions: TESTED_GATEWAY_VERSIONS,
+  })
+
+  if (hello.protocol !== null) {
+    if (hello.protocol < supported.min) return result('gateway-older', 'protocol')
+    if (hello.protocol > supported.max) return result('gateway-newer', 'protocol')
+  }
+  if (hello.version) {
+    const belowMin = compareGatewayVersions(hello.version, TESTED_GATEWAY_VERSIONS.min)
+    if (belowMin !== null && belowMin < 0) return result('gateway-older', 'version')
+    const aboveMax = TESTED_GATEWAY_VERSIONS.max ? compareGatewayVersions(hello.version, TESTED_GATEWAY_VERSIONS.max) : null
+    if (aboveMax !== null && aboveMax > 0) return result('gateway-newer', 'version')
+  }
+  if (hello.protocol === null && hello.version === null) return result('unknown', null)
+  return result('compatible', null)
+}
+
+// 握手被拒时识别协议版本不匹配，给出明确的升级提示；其他错误返回 null
+export function describeProtocolMismatch(message: string, details: unknown): string | null {
+  const expected = asRecord(details).expectedProtocol
+  if (!/protocol\s*(version\s*)?mismatch|unsupported protocol/i.test(message) && typeof expected !== 'number') return null
+
+  const supported = getSupportedProtocolRange()
+  const range = formatProtocolRange(supported)
+  if (typeof expected === 'number' && expected > supported.max) {
+    return localize(
+      `网关使用协议 v${expected}，比当前客户端支持的 ${range} 更新，请升级 OpenClaw Web`,
+      `Gateway speaks protocol v${expected}, newer than this client supports (${range}). Please upgrade OpenClaw Web.`,
+    )
+  }
+  if (typeof expected === 'number' && expected < supported.min) {
+    return localize(
+      `网关使用协议 v${expected}，早于当前客户端支持的 ${range}，请升级 OpenClaw 网关`,
+      `Gateway speaks protocol v${expected}, older than this client supports (${range}). Please upgrade the OpenClaw gateway.`,
+    )
+  }
+  return localize(
+    `网关与客户端的协议版本不兼容（客户端支持 ${range}）：${message}`,
+    `Gateway and client protocol versions are incompatible (client supports ${range}): ${message}`,
+  )
+}
@@ -0,0 +1,93 @@
+import { isRpcError } from './rpc-error'
+
+export interface RetryPolicy {
+  // 包含首次调用在内的最大尝试次数，1 表示不重试
+  maxAttempts: number
+  baseDelayMs: number
+  maxDelayMs: number
+  factor: number
+  // 0~1，退避时间的随机抖动比例，避免多个页面同时重试
+  jitter: number
+  // 超时是否重试；读接口超时重放无副作用
+  retryOnTimeout: boolean
+}
+
+export interface RetryWaitInfo {
+  method: string
+  attempt: number
+  maxAttempts: number
+  delayMs: number
+  rateLimited: boolean
+  reason: string
+}
+
+export const NO_RETRY: RetryPolicy = {
+  maxAttempts: 1,
+  baseDelayMs: 0,
+  maxDelayMs: 0,
+  factor: 1,
+  jitter: 0,
+  retryOnTimeout: false,
+}
+
+export const READ_RETRY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  factor: 2,
+  jitter: 0.2,
+  retryOnTimeout: true,
+}
+
+// 带幂等键的写操作：网关可按键去重，只在网关明确标记可重试时重放
+export const IDEMPOTENT_WRITE_RETRY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 15000,
+  factor: 2,
+  jitter: 0.2,
+  retryOnTimeout: false,
+}
+
+// 超过该时长的 retryAfterMs 不再自动等待，直接把错误交给调用方
+const MAX_RETRY_AFTER_MS = 60000
+
+const READ_METHOD_SUFFIXES = ['.list', '.get', '.history', '.status', '.tail', '.usage', '.preview', '.describe']
+const READ_METHODS = new Set(['health', 'status', 'ping', 'last-heartbeat', 'system-presence', 'usage.cost'])
+
+export function isReadMethod(method: string): boolean {
+  return READ_METHODS.has(method) || READ_METHOD_SUFFIXES.some((suffix) => method.endsWith(suffix))
+}
+
+function hasIdempotencyKey(params?: Record<string, unknown>): boolean {
+  const key = params?.idempotencyKey
+  return typeof key === 'string' && key.trim().length > 0
+}
+
+export function resolveDefaultRetryPolicy(method: string, params?: Record<string, unknown>): RetryPolicy {
+  if (isReadMethod(method)) return READ_RETRY
+  if (hasIdempotencyKey(params)) return IDEMPOTENT_WRITE_RETRY
+  return NO_RETRY
+}
+
+/**
+ * 返回下一次重试前的等待时间，null 表示不应重试。
+ * 网关显式给出 retryable=false 时始终不重试；给出 retryAfterMs 时优先按其等待。
+ */
+export function computeRetryDelay(policy: RetryPolicy, error: unknown, attempt: number): number | null {
+  if (attempt >= policy.maxAttempts) return null
+  if (!isRpcError(error)) return null
+  if (error.retryable === false) return null
+
+  const shouldRetry = error.retryable === true || (error.isTimeout && policy.retryOnTimeout)
+  if (!shouldRetry) return null
+
+  if (error.retryAfterMs !== undefined) {
+    return error.retryAfterMs <= MAX_RETRY_AFTER_MS ? error.retryAfterMs : null
+  }
+
+  const exponential = policy.baseDelayMs * Math.pow(policy.factor, attempt - 1)
+  const capped = Math.min(exponential, policy.maxDelayMs)
+  const spread = capped * policy.jitter
+  return Math.max(0, Math.round(capped - spread + Math.random() * spread * 2))
+}
@@ -1,4 +1,47 @@
-import { OpenClawWebSocket } from './websocket'
+import type { GatewayTransport } from './websocket'
+import { NOT_RECORDED_ERROR_CODE, RpcError, isRpcError } from './rpc-error'
+import { RpcShapeCache, shapeGroupKey, shapeSignature } from './shape-cache'
+import { decodeFor, hasField, observeWith } from './schema'
+import type { WireRequestTrace } from './wire-recorder'
+import { resolveProtocolAdapter, type ProtocolAdapter } from './protocol'
+import {
+  agentFileEntrySchema,
+  agentInfoSchema,
+  agentsListResultSchema,
+  channelSchema,
+  channelsStatusSnapshotSchema,
+  chatHistoryEnvelopeSchema,
+  chatMessageSchema,
+  configSnapshotSchema,
+  costUsageDailyEntrySchema,
+  costUsageSummarySchema,
+  cronJobSchema,
+  cronRunLogEntrySchema,
+  cronStatusSchema,
+  deviceNodeSchema,
+  execApprovalsFileSchema,
+  execApprovalsSnapshotSchema,
+  healthSummarySchema,
+  logsTailResultSchema,
+  modelInfoSchema,
+  pluginListEnvelopeSchema,
+  pluginPackageSchema,
+  sessionExportSchema,
+  sessionSchema,
+  sessionsUsageResultSchema,
+  sessionsUsageSessionSchema,
+  skillSchema,
+  statusSummarySchema,
+  systemPresenceEntrySchema,
+  toolSchema,
+  updateRunResponseSchema,
+} from './schemas'
+import {
+  computeRetryDelay,
+  resolveDefaultRetryPolicy,
+  type RetryPolicy,
+  type RetryWaitInfo,
+} from './retry-policy'
 import type {
   RPCResponse,
   Session,
@@ -22,8 +65,11 @@ import type {
   AgentFilesListResult,
   AgentFilesGetResult,
   AgentFilesSetResult,
+  AgentFileUploadParams,
+  AgentFileUploadResult,
   SendParams,
   ChatMessage,
+  ChatInjectParams,
   ChatSendParams,
   CronJob,
   CronRunLogEntry,
@@ -38,26 +84,69 @@ import type {
   HealthSummary,
   StatusSummary,
   SystemPresenceEntry,
-  ExecApprovalsAgent,
-  ExecApprovalsDefaults,
+  ExecApprovalDecision,
   ExecApprovalsFile,
   ExecApprovalsSnapshot,
   UpdateRunResponse,
-  UpdateRunResult,
 } from './types'
 
+export interface RpcCallOptions {
+  // 取消后移除响应监听、撤回仍在队列中的请求，并以 RpcError(kind: 'aborted') 拒绝
+  signal?: AbortSignal
+}
+
+interface RpcRequestOptions extends RpcCallOptions {
+  timeout?: number
+  // 降级候选信息，仅用于协议检查器标注
+  trace?: Omit<WireRequestTrace, 'attempt'>
+}
+
+const DEFAULT_TIMEOUT_MS = 15000
+
 let requestId = 0
 function nextId(): string {
   return `rpc-${++requestId}-${Date.now()}`
 }
 
 export class RPCClient {
-  private readonly ws: OpenClawWebSocket
+  private readonly ws: GatewayTransport
+  private retryPolicies = new Map<string, RetryPolicy>()
+  private retryWaitListeners = new Set<(info: RetryWaitInfo) => void>()
+  private shapeCache: RpcShapeCache | null = null
+  private protocolAdapter: ProtocolAdapter = resolveProtocolAdapter(null)
 
-  constructor(ws: OpenClawWebSocket) {
+  constructor(ws: GatewayTransport) {
     this.ws = ws
   }
 
+  // 覆盖某个方法的默认重试策略；传 null 恢复默认（读接口自动重试，写接口仅带幂等键时重试）
+  setRetryPolicy(method: string, policy: RetryPolicy | null): void {
+    if (policy) {
+      this.retryPolicies.set(method, policy)
+    } else {
+      this.retryPolicies.delete(method)
+    }
+  }
+
+  // 按网关版本记忆可用的方法/参数结构；连接建立后由上层按当前配置设置
+  setShapeCache(cache: RpcShapeCache | null): void {
+    this.shapeCache = cache
+  }
+
+  // 按 hello 中协商的协议版本切换适配器；连接建立后由上层设置
+  setProtocol(protocol: number | null): void {
+    this.protocolAdapter = resolveProtocolAdapter(protocol)
+  }
+
+  get protocol(): number {
+    return this.protocolAdapter.protocol
+  }
+
+  onRetryWait(listener: (info: RetryWaitInfo) => void): () => void {
+    this.retryWaitListeners.add(listener)
+    return () => this.retryWaitListeners.delete(listener)
+  }
+
   private asRecord(value: unknown): Record<string, unknown> {
     if (value && typeof value === 'object' && !Array.isArray(value)) {
       return value as Record<string, unknown>
@@ -89,184 +178,6 @@ export class RPCClient {
     return fallback
   }
 
-  private resolveCountNumber(value: unknown): number | undefined {
-    if (typeof value === 'number' && Number.isFinite(value) && value >= 0) {
-      return Math.floor(value)
-    }
-    if (typeof value === 'string' && value.trim()) {
-      const parsed = Number(value)
-      if (Number.isFinite(parsed) && parsed >= 0) {
-        return Math.floor(parsed)
-      }
-    }
-    return undefined
-  }
-
-  private resolveSessionMessageCount(row: Record<string, unknown>): number {
-    const directCandidates = [
-      row.messageCount,
-      row.message_count,
-      row.messagesCount,
-      row.messages_count,
-      row.turns,
-      row.turn_count,
-      row.totalMessages,
-      row.total_messages,
-      row.count,
-    ]
-    for (const candidate of directCandidates) {
-      const count = this.resolveCountNumber(candidate)
-      if (count !== undefined) {
-        return count
-      }
-    }
-
-    const listCandidates = [
-      row.messages,
-      row.transcript,
-      row.history,
-      row.items,
-    ]
-    for (const candidate of listCandidates) {
-      if (Array.isArray(candidate)) {
-        return candidate.length
-      }
-    }
-
-    const nestedRows = [
-      this.asRecord(row.messages),
-      this.asRecord(row.messageCounts),
-      this.asRecord(row.message_counts),
-      this.asRecord(row.stats),
-      this.asRecord(row.metrics),
-    ]
-    for (const nested of nestedRows) {
-      const count = this.resolveCountNumber(
-        nested.total ??
-          nested.count ??
-          nested.messages ??
-          nested.messageCount ??
-          nested.message_count
-      )
-      if (count !== undefined) {
-        return count
-      }
-    }
-
-    const usageRow = this.asRecord(row.usage)
-    const usageMessageCounts = this.asRecord(usageRow.messageCounts ?? usageRow.message_counts)
-    const usageCount = this.resolveCountNumber(
-      usageMessageCounts.total ??
-        usageMessageCounts.count ??
-        usageMessageCounts.messages ??
-        usageRow.messages ??
-        usageRow.messageCount ??
-        usageRow.message_count
-    )
-    if (usageCount !== undefined) {
-      return usageCount
-    }
-
-    return 0
-  }
-
-  private asText(value: unknown): string {
-    if (typeof value === 'string') return value
-    if (typeof value === 'number' || typeof value === 'boolean') return String(value)
-
-    if (Array.isArray(value)) {
-      return value
-        .map((item) => this.asText(item))
-        .filter((item) => !!item.trim())
-        .join('\n')
-    }
-
-    if (value && typeof value === 'object') {
-      const row = value as Record<string, unknown>
-
-      if ('text' in row) return this.asText(row.text)
-      if ('content' in row) return this.asText(row.content)
-      if ('message' in row) return this.asText(row.message)
-      if ('output' in row) return this.asText(row.output)
-      if ('input' in row) return this.asText(row.input)
-      if ('delta' in row) return this.asText(row.delta)
-
-      try {
-        return JSON.stringify(row)
-      } catch {
-        return ''
-      }
-    }
-
-    return ''
-  }
-
-  private pickTokenNumber(row: Record<string, unknown>, keys: string[]): number | undefined {
-    for (const key of keys) {
-      if (!(key in row)) continue
-      const parsed = this.asNumber(row[key], Number.NaN)
-      if (Number.isFinite(parsed) && parsed >= 0) return parsed
-    }
-    return undefined
-  }
-
-  private normalizeTokenUsage(value: unknown, depth = 0): Session['tokenUsage'] | undefined {
-    if (depth > 2) return undefined
-    const row = this.asRecord(value)
-    if (!row) return undefined
-
-    const input = this.pickTokenNumber(row, [
-      'totalInput',
-      'input',
-      'inputTokens',
-      'promptTokens',
-      'prompt_tokens',
-      'input_tokens',
-    ])
-    const output = this.pickTokenNumber(row, [
-      'totalOutput',
-      'output',
-      'outputTokens',
-      'completionTokens',
-      'completion_tokens',
-      'output_tokens',
-    ])
-    const total = this.pickTokenNumber(row, [
-      'totalTokens',
-      'tokenTotal',
-      'tokensTotal',
-      'total_tokens',
-    ])
-
-    if (input !== undefined || output !== undefined || total !== undefined) {
-      if (input === undefined && output === undefined && total !== undefined) {
-        return { totalInput: total, totalOutput: 0 }
-      }
-      return {
-        totalInput: input ?? 0,
-        totalOutput: output ?? 0,
-      }
-    }
-
-    const nestedCandidates = [
-      row.tokenUsage,
-      row.usage,
-      row.tokens,
-      row.token_usage,
-      row.llmUsage,
-      row.modelUsage,
-      row.metrics,
-      row.stats,
-    ]
-
-    for (const nested of nestedCandidates) {
-      const parsed = this.normalizeTokenUsage(nested, depth + 1)
-      if (parsed) return parsed
-    }
-
-    return undefined
-  }
-
   private normalizeSessionChannel(channel: string): string {
     const value = channel.trim().toLowerCase()
     if (!value) return 'main'
@@ -417,98 +328,34 @@ export class RPCClient {
   }
 
   private normalizeSessionItem(value: unknown): Session {
+    const decoded = decodeFor('sessions.list', sessionSchema, value)
     const row = this.asRecord(value)
-    const key = this.asString(row.key || row.sessionKey || row.id)
-    const parsed = this.parseSessionKeyMeta(key)
+    const parsed = this.parseSessionKeyMeta(decoded.key)
     const deliveryContext = this.asRecord(row.deliveryContext)
     const deliveryChannel = this.asString(
       deliveryContext.channel || deliveryContext.provider || deliveryContext.surface
     )
-    const primaryChannel = this.asString(
-      row.channel || row.lastChannel || deliveryChannel || row.platform
-    )
-    const channel = this.resolveSessionChannel({
-      primary: primaryChannel,
-      fallback: parsed.channel,
-    })
-    const tokenUsage =
-      this.normalizeTokenUsage(row.tokenUsage) ||
-      this.normalizeTokenUsage(row.usage) ||
-      this.normalizeTokenUsage(row.tokens)
     return {
-      key,
-      agentId: this.asString(row.agentId || row.agent || parsed.agentId, 'main'),
-      channel,
-      peer: this.asString(row.peer || row.user || row.recipient || row.subject || parsed.peer),
-      messageCount: this.resolveSessionMessageCount(row),
-      lastActivity: this.asString(row.lastActivity || row.updatedAt || row.lastSeen),
-      model: this.asString(row.model || row.modelName) || undefined,
-      tokenUsage,
+      ...decoded,
+      agentId: decoded.agentId || parsed.agentId || 'main',
+      channel: this.resolveSessionChannel({
+        primary: decoded.channel || deliveryChannel,
+        fallback: parsed.channel,
+      }),
+      peer: decoded.peer || parsed.peer,
     }
   }
 
-  private normalizeChannelItem(value: unknown): Channel {
-    const row = this.asRecord(value)
-    const statusRaw = this.asString(row.status || row.state, this.asBoolean(row.connected) ? 'connected' : 'disconnected')
-    const status: ChannelStatus =
-      statusRaw === 'connected' ||
-      statusRaw === 'disconnected' ||
-      statusRaw === 'authenticating' ||
-      statusRaw === 'error'
-        ? statusRaw
-        : 'disconnected'
-    const dmPolicyRaw = this.asString(row.dmPolicy || row.policy, 'pairing')
-    const dmPolicy: Channel['dmPolicy'] =
-      dmPolicyRaw === 'pairing' ||
-      dmPolicyRaw === 'allowlist' ||
-      dmPolicyRaw === 'open' ||
-      dmPolicyRaw === 'disabled'
-        ? dmPolicyRaw
-        : 'pairing'
-
-    const groupsRaw = row.groups
-    const groups = Array.isArray(groupsRaw) ? groupsRaw : undefined
-    const groupAllowFromRaw = row.groupAllowFrom || row.allowFrom
-    const groupAllowFrom = Array.isArray(groupAllowFromRaw)
-      ? groupAllowFromRaw
-          .map((item) => this.asString(item))
-          .filter((item) => !!item.trim())
-      : undefined
-    const requireMention = 'requireMention' in row
-      ? this.asBoolean(row.requireMention, false)
-      : undefined
-    const groupPolicy = this.asString(row.groupPolicy)
-    const channelKey = this.asString(row.channelKey || row.channel || row.platform || row.type || row.kind || row.id)
-    const accountId = this.asString(
-      row.accountId ||
-        row.account ||
-        row.accountName ||
-        row.botId ||
-        row.selfId ||
-        row.userId
-    )
-    const id = this.asString(
-      row.id ||
-        row.channelId ||
-        row.name ||
-        (channelKey && accountId ? `${channelKey}:${accountId}` : channelKey),
-      'unknown'
-    )
-
+  private normalizeChannelItem(value: unknown, method = 'channels.status'): Channel {
+    const decoded = decodeFor(method, channelSchema, value)
+    // 渠道名只从原始 id 推断，name 往往是显示名
+    const channelKey = decoded.channelKey || decoded.platform || this.asString(this.asRecord(value).id) || undefined
+    const id = decoded.id || (channelKey && decoded.accountId ? `${channelKey}:${decoded.accountId}` : channelKey)
     return {
-      id,
-      platform: this.asString(row.platform || channelKey || row.id, 'unknown'),
-      channelKey: channelKey || undefined,
-      accountId: accountId || undefined,
-      enabled: this.asBoolean(row.enabled, true),
-      status,
-      accountName: this.asString(row.accountName || row.account || row.name) || undefined,
-      memberCount: this.asNumber(row.memberCount, 0) || undefined,
-      dmPolicy,
-      groupPolicy: groupPolicy || undefined,
-      requireMention,
-      groupAllowFrom,
-      groups: groups as Channel['groups'],
+      ...decoded,
+      id: id ?? '',
+      platform: decoded.platform || channelKey || 'unknown',
+      channelKey,
     }
   }
 
@@ -580,10 +427,16 @@ export class RPCClient {
   }
 
   private normalizeChannelsStatusPayload(payload: unknown): Channel[] {
-    const row = this.asRecord(payload)
-    const channelAccounts = this.asRecord(row.channelAccounts)
-    const channelsSummary = this.asRecord(row.channels)
-    const defaultAccountIdMap = this.asRecord(row.channelDefaultAccountId)
+    // channels.list 等旧方法返回渠道数组，不是快照结构
+    const isSnapshot =
+      hasField(channelsStatusSnapshotSchema, 'channelAccounts', payload) ||
+      (hasField(channelsStatusSnapshotSchema, 'channels', payload) && !Array.isArray(this.asRecord(payload).channels))
+    if (!isSnapshot) return []
+
+    const snapshot = decodeFor('channels.status', channelsStatusSnapshotSchema, payload)
+    const channelAccounts = snapshot.channelAccounts ?? {}
+    const channelsSummary = snapshot.channels ?? {}
+    const defaultAccountIdMap = snapshot.channelDefaultAccountId ?? {}
     const result: Channel[] = []
     const seen = new Set<string>()
 
@@ -706,237 +559,88 @@ export class RPCClient {
   }
 
   private normalizeSkillItem(value: unknown): Skill {
-    const row = this.asRecord(value)
-    const source = this.normalizeSkillSource(row)
-    return {
-      name: this.asString(row.name || row.id),
-      description: this.asString(row.description) || undefined,
-      version: this.asString(row.version) || undefined,
-      source,
-      installed: this.asBoolean(row.installed, source !== 'bundled'),
-      eligible: this.asBoolean(row.eligible, true),
-      disabled: this.asBoolean(row.disabled, false),
-      bundled: this.asBoolean(row.bundled, source === 'bundled'),
-      skillKey: this.asString(row.skillKey) || undefined,
-      hasUpdate: this.asBoolean(row.hasUpdate, false) || undefined,
-    }
+    return decodeFor('skills.status', skillSchema, value)
   }
 
   private normalizePluginItem(value: unknown): PluginPackage {
-    const row = this.asRecord(value)
-    const name = this.asString(
-      row.name || row.id || row.package || row.packageName || row.plugin || row.key
-    )
-
-    const status = this.asString(row.status || row.state || row.health)
-    const installed =
-      'installed' in row
-        ? this.asBoolean(row.installed, false)
-        : !(
-            status.toLowerCase() === 'missing' ||
-            status.toLowerCase() === 'not-installed' ||
-            status.toLowerCase() === 'uninstalled'
-          )
-
-    return {
-      name,
-      installed,
-      version: this.asString(row.version || row.ver) || undefined,
-      enabled: 'enabled' in row ? this.asBoolean(row.enabled, true) : undefined,
-      status: status || undefined,
-    }
+    return decodeFor('plugins.list', pluginPackageSchema, value)
   }
 
   private normalizePluginList(payload: unknown): PluginPackage[] {
-    const listByCandidates = this.normalizeList<unknown>(payload, [
-      'plugins',
-      'items',
-      'list',
-      'data',
-      'entries',
-    ])
-      .map((item) => this.normalizePluginItem(item))
-      .filter((item) => !!item.name)
+    const source = hasField(pluginListEnvelopeSchema, 'plugins', payload)
+      ? decodeFor('plugins.list', pluginListEnvelopeSchema, payload).plugins
+      : payload
 
-    if (listByCandidates.length > 0) {
-      return listByCandidates
+    if (Array.isArray(source)) {
+      return source.map((item) => this.normalizePluginItem(item)).filter((item) => !!item.name)
     }
 
-    const row = this.asRecord(payload)
-    const pluginsRaw = this.asRecord(row.plugins || row.items || row.data)
-    const entriesSource =
-      Object.keys(pluginsRaw).length > 0
-        ? pluginsRaw
-        : row
-
-    const fallback: PluginPackage[] = []
-    for (const [key, value] of Object.entries(entriesSource)) {
+    // 以插件名为键的映射：值可能是插件对象、是否安装或版本号
+    const result: PluginPackage[] = []
+    for (const [key, value] of Object.entries(this.asRecord(source))) {
       if (Array.isArray(value)) continue
       if (value && typeof value === 'object') {
         const parsed = this.normalizePluginItem({ key, ...(value as Record<string, unknown>) })
-        if (parsed.name) fallback.push(parsed)
+        if (parsed.name) result.push(parsed)
         continue
       }
       if (typeof value === 'boolean') {
-        fallback.push({ name: key, installed: value })
+        result.push({ name: key, installed: value })
         continue
       }
       if (typeof value === 'string' && value.trim()) {
-        fallback.push({ name: key, installed: true, version: value.trim() })
+        result.push({ name: key, installed: true, version: value.trim() })
       }
     }
-
-    return fallback.filter((item) => !!item.name)
-  }
-
-  private normalizeSkillSource(row: Record<string, unknown>): Skill['source'] {
-    const sourceRaw = this.asString(
-      row.source || row.location || row.origin || row.scope || row.kind
-    )
-      .trim()
-      .toLowerCase()
-
-    if (!sourceRaw && this.asBoolean(row.bundled, false)) {
-      return 'bundled'
-    }
-
-    const source = sourceRaw.replace(/^openclaw-/, '')
-    if (source === 'workspace') return 'workspace'
-    if (source === 'managed') return 'managed'
-    if (source === 'bundled' || source === 'built-in' || source === 'builtin') return 'bundled'
-    if (source === 'extra') return 'extra'
-
-    if (sourceRaw.includes('workspace')) return 'workspace'
-    if (sourceRaw.includes('managed')) return 'managed'
-    if (sourceRaw.includes('bundled') || sourceRaw.includes('builtin')) return 'bundled'
-    if (sourceRaw.includes('extra')) return 'extra'
-
-    const filePath = this.asString(row.filePath || row.path).toLowerCase()
-    if (/\.openclaw[\\/]+skills/.test(filePath)) return 'managed'
-    if (/[\\/]+skills[\\/]/.test(filePath)) return 'workspace'
-
-    return 'bundled'
+    return result
   }
 
   private normalizeToolItem(value: unknown): Tool {
-    const row = this.asRecord(value)
-    return {
-      name: this.asString(row.name || row.id),
-      description: this.asString(row.description),
-      category: this.asString(row.category || row.group, 'general'),
-      enabled: this.asBoolean(row.enabled, true),
-    }
+    return decodeFor('tools.list', toolSchema, value)
   }
 
   private normalizeNodeItem(value: unknown): DeviceNode {
-    const row = this.asRecord(value)
-    const capabilities = Array.isArray(row.capabilities)
-      ? row.capabilities.map((c) => this.asString(c)).filter(Boolean)
-      : []
-
-    return {
-      id: this.asString(row.id || row.nodeId),
-      name: this.asString(row.name || row.id, 'node'),
-      platform: this.asString(row.platform || row.os, 'unknown'),
-      connected: this.asBoolean(row.connected, false),
-      capabilities,
-      lastSeen: this.asString(row.lastSeen || row.updatedAt) || undefined,
-    }
+    return decodeFor('node.list', deviceNodeSchema, value)
   }
 
   private normalizeAgentItem(value: unknown): AgentInfo {
-    const row = this.asRecord(value)
-    const identityRow = this.asRecord(row.identity)
-    const id = this.asString(row.id || row.agentId || row.name)
-    return {
-      id,
-      name: this.asString(row.name) || undefined,
-      identity: Object.keys(identityRow).length
-        ? {
-            name: this.asString(identityRow.name) || undefined,
-            theme: this.asString(identityRow.theme) || undefined,
-            emoji: this.asString(identityRow.emoji) || undefined,
-            avatar: this.asString(identityRow.avatar) || undefined,
-            avatarUrl: this.asString(identityRow.avatarUrl) || undefined,
-          }
-        : undefined,
-    }
+    return decodeFor('agents.list', agentInfoSchema, value)
   }
 
-  private normalizeAgentFileEntry(value: unknown): AgentFileEntry {
-    const row = this.asRecord(value)
-    const size = this.asNumber(row.size, Number.NaN)
-    const updatedAtMs = this.asNumber(row.updatedAtMs || row.updatedAt || row.mtimeMs, Number.NaN)
-    return {
-      name: this.asString(row.name),
-      path: this.asString(row.path || row.filePath || row.file),
-      missing: this.asBoolean(row.missing, false),
-      size: Number.isFinite(size) && size >= 0 ? Math.floor(size) : undefined,
-      updatedAtMs: Number.isFinite(updatedAtMs) && updatedAtMs >= 0 ? Math.floor(updatedAtMs) : undefined,
-      content: 'content' in row ? this.asString(row.content) : undefined,
-    }
+  private normalizeAgentFileEntry(value: unknown, method: string): AgentFileEntry {
+    return decodeFor(method, agentFileEntrySchema, value)
   }
 
   private normalizeAgentsListResult(payload: unknown): AgentsListResult {
-    const row = this.asRecord(payload)
-    const agents = this.normalizeList<unknown>(payload, ['agents', 'items', 'list', 'data'])
-      .map((item) => this.normalizeAgentItem(item))
-      .filter((item) => !!item.id)
+    const decoded = decodeFor('agents.list', agentsListResultSchema, payload)
     return {
-      defaultId: this.asString(row.defaultId || row.defaultAgentId) || undefined,
-      mainKey: this.asString(row.mainKey) || undefined,
-      scope: this.asString(row.scope) || undefined,
-      agents,
+      ...decoded,
+      agents: this.normalizeList<unknown>(decoded.agents ?? payload, [])
+        .map((item) => this.normalizeAgentItem(item))
+        .filter((item) => !!item.id),
     }
   }
 
   private normalizeChatMessageItem(value: unknown): ChatMessage {
-    const row = this.asRecord(value)
-    const roleRaw = this.asString(row.role || row.type, 'assistant')
-    const role: ChatMessage['role'] =
-      roleRaw === 'user' ||
-      roleRaw === 'assistant' ||
-      roleRaw === 'tool' ||
-      roleRaw === 'system' ||
-      roleRaw === 'toolResult'
-        ? (roleRaw === 'toolResult' ? 'tool' : roleRaw)
-        : 'assistant'
+    return decodeFor('chat.history', chatMessageSchema, value)
+  }
 
+  private normalizeSessionExport(payload: unknown, key: string): SessionExport {
+    const decoded = decodeFor('sessions.export', sessionExportSchema, payload)
     return {
-      id: this.asString(row.id || row.messageId || row.seq) || undefined,
-      role,
-      content: this.asText(
-        row.content ||
-          row.text ||
-          row.message ||
-          row.output ||
-          row.input ||
-          row.delta ||
-          (row.payload as unknown)
-      ),
-      timestamp: this.asString(row.timestamp || row.createdAt || row.time) || undefined,
-      name: this.asString(row.name || row.model) || undefined,
+      ...decoded,
+      key: decoded.key || key,
+      exportedAt: decoded.exportedAt || new Date().toISOString(),
     }
   }
 
   private normalizeCronItem(value: unknown): CronJob {
-    const row = this.asRecord(value)
-    const scheduleObjRaw = this.normalizeCronSchedule(row.schedule)
-    const scheduleTextRaw = this.asString(row.schedule || row.cron || row.expression || row.expr)
-    const inferredSchedule = scheduleObjRaw || this.inferCronScheduleFromText(scheduleTextRaw, this.asString(row.timezone || row.tz) || undefined)
-    const scheduleText = inferredSchedule ? this.formatCronSchedule(inferredSchedule) : (scheduleTextRaw || '* * * * *')
-    const sessionTargetRaw = this.asString(row.sessionTarget)
-    const sessionTarget: CronJob['sessionTarget'] =
-      sessionTargetRaw === 'main' || sessionTargetRaw === 'isolated'
-        ? sessionTargetRaw
-        : undefined
-    const wakeModeRaw = this.asString(row.wakeMode || row.wake)
-    const wakeMode: CronJob['wakeMode'] =
-      wakeModeRaw === 'now' || wakeModeRaw === 'next-heartbeat'
-        ? wakeModeRaw
-        : undefined
-    const payload = this.normalizeCronPayload(row.payload)
-    const delivery = this.normalizeCronDelivery(row.delivery) || this.normalizeCronDelivery(
+    const decoded = decodeFor('cron.list', cronJobSchema, value)
+    const scheduleText = decoded.schedule ?? ''
+    const scheduleObj =
+      this.normalizeCronSchedule(decoded.scheduleObj) || this.inferCronScheduleFromText(scheduleText, decoded.timezone)
+    const payload = this.normalizeCronPayload(decoded.payload)
+    const delivery = this.normalizeCronDelivery(decoded.delivery) || this.normalizeCronDelivery(
       payload && payload.kind === 'agentTurn'
         ? {
             mode: payload.deliver === false ? 'none' : (payload.channel || payload.to || payload.deliver === true ? 'announce' : undefined),
@@ -946,38 +650,19 @@ export class RPCClient {
           }
         : undefined
     )
-    const state = this.normalizeCronState(row.state)
-    const nextRunAtMs = state?.nextRunAtMs || this.asNumber(row.nextRunAtMs || row.nextAtMs || row.nextTimeMs, 0)
-    const lastRunAtMs = state?.lastRunAtMs || this.asNumber(row.lastRunAtMs || row.lastAtMs || row.lastTimeMs, 0)
-    const nextRun = this.asString(row.nextRun || row.nextAt || row.nextTime) || (nextRunAtMs > 0 ? new Date(nextRunAtMs).toISOString() : undefined)
-    const lastRun = this.asString(row.lastRun || row.lastAt || row.lastTime) || (lastRunAtMs > 0 ? new Date(lastRunAtMs).toISOString() : undefined)
-    const deleteAfterRun = 'deleteAfterRun' in row ? this.asBoolean(row.deleteAfterRun, false) : undefined
-    const createdAtMs = this.asNumber(row.createdAtMs, 0)
-    const updatedAtMs = this.asNumber(row.updatedAtMs, 0)
-    const timezone = inferredSchedule?.kind === 'cron'
-      ? inferredSchedule.tz
-      : (this.asString(row.timezone || row.tz) || undefined)
+    const state = this.normalizeCronState(decoded.state)
+    const toIso = (ms: number | undefined) => (ms && ms > 0 ? new Date(ms).toISOString() : undefined)
 
     return {
-      id: this.asString(row.id || row.jobId || row.taskId || row.name, ''),
-      agentId: this.asString(row.agentId || row.agent) || undefined,
-      name: this.asString(row.name || row.title || row.id, 'unnamed'),
-      description: this.asString(row.description) || undefined,
-      enabled: this.asBoolean(row.enabled, !this.asBoolean(row.disabled, false)),
-      deleteAfterRun,
-      createdAtMs: createdAtMs > 0 ? createdAtMs : undefined,
-      updatedAtMs: updatedAtMs > 0 ? updatedAtMs : undefined,
-      scheduleObj: inferredSchedule,
-      sessionTarget,
-      wakeMode,
+      ...decoded,
+      scheduleObj,
       payload,
       delivery,
       state,
-      schedule: scheduleText,
-      command: this.asString(row.command || row.cmd || row.script) || undefined,
-      timezone,
-      nextRun,
-      lastRun,
+      schedule: scheduleObj ? this.formatCronSchedule(scheduleObj) : (scheduleText || '* * * * *'),
+      timezone: scheduleObj?.kind === 'cron' ? scheduleObj.tz : decoded.timezone,
+      nextRun: decoded.nextRun || toIso(state?.nextRunAtMs),
+      lastRun: decoded.lastRun || toIso(state?.lastRunAtMs),
     }
   }
 
@@ -1145,480 +830,60 @@ export class RPCClient {
   }
 
   private normalizeCronStatus(payload: unknown): CronStatus {
-    const row = this.asRecord(payload)
-    const enabled = this.asBoolean(row.enabled, true)
-    const jobs = this.asNumber(row.jobs || row.jobCount || row.total, 0)
-    const running = this.asNumber(row.running || row.runningJobs, 0)
-    const nextWakeAtMs = this.asNumber(row.nextWakeAtMs || row.nextWake || row.nextTickAtMs, 0)
-    return {
-      enabled,
-      jobs,
-      running: running > 0 ? running : undefined,
-      nextWakeAtMs: nextWakeAtMs > 0 ? nextWakeAtMs : undefined,
-    }
+    return decodeFor('cron.status', cronStatusSchema, payload)
   }
 
   private normalizeCronRunItem(value: unknown): CronRunLogEntry {
-    const row = this.asRecord(value)
-    const statusRaw = this.asString(row.status).trim()
-    const status: CronRunLogEntry['status'] =
-      statusRaw === 'ok' || statusRaw === 'error' || statusRaw === 'skipped'
-        ? statusRaw
-        : undefined
-    const action = this.asString(row.action).trim() === 'finished' ? 'finished' : undefined
-
-    return {
-      ts: this.asNumber(row.ts || row.timestamp || row.time, Date.now()),
-      jobId: this.asString(row.jobId || row.id || row.taskId),
-      action,
-      status,
-      error: this.asString(row.error) || undefined,
-      summary: this.asString(row.summary || row.message) || undefined,
-      sessionId: this.asString(row.sessionId) || undefined,
-      sessionKey: this.asString(row.sessionKey || row.key) || undefined,
-      runAtMs: this.asNumber(row.runAtMs, 0) || undefined,
-      durationMs: this.asNumber(row.durationMs || row.duration, 0) || undefined,
-      nextRunAtMs: this.asNumber(row.nextRunAtMs, 0) || undefined,
-    }
+    return decodeFor('cron.runs', cronRunLogEntrySchema, value)
   }
 
   private normalizeModelItem(value: unknown): ModelInfo {
-    const row = this.asRecord(value)
-    const capabilities = Array.isArray(row.capabilities)
-      ? row.capabilities.map((cap) => this.asString(cap)).filter(Boolean)
-      : undefined
-    const contextWindow = this.asNumber(
-      row.contextWindow || row.context_length || row.context || row.maxContext,
-      0
-    )
-
-    return {
-      id: this.asString(row.id || row.model || row.name, ''),
-      label: this.asString(row.label || row.displayName || row.name || row.model) || undefined,
-      provider: this.asString(row.provider || row.vendor) || undefined,
-      family: this.asString(row.family || row.type) || undefined,
-      enabled: this.asBoolean(row.enabled, true),
-      available: this.asBoolean(row.available, this.asBoolean(row.enabled, true)),
-      description: this.asString(row.description) || undefined,
-      contextWindow: contextWindow > 0 ? contextWindow : undefined,
-      capabilities,
-    }
-  }
-
-  private normalizeUsageTotals(value: unknown): SessionsUsageResult['totals'] {
-    const row = this.asRecord(value)
-    return {
-      input: this.asNumber(row.input, 0),
-      output: this.asNumber(row.output, 0),
-      cacheRead: this.asNumber(row.cacheRead, 0),
-      cacheWrite: this.asNumber(row.cacheWrite, 0),
-      totalTokens: this.asNumber(row.totalTokens || row.tokens || row.total, 0),
-      totalCost: this.asNumber(row.totalCost || row.cost, 0),
-      inputCost: this.asNumber(row.inputCost, 0),
-      outputCost: this.asNumber(row.outputCost, 0),
-      cacheReadCost: this.asNumber(row.cacheReadCost, 0),
-      cacheWriteCost: this.asNumber(row.cacheWriteCost, 0),
-      missingCostEntries: this.asNumber(row.missingCostEntries, 0),
-    }
+    return decodeFor('models.list', modelInfoSchema, value)
   }
 
   private normalizeSessionsUsageSession(value: unknown): SessionsUsageResult['sessions'][number] {
-    const row = this.asRecord(value)
-    const usageRow = this.asRecord(row.usage)
-    const messageCountsRow = this.asRecord(usageRow.messageCounts)
-    const toolUsageRow = this.asRecord(usageRow.toolUsage)
-    const toolList = Array.isArray(toolUsageRow.tools)
-      ? toolUsageRow.tools.map((tool) => {
-          const toolRow = this.asRecord(tool)
-          return {
-            name: this.asString(toolRow.name || toolRow.tool || toolRow.id, 'unknown'),
-            count: this.asNumber(toolRow.count || toolRow.calls, 0),
-          }
-        })
-      : []
-    const dailyBreakdown = this.normalizeList<{ date: string; tokens: number; cost: number }>(
-      usageRow.dailyBreakdown,
-      ['daily', 'days', 'items', 'list', 'data']
-    )
-      .map((item) => {
-        const day = this.asRecord(item)
-        return {
-          date: this.asString(day.date, ''),
-          tokens: this.asNumber(day.tokens, 0),
-          cost: this.asNumber(day.cost, 0),
-        }
-      })
-      .filter((item) => !!item.date)
-
-    return {
-      key: this.asString(row.key || row.sessionKey || row.id, ''),
-      label: this.asString(row.label) || undefined,
-      sessionId: this.asString(row.sessionId || row.id) || undefined,
-      updatedAt: this.asNumber(row.updatedAt, 0) || undefined,
-      agentId: this.asString(row.agentId || row.agent) || undefined,
-      channel: this.asString(row.channel) || undefined,
-      chatType: this.asString(row.chatType) || undefined,
-      modelProvider: this.asString(row.modelProvider || row.providerOverride || row.provider) || undefined,
-      model: this.asString(row.model || row.modelOverride) || undefined,
-      usage: usageRow && Object.keys(usageRow).length > 0
-        ? {
-            input: this.asNumber(usageRow.input, 0),
-            output: this.asNumber(usageRow.output, 0),
-            cacheRead: this.asNumber(usageRow.cacheRead, 0),
-            cacheWrite: this.asNumber(usageRow.cacheWrite, 0),
-            totalTokens: this.asNumber(usageRow.totalTokens || usageRow.tokens || usageRow.total, 0),
-            totalCost: this.asNumber(usageRow.totalCost || usageRow.cost, 0),
-            messageCounts: messageCountsRow && Object.keys(messageCountsRow).length > 0
-              ? {
-                  total: this.asNumber(messageCountsRow.total, 0),
-                  user: this.asNumber(messageCountsRow.user, 0),
-                  assistant: this.asNumber(messageCountsRow.assistant, 0),
-                  toolCalls: this.asNumber(messageCountsRow.toolCalls, 0),
-                  toolResults: this.asNumber(messageCountsRow.toolResults, 0),
-                  errors: this.asNumber(messageCountsRow.errors, 0),
-                }
-              : undefined,
-            toolUsage: toolUsageRow && Object.keys(toolUsageRow).length > 0
-              ? {
-                  totalCalls: this.asNumber(toolUsageRow.totalCalls || toolUsageRow.calls, 0),
-                  uniqueTools: this.asNumber(toolUsageRow.uniqueTools || toolUsageRow.unique, 0),
-                  tools: toolList,
-                }
-              : undefined,
-            dailyBreakdown,
-          }
-        : null,
-    }
+    return decodeFor('sessions.usage', sessionsUsageSessionSchema, value)
   }
 
   private normalizeSessionsUsageResult(payload: unknown): SessionsUsageResult {
-    const row = this.asRecord(payload)
-    const sessions = this.normalizeList<unknown>(payload, ['sessions', 'items', 'list', 'data'])
-      .map((item) => this.normalizeSessionsUsageSession(item))
-      .filter((item) => !!item.key)
-
-    const daily = this.normalizeList<unknown>(row.aggregates ? this.asRecord(row.aggregates).daily : row.daily, ['daily', 'items', 'list', 'data'])
-      .map((item) => {
-        const day = this.asRecord(item)
-        return {
-          date: this.asString(day.date, ''),
-          tokens: this.asNumber(day.tokens, 0),
-          cost: this.asNumber(day.cost, 0),
-          messages: this.asNumber(day.messages, 0),
-          toolCalls: this.asNumber(day.toolCalls, 0),
-          errors: this.asNumber(day.errors, 0),
-        }
-      })
-      .filter((item) => !!item.date)
-
-    const aggregatesRow = this.asRecord(row.aggregates)
-    const byModel = this.normalizeList<unknown>(aggregatesRow.byModel, ['byModel', 'items', 'list', 'data'])
-      .map((item) => {
-        const entry = this.asRecord(item)
-        return {
-          provider: this.asString(entry.provider) || undefined,
-          model: this.asString(entry.model) || undefined,
-          count: this.asNumber(entry.count, 0),
-          totals: this.normalizeUsageTotals(entry.totals),
-        }
-      })
-      .filter((item) => item.count > 0 || item.totals.totalTokens > 0 || item.totals.totalCost > 0)
-
-    const byProvider = this.normalizeList<unknown>(aggregatesRow.byProvider, ['byProvider', 'items', 'list', 'data'])
-      .map((item) => {
-        const entry = this.asRecord(item)
-        return {
-          provider: this.asString(entry.provider) || undefined,
-          model: this.asString(entry.model) || undefined,
-          count: this.asNumber(entry.count, 0),
-          totals: this.normalizeUsageTotals(entry.totals),
-        }
-      })
-      .filter((item) => item.count > 0 || item.totals.totalTokens > 0 || item.totals.totalCost > 0)
-
-    const byAgent = this.normalizeList<unknown>(aggregatesRow.byAgent, ['byAgent', 'items', 'list', 'data'])
-      .map((item) => {
-        const entry = this.asRecord(item)
-        return {
-          agentId: this.asString(entry.agentId || entry.agent, ''),
-          totals: this.normalizeUsageTotals(entry.totals),
-        }
-      })
-      .filter((item) => !!item.agentId)
-
-    const byChannel = this.normalizeList<unknown>(aggregatesRow.byChannel, ['byChannel', 'items', 'list', 'data'])
-      .map((item) => {
-        const entry = this.asRecord(item)
-        return {
-          channel: this.asString(entry.channel, ''),
-          totals: this.normalizeUsageTotals(entry.totals),
-        }
-      })
-      .filter((item) => !!item.channel)
-
-    const messagesRow = this.asRecord(aggregatesRow.messages)
-    const toolsRow = this.asRecord(aggregatesRow.tools)
-    const toolItems = Array.isArray(toolsRow.tools)
-      ? toolsRow.tools.map((tool) => {
-          const toolRow = this.asRecord(tool)
-          return {
-            name: this.asString(toolRow.name || toolRow.tool || toolRow.id, 'unknown'),
-            count: this.asNumber(toolRow.count || toolRow.calls, 0),
-          }
-        })
-      : []
-
+    const decoded = decodeFor('sessions.usage', sessionsUsageResultSchema, payload)
     return {
-      updatedAt: this.asNumber(row.updatedAt, Date.now()),
-      startDate: this.asString(row.startDate, ''),
-      endDate: this.asString(row.endDate, ''),
-      sessions,
-      totals: this.normalizeUsageTotals(row.totals),
-      aggregates: {
-        messages: {
-          total: this.asNumber(messagesRow.total, 0),
-          user: this.asNumber(messagesRow.user, 0),
-          assistant: this.asNumber(messagesRow.assistant, 0),
-          toolCalls: this.asNumber(messagesRow.toolCalls, 0),
-          toolResults: this.asNumber(messagesRow.toolResults, 0),
-          errors: this.asNumber(messagesRow.errors, 0),
-        },
-        tools: {
-          totalCalls: this.asNumber(toolsRow.totalCalls || toolsRow.calls, 0),
-          uniqueTools: this.asNumber(toolsRow.uniqueTools || toolsRow.unique, 0),
-          tools: toolItems,
-        },
-        byModel,
-        byProvider,
-        byAgent,
-        byChannel,
-        daily,
-      },
+      ...decoded,
+      updatedAt: decoded.updatedAt ?? Date.now(),
+      sessions: this.normalizeList<unknown>(decoded.sessions ?? payload, [])
+        .map((item) => this.normalizeSessionsUsageSession(item))
+        .filter((item) => !!item.key),
     }
   }
 
   private normalizeCostUsageSummary(payload: unknown): CostUsageSummary {
-    const row = this.asRecord(payload)
-    const daily = this.normalizeList<unknown>(payload, ['daily', 'items', 'list', 'data'])
-      .map((item) => {
-        const entry = this.asRecord(item)
-        return {
-          date: this.asString(entry.date, ''),
-          ...this.normalizeUsageTotals(entry),
-        }
-      })
+    const decoded = decodeFor('usage.cost', costUsageSummarySchema, payload)
+    const daily = this.normalizeList<unknown>(decoded.daily ?? payload, [])
+      .map((item) => decodeFor('usage.cost', costUsageDailyEntrySchema, item))
       .filter((item) => !!item.date)
 
     return {
-      updatedAt: this.asNumber(row.updatedAt, Date.now()),
-      days: this.asNumber(row.days, daily.length),
-      totals: this.normalizeUsageTotals(row.totals),
+      updatedAt: decoded.updatedAt ?? Date.now(),
+      days: decoded.days ?? daily.length,
+      totals: decoded.totals,
       daily,
     }
   }
 
-  private normalizeStringArray(value: unknown): string[] | undefined {
-    if (!Array.isArray(value)) return undefined
-    const list = value
-      .map((item) => this.asString(item).trim())
-      .filter(Boolean)
-    return list.length > 0 ? list : undefined
-  }
-
   private normalizePresenceEntry(value: unknown): SystemPresenceEntry {
-    const row = this.asRecord(value)
-    const tsNumber = this.asNumber(row.ts, Number.NaN)
-    const lastInputSeconds = this.asNumber(row.lastInputSeconds, Number.NaN)
-    return {
-      instanceId: this.asString(row.instanceId || row.id) || undefined,
-      host: this.asString(row.host) || undefined,
-      ip: this.asString(row.ip) || undefined,
-      version: this.asString(row.version) || undefined,
-      platform: this.asString(row.platform) || undefined,
-      deviceFamily: this.asString(row.deviceFamily) || undefined,
-      modelIdentifier: this.asString(row.modelIdentifier) || undefined,
-      mode: this.asString(row.mode) || undefined,
-      reason: this.asString(row.reason) || undefined,
-      text: this.asString(row.text) || undefined,
-      deviceId: this.asString(row.deviceId) || undefined,
-      roles: this.normalizeStringArray(row.roles) || undefined,
-      scopes: this.normalizeStringArray(row.scopes) || undefined,
-      tags: this.normalizeStringArray(row.tags) || undefined,
-      ts: Number.isFinite(tsNumber) && tsNumber >= 0 ? Math.floor(tsNumber) : undefined,
-      lastInputSeconds: Number.isFinite(lastInputSeconds) && lastInputSeconds >= 0
-        ? Math.floor(lastInputSeconds)
-        : undefined,
-    }
+    return decodeFor('system-presence', systemPresenceEntrySchema, value)
   }
 
   private normalizeLogsTailResult(payload: unknown): LogsTailResult {
-    const row = this.asRecord(payload)
-    const cursor = this.asNumber(row.cursor, 0)
-    const size = this.asNumber(row.size, 0)
-    const file = this.asString(row.file, '')
-    const lines = Array.isArray(row.lines)
-      ? row.lines
-          .map((line) => this.asString(line))
-          .filter((line) => typeof line === 'string')
-      : []
-    return {
-      file,
-      cursor: Number.isFinite(cursor) && cursor >= 0 ? Math.floor(cursor) : 0,
-      size: Number.isFinite(size) && size >= 0 ? Math.floor(size) : 0,
-      lines,
-      truncated: 'truncated' in row ? this.asBoolean(row.truncated, false) : undefined,
-      reset: 'reset' in row ? this.asBoolean(row.reset, false) : undefined,
-    }
+    return decodeFor('logs.tail', logsTailResultSchema, payload)
   }
 
-  private normalizeExecApprovalsFile(value: unknown): ExecApprovalsFile {
-    const normalizeSecurity = (input: unknown): ExecApprovalsDefaults['security'] | undefined => {
-      const value = this.asString(input).trim()
-      if (value === 'deny' || value === 'allowlist' || value === 'full') {
-        return value
-      }
-      return undefined
-    }
-
-    const normalizeAsk = (input: unknown): ExecApprovalsDefaults['ask'] | undefined => {
-      const value = this.asString(input).trim()
-      if (value === 'off' || value === 'on-miss' || value === 'always') {
-        return value
-      }
-      return undefined
-    }
-
-    const row = this.asRecord(value)
-    const defaultsRaw = this.asRecord(row.defaults)
-    const socketRaw = this.asRecord(row.socket)
-    const agentsRaw = this.asRecord(row.agents)
-    const agents: Record<string, ExecApprovalsAgent> = {}
-
-    for (const [agentId, agentRaw] of Object.entries(agentsRaw)) {
-      const agentRow = this.asRecord(agentRaw)
-      const allowlistRaw = Array.isArray(agentRow.allowlist) ? agentRow.allowlist : []
-      const allowlist = allowlistRaw
-        .map((entryRaw) => {
-          const entry = this.asRecord(entryRaw)
-          const pattern = this.asString(entry.pattern).trim()
-          if (!pattern) return null
-          const lastUsedAt = this.asNumber(entry.lastUsedAt, Number.NaN)
-          return {
-            id: this.asString(entry.id) || undefined,
-            pattern,
-            lastUsedAt: Number.isFinite(lastUsedAt) && lastUsedAt >= 0 ? Math.floor(lastUsedAt) : undefined,
-            lastUsedCommand: this.asString(entry.lastUsedCommand) || undefined,
-            lastResolvedPath: this.asString(entry.lastResolvedPath) || undefined,
-          }
-        })
-        .filter((entry): entry is NonNullable<typeof entry> => entry !== null)
-
-      agents[agentId] = {
-        security: normalizeSecurity(agentRow.security),
-        ask: normalizeAsk(agentRow.ask),
-        askFallback: normalizeSecurity(agentRow.askFallback),
-        autoAllowSkills: 'autoAllowSkills' in agentRow
-          ? this.asBoolean(agentRow.autoAllowSkills, false)
-          : undefined,
-        allowlist: allowlist.length > 0 ? allowlist : undefined,
-      }
-    }
-
-    return {
-      version: 1,
-      socket: {
-        path: this.asString(socketRaw.path) || undefined,
-        token: this.asString(socketRaw.token) || undefined,
-      },
-      defaults: {
-        security: normalizeSecurity(defaultsRaw.security),
-        ask: normalizeAsk(defaultsRaw.ask),
-        askFallback: normalizeSecurity(defaultsRaw.askFallback),
-        autoAllowSkills: 'autoAllowSkills' in defaultsRaw
-          ? this.asBoolean(defaultsRaw.autoAllowSkills, false)
-          : undefined,
-      },
-      agents: Object.keys(agents).length > 0 ? agents : undefined,
-    }
-  }
-
-  private normalizeExecApprovalsSnapshot(payload: unknown): ExecApprovalsSnapshot {
-    const row = this.asRecord(payload)
-    return {
-      path: this.asString(row.path),
-      exists: this.asBoolean(row.exists, false),
-      hash: this.asString(row.hash),
-      file: this.normalizeExecApprovalsFile(row.file),
-    }
-  }
-
-  private normalizeUpdateRunResult(payload: unknown): UpdateRunResult {
-    const row = this.asRecord(payload)
-    const statusRaw = this.asString(row.status, 'error')
-    const modeRaw = this.asString(row.mode, 'unknown')
-    const durationMs = this.asNumber(row.durationMs, 0)
-    const steps = Array.isArray(row.steps)
-      ? row.steps.map((stepRaw) => {
-          const step = this.asRecord(stepRaw)
-          const stepDurationMs = this.asNumber(step.durationMs, Number.NaN)
-          const exitCode = this.asNumber(step.exitCode, Number.NaN)
-          return {
-            name: this.asString(step.name, 'step'),
-            command: this.asString(step.command, ''),
-            cwd: this.asString(step.cwd) || undefined,
-            durationMs: Number.isFinite(stepDurationMs) ? Math.floor(stepDurationMs) : undefined,
-            exitCode: Number.isFinite(exitCode) ? Math.floor(exitCode) : null,
-            stdoutTail: this.asString(step.stdoutTail) || null,
-            stderrTail: this.asString(step.stderrTail) || null,
-          }
-        })
-      : []
-
-    return {
-      status: statusRaw === 'ok' || statusRaw === 'skipped' ? statusRaw : 'error',
-      mode: modeRaw === 'git' || modeRaw === 'pnpm' || modeRaw === 'bun' || modeRaw === 'npm'
-        ? modeRaw
-        : 'unknown',
-      root: this.asString(row.root) || undefined,
-      reason: this.asString(row.reason) || undefined,
-      before: Object.keys(this.asRecord(row.before)).length > 0 ? {
-        sha: this.asString(this.asRecord(row.before).sha) || null,
-        version: this.asString(this.asRecord(row.before).version) || null,
-      } : null,
-      after: Object.keys(this.asRecord(row.after)).length > 0 ? {
-        sha: this.asString(this.asRecord(row.after).sha) || null,
-        version: this.asString(this.asRecord(row.after).version) || null,
-      } : null,
-      steps,
-      durationMs: Number.isFinite(durationMs) ? Math.max(0, Math.floor(durationMs)) : 0,
-    }
+  private normalizeExecApprovalsSnapshot(payload: unknown, method: string): ExecApprovalsSnapshot {
+    return decodeFor(method, execApprovalsSnapshotSchema, payload)
   }
 
   private normalizeUpdateRunResponse(payload: unknown): UpdateRunResponse {
-    const row = this.asRecord(payload)
-    const restartRow = this.asRecord(row.restart)
-    const sentinelRow = this.asRecord(row.sentinel)
-    return {
-      ok: this.asBoolean(row.ok, true),
-      result: row.result ? this.normalizeUpdateRunResult(row.result) : undefined,
-      restart: Object.keys(restartRow).length > 0
-        ? {
-            ok: 'ok' in restartRow ? this.asBoolean(restartRow.ok, false) : undefined,
-            delayMs: 'delayMs' in restartRow ? this.asNumber(restartRow.delayMs, 0) : undefined,
-            pid: 'pid' in restartRow ? this.asNumber(restartRow.pid, 0) : undefined,
-            reason: this.asString(restartRow.reason) || undefined,
-            error: this.asString(restartRow.error) || undefined,
-          }
-        : null,
-      sentinel: Object.keys(sentinelRow).length > 0
-        ? {
-            path: this.asString(sentinelRow.path) || null,
-            payload: (sentinelRow.payload && typeof sentinelRow.payload === 'object')
-              ? (sentinelRow.payload as Record<string, unknown>)
-              : null,
-          }
-        : null,
-    }
+    return decodeFor('update.run', updateRunResponseSchema, payload)
   }
 
   private looksLikeConfigRoot(value: unknown): value is OpenClawConfig {
@@ -1641,15 +906,12 @@ export class RPCClient {
       return payload
     }
 
-    const row = this.asRecord(payload)
-    const candidates = [row.config, row.data, row.value, row.payload, row.result]
-    for (const candidate of candidates) {
-      if (this.looksLikeConfigRoot(candidate)) {
-        return candidate
-      }
+    const snapshot = decodeFor('config.get', configSnapshotSchema, payload)
+    if (this.looksLikeConfigRoot(snapshot.config)) {
+      return snapshot.config
     }
 
-    return row as OpenClawConfig
+    return this.asRecord(payload) as OpenClawConfig
   }
 
   private cloneJsonValue<T>(value: T): T {
@@ -1772,17 +1034,13 @@ export class RPCClient {
   private normalizeChatHistoryPayload(payload: unknown): unknown[] {
     if (Array.isArray(payload)) return payload
     if (!payload || typeof payload !== 'object') return []
+    if (hasField(chatHistoryEnvelopeSchema, 'messages', payload)) {
+      const { messages } = decodeFor('chat.history', chatHistoryEnvelopeSchema, payload)
+      if (messages) return messages
+    }
 
-    const candidateArrayKeys = [
-      'messages',
-      'history',
-      'transcript',
-      'items',
-      'list',
-      'data',
-      'events',
-      'turns',
-    ]
+    // 旧方法的消息列表可能嵌在 result/session 等字段里，按 chat.history 的字段名逐层查找
+    const candidateArrayKeys = ['messages', ...chatHistoryEnvelopeSchema.fields.messages.aliases]
     const queue: unknown[] = [payload]
     const visited = new Set<unknown>()
 
@@ -1815,6 +1073,9 @@ export class RPCClient {
   }
 
   private shouldFallbackOnError(error: unknown): boolean {
+    if (isRpcError(error) && error.code === NOT_RECORDED_ERROR_CODE) {
+      return true
+    }
     const message = error instanceof Error ? error.message : String(error)
     return (
       /unknown method/i.test(message) ||
@@ -1828,40 +1089,82 @@ export class RPCClient {
     )
   }
 
-  private async callWithFallback<T>(
+  private isUnknownMethodError(error: unknown): boolean {
+    const message = error instanceof Error ? error.message : String(error)
+    return /unknown method/i.test(message) || /method not found/i.test(message)
+  }
+
+  private callWithFallback<T>(
     methods: string[],
     params?: Record<string, unknown>,
-    timeout = 15000
+    options?: RpcRequestOptions
   ): Promise<T> {
-    let lastError: unknown
-    for (const method of methods) {
-      try {
-        return await this.call<T>(method, params, timeout)
-      } catch (error) {
-        lastError = error
-        if (!this.shouldFallbackOnError(error)) {
-          throw error
-        }
-      }
-    }
-    throw lastError instanceof Error ? lastError : new Error('RPC call failed')
+    return this.callWithMethodAndParamsFallback<T>(methods, [params], options)
   }
 
   private async callWithMethodAndParamsFallback<T>(
     methods: string[],
     paramsList: Array<Record<string, unknown> | undefined>,
-    timeout = 15000
+    options?: RpcRequestOptions
   ): Promise<T> {
+    const candidates = paramsList.flatMap((params) => methods.map((method) => ({ method, params })))
+    const cache = this.shapeCache
+    const group = shapeGroupKey(methods, paramsList)
+    const learned = cache?.get(group)
+
+    if (learned?.kind === 'unsupported') {
+      throw new RpcError(methods[0] ?? '', { message: `unknown method: ${methods.join(', ')} (cached)` })
+    }
+
+    // 已知可用的结构排到最前，其余候选保持原顺序作为兜底
+    let ordered = candidates
+    if (learned?.kind === 'shape') {
+      const index = candidates.findIndex((item) => shapeSignature(item.method, item.params) === learned.signature)
+      if (index > 0) {
+        ordered = [candidates[index]!, ...candidates.slice(0, index), ...candidates.slice(index + 1)]
+      }
+    }
+
+    // 重试作用于整条降级链：候选各自只发一次，出现可重试错误时从该候选起整体重放，尝试次数全链共享
     let lastError: unknown
-    for (const params of paramsList) {
-      try {
-        return await this.callWithFallback<T>(methods, params, timeout)
-      } catch (error) {
-        lastError = error
-        if (!this.shouldFallbackOnError(error)) {
-          throw error
+    let onlyUnknownMethod = true
+    let start = 0
+    for (let attempt = 1; ; attempt += 1) {
+      let retry: { index: number; error: unknown } | null = null
+      for (let index = start; index < ordered.length; index += 1) {
+        const candidate = ordered[index]!
+        const signature = shapeSignature(candidate.method, candidate.params)
+        const trace = { group: methods.join('|'), candidate: index + 1, candidates: ordered.length }
+        try {
+          const result = await this.callOnce<T>(candidate.method, candidate.params, { ...options, trace }, attempt)
+          cache?.rememberShape(group, signature)
+          return result
+        } catch (error) {
+          lastError = error
+          if (!this.shouldFallbackOnError(error)) {
+            retry = { index, error }
+            break
+          }
+          if (learned?.kind === 'shape' && learned.signature === signature) {
+            cache?.forget(group)
+          }
+          onlyUnknownMethod = onlyUnknownMethod && this.isUnknownMethodError(error)
         }
       }
+      if (!retry) break
+
+      const candidate = ordered[retry.index]!
+      const policy = this.resolveRetryPolicy(candidate.method, candidate.params)
+      const delayMs = computeRetryDelay(policy, retry.error, attempt)
+      if (delayMs === null) throw retry.error
+      await this.waitForRetry(candidate.method, policy, retry.error, attempt, delayMs, options?.signal)
+      // 前面已确认不可用的候选不再重放
+      start = retry.index
+    }
+
+    // 参数校验失败可能源于本次传入的值，只有全部是"未知方法"时才记为不支持
+    if (onlyUnknownMethod && candidates.length > 0) {
+      cache?.rememberUnsupported(group, methods)
     }
     throw lastError instanceof Error ? lastError : new Error('RPC call failed')
   }
@@ -1904,37 +1207,131 @@ export class RPCClient {
     return []
   }
 
-  private call<T>(method: string, params?: Record<string, unknown>, timeout = 15000): Promise<T> {
+  private async call<T>(method: string, params?: Record<string, unknown>, options?: RpcRequestOptions): Promise<T> {
+    const policy = this.resolveRetryPolicy(method, params)
+    for (let attempt = 1; ; attempt += 1) {
+      try {
+        return await this.callOnce<T>(method, params, options, attempt)
+      } catch (error) {
+        const delayMs = computeRetryDelay(policy, error, attempt)
+        if (delayMs === null) throw error
+        await this.waitForRetry(method, policy, error, attempt, delayMs, options?.signal)
+      }
+    }
+  }
+
+  private resolveRetryPolicy(method: string, params?: Record<string, unknown>): RetryPolicy {
+    return this.retryPolicies.get(method) ?? resolveDefaultRetryPolicy(method, params)
+  }
+
+  private waitForRetry(
+    method: string,
+    policy: RetryPolicy,
+    error: unknown,
+    attempt: number,
+    delayMs: number,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    const rpcError = error as RpcError
+    const info: RetryWaitInfo = {
+      method,
+      attempt,
+      maxAttempts: policy.maxAttempts,
+      delayMs,
+      rateLimited: rpcError.isRateLimited,
+      reason: rpcError.message,
+    }
+    this.retryWaitListeners.forEach((listener) => {
+      try {
+        listener(info)
+      } catch (e) {
+        console.error('[RPCClient] Retry listener error:', e)
+      }
+    })
+    return this.waitBeforeRetry(method, delayMs, signal)
+  }
+
+  private waitBeforeRetry(method: string, delayMs: number, signal?: AbortSignal): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(RpcError.aborted(method, signal.reason))
+        return
+      }
+      const onAbort = () => {
+        clearTimeout(timer)
+        reject(RpcError.aborted(method, signal?.reason))
+      }
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort)
+        resolve()
+      }, delayMs)
+      signal?.addEventListener('abort', onAbort, { once: true })
+    })
+  }
+
+  private callOnce<T>(
+    method: string,
+    params?: Record<string, unknown>,
+    options?: RpcRequestOptions,
+    attempt = 1,
+  ): Promise<T> {
+    const timeout = options?.timeout ?? DEFAULT_TIMEOUT_MS
+    const signal = options?.signal
+
     return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(RpcError.aborted(method, signal.reason))
+        return
+      }
+
       const id = nextId()
       let timer: ReturnType<typeof setTimeout>
 
+      const onAbort = () => {
+        clearTimeout(timer)
+        cleanup()
+        // 仍在发送队列里的请求直接撤回，避免重连后再发出
+        this.ws.cancel(id)
+        reject(RpcError.aborted(method, signal?.reason))
+      }
+
       const cleanup = this.ws.on(`rpc:${id}`, (response: unknown) => {
         clearTimeout(timer)
         cleanup()
+        signal?.removeEventListener('abort', onAbort)
         const res = response as RPCResponse<T>
         if (res.ok) {
-          resolve(res.payload as T)
+          const adaptPayload = this.protocolAdapter.adaptPayload
+          resolve((adaptPayload ? adaptPayload(method, res.payload) : res.payload) as T)
         } else {
-          reject(new Error(res.error?.message ?? 'RPC call failed'))
+          reject(RpcError.fromResponse(method, res.error))
         }
       })
 
       timer = setTimeout(() => {
         cleanup()
-        reject(new Error(`RPC call "${method}" timed out after ${timeout}ms`))
+        signal?.removeEventListener('abort', onAbort)
+        reject(RpcError.timeout(method, timeout))
       }, timeout)
 
-      this.ws.send({ type: 'req', id, method, params })
+      signal?.addEventListener('abort', onAbort, { once: true })
+      this.ws.recorder?.annotate(id, {
+        group: options?.trace?.group ?? method,
+        candidate: options?.trace?.candidate ?? 1,
+        candidates: options?.trace?.candidates ?? 1,
+        attempt,
+      })
+      const adaptParams = this.protocolAdapter.adaptParams
+      this.ws.send({ type: 'req', id, method, params: adaptParams ? adaptParams(method, params) : params })
     })
   }
 
   // --- Config ---
-  getConfig(): Promise<OpenClawConfig> {
-    return this.call<unknown>('config.get').then((payload) => this.normalizeConfigPayload(payload))
+  getConfig(options?: RpcCallOptions): Promise<OpenClawConfig> {
+    return this.call<unknown>('config.get', undefined, options).then((payload) => this.normalizeConfigPayload(payload))
   }
 
-  async patchConfig(patches: ConfigPatch[]): Promise<void> {
+  async patchConfig(patches: ConfigPatch[], options?: RpcCallOptions): Promise<void> {
     const normalized = patches
       .map((item) => ({
         path: this.asString(item.path).trim(),
@@ -1946,7 +1343,7 @@ export class RPCClient {
       return
     }
 
-    const snapshotPayload = await this.call<unknown>('config.get', {})
+    const snapshotPayload = await this.call<unknown>('config.get', {}, options)
     const snapshotMeta = this.resolveConfigSnapshotMeta(snapshotPayload)
     let baseHash = snapshotMeta.hash
     if (!baseHash && snapshotMeta.raw) {
@@ -1962,57 +1359,61 @@ export class RPCClient {
     }
 
     try {
-      await this.call('config.patch', params)
+      await this.call('config.patch', params, options)
     } catch (error) {
       const reason = error instanceof Error ? error.message : String(error)
       if (this.shouldFallbackToLegacyConfigPatch(reason)) {
-        await this.call('config.patch', { patches: normalized })
+        await this.call('config.patch', { patches: normalized }, options)
         return
       }
       throw error
     }
   }
 
-  applyConfig(): Promise<void> {
-    return this.call('config.apply')
+  applyConfig(options?: RpcCallOptions): Promise<void> {
+    return this.call('config.apply', undefined, options)
   }
 
   // --- Sessions ---
-  listSessions(): Promise<Session[]> {
-    return this.callWithFallback<unknown>(['sessions.list', 'session.list']).then((payload) =>
+  listSessions(options?: RpcCallOptions): Promise<Session[]> {
+    return this.callWithFallback<unknown>(['sessions.list', 'session.list'], undefined, options).then((payload) =>
       this.normalizeList<unknown>(payload, ['sessions', 'items', 'list', 'data'])
         .map((item) => this.normalizeSessionItem(item))
         .filter((item) => !!item.key)
     )
   }
 
-  getSession(key: string): Promise<SessionDetail> {
-    return this.callWithFallback(['sessions.get', 'session.get'], { key })
+  getSession(key: string, options?: RpcCallOptions): Promise<SessionDetail> {
+    return this.callWithFallback(['sessions.get', 'session.get'], { key }, options)
   }
 
-  resetSession(key: string): Promise<void> {
+  resetSession(key: string, options?: RpcCallOptions): Promise<void> {
     return this.callWithMethodAndParamsFallback(
       ['sessions.reset', 'session.reset'],
-      [{ key, reason: 'reset' }, { key }]
+      [{ key, reason: 'reset' }, { key }],
+      options
     )
   }
 
-  newSession(key: string): Promise<void> {
+  newSession(key: string, options?: RpcCallOptions): Promise<void> {
     return this.callWithMethodAndParamsFallback(
       ['sessions.reset', 'session.reset'],
-      [{ key, reason: 'new' }, { key }]
+      [{ key, reason: 'new' }, { key }],
+      options
     )
   }
 
-  deleteSession(key: string): Promise<void> {
-    return this.callWithFallback(['sessions.delete', 'session.delete'], { key })
+  deleteSession(key: string, options?: RpcCallOptions): Promise<void> {
+    return this.callWithFallback(['sessions.delete', 'session.delete'], { key }, options)
   }
 
-  exportSession(key: string): Promise<SessionExport> {
-    return this.callWithFallback(['sessions.export', 'session.export'], { key })
+  exportSession(key: string, options?: RpcCallOptions): Promise<SessionExport> {
+    return this.callWithFallback<unknown>(['sessions.export', 'session.export'], { key }, options).then((payload) =>
+      this.normalizeSessionExport(payload, key)
+    )
   }
 
-  getSessionsUsage(params?: SessionsUsageParams): Promise<SessionsUsageResult> {
+  getSessionsUsage(params?: SessionsUsageParams, options?: RpcCallOptions): Promise<SessionsUsageResult> {
     const normalized: Record<string, unknown> = {}
     if (params?.key?.trim()) normalized.key = params.key.trim()
     if (params?.startDate?.trim()) normalized.startDate = params.startDate.trim()
@@ -2027,11 +1428,11 @@ export class RPCClient {
     return this.callWithMethodAndParamsFallback<unknown>(
       ['sessions.usage', 'usage.sessions'],
       [normalized, {}],
-      60000
+      { ...options, timeout: 60000 }
     ).then((payload) => this.normalizeSessionsUsageResult(payload))
   }
 
-  getUsageCost(params?: { startDate?: string; endDate?: string; days?: number }): Promise<CostUsageSummary> {
+  getUsageCost(params?: { startDate?: string; endDate?: string; days?: number }, options?: RpcCallOptions): Promise<CostUsageSummary> {
     const normalized: Record<string, unknown> = {}
     if (params?.startDate?.trim()) normalized.startDate = params.startDate.trim()
     if (params?.endDate?.trim()) normalized.endDate = params.endDate.trim()
@@ -2042,49 +1443,51 @@ export class RPCClient {
     return this.callWithMethodAndParamsFallback<unknown>(
       ['usage.cost', 'cost.usage'],
       [normalized, {}],
-      45000
+      { ...options, timeout: 45000 }
     ).then((payload) => this.normalizeCostUsageSummary(payload))
   }
 
   // --- Channels ---
-  listChannels(): Promise<Channel[]> {
-    return this.callWithFallback<unknown>(['channels.status', 'channels.list', 'channel.list']).then((payload) => {
+  listChannels(options?: RpcCallOptions): Promise<Channel[]> {
+    return this.callWithFallback<unknown>(['channels.status', 'channels.list', 'channel.list'], undefined, options).then((payload) => {
       const statusSnapshot = this.normalizeChannelsStatusPayload(payload)
       if (statusSnapshot.length > 0) {
         return statusSnapshot.filter((item) => !!item.id)
       }
 
       return this.normalizeList<unknown>(payload, ['channels', 'items', 'list', 'data', 'status'])
-        .map((item) => this.normalizeChannelItem(item))
+        .map((item) => this.normalizeChannelItem(item, 'channels.list'))
         .filter((item) => !!item.id)
     })
   }
 
-  authChannel(params: ChannelAuthParams): Promise<unknown> {
+  authChannel(params: ChannelAuthParams, options?: RpcCallOptions): Promise<unknown> {
     const rawParams = params as unknown as Record<string, unknown>
-    return this.callWithFallback(['channel.auth', 'channels.auth', 'web.login.start'], rawParams)
+    return this.callWithFallback(['channel.auth', 'channels.auth', 'web.login.start'], rawParams, options)
   }
 
-  pairChannel(params: PairParams): Promise<void> {
+  pairChannel(params: PairParams, options?: RpcCallOptions): Promise<void> {
     return this.callWithFallback(
       ['channel.pair', 'channels.pair'],
-      params as unknown as Record<string, unknown>
+      params as unknown as Record<string, unknown>,
+      options
     )
   }
 
-  getChannelStatus(channelId: string): Promise<ChannelStatus> {
-    return this.callWithFallback(['channel.status', 'channels.status'], { channelId })
+  getChannelStatus(channelId: string, options?: RpcCallOptions): Promise<ChannelStatus> {
+    return this.callWithFallback(['channel.status', 'channels.status'], { channelId }, options)
   }
 
   // --- Plugins ---
-  listPlugins(): Promise<PluginPackage[]> {
+  listPlugins(options?: RpcCallOptions): Promise<PluginPackage[]> {
     return this.callWithMethodAndParamsFallback<unknown>(
       ['plugins.list', 'plugin.list', 'plugins.status', 'plugin.status'],
-      [{}, undefined]
+      [{}, undefined],
+      options
     ).then((payload) => this.normalizePluginList(payload))
   }
 
-  installPlugin(name: string): Promise<void> {
+  installPlugin(name: string, options?: RpcCallOptions): Promise<void> {
     return this.callWithMethodAndParamsFallback(
       ['plugins.install', 'plugin.install'],
       [
@@ -2093,30 +1496,30 @@ export class RPCClient {
         { plugin: name },
         { id: name },
       ],
-      180000
+      { ...options, timeout: 180000 }
     )
   }
 
   // --- Skills ---
-  listSkills(): Promise<Skill[]> {
-    return this.callWithFallback<unknown>(['skills.status', 'skills.list'], {}).then((payload) =>
+  listSkills(options?: RpcCallOptions): Promise<Skill[]> {
+    return this.callWithFallback<unknown>(['skills.status', 'skills.list'], {}, options).then((payload) =>
       this.normalizeList<unknown>(payload, ['skills', 'items', 'list', 'data', 'entries'])
         .map((item) => this.normalizeSkillItem(item))
         .filter((item) => !!item.name)
     )
   }
 
-  installSkill(name: string): Promise<void> {
-    return this.callWithFallback(['skills.install'], { name })
+  installSkill(name: string, options?: RpcCallOptions): Promise<void> {
+    return this.callWithFallback(['skills.install'], { name }, options)
   }
 
-  updateSkills(): Promise<void> {
-    return this.callWithFallback(['skills.update'])
+  updateSkills(options?: RpcCallOptions): Promise<void> {
+    return this.callWithFallback(['skills.update'], undefined, options)
   }
 
   // --- Tools ---
-  listTools(): Promise<Tool[]> {
-    return this.callWithFallback<unknown>(['tools.list']).then((payload) =>
+  listTools(options?: RpcCallOptions): Promise<Tool[]> {
+    return this.callWithFallback<unknown>(['tools.list'], undefined, options).then((payload) =>
       this.normalizeList<unknown>(payload, ['tools', 'items', 'list', 'data'])
         .map((item) => this.normalizeToolItem(item))
         .filter((item) => !!item.name)
@@ -2124,28 +1527,28 @@ export class RPCClient {
   }
 
   // --- Nodes ---
-  listNodes(): Promise<DeviceNode[]> {
-    return this.callWithFallback<unknown>(['node.list']).then((payload) =>
+  listNodes(options?: RpcCallOptions): Promise<DeviceNode[]> {
+    return this.callWithFallback<unknown>(['node.list'], undefined, options).then((payload) =>
       this.normalizeList<unknown>(payload, ['nodes', 'items', 'list', 'data'])
         .map((item) => this.normalizeNodeItem(item))
         .filter((item) => !!item.id)
     )
   }
 
-  invokeNode(params: NodeInvokeParams): Promise<unknown> {
-    return this.call('node.invoke', params as unknown as Record<string, unknown>)
+  invokeNode(params: NodeInvokeParams, options?: RpcCallOptions): Promise<unknown> {
+    return this.call('node.invoke', params as unknown as Record<string, unknown>, options)
   }
 
-  requestNodePairing(nodeId: string): Promise<void> {
-    return this.call('node.pair.request', { nodeId })
+  requestNodePairing(nodeId: string, options?: RpcCallOptions): Promise<void> {
+    return this.call('node.pair.request', { nodeId }, options)
   }
 
-  approveNodePairing(nodeId: string, code: string): Promise<void> {
-    return this.call('node.pair.approve', { nodeId, code })
+  approveNodePairing(nodeId: string, code: string, options?: RpcCallOptions): Promise<void> {
+    return this.call('node.pair.approve', { nodeId, code }, options)
   }
 
   // --- Ops ---
-  getHealth(params?: { probe?: boolean }): Promise<HealthSummary> {
+  getHealth(params?: { probe?: boolean }, options?: RpcCallOptions): Promise<HealthSummary> {
     const payload: Record<string, unknown> = {}
     if (params?.probe === true) {
       payload.probe = true
@@ -2154,22 +1557,29 @@ export class RPCClient {
     return this.callWithMethodAndParamsFallback<HealthSummary>(
       ['health'],
       [payload, {}, undefined],
-      params?.probe ? 60000 : 30000
-    )
+      { ...options, timeout: params?.probe ? 60000 : 30000 }
+    ).then((result) => {
+      observeWith('health', healthSummarySchema, result)
+      return result
+    })
   }
 
-  getStatus(): Promise<StatusSummary> {
+  getStatus(options?: RpcCallOptions): Promise<StatusSummary> {
     return this.callWithMethodAndParamsFallback<StatusSummary>(
       ['status'],
       [{}, undefined],
-      30000
-    )
+      { ...options, timeout: 30000 }
+    ).then((result) => {
+      observeWith('status', statusSummarySchema, result)
+      return result
+    })
   }
 
-  getSystemPresence(): Promise<SystemPresenceEntry[]> {
+  getSystemPresence(options?: RpcCallOptions): Promise<SystemPresenceEntry[]> {
     return this.callWithMethodAndParamsFallback<unknown>(
       ['system-presence'],
-      [{}, undefined]
+      [{}, undefined],
+      options
     ).then((payload) => {
       const entries = Array.isArray(payload)
         ? payload
@@ -2181,7 +1591,7 @@ export class RPCClient {
     })
   }
 
-  tailLogs(params?: LogsTailParams): Promise<LogsTailResult> {
+  tailLogs(params?: LogsTailParams, options?: RpcCallOptions): Promise<LogsTailResult> {
     const normalized: Record<string, unknown> = {}
     if (typeof params?.cursor === 'number' && Number.isFinite(params.cursor) && params.cursor >= 0) {
       normalized.cursor = Math.floor(params.cursor)
@@ -2195,42 +1605,53 @@ export class RPCClient {
 
     return this.callWithMethodAndParamsFallback<unknown>(
       ['logs.tail'],
-      [normalized, {}]
+      [normalized, {}],
+      options
     ).then((payload) => this.normalizeLogsTailResult(payload))
   }
 
-  getExecApprovals(target?: { nodeId?: string }): Promise<ExecApprovalsSnapshot> {
+  getExecApprovals(target?: { nodeId?: string }, options?: RpcCallOptions): Promise<ExecApprovalsSnapshot> {
     const nodeId = target?.nodeId?.trim()
     if (nodeId) {
-      return this.callWithFallback<unknown>(['exec.approvals.node.get'], { nodeId })
-        .then((payload) => this.normalizeExecApprovalsSnapshot(payload))
+      return this.callWithFallback<unknown>(['exec.approvals.node.get'], { nodeId }, options)
+        .then((payload) => this.normalizeExecApprovalsSnapshot(payload, 'exec.approvals.node.get'))
     }
-    return this.callWithFallback<unknown>(['exec.approvals.get'], {})
-      .then((payload) => this.normalizeExecApprovalsSnapshot(payload))
+    return this.callWithFallback<unknown>(['exec.approvals.get'], {}, options)
+      .then((payload) => this.normalizeExecApprovalsSnapshot(payload, 'exec.approvals.get'))
   }
 
   setExecApprovals(params: {
     file: ExecApprovalsFile
     baseHash: string
     nodeId?: string
-  }): Promise<ExecApprovalsSnapshot> {
+  }, options?: RpcCallOptions): Promise<ExecApprovalsSnapshot> {
     const nodeId = params.nodeId?.trim()
     const payload = {
-      file: this.normalizeExecApprovalsFile(params.file),
+      file: decodeFor(params.nodeId ? 'exec.approvals.node.set' : 'exec.approvals.set', execApprovalsFileSchema, params.file),
       baseHash: params.baseHash,
     }
 
     if (nodeId) {
       return this.callWithFallback<unknown>(
         ['exec.approvals.node.set'],
-        { nodeId, ...payload }
-      ).then((res) => this.normalizeExecApprovalsSnapshot(res))
+        { nodeId, ...payload },
+        options
+      ).then((res) => this.normalizeExecApprovalsSnapshot(res, 'exec.approvals.node.set'))
     }
 
     return this.callWithFallback<unknown>(
       ['exec.approvals.set'],
-      payload
-    ).then((res) => this.normalizeExecApprovalsSnapshot(res))
+      payload,
+      options
+    ).then((res) => this.normalizeExecApprovalsSnapshot(res, 'exec.approvals.set'))
+  }
+
+  resolveExecApproval(id: string, decision: ExecApprovalDecision, options?: RpcCallOptions): Promise<void> {
+    return this.callWithMethodAndParamsFallback(
+      ['exec.approval.resolve'],
+      [{ id, decision }, { approvalId: id, decision }],
+      options
+    )
   }
 
   runUpdate(params?: {
@@ -2238,7 +1659,7 @@ export class RPCClient {
     note?: string
     restartDelayMs?: number
     timeoutMs?: number
-  }): Promise<UpdateRunResponse> {
+  }, options?: RpcCallOptions): Promise<UpdateRunResponse> {
     const payload: Record<string, unknown> = {}
     if (params?.sessionKey?.trim()) payload.sessionKey = params.sessionKey.trim()
     if (params?.note?.trim()) payload.note = params.note.trim()
@@ -2260,16 +1681,19 @@ export class RPCClient {
     return this.callWithMethodAndParamsFallback<unknown>(
       ['update.run'],
       [payload, {}],
-      (params?.timeoutMs && Number.isFinite(params.timeoutMs))
-        ? Math.max(5000, Math.floor(params.timeoutMs) + 15000)
-        : 240000
+      {
+        ...options,
+        timeout: (params?.timeoutMs && Number.isFinite(params.timeoutMs))
+          ? Math.max(5000, Math.floor(params.timeoutMs) + 15000)
+          : 240000,
+      }
     ).then((res) => this.normalizeUpdateRunResponse(res))
   }
 
   // --- Agents ---
-  async listAgents(): Promise<AgentsListResult> {
+  async listAgents(options?: RpcCallOptions): Promise<AgentsListResult> {
     try {
-      const payload = await this.callWithFallback<unknown>(['agents.list', 'agent.list'], {})
+      const payload = await this.callWithFallback<unknown>(['agents.list', 'agent.list'], {}, options)
       const result = this.normalizeAgentsListResult(payload)
       if (result.agents.length > 0) {
         return result
@@ -2279,7 +1703,7 @@ export class RPCClient {
       if (!this.shouldFallbackOnError(error)) {
         throw error
       }
-      const config = await this.getConfig()
+      const config = await this.getConfig(options)
       const configured = Array.isArray(config.agents?.list) ? config.agents.list : []
       const ids = Array.from(
         new Set(
@@ -2294,14 +1718,15 @@ export class RPCClient {
     }
   }
 
-  listAgentFiles(agentId: string): Promise<AgentFilesListResult> {
+  listAgentFiles(agentId: string, options?: RpcCallOptions): Promise<AgentFilesListResult> {
     return this.callWithMethodAndParamsFallback<unknown>(
       ['agents.files.list', 'agent.files.list'],
-      [{ agentId }, { id: agentId }, { agent: agentId }]
+      [{ agentId }, { id: agentId }, { agent: agentId }],
+      options
     ).then((payload) => {
       const row = this.asRecord(payload)
       const files = this.normalizeList<unknown>(payload, ['files', 'items', 'list', 'data'])
-        .map((item) => this.normalizeAgentFileEntry(item))
+        .map((item) => this.normalizeAgentFileEntry(item, 'agents.files.list'))
         .filter((item) => !!item.name)
       return {
         agentId: this.asString(row.agentId || row.id, agentId),
@@ -2311,14 +1736,15 @@ export class RPCClient {
     })
   }
 
-  getAgentFile(agentId: string, name: string): Promise<AgentFilesGetResult> {
+  getAgentFile(agentId: string, name: string, options?: RpcCallOptions): Promise<AgentFilesGetResult> {
     return this.callWithMethodAndParamsFallback<unknown>(
       ['agents.files.get', 'agent.files.get'],
-      [{ agentId, name }, { id: agentId, name }, { agent: agentId, name }]
+      [{ agentId, name }, { id: agentId, name }, { agent: agentId, name }],
+      options
     ).then((payload) => {
       const row = this.asRecord(payload)
       const filePayload = row.file && typeof row.file === 'object' ? row.file : payload
-      const parsed = this.normalizeAgentFileEntry(filePayload)
+      const parsed = this.normalizeAgentFileEntry(filePayload, 'agents.files.get')
       const file: AgentFileEntry = {
         ...parsed,
         name: parsed.name || name,
@@ -2332,18 +1758,19 @@ export class RPCClient {
     })
   }
 
-  setAgentFile(agentId: string, name: string, content: string): Promise<AgentFilesSetResult> {
+  setAgentFile(agentId: string, name: string, content: string, options?: RpcCallOptions): Promise<AgentFilesSetResult> {
     return this.callWithMethodAndParamsFallback<unknown>(
       ['agents.files.set', 'agent.files.set'],
       [
         { agentId, name, content },
         { id: agentId, name, content },
         { agent: agentId, name, content },
-      ]
+      ],
+      options
     ).then((payload) => {
       const row = this.asRecord(payload)
       const filePayload = row.file && typeof row.file === 'object' ? row.file : payload
-      const parsed = this.normalizeAgentFileEntry(filePayload)
+      const parsed = this.normalizeAgentFileEntry(filePayload, 'agents.files.set')
       const file: AgentFileEntry = {
         ...parsed,
         name: parsed.name || name,
@@ -2360,24 +1787,68 @@ export class RPCClient {
     })
   }
 
+  // 优先走网关的上传方法（支持二进制）；旧网关只有 agents.files.set 时，文本文件退回按内容写入
+  uploadAgentFile(params: AgentFileUploadParams, options?: RpcCallOptions): Promise<AgentFileUploadResult> {
+    const body = {
+      name: params.name,
+      content: params.content,
+      encoding: params.encoding,
+      ...(params.mimeType ? { mimeType: params.mimeType } : {}),
+    }
+    return this.callWithMethodAndParamsFallback<unknown>(
+      ['agents.files.upload', 'agent.files.upload', 'files.upload'],
+      [
+        { agentId: params.agentId, ...body },
+        { id: params.agentId, ...body },
+        { agent: params.agentId, ...body },
+      ],
+      { ...options, timeout: 120000 }
+    ).then((payload) => {
+      const row = this.asRecord(payload)
+      const filePayload = row.file && typeof row.file === 'object' ? row.file : payload
+      const parsed = this.normalizeAgentFileEntry(filePayload, 'agents.files.upload')
+      const workspace = this.asString(row.workspace || row.dir)
+      return {
+        agentId: this.asString(row.agentId || row.id, params.agentId),
+        workspace,
+        file: {
+          ...parsed,
+          name: parsed.name || params.name,
+          path: parsed.path || this.asString(row.path) || `${workspace}/${params.name}`,
+          missing: false,
+        },
+      }
+    }).catch((error) => {
+      if (params.encoding !== 'utf8' || !this.isUnknownMethodError(error)) {
+        throw error
+      }
+      return this.setAgentFile(params.agentId, params.name, params.content, options).then((result) => ({
+        agentId: result.agentId,
+        workspace: result.workspace,
+        file: { ...result.file, content: undefined },
+      }))
+    })
+  }
+
   // --- Agent ---
-  callAgent(params: AgentParams): Promise<unknown> {
-    return this.call('agent', params as unknown as Record<string, unknown>, 120000)
+  callAgent(params: AgentParams, options?: RpcCallOptions): Promise<unknown> {
+    return this.call('agent', params as unknown as Record<string, unknown>, { ...options, timeout: 120000 })
   }
 
-  abortAgent(runId: string): Promise<void> {
-    return this.call('agent.abort', { runId })
+  abortAgent(runId: string, options?: RpcCallOptions): Promise<void> {
+    return this.call('agent.abort', { runId }, options)
   }
 
-  setAgentModel(sessionKey: string, model: string): Promise<void> {
-    return this.call('agent.model.set', { sessionKey, model })
+  setAgentModel(sessionKey: string, model: string, options?: RpcCallOptions): Promise<void> {
+    return this.call('agent.model.set', { sessionKey, model }, options)
   }
 
   // --- Chat ---
-  listChatHistory(sessionKey: string): Promise<ChatMessage[]> {
+  listChatHistory(sessionKey: string, options?: RpcCallOptions): Promise<ChatMessage[]> {
     return this.callWithMethodAndParamsFallback<unknown>(
       ['chat.history', 'sessions.history', 'session.history', 'sessions.get', 'session.get'],
-      [{ sessionKey }, { key: sessionKey }, { session: sessionKey }]
+      [{ sessionKey }, { key: sessionKey }, { session: sessionKey }],
+      options
     ).then((payload) =>
       this.normalizeChatHistoryPayload(payload)
         .map((item) => this.normalizeChatMessageItem(item))
@@ -2385,7 +1856,26 @@ export class RPCClient {
     )
   }
 
-  sendChatMessage(params: ChatSendParams): Promise<unknown> {
+  // 网关不支持 chat.inject 时返回 false，由调用方改用其他方式携带上下文
+  injectChatMessage(params: ChatInjectParams, options?: RpcCallOptions): Promise<boolean> {
+    const label = params.label?.trim()
+    return this.callWithMethodAndParamsFallback(
+      ['chat.inject'],
+      [
+        { sessionKey: params.sessionKey, message: params.message, ...(label ? { label } : {}) },
+        { sessionKey: params.sessionKey, message: params.message },
+      ],
+      options
+    ).then(
+      () => true,
+      (error) => {
+        if (this.isUnknownMethodError(error)) return false
+        throw error
+      }
+    )
+  }
+
+  sendChatMessage(params: ChatSendParams, options?: RpcCallOptions): Promise<unknown> {
     const idempotencyKey = params.idempotencyKey || `web-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`
     const model = params.model?.trim()
     const chatSendCandidates: Array<Record<string, unknown>> = [
@@ -2436,6 +1926,16 @@ export class RPCClient {
       },
     ]
 
+    // 附件已写入工作区并在正文中引用；网关支持结构化附件时一并提交，不支持则按参数校验失败降级为纯文本
+    const attachments = params.attachments?.length
+      ? params.attachments.map((item) => ({
+          name: item.name,
+          path: item.path,
+          mimeType: item.mimeType,
+          size: item.size,
+        }))
+      : null
+
     if (model) {
       chatSendCandidates.unshift(
         {
@@ -2465,10 +1965,18 @@ export class RPCClient {
       )
     }
 
+    if (attachments) {
+      chatSendCandidates.unshift(
+        ...chatSendCandidates
+          .filter((candidate) => 'userMessage' in candidate)
+          .map((candidate) => ({ ...candidate, attachments }))
+      )
+    }
+
     return this.callWithMethodAndParamsFallback(
       ['chat.send'],
       chatSendCandidates,
-      120000
+      { ...options, timeout: 120000 }
     ).catch((error) => {
       if (!this.shouldFallbackOnError(error)) {
         throw error
@@ -2511,12 +2019,12 @@ export class RPCClient {
             idempotencyKey,
           },
         ],
-        120000
+        { ...options, timeout: 120000 }
       )
     })
   }
 
-  abortChat(runId?: string, sessionKey?: string): Promise<void> {
+  abortChat(runId?: string, sessionKey?: string, options?: RpcCallOptions): Promise<void> {
     const paramsList: Array<Record<string, unknown>> = []
     if (runId) paramsList.push({ runId })
     if (sessionKey) {
@@ -2526,14 +2034,15 @@ export class RPCClient {
     if (paramsList.length === 0) {
       paramsList.push({})
     }
-    return this.callWithMethodAndParamsFallback(['chat.abort', 'agent.abort'], paramsList)
+    return this.callWithMethodAndParamsFallback(['chat.abort', 'agent.abort'], paramsList, options)
   }
 
   // --- Cron ---
-  listCrons(): Promise<CronJob[]> {
+  listCrons(options?: RpcCallOptions): Promise<CronJob[]> {
     return this.callWithMethodAndParamsFallback<unknown>(
       ['cron.list', 'crons.list', 'schedule.list', 'schedules.list'],
-      [{ includeDisabled: true }, {}]
+      [{ includeDisabled: true }, {}],
+      options
     ).then(
       (payload) =>
         this.normalizeList<unknown>(payload, ['items', 'list', 'data', 'jobs', 'tasks', 'crons', 'schedules'])
@@ -2542,17 +2051,19 @@ export class RPCClient {
     )
   }
 
-  getCronStatus(): Promise<CronStatus> {
+  getCronStatus(options?: RpcCallOptions): Promise<CronStatus> {
     return this.callWithFallback<unknown>(
       ['cron.status', 'crons.status', 'schedule.status', 'schedules.status'],
-      {}
+      {},
+      options
     ).then((payload) => this.normalizeCronStatus(payload))
   }
 
-  listCronRuns(jobId: string, limit = 50): Promise<CronRunLogEntry[]> {
+  listCronRuns(jobId: string, limit = 50, options?: RpcCallOptions): Promise<CronRunLogEntry[]> {
     return this.callWithMethodAndParamsFallback<unknown>(
       ['cron.runs', 'crons.runs', 'cron.history', 'crons.history'],
-      [{ id: jobId, limit }, { jobId, limit }, { taskId: jobId, limit }]
+      [{ id: jobId, limit }, { jobId, limit }, { taskId: jobId, limit }],
+      options
     ).then((payload) =>
       this.normalizeList<unknown>(payload, ['entries', 'items', 'list', 'data', 'runs', 'history'])
         .map((item) => this.normalizeCronRunItem(item))
@@ -2560,39 +2071,43 @@ export class RPCClient {
     )
   }
 
-  createCron(params: CronUpsertParams): Promise<void> {
+  createCron(params: CronUpsertParams, options?: RpcCallOptions): Promise<void> {
     const raw = params as unknown as Record<string, unknown>
     return this.callWithMethodAndParamsFallback(
       ['cron.add', 'cron.create', 'crons.add', 'crons.create'],
-      [raw, { job: raw }, { task: raw }]
+      [raw, { job: raw }, { task: raw }],
+      options
     )
   }
 
-  updateCron(id: string, params: Partial<CronUpsertParams>): Promise<void> {
+  updateCron(id: string, params: Partial<CronUpsertParams>, options?: RpcCallOptions): Promise<void> {
     const patch = params as Record<string, unknown>
     return this.callWithMethodAndParamsFallback(
       ['cron.update', 'crons.update', 'schedule.update', 'schedules.update'],
-      [{ id, ...patch }, { id, patch }, { jobId: id, ...patch }, { taskId: id, ...patch }]
+      [{ id, ...patch }, { id, patch }, { jobId: id, ...patch }, { taskId: id, ...patch }],
+      options
     )
   }
 
-  deleteCron(id: string): Promise<void> {
+  deleteCron(id: string, options?: RpcCallOptions): Promise<void> {
     return this.callWithMethodAndParamsFallback(
       ['cron.remove', 'cron.delete', 'crons.remove', 'crons.delete', 'schedule.delete', 'schedules.delete'],
-      [{ id }, { jobId: id }, { taskId: id }]
+      [{ id }, { jobId: id }, { taskId: id }],
+      options
     )
   }
 
-  runCron(id: string, mode: 'force' | 'due' = 'force'): Promise<void> {
+  runCron(id: string, mode: 'force' | 'due' = 'force', options?: RpcCallOptions): Promise<void> {
     return this.callWithMethodAndParamsFallback(
       ['cron.run', 'crons.run', 'cron.trigger', 'crons.trigger'],
-      [{ id, mode }, { jobId: id, mode }, { taskId: id, mode }, { id }, { jobId: id }, { taskId: id }]
+      [{ id, mode }, { jobId: id, mode }, { taskId: id, mode }, { id }, { jobId: id }, { taskId: id }],
+      options
     )
   }
 
   // --- Models ---
-  listModels(): Promise<ModelInfo[]> {
-    return this.callWithFallback<unknown>(['models.list', 'model.list']).then((payload) =>
+  listModels(options?: RpcCallOptions): Promise<ModelInfo[]> {
+    return this.callWithFallback<unknown>(['models.list', 'model.list'], undefined, options).then((payload) =>
       this.normalizeList<unknown>(payload, ['models', 'items', 'list', 'data', 'entries'])
         .map((item) => this.normalizeModelItem(item))
         .filter((item) => !!item.id)
@@ -2600,7 +2115,7 @@ export class RPCClient {
   }
 
   // --- Messaging ---
-  sendMessage(params: SendParams): Promise<void> {
-    return this.call('send', params as unknown as Record<string, unknown>)
+  sendMessage(params: SendParams, options?: RpcCallOptions): Promise<void> {
+    return this.call('send', params as unknown as Record<string, unknown>, options)
   }
 }
@@ -0,0 +1,82 @@
+import type { RPCError } from './types'
+
+export type RpcErrorKind = 'gateway' | 'timeout' | 'aborted'
+
+// 回放网关对录制中没有的请求返回的错误码：可以继续尝试其它候选，但不代表真实网关不支持
+export const NOT_RECORDED_ERROR_CODE = 'NOT_RECORDED'
+
+const RATE_LIMIT_PATTERN = /rate.?limit|too many requests|throttl|\b429\b/i
+
+/**
+ * RPC 调用失败时抛出的错误，保留网关返回的 code/details 与重试提示。
+ * message 与原先的 Error(message) 一致，按 message 匹配的旧逻辑无需修改。
+ */
+export class RpcError extends Error {
+  readonly method: string
+  readonly kind: RpcErrorKind
+  readonly code?: string | number
+  readonly details?: unknown
+  readonly data?: unknown
+  readonly retryable?: boolean
+  readonly retryAfterMs?: number
+
+  constructor(
+    method: string,
+    error: Partial<RPCError> & { message: string },
+    kind: RpcErrorKind = 'gateway',
+  ) {
+    super(error.message)
+    this.name = 'RpcError'
+    this.method = method
+    this.kind = kind
+    this.code = error.code
+    this.details = error.details
+    this.data = error.data
+    this.retryable = typeof error.retryable === 'boolean' ? error.retryable : undefined
+    this.retryAfterMs =
+      typeof error.retryAfterMs === 'number' && Number.isFinite(error.retryAfterMs) && error.retryAfterMs >= 0
+        ? error.retryAfterMs
+        : undefined
+  }
+
+  static fromResponse(method: string, error?: RPCError): RpcError {
+    return new RpcError(method, {
+      ...error,
+      message: error?.message ?? 'RPC call failed',
+    })
+  }
+
+  static timeout(method: string, timeoutMs: number): RpcError {
+    return new RpcError(method, { message: `RPC call "${method}" timed out after ${timeoutMs}ms` }, 'timeout')
+  }
+
+  static aborted(method: string, reason?: unknown): RpcError {
+    const detail = reason instanceof Error ? reason.message : typeof reason === 'string' ? reason : ''
+    return new RpcError(
+      method,
+      { message: `RPC call "${method}" aborted${detail ? `: ${detail}` : ''}`, retryable: false },
+      'aborted',
+    )
+  }
+
+  get isTimeout(): boolean {
+    return this.kind === 'timeout'
+  }
+
+  get isAborted(): boolean {
+    return this.kind === 'aborted'
+  }
+
+  get isRateLimited(): boolean {
+    return RATE_LIMIT_PATTERN.test(String(this.code ?? '')) || RATE_LIMIT_PATTERN.test(this.message)
+  }
+}
+
+export function isRpcError(error: unknown): error is RpcError {
+  return error instanceof RpcError
+}
+
+// 请求被 AbortSignal 取消；调用方通常应静默忽略
+export function isAbortError(error: unknown): boolean {
+  return isRpcError(error) && error.isAborted
+}
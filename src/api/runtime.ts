@@ -0,0 +1,137 @@
+// api/ 层的运行环境：存储、WebSocket 构造、错误文案本地化与客户端信息均可替换，
+// 浏览器与 Node 脚本共用同一套连接与降级逻辑
+
+export interface KeyValueStorage {
+  getItem(key: string): string | null
+  setItem(key: string, value: string): void
+  removeItem(key: string): void
+}
+
+export interface WebSocketLike {
+  readonly readyState: number
+  send(data: string): void
+  close(code?: number, reason?: string): void
+  onopen: ((event: unknown) => void) | null
+  onmessage: ((event: { data: unknown }) => void) | null
+  onclose: ((event: { code: number; reason: string }) => void) | null
+  onerror: ((event: unknown) => void) | null
+}
+
+export type WebSocketFactory = (url: string) => WebSocketLike
+
+// 与 byLocale 相同的参数顺序：先中文后英文
+export type MessageLocalizer = (zhCN: string, enUS: string) => string
+
+export interface ClientRuntime {
+  // null 表示无持久化（设备身份、结构缓存只在内存中有效）
+  storage: KeyValueStorage | null
+  createWebSocket: WebSocketFactory
+  localize: MessageLocalizer
+  clientVersion: string
+  clientDisplayName: string
+  getPlatform: () => string
+  getLocale: () => string | undefined
+  getUserAgent: () => string | undefined
+  // 未手动设置时严格结构模式的默认值
+  schemaStrictByDefault: boolean
+}
+
+export const WS_READY_STATE = {
+  CONNECTING: 0,
+  OPEN: 1,
+  CLOSING: 2,
+  CLOSED: 3,
+} as const
+
+type ProcessLike = { platform?: string; version?: string }
+
+function getProcess(): ProcessLike | undefined {
+  return (globalThis as { process?: ProcessLike }).process
+}
+
+function detectStorage(): KeyValueStorage | null {
+  try {
+    const storage = (globalThis as { localStorage?: KeyValueStorage }).localStorage
+    return storage ?? null
+  } catch {
+    // 部分隐私模式下访问 localStorage 会直接抛错
+    return null
+  }
+}
+
+function detectPlatform(): string {
+  if (typeof navigator !== 'undefined') {
+    const nav = navigator as Navigator & { userAgentData?: { platform?: string } }
+    const raw = nav.userAgentData?.platform || navigator.platform
+    if (raw) return String(raw).toLowerCase()
+  }
+  return getProcess()?.platform || 'web'
+}
+
+function detectUserAgent(): string | undefined {
+  if (typeof navigator !== 'undefined' && navigator.userAgent) {
+    return navigator.userAgent
+  }
+  const version = getProcess()?.version
+  return version ? `node/${version}` : undefined
+}
+
+function defaultWebSocketFactory(url: string): WebSocketLike {
+  if (typeof WebSocket === 'undefined') {
+    throw new Error('WebSocket is not available in this runtime; configure createWebSocket')
+  }
+  return new WebSocket(url) as unknown as WebSocketLike
+}
+
+let runtime: ClientRuntime = {
+  storage: detectStorage(),
+  createWebSocket: defaultWebSocketFactory,
+  localize: (_zhCN, enUS) => enUS,
+  clientVersion: '0.1.0',
+  clientDisplayName: 'OpenClaw Admin',
+  getPlatform: detectPlatform,
+  getLocale: () => undefined,
+  getUserAgent: detectUserAgent,
+  schemaStrictByDefault: false,
+}
+
+export function configureClientRuntime(overrides: Partial<ClientRuntime>): void {
+  runtime = { ...runtime, ...overrides }
+}
+
+export function getClientRuntime(): ClientRuntime {
+  return runtime
+}
+
+export function localize(zhCN: string, enUS: string): string {
+  return runtime.localize(zhCN, enUS)
+}
+
+export function readStorage(key: string): string | null {
+  try {
+    return runtime.storage?.getItem(key) ?? null
+  } catch {
+    return null
+  }
+}
+
+export function writeStorage(key: string, value: string): void {
+  try {
+    runtime.storage?.setItem(key, value)
+  } catch (error) {
+    console.warn('[ClientRuntime] 写入存储失败:', error)
+  }
+}
+
+export function createMemoryStorage(initial?: Record<string, string>): KeyValueStorage {
+  const data = new Map<string, string>(Object.entries(initial ?? {}))
+  return {
+    getItem: (key) => data.get(key) ?? null,
+    setItem: (key, value) => {
+      data.set(key, value)
+    },
+    removeItem: (key) => {
+      data.delete(key)
+    },
+  }
+}
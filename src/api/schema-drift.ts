@@ -0,0 +1,100 @@
+import { getClientRuntime, readStorage, writeStorage } from './runtime'
+
+// 严格模式下收集的响应结构漂移，供设置页的诊断面板展示
+
+export interface SchemaDriftReport {
+  method: string
+  schema: string
+  unknownFields: string[]
+  missingFields: string[]
+  count: number
+  firstSeenMs: number
+  lastSeenMs: number
+}
+
+const STRICT_MODE_STORAGE_KEY = 'openclaw_schema_strict_v1'
+const MAX_REPORTS = 200
+
+const reports = new Map<string, SchemaDriftReport>()
+const listeners = new Set<() => void>()
+// 首次使用时再读取，确保运行环境已配置
+let strictMode: boolean | null = null
+
+function readStrictMode(): boolean {
+  const stored = readStorage(STRICT_MODE_STORAGE_KEY)
+  if (stored !== null) return stored === '1'
+  return getClientRuntime().schemaStrictByDefault
+}
+
+function notify() {
+  listeners.forEach((listener) => {
+    try {
+      listener()
+    } catch (e) {
+      console.error('[SchemaDrift] Listener error:', e)
+    }
+  })
+}
+
+export function isSchemaStrictMode(): boolean {
+  if (strictMode === null) {
+    strictMode = readStrictMode()
+  }
+  return strictMode
+}
+
+export function setSchemaStrictMode(enabled: boolean): void {
+  strictMode = enabled
+  writeStorage(STRICT_MODE_STORAGE_KEY, enabled ? '1' : '0')
+  notify()
+}
+
+export function reportSchemaDrift(input: {
+  method: string
+  schema: string
+  unknownFields: string[]
+  missingFields: string[]
+}): void {
+  const unknownFields = [...input.unknownFields].sort()
+  const missingFields = [...input.missingFields].sort()
+  // 同一方法、同一结构差异只记一条，列表响应里的每一行不会刷屏
+  const key = `${input.method}|${input.schema}|${unknownFields.join(',')}|${missingFields.join(',')}`
+  const now = Date.now()
+  const existing = reports.get(key)
+  if (existing) {
+    existing.count += 1
+    existing.lastSeenMs = now
+    notify()
+    return
+  }
+
+  if (reports.size >= MAX_REPORTS) {
+    const oldestKey = reports.keys().next().value
+    if (oldestKey !== undefined) reports.delete(oldestKey)
+  }
+  reports.set(key, {
+    method: input.method,
+    schema: input.schema,
+    unknownFields,
+    missingFields,
+    count: 1,
+    firstSeenMs: now,
+    lastSeenMs: now,
+  })
+  console.warn(`[SchemaDrift] ${input.method} → ${input.schema}`, { unknownFields, missingFields })
+  notify()
+}
+
+export function getSchemaDriftReports(): SchemaDriftReport[] {
+  return [...reports.values()].map((item) => ({ ...item }))
+}
+
+export function clearSchemaDriftReports(): void {
+  reports.clear()
+  notify()
+}
+
+export function onSchemaDriftChange(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => listeners.delete(listener)
+}
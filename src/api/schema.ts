@@ -0,0 +1,249 @@
+import { reportSchemaDrift, isSchemaStrictMode } from './schema-drift'
+
+// 声明式响应解码：每个字段写明类型、兼容的旧字段名与默认值，
+// 严格模式下顺带统计未声明字段与缺失的必需字段，让网关结构变化可见
+
+type Decoder<T> = (raw: unknown) => T | undefined
+
+function isPresent(value: unknown): boolean {
+  return value !== undefined && value !== null && value !== ''
+}
+
+export function asRecord(value: unknown): Record<string, unknown> {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    return value as Record<string, unknown>
+  }
+  return {}
+}
+
+export class Field<T> {
+  readonly decoder: Decoder<T>
+  readonly aliases: string[]
+  readonly isRequired: boolean
+  readonly fallback: T | undefined
+
+  constructor(decoder: Decoder<T>, aliases: string[] = [], isRequired = false, fallback?: T) {
+    this.decoder = decoder
+    this.aliases = aliases
+    this.isRequired = isRequired
+    this.fallback = fallback
+  }
+
+  // 旧版网关使用的字段名，按顺序在主字段缺失时取用
+  alias(...names: string[]): Field<T> {
+    return new Field(this.decoder, [...this.aliases, ...names], this.isRequired, this.fallback)
+  }
+
+  required(): Field<T> {
+    return new Field(this.decoder, this.aliases, true, this.fallback)
+  }
+
+  default(value: T): Field<T> {
+    return new Field(this.decoder, this.aliases, this.isRequired, value)
+  }
+
+  // 默认值同样经过 fn 转换，.default(x).map(f) 不会丢掉默认值
+  map<U>(fn: (value: T) => U | undefined): Field<U> {
+    const decoder = this.decoder
+    return new Field<U>(
+      (raw) => {
+        const value = decoder(raw)
+        return value === undefined ? undefined : fn(value)
+      },
+      this.aliases,
+      this.isRequired,
+      this.fallback === undefined ? undefined : fn(this.fallback),
+    )
+  }
+}
+
+export function decodeString(raw: unknown): string | undefined {
+  if (typeof raw === 'string') return raw
+  if (typeof raw === 'number' || typeof raw === 'boolean') return String(raw)
+  return undefined
+}
+
+// 非负整数（时间戳、计数、字节数）；负数与非法值视为缺失
+export function decodeCount(raw: unknown): number | undefined {
+  const value = decodeNumber(raw)
+  return value !== undefined && value >= 0 ? Math.floor(value) : undefined
+}
+
+// 消息内容可能是字符串、分段数组或 { text } 之类的对象，统一取出文本
+export function decodeText(raw: unknown): string {
+  if (typeof raw === 'string') return raw
+  if (typeof raw === 'number' || typeof raw === 'boolean') return String(raw)
+
+  if (Array.isArray(raw)) {
+    return raw
+      .map((item) => decodeText(item))
+      .filter((item) => !!item.trim())
+      .join('\n')
+  }
+
+  if (raw && typeof raw === 'object') {
+    const row = raw as Record<string, unknown>
+    for (const key of ['text', 'content', 'message', 'output', 'input', 'delta']) {
+      if (key in row) return decodeText(row[key])
+    }
+    try {
+      return JSON.stringify(row)
+    } catch {
+      return ''
+    }
+  }
+
+  return ''
+}
+
+export function decodeNumber(raw: unknown): number | undefined {
+  if (typeof raw === 'number' && Number.isFinite(raw)) return raw
+  if (typeof raw === 'string' && raw.trim()) {
+    const parsed = Number(raw)
+    if (Number.isFinite(parsed)) return parsed
+  }
+  return undefined
+}
+
+export function decodeBoolean(raw: unknown): boolean | undefined {
+  if (typeof raw === 'boolean') return raw
+  if (raw === 'true') return true
+  if (raw === 'false') return false
+  return undefined
+}
+
+export const field = {
+  string: () => new Field<string>((raw) => {
+    const value = decodeString(raw)
+    return value ? value : undefined
+  }),
+  number: () => new Field<number>(decodeNumber),
+  count: () => new Field<number>(decodeCount),
+  boolean: () => new Field<boolean>(decodeBoolean),
+  stringArray: () => new Field<string[]>((raw) => {
+    if (!Array.isArray(raw)) return undefined
+    return raw.map((item) => decodeString(item)?.trim() || '').filter(Boolean)
+  }),
+  oneOf: <V extends string>(values: readonly V[]) => new Field<V>((raw) => {
+    const value = decodeString(raw)?.trim()
+    return value && (values as readonly string[]).includes(value) ? (value as V) : undefined
+  }),
+  object: <T>(schema: ObjectSchema<T>) => new Field<T>((raw) => {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return undefined
+    if (Object.keys(raw).length === 0) return undefined
+    return decodeWith(schema, raw)
+  }),
+  // 对象数组；网关包了一层时按 keys 顺序取第一个数组字段
+  list: <T>(schema: ObjectSchema<T>, keys: string[] = []) => new Field<T[]>((raw) => {
+    const record = asRecord(raw)
+    const items = Array.isArray(raw) ? raw : keys.map((key) => record[key]).find(Array.isArray)
+    return items ? items.map((item) => decodeWith(schema, item)) : undefined
+  }),
+  unknown: () => new Field<unknown>((raw) => raw),
+  custom: <T>(decoder: Decoder<T>) => new Field<T>(decoder),
+}
+
+export type SchemaFields<T> = { [K in keyof T]-?: Field<T[K]> }
+
+export interface ObjectSchema<T> {
+  name: string
+  fields: SchemaFields<T>
+  // 已知但不需要解码的字段，不计入未知字段
+  ignore?: string[]
+  // 带索引签名的类型（如 Channel）允许任意额外字段
+  open?: boolean
+  // 需要跨字段推导的值在解码后补充
+  refine?: (decoded: T, row: Record<string, unknown>) => T
+}
+
+export function defineSchema<T>(schema: ObjectSchema<T>): ObjectSchema<T> {
+  return schema
+}
+
+let driftMethod = ''
+
+function knownKeysOf<T>(schema: ObjectSchema<T>): Set<string> {
+  const keys = new Set<string>(schema.ignore ?? [])
+  for (const [name, spec] of Object.entries(schema.fields) as Array<[string, Field<unknown>]>) {
+    keys.add(name)
+    spec.aliases.forEach((alias) => keys.add(alias))
+  }
+  return keys
+}
+
+function checkDrift<T>(schema: ObjectSchema<T>, row: Record<string, unknown>): void {
+  const known = knownKeysOf(schema)
+  const unknownFields = schema.open ? [] : Object.keys(row).filter((key) => !known.has(key))
+  const missingFields: string[] = []
+  for (const [name, spec] of Object.entries(schema.fields) as Array<[string, Field<unknown>]>) {
+    if (!spec.isRequired) continue
+    if (![name, ...spec.aliases].some((key) => isPresent(row[key]))) {
+      missingFields.push(name)
+    }
+  }
+  if (unknownFields.length === 0 && missingFields.length === 0) return
+  reportSchemaDrift({
+    method: driftMethod || 'unknown',
+    schema: schema.name,
+    unknownFields,
+    missingFields,
+  })
+}
+
+export function decodeWith<T>(schema: ObjectSchema<T>, value: unknown): T {
+  const row = asRecord(value)
+  if (isSchemaStrictMode()) {
+    checkDrift(schema, row)
+  }
+
+  const decoded = {} as Record<string, unknown>
+  for (const [name, spec] of Object.entries(schema.fields) as Array<[string, Field<unknown>]>) {
+    let result: unknown
+    for (const key of [name, ...spec.aliases]) {
+      if (!isPresent(row[key])) continue
+      result = spec.decoder(row[key])
+      if (result !== undefined) break
+    }
+    if (result === undefined) {
+      // 数组默认值每次复制，避免多行共用同一个实例
+      result = Array.isArray(spec.fallback) ? [...spec.fallback] : spec.fallback
+    }
+    decoded[name] = result
+  }
+
+  const typed = decoded as T
+  return schema.refine ? schema.refine(typed, row) : typed
+}
+
+// 响应是否带有 key 字段（含别名）；网关有时直接返回列表或映射，不包这一层
+export function hasField<T>(schema: ObjectSchema<T>, key: keyof T & string, value: unknown): boolean {
+  const row = asRecord(value)
+  const spec = schema.fields[key] as Field<unknown>
+  return [key, ...spec.aliases].some((name) => isPresent(row[name]))
+}
+
+/**
+ * 在 method 上下文中解码，漂移报告会归到该方法名下。
+ * 原样透传、不做解码的响应（如 health、status）可只调用 observeWith 做结构检查。
+ */
+export function decodeFor<T>(method: string, schema: ObjectSchema<T>, value: unknown): T {
+  const previous = driftMethod
+  driftMethod = method
+  try {
+    return decodeWith(schema, value)
+  } finally {
+    driftMethod = previous
+  }
+}
+
+export function observeWith<T>(method: string, schema: ObjectSchema<T>, value: unknown): void {
+  if (!isSchemaStrictMode()) return
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return
+  const previous = driftMethod
+  driftMethod = method
+  try {
+    checkDrift(schema, value as Record<string, unknown>)
+  } finally {
+    driftMethod = previous
+  }
+}
@@ -0,0 +1,994 @@
+import {
+  asRecord,
+  decodeBoolean,
+  decodeCount,
+  decodeNumber,
+  decodeString,
+  decodeText,
+  decodeWith,
+  defineSchema,
+  field,
+  type Field,
+} from './schema'
+import type {
+  AgentFileEntry,
+  AgentIdentity,
+  AgentInfo,
+  AgentsListResult,
+  Channel,
+  ChatMessage,
+  CostUsageDailyEntry,
+  CostUsageSummary,
+  CronDelivery,
+  CronJob,
+  CronJobState,
+  CronPayload,
+  CronRunLogEntry,
+  CronSchedule,
+  CronStatus,
+  DeviceNode,
+  ExecApprovalsAgent,
+  ExecApprovalsAllowlistEntry,
+  ExecApprovalsDefaults,
+  ExecApprovalsFile,
+  ExecApprovalsSnapshot,
+  HealthSummary,
+  LogsTailResult,
+  ModelInfo,
+  PluginPackage,
+  Session,
+  SessionExport,
+  SessionsUsageDailyItem,
+  SessionsUsageModelItem,
+  SessionsUsageResult,
+  SessionsUsageSession,
+  SessionsUsageTotals,
+  Skill,
+  StatusSummary,
+  SystemPresenceEntry,
+  TokenUsage,
+  Tool,
+  TranscriptMessage,
+  UpdateRunResponse,
+  UpdateRunResult,
+  UpdateRunStepResult,
+} from './types'
+
+const positive = (value: number) => (value > 0 ? value : undefined)
+const nonEmptyList = (value: string[]) => (value.length > 0 ? value : undefined)
+
+// 嵌套结构由 normalize 逻辑自行处理，这里只声明字段存在以参与漂移检查
+const opaque = <T>() => field.custom<T>((raw) => raw as T)
+// 键名不固定的映射（如按渠道名、Agent ID 索引）
+const recordOf = () => field.custom<Record<string, unknown>>((raw) =>
+  raw && typeof raw === 'object' && !Array.isArray(raw) ? (raw as Record<string, unknown>) : undefined,
+)
+// 缺失时记为 null 的字段
+const orNull = <T>(spec: Field<T>) => spec.map((value): T | null => value).default(null)
+
+// ---- 直接按 schema 解码的类型 ----
+
+export const toolSchema = defineSchema<Tool>({
+  name: 'Tool',
+  fields: {
+    name: field.string().alias('id').default(''),
+    description: field.string().default(''),
+    category: field.string().alias('group').default('general'),
+    enabled: field.boolean().default(true),
+  },
+})
+
+export const deviceNodeSchema = defineSchema<DeviceNode>({
+  name: 'DeviceNode',
+  fields: {
+    id: field.string().alias('nodeId').required().default(''),
+    name: field.string().alias('id').default('node'),
+    platform: field.string().alias('os').default('unknown'),
+    connected: field.boolean().default(false),
+    capabilities: field.stringArray().default([]),
+    lastSeen: field.string().alias('updatedAt'),
+  },
+})
+
+export const modelInfoSchema = defineSchema<ModelInfo>({
+  name: 'ModelInfo',
+  fields: {
+    id: field.string().alias('model', 'name').required().default(''),
+    label: field.string().alias('displayName', 'name', 'model'),
+    provider: field.string().alias('vendor'),
+    family: field.string().alias('type'),
+    enabled: field.boolean().default(true),
+    available: field.boolean(),
+    description: field.string(),
+    contextWindow: field.number().alias('context_length', 'context', 'maxContext').map(positive),
+    capabilities: field.stringArray(),
+  },
+  refine: (decoded) => ({ ...decoded, available: decoded.available ?? decoded.enabled }),
+})
+
+export const cronRunLogEntrySchema = defineSchema<CronRunLogEntry>({
+  name: 'CronRunLogEntry',
+  fields: {
+    ts: field.number().alias('timestamp', 'time'),
+    jobId: field.string().alias('id', 'taskId').required().default(''),
+    action: field.oneOf(['finished'] as const),
+    status: field.oneOf(['ok', 'error', 'skipped'] as const),
+    error: field.string(),
+    summary: field.string().alias('message'),
+    sessionId: field.string(),
+    sessionKey: field.string().alias('key'),
+    runAtMs: field.number().map(positive),
+    durationMs: field.number().alias('duration').map(positive),
+    nextRunAtMs: field.number().map(positive),
+  },
+  refine: (decoded) => ({ ...decoded, ts: decoded.ts ?? Date.now() }),
+})
+
+export const cronStatusSchema = defineSchema<CronStatus>({
+  name: 'CronStatus',
+  fields: {
+    enabled: field.boolean().default(true),
+    jobs: field.number().alias('jobCount', 'total').default(0),
+    running: field.number().alias('runningJobs').map(positive),
+    nextWakeAtMs: field.number().alias('nextWake', 'nextTickAtMs').map(positive),
+  },
+})
+
+export const systemPresenceEntrySchema = defineSchema<SystemPresenceEntry>({
+  name: 'SystemPresenceEntry',
+  fields: {
+    instanceId: field.string().alias('id'),
+    host: field.string(),
+    ip: field.string(),
+    version: field.string(),
+    platform: field.string(),
+    deviceFamily: field.string(),
+    modelIdentifier: field.string(),
+    roles: field.stringArray().map(nonEmptyList),
+    scopes: field.stringArray().map(nonEmptyList),
+    mode: field.string(),
+    lastInputSeconds: field.count(),
+    reason: field.string(),
+    tags: field.stringArray().map(nonEmptyList),
+    text: field.string(),
+    ts: field.count(),
+    deviceId: field.string(),
+  },
+})
+
+export const logsTailResultSchema = defineSchema<LogsTailResult>({
+  name: 'LogsTailResult',
+  fields: {
+    file: field.string().default(''),
+    cursor: field.count().required().default(0),
+    size: field.count().default(0),
+    lines: field.custom<string[]>((raw) =>
+      Array.isArray(raw) ? raw.map((line) => decodeString(line) ?? '') : undefined
+    ).default([]),
+    truncated: field.boolean(),
+    reset: field.boolean(),
+  },
+})
+
+export const agentFileEntrySchema = defineSchema<AgentFileEntry>({
+  name: 'AgentFileEntry',
+  fields: {
+    name: field.string().required().default(''),
+    path: field.string().alias('filePath', 'file').default(''),
+    missing: field.boolean().default(false),
+    size: field.count(),
+    updatedAtMs: field.count().alias('updatedAt', 'mtimeMs'),
+    content: field.string(),
+  },
+  // 空文件的 content 为 ''，不能当作缺失
+  refine: (decoded, row) => ({
+    ...decoded,
+    content: 'content' in row ? decodeString(row.content) ?? '' : undefined,
+  }),
+})
+
+export const agentIdentitySchema = defineSchema<AgentIdentity>({
+  name: 'AgentIdentity',
+  fields: {
+    name: field.string(),
+    theme: field.string(),
+    emoji: field.string(),
+    avatar: field.string(),
+    avatarUrl: field.string(),
+  },
+})
+
+export const agentInfoSchema = defineSchema<AgentInfo>({
+  name: 'AgentInfo',
+  fields: {
+    id: field.string().alias('agentId', 'name').required().default(''),
+    name: field.string(),
+    identity: field.object(agentIdentitySchema),
+  },
+  ignore: ['default', 'isDefault', 'workspace', 'model'],
+})
+
+// ---- 按 schema 解码扁平字段与旧字段名，嵌套结构与跨字段推导由 RPCClient 补充 ----
+
+function pickTokenNumber(row: Record<string, unknown>, keys: string[]): number | undefined {
+  for (const key of keys) {
+    if (!(key in row)) continue
+    const value = decodeNumber(row[key])
+    if (value !== undefined && value >= 0) return value
+  }
+  return undefined
+}
+
+// 各版本网关的 token 用量字段名不一，必要时向下找两层嵌套
+export function decodeTokenUsage(raw: unknown, depth = 0): TokenUsage | undefined {
+  if (depth > 2) return undefined
+  const row = asRecord(raw)
+
+  const input = pickTokenNumber(row, ['totalInput', 'input', 'inputTokens', 'promptTokens', 'prompt_tokens', 'input_tokens'])
+  const output = pickTokenNumber(row, [
+    'totalOutput',
+    'output',
+    'outputTokens',
+    'completionTokens',
+    'completion_tokens',
+    'output_tokens',
+  ])
+  const total = pickTokenNumber(row, ['totalTokens', 'tokenTotal', 'tokensTotal', 'total_tokens'])
+
+  if (input !== undefined || output !== undefined || total !== undefined) {
+    if (input === undefined && output === undefined && total !== undefined) {
+      return { totalInput: total, totalOutput: 0 }
+    }
+    return { totalInput: input ?? 0, totalOutput: output ?? 0 }
+  }
+
+  for (const key of ['tokenUsage', 'usage', 'tokens', 'token_usage', 'llmUsage', 'modelUsage', 'metrics', 'stats']) {
+    const parsed = decodeTokenUsage(row[key], depth + 1)
+    if (parsed) return parsed
+  }
+  return undefined
+}
+
+// 没有直接的计数字段时，从消息数组长度或嵌套统计里推算
+function countNestedSessionMessages(row: Record<string, unknown>): number {
+  for (const key of ['messages', 'transcript', 'history', 'items']) {
+    const value = row[key]
+    if (Array.isArray(value)) return value.length
+  }
+
+  for (const key of ['messages', 'messageCounts', 'message_counts', 'stats', 'metrics']) {
+    const nested = asRecord(row[key])
+    const count = decodeCount(
+      nested.total ?? nested.count ?? nested.messages ?? nested.messageCount ?? nested.message_count
+    )
+    if (count !== undefined) return count
+  }
+
+  const usage = asRecord(row.usage)
+  const usageCounts = asRecord(usage.messageCounts ?? usage.message_counts)
+  return (
+    decodeCount(
+      usageCounts.total ??
+        usageCounts.count ??
+        usageCounts.messages ??
+        usage.messages ??
+        usage.messageCount ??
+        usage.message_count
+    ) ?? 0
+  )
+}
+
+// agentId/channel/peer 缺失时由 RPCClient 按会话 key 推断
+export const sessionSchema = defineSchema<Session>({
+  name: 'Session',
+  fields: {
+    key: field.string().alias('sessionKey', 'id').required().default(''),
+    agentId: field.string().alias('agent'),
+    channel: field.string().alias('lastChannel', 'platform'),
+    peer: field.string().alias('user', 'recipient', 'subject'),
+    messageCount: field.count().alias(
+      'message_count',
+      'messagesCount',
+      'messages_count',
+      'turns',
+      'turn_count',
+      'totalMessages',
+      'total_messages',
+      'count',
+    ),
+    lastActivity: field.string().alias('updatedAt', 'lastSeen').default(''),
+    model: field.string().alias('modelName'),
+    tokenUsage: field.custom((raw) => decodeTokenUsage(raw)).alias('usage', 'tokens'),
+    spawnedBy: field.string().alias('parentSessionKey', 'requesterSessionKey'),
+  },
+  ignore: [
+    'messages',
+    'transcript',
+    'history',
+    'items',
+    'messageCounts',
+    'message_counts',
+    'stats',
+    'metrics',
+    'deliveryContext',
+    'label',
+    'displayName',
+    'sessionId',
+    'kind',
+    'chatType',
+    'modelProvider',
+    'contextTokens',
+    'inputTokens',
+    'outputTokens',
+    'totalTokens',
+    'totalTokensFresh',
+    'origin',
+    'thinkingLevel',
+    'verboseLevel',
+    'reasoningLevel',
+    'elevatedLevel',
+    'systemSent',
+    'abortedLastRun',
+    'lastTo',
+    'lastAccountId',
+    'groupId',
+  ],
+  refine: (decoded, row) => ({
+    ...decoded,
+    messageCount: decoded.messageCount ?? countNestedSessionMessages(row),
+  }),
+})
+
+// status 缺失时按 connected 推断；id/platform 缺失时由 RPCClient 按渠道与账号拼出
+export const channelSchema = defineSchema<Channel>({
+  name: 'Channel',
+  open: true,
+  fields: {
+    id: field.string().alias('channelId', 'name'),
+    platform: field.string().alias('type', 'kind'),
+    channelKey: field.string().alias('channel'),
+    accountId: field.string().alias('account', 'accountName', 'botId', 'selfId', 'userId'),
+    enabled: field.boolean().default(true),
+    status: field.oneOf(['connected', 'disconnected', 'authenticating', 'error'] as const).alias('state'),
+    accountName: field.string().alias('account', 'name'),
+    memberCount: field.number().map(positive),
+    dmPolicy: field.oneOf(['pairing', 'allowlist', 'open', 'disabled'] as const).alias('policy').default('pairing'),
+    groupPolicy: field.string(),
+    requireMention: field.boolean(),
+    groupAllowFrom: field.stringArray().alias('allowFrom'),
+    groups: field.custom<Channel['groups']>((raw) => (Array.isArray(raw) ? (raw as Channel['groups']) : undefined)),
+  },
+  refine: (decoded, row) => ({
+    ...decoded,
+    status: decoded.status ?? (decodeBoolean(row.connected) ? 'connected' : 'disconnected'),
+  }),
+})
+
+export interface ChannelsStatusSnapshot {
+  ts?: number
+  channelOrder?: string[]
+  channels?: Record<string, unknown>
+  channelAccounts?: Record<string, unknown>
+  channelDefaultAccountId?: Record<string, unknown>
+}
+
+// channels.status 的快照：按渠道名索引的汇总与账号明细，由 RPCClient 展开成 Channel 后再按 channelSchema 解码
+export const channelsStatusSnapshotSchema = defineSchema<ChannelsStatusSnapshot>({
+  name: 'ChannelsStatusSnapshot',
+  fields: {
+    ts: field.number(),
+    channelOrder: field.stringArray(),
+    channels: recordOf(),
+    channelAccounts: recordOf(),
+    channelDefaultAccountId: recordOf(),
+  },
+  ignore: ['channelLabels', 'channelDetailLabels', 'channelSystemImages', 'channelMeta'],
+})
+
+function decodeSkillSource(raw: unknown): Skill['source'] | undefined {
+  const value = decodeString(raw)?.trim().toLowerCase()
+  if (!value) return undefined
+  const source = value.replace(/^openclaw-/, '')
+  if (source === 'workspace') return 'workspace'
+  if (source === 'managed') return 'managed'
+  if (source === 'bundled' || source === 'built-in' || source === 'builtin') return 'bundled'
+  if (source === 'extra') return 'extra'
+  if (value.includes('workspace')) return 'workspace'
+  if (value.includes('managed')) return 'managed'
+  if (value.includes('bundled') || value.includes('builtin')) return 'bundled'
+  if (value.includes('extra')) return 'extra'
+  return undefined
+}
+
+export const skillSchema = defineSchema<Skill>({
+  name: 'Skill',
+  fields: {
+    name: field.string().alias('id').required().default(''),
+    description: field.string(),
+    version: field.string(),
+    source: field.custom(decodeSkillSource).alias('location', 'origin', 'scope', 'kind'),
+    installed: field.boolean(),
+    eligible: field.boolean().default(true),
+    disabled: field.boolean().default(false),
+    bundled: field.boolean(),
+    skillKey: field.string(),
+    hasUpdate: field.boolean().map((value) => value || undefined),
+  },
+  ignore: [
+    'filePath',
+    'path',
+    'baseDir',
+    'primaryEnv',
+    'emoji',
+    'homepage',
+    'always',
+    'blockedByAllowlist',
+    'requirements',
+    'missing',
+    'configChecks',
+    'install',
+  ],
+  // 没有来源字段时先看 bundled 标记，再按技能文件所在目录判断
+  refine: (decoded, row) => {
+    let source = decoded.source
+    if (!source) {
+      const filePath = (decodeString(row.filePath) || decodeString(row.path) || '').toLowerCase()
+      if (decoded.bundled) source = 'bundled'
+      else if (/\.openclaw[\\/]+skills/.test(filePath)) source = 'managed'
+      else if (/[\\/]+skills[\\/]/.test(filePath)) source = 'workspace'
+      else source = 'bundled'
+    }
+    return {
+      ...decoded,
+      source,
+      installed: decoded.installed ?? source !== 'bundled',
+      bundled: decoded.bundled ?? source === 'bundled',
+    }
+  },
+})
+
+const MISSING_PLUGIN_STATUSES = new Set(['missing', 'not-installed', 'uninstalled'])
+
+export const pluginPackageSchema = defineSchema<PluginPackage>({
+  name: 'PluginPackage',
+  fields: {
+    name: field.string().alias('id', 'package', 'packageName', 'plugin', 'key').required().default(''),
+    installed: field.boolean(),
+    version: field.string().alias('ver'),
+    enabled: field.boolean(),
+    status: field.string().alias('state', 'health'),
+  },
+  ignore: ['description', 'source', 'origin', 'kind', 'path', 'error', 'diagnostics'],
+  // 没有 installed 字段时按状态推断
+  refine: (decoded) => ({
+    ...decoded,
+    installed: decoded.installed ?? !MISSING_PLUGIN_STATUSES.has((decoded.status ?? '').toLowerCase()),
+  }),
+})
+
+// plugins.list 也可能直接返回数组或以插件名为键的映射，不包这一层
+export const pluginListEnvelopeSchema = defineSchema<{ plugins: unknown }>({
+  name: 'PluginList',
+  fields: {
+    plugins: opaque<unknown>().alias('items', 'list', 'data', 'entries').required(),
+  },
+})
+
+function decodeMessageRole(raw: unknown): ChatMessage['role'] | undefined {
+  const value = decodeString(raw)
+  if (value === 'toolResult') return 'tool'
+  return value === 'user' || value === 'assistant' || value === 'tool' || value === 'system' ? value : undefined
+}
+
+export const chatMessageSchema = defineSchema<ChatMessage>({
+  name: 'ChatMessage',
+  fields: {
+    id: field.string().alias('messageId', 'seq'),
+    role: field.custom(decodeMessageRole).alias('type').default('assistant'),
+    content: field.custom(decodeText).alias('text', 'message', 'output', 'input', 'delta', 'payload').required().default(''),
+    timestamp: field.string().alias('createdAt', 'time'),
+    name: field.string().alias('model'),
+  },
+  ignore: [
+    'api',
+    'provider',
+    'usage',
+    'stopReason',
+    'toolCallId',
+    'toolName',
+    'isError',
+    'details',
+    'errorMessage',
+    '__openclaw',
+  ],
+})
+
+export interface ChatHistoryEnvelope {
+  sessionKey?: string
+  sessionId?: string
+  messages?: unknown[]
+  thinkingLevel?: string
+}
+
+// 旧方法的消息列表可能嵌在更深的层级，由 RPCClient 逐层查找；这里只描述 chat.history 的外层
+export const chatHistoryEnvelopeSchema = defineSchema<ChatHistoryEnvelope>({
+  name: 'ChatHistory',
+  fields: {
+    sessionKey: field.string(),
+    sessionId: field.string(),
+    messages: field.custom<unknown[]>((raw) => (Array.isArray(raw) ? raw : undefined))
+      .alias('history', 'transcript', 'items', 'list', 'data', 'events', 'turns')
+      .required(),
+    thinkingLevel: field.string(),
+  },
+})
+
+const transcriptTokensSchema = defineSchema<NonNullable<TranscriptMessage['tokens']>>({
+  name: 'TranscriptTokens',
+  fields: {
+    input: field.number().default(0),
+    output: field.number().default(0),
+  },
+})
+
+// 工具的入参与结果原样保留
+const transcriptMessageSchema = defineSchema<TranscriptMessage>({
+  name: 'TranscriptMessage',
+  fields: {
+    role: field.custom(decodeMessageRole).alias('type').default('assistant'),
+    content: field.custom(decodeText).alias('text', 'message').default(''),
+    timestamp: field.string().alias('createdAt', 'time').default(''),
+    name: field.string().alias('toolName', 'model'),
+    input: opaque<unknown>().alias('arguments', 'args'),
+    output: opaque<unknown>().alias('result'),
+    tokens: field.object(transcriptTokensSchema),
+  },
+})
+
+// key 与导出时间缺失时由 RPCClient 用请求的会话 Key 与当前时间补齐
+export const sessionExportSchema = defineSchema<SessionExport>({
+  name: 'SessionExport',
+  fields: {
+    key: field.string().alias('sessionKey').default(''),
+    transcript: field.list(transcriptMessageSchema).alias('messages').default([]),
+    exportedAt: field.string().default(''),
+  },
+})
+
+// 时间字段可能是 ISO 字符串，也可能是毫秒时间戳
+function decodeTimeText(raw: unknown): string | undefined {
+  if (typeof raw === 'string') return raw.trim() ? raw : undefined
+  const ms = decodeNumber(raw)
+  return ms !== undefined && ms > 0 ? new Date(ms).toISOString() : undefined
+}
+
+// 嵌套的 schedule/payload/delivery/state 与展示用的调度文本由 RPCClient 规整
+export const cronJobSchema = defineSchema<CronJob>({
+  name: 'CronJob',
+  fields: {
+    id: field.string().alias('jobId', 'taskId', 'name').required().default(''),
+    agentId: field.string().alias('agent'),
+    name: field.string().alias('title', 'id').default('unnamed'),
+    description: field.string(),
+    enabled: field.boolean(),
+    deleteAfterRun: field.boolean(),
+    createdAtMs: field.number().map(positive),
+    updatedAtMs: field.number().map(positive),
+    scheduleObj: opaque<CronSchedule | undefined>().alias('schedule'),
+    sessionTarget: field.oneOf(['main', 'isolated'] as const),
+    wakeMode: field.oneOf(['next-heartbeat', 'now'] as const).alias('wake'),
+    payload: opaque<CronPayload | undefined>(),
+    delivery: opaque<CronDelivery | undefined>(),
+    state: opaque<CronJobState | undefined>(),
+    schedule: field.string().alias('cron', 'expression', 'expr').required(),
+    command: field.string().alias('cmd', 'script'),
+    timezone: field.string().alias('tz'),
+    nextRun: field.custom(decodeTimeText).alias('nextAt', 'nextTime', 'nextRunAtMs', 'nextAtMs', 'nextTimeMs'),
+    lastRun: field.custom(decodeTimeText).alias('lastAt', 'lastTime', 'lastRunAtMs', 'lastAtMs', 'lastTimeMs'),
+  },
+  ignore: ['disabled'],
+  refine: (decoded, row) => ({
+    ...decoded,
+    enabled: decoded.enabled ?? !decodeBoolean(row.disabled),
+  }),
+})
+
+const usageMessageCountsSchema = defineSchema<NonNullable<SessionsUsageSession['usage']>['messageCounts'] & object>({
+  name: 'UsageMessageCounts',
+  fields: {
+    total: field.number().default(0),
+    user: field.number().default(0),
+    assistant: field.number().default(0),
+    toolCalls: field.number().default(0),
+    toolResults: field.number().default(0),
+    errors: field.number().default(0),
+  },
+})
+
+const toolCountSchema = defineSchema<{ name: string; count: number }>({
+  name: 'ToolCount',
+  fields: {
+    name: field.string().alias('tool', 'id').default('unknown'),
+    count: field.number().alias('calls').default(0),
+  },
+})
+
+export const usageToolsSchema = defineSchema<NonNullable<SessionsUsageSession['usage']>['toolUsage'] & object>({
+  name: 'UsageTools',
+  fields: {
+    totalCalls: field.number().alias('calls').default(0),
+    uniqueTools: field.number().alias('unique').default(0),
+    tools: field.list(toolCountSchema).default([]),
+  },
+})
+
+const usageDayBreakdownSchema = defineSchema<{ date: string; tokens: number; cost: number }>({
+  name: 'UsageDayBreakdown',
+  fields: {
+    date: field.string().default(''),
+    tokens: field.number().default(0),
+    cost: field.number().default(0),
+  },
+})
+
+const sessionUsageSchema = defineSchema<NonNullable<SessionsUsageSession['usage']>>({
+  name: 'SessionUsage',
+  fields: {
+    input: field.number().default(0),
+    output: field.number().default(0),
+    cacheRead: field.number().default(0),
+    cacheWrite: field.number().default(0),
+    totalTokens: field.number().alias('tokens', 'total').default(0),
+    totalCost: field.number().alias('cost'),
+    messageCounts: field.object(usageMessageCountsSchema),
+    toolUsage: field.object(usageToolsSchema),
+    dailyBreakdown: field.list(usageDayBreakdownSchema, ['daily', 'days', 'items', 'list', 'data']).default([]),
+  },
+  open: true,
+  refine: (decoded) => ({ ...decoded, dailyBreakdown: (decoded.dailyBreakdown ?? []).filter((item) => !!item.date) }),
+})
+
+export const sessionsUsageSessionSchema = defineSchema<SessionsUsageSession>({
+  name: 'SessionsUsageSession',
+  fields: {
+    key: field.string().alias('sessionKey', 'id').required().default(''),
+    label: field.string(),
+    sessionId: field.string().alias('id'),
+    updatedAt: field.number().map(positive),
+    agentId: field.string().alias('agent'),
+    channel: field.string(),
+    chatType: field.string(),
+    modelProvider: field.string().alias('providerOverride', 'provider'),
+    model: field.string().alias('modelOverride'),
+    usage: field.object(sessionUsageSchema),
+  },
+  ignore: ['origin', 'contextWeight'],
+  // 没有用量数据的会话记为 null，与空对象区分
+  refine: (decoded) => ({ ...decoded, usage: decoded.usage ?? null }),
+})
+
+export const usageTotalsSchema = defineSchema<SessionsUsageTotals>({
+  name: 'UsageTotals',
+  fields: {
+    input: field.number().default(0),
+    output: field.number().default(0),
+    cacheRead: field.number().default(0),
+    cacheWrite: field.number().default(0),
+    totalTokens: field.number().alias('tokens', 'total').default(0),
+    totalCost: field.number().alias('cost').default(0),
+    inputCost: field.number().default(0),
+    outputCost: field.number().default(0),
+    cacheReadCost: field.number().default(0),
+    cacheWriteCost: field.number().default(0),
+    missingCostEntries: field.number().default(0),
+  },
+})
+
+// 网关没给合计时按全 0 处理
+const emptyUsageTotals = () => decodeWith(usageTotalsSchema, {})
+
+const usageModelItemSchema = defineSchema<SessionsUsageModelItem>({
+  name: 'UsageModelItem',
+  fields: {
+    provider: field.string(),
+    model: field.string(),
+    count: field.number().default(0),
+    totals: field.object(usageTotalsSchema),
+  },
+  refine: (decoded) => ({ ...decoded, totals: decoded.totals ?? emptyUsageTotals() }),
+})
+
+const usageAgentItemSchema = defineSchema<SessionsUsageResult['aggregates']['byAgent'][number]>({
+  name: 'UsageAgentItem',
+  fields: {
+    agentId: field.string().alias('agent').default(''),
+    totals: field.object(usageTotalsSchema),
+  },
+  refine: (decoded) => ({ ...decoded, totals: decoded.totals ?? emptyUsageTotals() }),
+})
+
+const usageChannelItemSchema = defineSchema<SessionsUsageResult['aggregates']['byChannel'][number]>({
+  name: 'UsageChannelItem',
+  fields: {
+    channel: field.string().default(''),
+    totals: field.object(usageTotalsSchema),
+  },
+  refine: (decoded) => ({ ...decoded, totals: decoded.totals ?? emptyUsageTotals() }),
+})
+
+const usageDailyItemSchema = defineSchema<SessionsUsageDailyItem>({
+  name: 'UsageDailyItem',
+  fields: {
+    date: field.string().default(''),
+    tokens: field.number().default(0),
+    cost: field.number().default(0),
+    messages: field.number().default(0),
+    toolCalls: field.number().default(0),
+    errors: field.number().default(0),
+  },
+})
+
+const hasUsage = (item: SessionsUsageModelItem) => item.count > 0 || item.totals.totalTokens > 0 || item.totals.totalCost > 0
+
+const usageAggregatesSchema = defineSchema<SessionsUsageResult['aggregates']>({
+  name: 'UsageAggregates',
+  fields: {
+    messages: field.object(usageMessageCountsSchema),
+    tools: field.object(usageToolsSchema),
+    byModel: field.list(usageModelItemSchema, ['byModel', 'items', 'list', 'data']).default([]),
+    byProvider: field.list(usageModelItemSchema, ['byProvider', 'items', 'list', 'data']).default([]),
+    byAgent: field.list(usageAgentItemSchema, ['byAgent', 'items', 'list', 'data']).default([]),
+    byChannel: field.list(usageChannelItemSchema, ['byChannel', 'items', 'list', 'data']).default([]),
+    daily: field.list(usageDailyItemSchema, ['daily', 'items', 'list', 'data']).default([]),
+  },
+  // 空行与没有任何用量的分组不展示
+  refine: (decoded) => ({
+    messages: decoded.messages ?? decodeWith(usageMessageCountsSchema, {}),
+    tools: decoded.tools ?? decodeWith(usageToolsSchema, {}),
+    byModel: decoded.byModel.filter(hasUsage),
+    byProvider: decoded.byProvider.filter(hasUsage),
+    byAgent: decoded.byAgent.filter((item) => !!item.agentId),
+    byChannel: decoded.byChannel.filter((item) => !!item.channel),
+    daily: decoded.daily.filter((item) => !!item.date),
+  }),
+})
+
+// sessions 逐条由 sessionsUsageSessionSchema 解码
+export const sessionsUsageResultSchema = defineSchema<SessionsUsageResult>({
+  name: 'SessionsUsageResult',
+  fields: {
+    updatedAt: field.number(),
+    startDate: field.string().default(''),
+    endDate: field.string().default(''),
+    sessions: opaque<SessionsUsageSession[]>().alias('items', 'list', 'data'),
+    totals: field.object(usageTotalsSchema),
+    aggregates: field.object(usageAggregatesSchema),
+  },
+  ignore: ['daily'],
+  // 旧网关没有 aggregates，按日明细放在顶层
+  refine: (decoded, row) => ({
+    ...decoded,
+    totals: decoded.totals ?? emptyUsageTotals(),
+    aggregates: decoded.aggregates ?? decodeWith(usageAggregatesSchema, { daily: row.daily }),
+  }),
+})
+
+export const costUsageDailyEntrySchema = defineSchema<CostUsageDailyEntry>({
+  name: 'CostUsageDailyEntry',
+  fields: {
+    date: field.string().default(''),
+    ...usageTotalsSchema.fields,
+  },
+})
+
+// daily 可能直接是整个响应（数组），由 RPCClient 取出后逐条解码
+export const costUsageSummarySchema = defineSchema<CostUsageSummary>({
+  name: 'CostUsageSummary',
+  fields: {
+    updatedAt: field.number(),
+    days: field.number(),
+    daily: opaque<CostUsageSummary['daily']>().alias('items', 'list', 'data').required(),
+    totals: field.object(usageTotalsSchema).required(),
+  },
+  refine: (decoded) => ({ ...decoded, totals: decoded.totals ?? emptyUsageTotals() }),
+})
+
+const EXEC_SECURITY_VALUES = ['deny', 'allowlist', 'full'] as const
+const EXEC_ASK_VALUES = ['off', 'on-miss', 'always'] as const
+
+const execApprovalsDefaultsSchema = defineSchema<ExecApprovalsDefaults>({
+  name: 'ExecApprovalsDefaults',
+  fields: {
+    security: field.oneOf(EXEC_SECURITY_VALUES),
+    ask: field.oneOf(EXEC_ASK_VALUES),
+    askFallback: field.oneOf(EXEC_SECURITY_VALUES),
+    autoAllowSkills: field.boolean(),
+  },
+})
+
+const execApprovalsAllowlistEntrySchema = defineSchema<ExecApprovalsAllowlistEntry>({
+  name: 'ExecApprovalsAllowlistEntry',
+  fields: {
+    id: field.string(),
+    pattern: field.string().map((value) => value.trim() || undefined).required().default(''),
+    lastUsedAt: field.count(),
+    lastUsedCommand: field.string(),
+    lastResolvedPath: field.string(),
+  },
+})
+
+const execApprovalsAgentSchema = defineSchema<ExecApprovalsAgent>({
+  name: 'ExecApprovalsAgent',
+  fields: {
+    ...execApprovalsDefaultsSchema.fields,
+    // 没有规则的条目丢弃，空白名单记为缺失
+    allowlist: field.list(execApprovalsAllowlistEntrySchema).map((list) => {
+      const entries = list.filter((entry) => !!entry.pattern)
+      return entries.length > 0 ? entries : undefined
+    }),
+  },
+})
+
+const execApprovalsSocketSchema = defineSchema<NonNullable<ExecApprovalsFile['socket']>>({
+  name: 'ExecApprovalsSocket',
+  fields: {
+    path: field.string(),
+    token: field.string(),
+  },
+})
+
+// 读取与写回网关时共用，保证白名单等结构一致
+export const execApprovalsFileSchema = defineSchema<ExecApprovalsFile>({
+  name: 'ExecApprovalsFile',
+  fields: {
+    version: opaque<1>(),
+    socket: field.object(execApprovalsSocketSchema),
+    defaults: field.object(execApprovalsDefaultsSchema),
+    agents: recordOf().map((agents) => {
+      const entries = Object.entries(agents).map(([id, agent]) => [id, decodeWith(execApprovalsAgentSchema, agent)] as const)
+      return entries.length > 0 ? Object.fromEntries(entries) : undefined
+    }),
+  },
+  refine: (decoded) => ({
+    ...decoded,
+    version: 1,
+    socket: decoded.socket ?? {},
+    defaults: decoded.defaults ?? {},
+  }),
+})
+
+export const execApprovalsSnapshotSchema = defineSchema<ExecApprovalsSnapshot>({
+  name: 'ExecApprovalsSnapshot',
+  fields: {
+    path: field.string().required().default(''),
+    exists: field.boolean().default(false),
+    hash: field.string().required().default(''),
+    file: field.custom((raw) => decodeWith(execApprovalsFileSchema, raw)),
+  },
+  ignore: ['nodeId'],
+  refine: (decoded) => ({ ...decoded, file: decoded.file ?? decodeWith(execApprovalsFileSchema, {}) }),
+})
+
+const updateRunStepSchema = defineSchema<UpdateRunStepResult>({
+  name: 'UpdateRunStep',
+  fields: {
+    name: field.string().default('step'),
+    command: field.string().default(''),
+    cwd: field.string(),
+    durationMs: field.number().map(Math.floor),
+    exitCode: orNull(field.number().map(Math.floor)),
+    stdoutTail: orNull(field.string()),
+    stderrTail: orNull(field.string()),
+  },
+})
+
+const updateRunVersionSchema = defineSchema<NonNullable<UpdateRunResult['before']>>({
+  name: 'UpdateRunVersion',
+  fields: {
+    sha: orNull(field.string()),
+    version: orNull(field.string()),
+  },
+})
+
+const updateRunResultSchema = defineSchema<UpdateRunResult>({
+  name: 'UpdateRunResult',
+  fields: {
+    status: field.oneOf(['ok', 'error', 'skipped'] as const).default('error'),
+    mode: field.oneOf(['git', 'pnpm', 'bun', 'npm', 'unknown'] as const).default('unknown'),
+    root: field.string(),
+    reason: field.string(),
+    before: orNull(field.object(updateRunVersionSchema)),
+    after: orNull(field.object(updateRunVersionSchema)),
+    steps: field.list(updateRunStepSchema).default([]),
+    durationMs: field.count().default(0),
+  },
+})
+
+const updateRunRestartSchema = defineSchema<NonNullable<UpdateRunResponse['restart']>>({
+  name: 'UpdateRunRestart',
+  fields: {
+    ok: field.boolean(),
+    delayMs: field.number(),
+    pid: field.number(),
+    reason: field.string(),
+    error: field.string(),
+  },
+})
+
+const updateRunSentinelSchema = defineSchema<NonNullable<UpdateRunResponse['sentinel']>>({
+  name: 'UpdateRunSentinel',
+  fields: {
+    path: orNull(field.string()),
+    payload: orNull(recordOf()),
+  },
+})
+
+export const updateRunResponseSchema = defineSchema<UpdateRunResponse>({
+  name: 'UpdateRunResponse',
+  fields: {
+    ok: field.boolean().required().default(true),
+    result: field.object(updateRunResultSchema),
+    restart: orNull(field.object(updateRunRestartSchema)),
+    sentinel: orNull(field.object(updateRunSentinelSchema)),
+  },
+})
+
+export const healthSummarySchema = defineSchema<HealthSummary>({
+  name: 'HealthSummary',
+  fields: {
+    ok: opaque<true>().required(),
+    ts: field.number().required(),
+    durationMs: field.number(),
+    channels: opaque<HealthSummary['channels']>(),
+    channelOrder: field.stringArray(),
+    channelLabels: opaque<HealthSummary['channelLabels']>(),
+    heartbeatSeconds: field.number(),
+    defaultAgentId: field.string(),
+    agents: opaque<HealthSummary['agents']>(),
+    sessions: opaque<HealthSummary['sessions']>(),
+  },
+})
+
+export const statusSummarySchema = defineSchema<StatusSummary>({
+  name: 'StatusSummary',
+  fields: {
+    linkChannel: opaque<StatusSummary['linkChannel']>(),
+    heartbeat: opaque<StatusSummary['heartbeat']>().required(),
+    channelSummary: field.stringArray(),
+    queuedSystemEvents: field.stringArray(),
+    sessions: opaque<StatusSummary['sessions']>().required(),
+  },
+})
+
+export const agentsListResultSchema = defineSchema<AgentsListResult>({
+  name: 'AgentsListResult',
+  fields: {
+    defaultId: field.string().alias('defaultAgentId'),
+    mainKey: field.string(),
+    scope: field.string(),
+    agents: opaque<AgentInfo[]>().alias('items', 'list', 'data').required(),
+  },
+})
+
+export interface ConfigSnapshot {
+  path?: string
+  exists?: boolean
+  valid?: boolean
+  raw?: string
+  hash?: string
+  config?: unknown
+}
+
+// config.get 的快照外层；配置本身原样透传，由 RPCClient 判断是否像配置根对象
+export const configSnapshotSchema = defineSchema<ConfigSnapshot>({
+  name: 'ConfigSnapshot',
+  fields: {
+    path: field.string(),
+    exists: field.boolean(),
+    valid: field.boolean(),
+    raw: field.string(),
+    hash: field.string(),
+    config: opaque<unknown>().alias('data', 'value', 'payload', 'result'),
+  },
+  ignore: ['parsed', 'issues', 'warnings', 'legacyIssues'],
+})
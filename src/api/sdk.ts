@@ -0,0 +1,194 @@
+// 与框架无关的 SDK 入口：Web 应用与 Node 脚本（CI 检查、机器人、迁移）共用同一套客户端
+import { OpenClawWebSocket, type WebSocketConfig } from './websocket'
+import { RPCClient } from './rpc-client'
+import { RpcShapeCache, resolveGatewayFingerprint } from './shape-cache'
+import { configureClientRuntime, type ClientRuntime } from './runtime'
+import { evaluateGatewayCompatibility, parseGatewayHello, type GatewayCompatibility } from './protocol'
+import { isReplayGatewayUrl } from './mock/urls'
+
+export * from './types'
+export {
+  configureClientRuntime,
+  getClientRuntime,
+  createMemoryStorage,
+  WS_READY_STATE,
+  type ClientRuntime,
+  type KeyValueStorage,
+  type MessageLocalizer,
+  type WebSocketFactory,
+  type WebSocketLike,
+} from './runtime'
+export {
+  OpenClawWebSocket,
+  type ConnectOptions,
+  type EventGap,
+  type GatewayTransport,
+  type WebSocketConfig,
+} from './websocket'
+export {
+  ConnectionMetrics,
+  probeDropRate,
+  type ConnectionMetricsSnapshot,
+  type ConnectionSample,
+  type ReconnectRecord,
+} from './connection-metrics'
+export {
+  CAPABILITY_IDS,
+  CAPABILITY_METHODS,
+  isCapabilityId,
+  resolveCapabilities,
+  resolveCapability,
+  type CapabilityId,
+  type CapabilityReport,
+  type CapabilityStatus,
+} from './capabilities'
+export {
+  TESTED_GATEWAY_VERSIONS,
+  compareGatewayVersions,
+  describeProtocolMismatch,
+  evaluateGatewayCompatibility,
+  formatProtocolRange,
+  getSupportedProtocolRange,
+  parseGatewayHello,
+  registerProtocolAdapter,
+  resolveProtocolAdapter,
+  type GatewayCompatibility,
+  type GatewayCompatibilityStatus,
+  type GatewayHelloInfo,
+  type ProtocolAdapter,
+  type ProtocolRange,
+} from './protocol'
+export {
+  EXEC_APPROVAL_REQUESTED_EVENT,
+  EXEC_APPROVAL_RESOLVED_EVENT,
+  appendExecAllowlistPattern,
+  buildExecAllowlistPattern,
+  parseExecApprovalRequest,
+  parseExecApprovalResolved,
+} from './exec-approvals'
+export { RPCClient, type RpcCallOptions } from './rpc-client'
+export { RpcError, isRpcError, isAbortError, type RpcErrorKind } from './rpc-error'
+export {
+  NO_RETRY,
+  READ_RETRY,
+  IDEMPOTENT_WRITE_RETRY,
+  type RetryPolicy,
+  type RetryWaitInfo,
+} from './retry-policy'
+export { RpcShapeCache, resolveGatewayFingerprint } from './shape-cache'
+export { buildConnectParams, type ConnectParams } from './connect'
+export { loadOrCreateDeviceIdentity, signDevicePayload, type DeviceIdentity } from './device-identity'
+export {
+  isSchemaStrictMode,
+  setSchemaStrictMode,
+  getSchemaDriftReports,
+  clearSchemaDriftReports,
+  onSchemaDriftChange,
+  type SchemaDriftReport,
+} from './schema-drift'
+export {
+  WireRecorder,
+  parseWireRecording,
+  redactFrame,
+  WIRE_RECORDING_FORMAT,
+  type WireRecord,
+  type WireRecording,
+  type WireRequestTrace,
+} from './wire-recorder'
+export {
+  MOCK_GATEWAY_URL,
+  REPLAY_GATEWAY_URL,
+  isMockGatewayUrl,
+  isReplayGatewayUrl,
+  setReplayRecording,
+  withMockGateway,
+  getMockGateway,
+  resetMockGateway,
+  MockGateway,
+  MockGatewayError,
+  MockWebSocket,
+  ReplayGateway,
+  createMockState,
+  type MockBackend,
+  type MockGatewayOptions,
+  type MockState,
+} from './mock'
+
+export interface GatewayClientOptions {
+  url: string
+  token?: string
+  deviceIdentityScope?: string | null
+  // 在连接前合并到全局运行环境
+  runtime?: Partial<ClientRuntime>
+  socket?: Partial<Omit<WebSocketConfig, 'url' | 'auth' | 'deviceIdentityScope'>>
+  // 握手（含设备配对失败）的最长等待时间
+  connectTimeoutMs?: number
+  // 结构缓存的存储键；传 null 不启用
+  shapeCacheKey?: string | null
+}
+
+export interface GatewayClient {
+  transport: OpenClawWebSocket
+  rpc: RPCClient
+  // connect 响应中的 hello 载荷（服务端版本、方法列表等）
+  hello: unknown
+  // 协商的协议版本与网关构建是否在已验证范围内
+  compatibility: GatewayCompatibility
+  close(): void
+}
+
+const DEFAULT_CONNECT_TIMEOUT_MS = 30000
+const DEFAULT_SHAPE_CACHE_KEY = 'openclaw_rpc_shapes_v1'
+
+/**
+ * 建立网关连接并在握手成功后返回可用的 RPCClient。
+ * 脚本场景默认不自动重连，失败时直接 reject，由调用方决定是否重试。
+ */
+export function connectGateway(options: GatewayClientOptions): Promise<GatewayClient> {
+  if (options.runtime) {
+    configureClientRuntime(options.runtime)
+  }
+
+  const transport = new OpenClawWebSocket({ reconnect: false, ...options.socket })
+  const rpc = new RPCClient(transport)
+  const timeoutMs = options.connectTimeoutMs ?? DEFAULT_CONNECT_TIMEOUT_MS
+
+  return new Promise<GatewayClient>((resolve, reject) => {
+    const cleanup = () => {
+      clearTimeout(timer)
+      offConnected()
+      offFailed()
+    }
+    const timer = setTimeout(() => {
+      cleanup()
+      transport.disconnect()
+      reject(new Error(`Gateway connect timed out after ${timeoutMs}ms`))
+    }, timeoutMs)
+
+    const offConnected = transport.on('connected', (hello: unknown) => {
+      cleanup()
+      const compatibility = evaluateGatewayCompatibility(parseGatewayHello(hello))
+      rpc.setProtocol(compatibility.hello.protocol)
+      const shapeCacheKey = options.shapeCacheKey === undefined ? DEFAULT_SHAPE_CACHE_KEY : options.shapeCacheKey
+      if (shapeCacheKey && !isReplayGatewayUrl(options.url)) {
+        rpc.setShapeCache(new RpcShapeCache(shapeCacheKey, resolveGatewayFingerprint(hello)))
+      }
+      resolve({
+        transport,
+        rpc,
+        hello,
+        compatibility,
+        close: () => transport.disconnect(),
+      })
+    })
+    const offFailed = transport.on('failed', (reason: unknown) => {
+      cleanup()
+      transport.disconnect()
+      reject(new Error(typeof reason === 'string' && reason ? reason : 'Gateway connect failed'))
+    })
+
+    transport.connect(options.url, options.token ?? '', {
+      deviceIdentityScope: options.deviceIdentityScope ?? null,
+    })
+  })
+}
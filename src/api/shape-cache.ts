@@ -0,0 +1,123 @@
+import { readStorage, writeStorage } from './runtime'
+
+// 记录每个网关版本实际接受的 RPC 方法与参数结构，避免每次都按候选列表逐个试错
+
+interface StoredShapeCache {
+  version: 1
+  fingerprint: string
+  entries: Record<string, ShapeCacheEntry>
+}
+
+export type ShapeCacheEntry =
+  | { kind: 'shape'; signature: string; learnedAtMs: number }
+  // 整组候选都被网关以"未知方法/参数不符"拒绝，下次直接走调用方的降级分支
+  | { kind: 'unsupported'; methods: string[]; learnedAtMs: number }
+
+function asRecord(value: unknown): Record<string, unknown> {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    return value as Record<string, unknown>
+  }
+  return {}
+}
+
+function hashText(text: string): string {
+  // FNV-1a，仅用于区分网关版本，无需加密强度
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i += 1) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0')
+}
+
+function paramKeys(params?: Record<string, unknown>): string {
+  if (!params) return ''
+  return Object.keys(params).sort().join(',')
+}
+
+export function shapeSignature(method: string, params?: Record<string, unknown>): string {
+  return `${method}#${paramKeys(params)}`
+}
+
+// 同一组候选（方法列表 + 所有参数键）视为同一个调用点；带 model 的 chat.send 与不带的分属不同组
+export function shapeGroupKey(methods: string[], paramsList: Array<Record<string, unknown> | undefined>): string {
+  const keys = new Set<string>()
+  for (const params of paramsList) {
+    if (!params) continue
+    Object.keys(params).forEach((key) => keys.add(key))
+  }
+  return `${methods.join(',')}#${[...keys].sort().join(',')}`
+}
+
+export function resolveGatewayFingerprint(helloPayload: unknown): string {
+  const row = asRecord(helloPayload)
+  const server = asRecord(row.server)
+  const version =
+    typeof server.version === 'string' ? server.version : typeof row.version === 'string' ? row.version : ''
+  const features = asRecord(row.features)
+  const methods = Array.isArray(features.methods)
+    ? features.methods.filter((item): item is string => typeof item === 'string').sort()
+    : []
+  return `${version || 'unknown'}:${hashText(methods.join('\n'))}`
+}
+
+export class RpcShapeCache {
+  private readonly storageKey: string
+  private readonly fingerprint: string
+  private entries: Record<string, ShapeCacheEntry> = {}
+
+  constructor(storageKey: string, fingerprint: string) {
+    this.storageKey = storageKey
+    this.fingerprint = fingerprint
+    this.load()
+  }
+
+  get(group: string): ShapeCacheEntry | undefined {
+    return this.entries[group]
+  }
+
+  rememberShape(group: string, signature: string): void {
+    const existing = this.entries[group]
+    if (existing?.kind === 'shape' && existing.signature === signature) return
+    this.entries[group] = { kind: 'shape', signature, learnedAtMs: Date.now() }
+    this.save()
+  }
+
+  rememberUnsupported(group: string, methods: string[]): void {
+    this.entries[group] = { kind: 'unsupported', methods, learnedAtMs: Date.now() }
+    this.save()
+  }
+
+  forget(group: string): void {
+    if (!(group in this.entries)) return
+    delete this.entries[group]
+    this.save()
+  }
+
+  clear(): void {
+    this.entries = {}
+    this.save()
+  }
+
+  private load(): void {
+    try {
+      const raw = readStorage(this.storageKey)
+      if (!raw) return
+      const parsed = JSON.parse(raw) as Partial<StoredShapeCache>
+      // 网关升级或方法列表变化后旧结论不再可信
+      if (parsed?.version !== 1 || parsed.fingerprint !== this.fingerprint) return
+      this.entries = asRecord(parsed.entries) as Record<string, ShapeCacheEntry>
+    } catch (error) {
+      console.warn('[RpcShapeCache] 读取缓存失败:', error)
+    }
+  }
+
+  private save(): void {
+    const payload: StoredShapeCache = {
+      version: 1,
+      fingerprint: this.fingerprint,
+      entries: this.entries,
+    }
+    writeStorage(this.storageKey, JSON.stringify(payload))
+  }
+}
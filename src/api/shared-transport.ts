@@ -0,0 +1,330 @@
+import { ConnectionState, type RPCEvent, type RPCFrame } from './types'
+import { buildConnectParams } from './connect'
+import { GatewayHost, type ClientMessage, type HostMessage } from './gateway-host'
+import type { ConnectOptions, EventGap, GatewayTransport } from './websocket'
+import { utf8Length, type WireRecorder } from './wire-recorder'
+
+type EventHandler = (...args: unknown[]) => void
+
+const CHANNEL_NAME = 'openclaw-gateway-v1'
+const LEADER_LOCK_NAME = 'openclaw-gateway-leader'
+
+interface HostLink {
+  post(msg: ClientMessage): void
+  close(): void
+}
+
+type ChannelMessage =
+  | { type: 'to-host'; msg: ClientMessage }
+  | { type: 'to-client'; clientId: string; msg: HostMessage }
+  | { type: 'leader'; leaderId: string }
+  | { type: 'who-leads' }
+
+function createClientId(): string {
+  return `tab-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+}
+
+function canUseSharedWorker(): boolean {
+  return typeof SharedWorker !== 'undefined'
+}
+
+function canUseBroadcastLeader(): boolean {
+  return typeof BroadcastChannel !== 'undefined' && typeof navigator !== 'undefined' && !!navigator.locks
+}
+
+export function isSharedTransportSupported(): boolean {
+  return canUseSharedWorker() || canUseBroadcastLeader()
+}
+
+function createSharedWorkerLink(clientId: string, onMessage: (msg: HostMessage) => void): HostLink {
+  const worker = new SharedWorker(new URL('./shared-worker.ts', import.meta.url), {
+    type: 'module',
+    name: 'openclaw-gateway',
+  })
+  const port = worker.port
+  port.onmessage = (event: MessageEvent) => onMessage(event.data as HostMessage)
+  port.start()
+
+  return {
+    post: (msg) => port.postMessage(msg),
+    close: () => {
+      port.postMessage({ kind: 'bye', clientId } satisfies ClientMessage)
+      port.close()
+    },
+  }
+}
+
+/**
+ * 不支持 SharedWorker 时（如 Android Chrome）的降级方案：
+ * 通过 Web Locks 选出一个 leader 标签页持有连接，其余页面经 BroadcastChannel 转发。
+ * leader 关闭后锁自动释放，下一个页面接任并由各页面重新 attach。
+ */
+function createBroadcastLink(
+  clientId: string,
+  onMessage: (msg: HostMessage) => void,
+  onLeaderChange: () => void,
+): HostLink {
+  const channel = new BroadcastChannel(CHANNEL_NAME)
+  let leaderId: string | null = null
+  let host: GatewayHost | null = null
+  let closed = false
+  let lastAttach: ClientMessage | null = null
+  let releaseLock: (() => void) | null = null
+  const pending: ClientMessage[] = []
+
+  const deliverToHost = (msg: ClientMessage) => {
+    if (host) {
+      if (msg.clientId === clientId) {
+        host.addClient(clientId, onMessage)
+      } else {
+        host.addClient(msg.clientId, (out) => {
+          channel.postMessage({ type: 'to-client', clientId: msg.clientId, msg: out } satisfies ChannelMessage)
+        })
+      }
+      host.handleMessage(msg)
+      return
+    }
+    channel.postMessage({ type: 'to-host', msg } satisfies ChannelMessage)
+  }
+
+  const setLeader = (nextLeaderId: string) => {
+    if (leaderId === nextLeaderId) return
+    const hadLeader = leaderId !== null
+    leaderId = nextLeaderId
+    // 新 leader 上没有本页的连接记录，需要重新 attach
+    if (hadLeader && lastAttach) {
+      deliverToHost(lastAttach)
+      onLeaderChange()
+    }
+    while (pending.length > 0) {
+      deliverToHost(pending.shift()!)
+    }
+  }
+
+  channel.onmessage = (event: MessageEvent) => {
+    const data = event.data as ChannelMessage
+    if (!data || typeof data !== 'object') return
+
+    switch (data.type) {
+      case 'to-host':
+        if (host) deliverToHost(data.msg)
+        break
+      case 'to-client':
+        if (data.clientId === clientId) onMessage(data.msg)
+        break
+      case 'leader':
+        if (!host) setLeader(data.leaderId)
+        break
+      case 'who-leads':
+        if (host) channel.postMessage({ type: 'leader', leaderId: clientId } satisfies ChannelMessage)
+        break
+    }
+  }
+
+  void navigator.locks.request(LEADER_LOCK_NAME, () => {
+    if (closed) return undefined
+    host = new GatewayHost({ delegateSigning: false })
+    channel.postMessage({ type: 'leader', leaderId: clientId } satisfies ChannelMessage)
+    setLeader(clientId)
+    // 持有锁直到页面关闭
+    return new Promise<void>((resolve) => {
+      releaseLock = resolve
+    })
+  })
+  channel.postMessage({ type: 'who-leads' } satisfies ChannelMessage)
+
+  return {
+    post: (msg) => {
+      if (msg.kind === 'attach') lastAttach = msg
+      if (msg.kind === 'detach') lastAttach = null
+      if (leaderId === null) {
+        pending.push(msg)
+        return
+      }
+      deliverToHost(msg)
+    },
+    close: () => {
+      closed = true
+      if (leaderId !== null) {
+        deliverToHost({ kind: 'bye', clientId })
+      }
+      host?.dispose()
+      host = null
+      releaseLock?.()
+      channel.close()
+    },
+  }
+}
+
+/**
+ * 跨标签页共享的网关连接：对外保持与 OpenClawWebSocket 相同的 on/send 接口，
+ * 真实连接由 SharedWorker（或降级时的 leader 标签页）持有，事件广播给所有页面，
+ * rpc:<id> 响应只回给发起请求的页面。
+ */
+export class SharedGatewayTransport implements GatewayTransport {
+  private readonly clientId = createClientId()
+  private readonly link: HostLink
+  private listeners = new Map<string, Set<EventHandler>>()
+  private _state: ConnectionState = ConnectionState.DISCONNECTED
+  private lastSeq: number | null = null
+  private attached = false
+  private resyncPending = false
+  private wireRecorder: WireRecorder | null = null
+
+  get state(): ConnectionState {
+    return this._state
+  }
+
+  get lastEventSeq(): number | null {
+    return this.lastSeq
+  }
+
+  get recorder(): WireRecorder | null {
+    return this.wireRecorder
+  }
+
+  constructor() {
+    const onMessage = (msg: HostMessage) => this.handleHostMessage(msg)
+    this.link = canUseSharedWorker()
+      ? createSharedWorkerLink(this.clientId, onMessage)
+      : createBroadcastLink(this.clientId, onMessage, () => this.handleLeaderChange())
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('pagehide', () => this.link.close(), { once: true })
+    }
+  }
+
+  connect(url?: string, auth?: string, options?: ConnectOptions): void {
+    if (!url) return
+    this.attached = true
+    this.lastSeq = null
+    this.resyncPending = false
+    this.link.post({
+      kind: 'attach',
+      clientId: this.clientId,
+      url,
+      auth,
+      deviceIdentityScope: options?.deviceIdentityScope ?? null,
+    })
+  }
+
+  disconnect(): void {
+    this.attached = false
+    this.link.post({ kind: 'detach', clientId: this.clientId })
+    this.setState(ConnectionState.DISCONNECTED)
+  }
+
+  // 真实连接在宿主端，这里按本页收发的帧录制（connect 握手与其他页面的请求不可见）
+  setRecorder(recorder: WireRecorder | null): void {
+    this.wireRecorder = recorder
+  }
+
+  send(data: RPCFrame): void {
+    this.link.post({ kind: 'send', clientId: this.clientId, frame: data })
+    this.recordFrame('out', data)
+  }
+
+  cancel(id: string): boolean {
+    // 队列位于宿主端，撤回是否成功无法同步得知；本页的响应监听由调用方移除
+    this.link.post({ kind: 'cancel', clientId: this.clientId, id })
+    return false
+  }
+
+  on(event: string, handler: EventHandler): () => void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set())
+    }
+    this.listeners.get(event)!.add(handler)
+    return () => this.off(event, handler)
+  }
+
+  off(event: string, handler: EventHandler): void {
+    this.listeners.get(event)?.delete(handler)
+  }
+
+  private emit(event: string, ...args: unknown[]): void {
+    this.listeners.get(event)?.forEach((handler) => {
+      try {
+        handler(...args)
+      } catch (e) {
+        console.error(`[SharedTransport] Event handler error for "${event}":`, e)
+      }
+    })
+  }
+
+  private recordFrame(direction: 'in' | 'out', frame: RPCFrame): void {
+    if (!this.wireRecorder) return
+    this.wireRecorder.record(direction, frame, utf8Length(JSON.stringify(frame)))
+  }
+
+  private setState(state: ConnectionState): void {
+    if (this._state === state) return
+    this._state = state
+    this.emit('stateChange', state)
+  }
+
+  private handleHostMessage(msg: HostMessage): void {
+    switch (msg.kind) {
+      case 'rpc':
+        this.recordFrame('in', msg.frame)
+        this.emit(`rpc:${msg.frame.id}`, msg.frame)
+        break
+      case 'sign':
+        void this.signForHost(msg)
+        break
+      case 'emit':
+        if (!this.attached) return
+        if (msg.event === 'stateChange') {
+          this.setState(msg.args[0] as ConnectionState)
+          return
+        }
+        if (msg.event === 'event') {
+          const evt = msg.args[0] as RPCEvent
+          this.recordFrame('in', evt)
+          if (typeof evt.seq === 'number') this.lastSeq = evt.seq
+          this.emit('event', evt)
+          this.emit(`event:${evt.event}`, evt.payload)
+          return
+        }
+        this.emit(msg.event, ...msg.args)
+        if (msg.event === 'connected' && this.resyncPending) {
+          this.resyncPending = false
+          // 换 leader 期间的事件已丢失，按断线重连处理让上层回拉数据
+          const gap: EventGap = {
+            reason: 'reconnect',
+            expected: null,
+            received: null,
+            missed: null,
+            detectedAtMs: Date.now(),
+          }
+          this.emit('gap', gap)
+        }
+        break
+    }
+  }
+
+  private async signForHost(msg: Extract<HostMessage, { kind: 'sign' }>): Promise<void> {
+    try {
+      const params = await buildConnectParams(msg.auth, {
+        nonce: msg.nonce,
+        deviceIdentityScope: msg.deviceIdentityScope,
+      })
+      this.link.post({ kind: 'sign-result', clientId: this.clientId, signId: msg.signId, params })
+    } catch (e) {
+      this.link.post({
+        kind: 'sign-result',
+        clientId: this.clientId,
+        signId: msg.signId,
+        error: (e as Error)?.message || 'sign failed',
+      })
+    }
+  }
+
+  private handleLeaderChange(): void {
+    if (!this.attached) return
+    if (this._state === ConnectionState.CONNECTED) {
+      this.resyncPending = true
+    }
+    this.setState(ConnectionState.RECONNECTING)
+  }
+}
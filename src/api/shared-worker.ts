@@ -0,0 +1,33 @@
+import { GatewayHost, type ClientMessage, type HostMessage } from './gateway-host'
+import { configureWebClientRuntime, ensureMockGateway } from '@/utils/client-runtime'
+
+configureWebClientRuntime()
+
+// SharedWorker 入口：所有同源标签页通过各自的 MessagePort 共用这里的网关连接
+const host = new GatewayHost({ delegateSigning: true })
+
+const scope = self as unknown as {
+  onconnect: ((event: MessageEvent) => void) | null
+}
+
+scope.onconnect = (event: MessageEvent) => {
+  const port = event.ports[0]
+  if (!port) return
+
+  // attach 到 mock:// 地址时要先加载模拟网关；消息排队处理，保证加载期间收到的后续消息仍按顺序执行
+  let queue = Promise.resolve()
+  port.onmessage = (msgEvent: MessageEvent) => {
+    const msg = msgEvent.data as ClientMessage
+    if (!msg || typeof msg !== 'object' || typeof msg.clientId !== 'string') return
+    queue = queue.then(async () => {
+      if (msg.kind === 'attach') {
+        await ensureMockGateway(msg.url).catch((error: unknown) => {
+          console.warn('[SharedWorker] 加载模拟网关失败:', error)
+        })
+      }
+      host.addClient(msg.clientId, (out: HostMessage) => port.postMessage(out))
+      host.handleMessage(msg)
+    })
+  }
+  port.start()
+}
@@ -104,6 +104,22 @@ export interface AgentFilesSetResult {
   file: AgentFileEntry
 }
 
+export interface AgentFileUploadParams {
+  agentId: string
+  // 工作区内的相对路径
+  name: string
+  content: string
+  // 文本文件按 utf8 原样上传，其他文件为 base64
+  encoding: 'utf8' | 'base64'
+  mimeType?: string
+}
+
+export interface AgentFileUploadResult {
+  agentId: string
+  workspace: string
+  file: AgentFileEntry
+}
+
 export interface AgentEvent {
   event: string
   payload: unknown
@@ -125,11 +141,30 @@ export interface ChatMessage {
   name?: string
 }
 
+export type ChatAttachmentKind = 'image' | 'text' | 'file'
+
+// 已上传到 Agent 工作区的附件，发送时随消息一起引用
+export interface ChatAttachment {
+  name: string
+  path: string
+  mimeType: string
+  size: number
+  kind: ChatAttachmentKind
+}
+
 export interface ChatSendParams {
   sessionKey: string
   message: string
   model?: string
   idempotencyKey?: string
+  attachments?: ChatAttachment[]
+}
+
+export interface ChatInjectParams {
+  sessionKey: string
+  // 以 assistant 身份写入会话记录，不触发 Agent 运行
+  message: string
+  label?: string
 }
 
 export type CronSchedule =
@@ -312,7 +347,8 @@ export interface SessionsUsageSession {
     cacheRead: number
     cacheWrite: number
     totalTokens: number
-    totalCost: number
+    // 网关没有计价信息时缺省，与实际费用为 0 区分
+    totalCost?: number
     messageCounts?: {
       total: number
       user: number
@@ -453,6 +489,30 @@ export interface ExecApprovalsSnapshot {
   file: ExecApprovalsFile
 }
 
+export type ExecApprovalDecision = 'allow-once' | 'allow-always' | 'deny'
+
+// Agent 在 ask=always / on-miss 时发起的单次执行审批
+export interface ExecApprovalRequest {
+  id: string
+  command: string
+  cwd: string | null
+  resolvedPath: string | null
+  agentId: string | null
+  sessionKey: string | null
+  host: string | null
+  nodeId: string | null
+  security: ExecApprovalsSecurity | null
+  ask: ExecApprovalsAsk | null
+  createdAtMs: number
+  expiresAtMs: number | null
+}
+
+export interface ExecApprovalResolved {
+  id: string
+  decision: ExecApprovalDecision | null
+  resolvedBy: string | null
+}
+
 export interface UpdateRunStepResult {
   name: string
   command: string
@@ -7,6 +7,8 @@ export interface Session {
   lastActivity: string
   model?: string
   tokenUsage?: TokenUsage
+  // 子代理会话由哪个会话发起
+  spawnedBy?: string
 }
 
 export interface SessionDetail extends Session {
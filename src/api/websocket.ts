@@ -1,8 +1,12 @@
 import { ConnectionState, type RPCFrame, type RPCEvent, type RPCResponse } from './types'
 import { buildConnectParams } from './connect'
-import { byLocale, getActiveLocale } from '@/i18n/text'
+import { localize, getClientRuntime, WS_READY_STATE, type WebSocketLike } from './runtime'
+import { utf8Length, type WireRecorder } from './wire-recorder'
+import { ConnectionMetrics, type ConnectionMetricsSnapshot } from './connection-metrics'
+import { describeProtocolMismatch } from './protocol'
 
 type EventHandler = (...args: unknown[]) => void
+type ConnectParamsBuilder = typeof buildConnectParams
 
 export interface WebSocketConfig {
   url: string
@@ -11,9 +15,39 @@ export interface WebSocketConfig {
   reconnectInterval?: number
   maxReconnectAttempts?: number
   heartbeatInterval?: number
+  deviceIdentityScope?: string | null
+  // SharedWorker 中没有 localStorage，设备签名需委托给页面完成
+  connectParamsBuilder?: ConnectParamsBuilder
 }
 
-const DEFAULT_CONFIG: Required<Omit<WebSocketConfig, 'auth'>> & { auth?: string } = {
+type OptionalConfigKeys = 'auth' | 'deviceIdentityScope' | 'connectParamsBuilder'
+type ResolvedWebSocketConfig = Required<Omit<WebSocketConfig, OptionalConfigKeys>> &
+  Pick<WebSocketConfig, OptionalConfigKeys>
+
+export interface ConnectOptions {
+  deviceIdentityScope?: string | null
+}
+
+/**
+ * 网关传输层的公共接口：store 与 RPCClient 只依赖这些成员，
+ * 既可以是本页直连的 OpenClawWebSocket，也可以是跨标签页共享的连接。
+ */
+export interface GatewayTransport {
+  readonly state: ConnectionState
+  readonly lastEventSeq: number | null
+  // 协议检查器使用的收发帧录制，未启用时为 null
+  readonly recorder: WireRecorder | null
+  setRecorder(recorder: WireRecorder | null): void
+  connect(url?: string, auth?: string, options?: ConnectOptions): void
+  disconnect(): void
+  send(data: RPCFrame): void
+  // 撤回仍在发送队列中的请求；已发出的请求无法撤回，返回 false
+  cancel(id: string): boolean
+  on(event: string, handler: EventHandler): () => void
+  off(event: string, handler: EventHandler): void
+}
+
+const DEFAULT_CONFIG: ResolvedWebSocketConfig = {
   url: 'ws://127.0.0.1:18789',
   reconnect: true,
   reconnectInterval: 3000,
@@ -23,14 +57,23 @@ const DEFAULT_CONFIG: Required<Omit<WebSocketConfig, 'auth'>> & { auth?: string
 const WS_CLOSE_REASON_MAX_BYTES = 123
 const MAX_QUEUED_MESSAGES = 200
 
+export interface EventGap {
+  reason: 'sequence' | 'reconnect'
+  expected: number | null
+  received: number | null
+  // 重连场景下无法得知丢失数量，记为 null
+  missed: number | null
+  detectedAtMs: number
+}
+
 interface QueuedMessage {
   frame: RPCFrame
   serialized: string
 }
 
-export class OpenClawWebSocket {
-  private ws: WebSocket | null = null
-  private config: Required<Omit<WebSocketConfig, 'auth'>> & { auth?: string }
+export class OpenClawWebSocket implements GatewayTransport {
+  private ws: WebSocketLike | null = null
+  private config: ResolvedWebSocketConfig
   private listeners = new Map<string, Set<EventHandler>>()
   private reconnectAttempts = 0
   private reconnectTimer: ReturnType<typeof setTimeout> | null = null
@@ -42,24 +85,39 @@ export class OpenClawWebSocket {
   private connectSent = false
   private messageQueue: QueuedMessage[] = []
   private _state: ConnectionState = ConnectionState.DISCONNECTED
+  private lastSeq: number | null = null
+  private resyncPending = false
+  private wireRecorder: WireRecorder | null = null
+  private readonly metrics = new ConnectionMetrics()
 
   get state(): ConnectionState {
     return this._state
   }
 
+  get lastEventSeq(): number | null {
+    return this.lastSeq
+  }
+
+  get recorder(): WireRecorder | null {
+    return this.wireRecorder
+  }
+
   constructor(config?: Partial<WebSocketConfig>) {
     this.config = { ...DEFAULT_CONFIG, ...config }
   }
 
-  connect(url?: string, auth?: string): void {
+  connect(url?: string, auth?: string, options?: ConnectOptions): void {
     if (url) this.config.url = url
     if (auth !== undefined) this.config.auth = auth
+    if (options && 'deviceIdentityScope' in options) this.config.deviceIdentityScope = options.deviceIdentityScope
 
     this.setState(ConnectionState.CONNECTING)
     this.reconnectAttempts = 0
     this.pendingConnectId = null
     this.connectNonce = null
     this.connectSent = false
+    this.lastSeq = null
+    this.resyncPending = false
 
     this.createConnection()
   }
@@ -67,7 +125,8 @@ export class OpenClawWebSocket {
   disconnect(): void {
     this.clearTimers()
     this.pendingConnectId = null
-    this.clearMessageQueue(byLocale('连接已断开，未发送请求已丢弃', 'Connection closed. Dropped unsent requests.', getActiveLocale()))
+    this.clearMessageQueue(localize('连接已断开，未发送请求已丢弃', 'Connection closed. Dropped unsent requests.'))
+    this.metrics.markClosed()
     this._state = ConnectionState.DISCONNECTED
     if (this.ws) {
       this.ws.onclose = null
@@ -75,18 +134,27 @@ export class OpenClawWebSocket {
       this.ws = null
     }
     this.emit('stateChange', ConnectionState.DISCONNECTED)
+    this.emitMetrics()
+  }
+
+  setRecorder(recorder: WireRecorder | null): void {
+    this.wireRecorder = recorder
+  }
+
+  getMetrics(): ConnectionMetricsSnapshot {
+    this.metrics.setQueueDepth(this.messageQueue.length)
+    return this.metrics.snapshot()
   }
 
   send(data: RPCFrame): void {
     const serialized = JSON.stringify(data)
-    if (this.ws?.readyState === WebSocket.OPEN && this._state === ConnectionState.CONNECTED) {
-      this.ws.send(serialized)
+    if (this.ws?.readyState === WS_READY_STATE.OPEN && this._state === ConnectionState.CONNECTED) {
+      this.writeFrame(this.ws, data, serialized)
     } else {
       if (data.type === 'req' && !this.shouldQueueRequest(data.method)) {
-        const locale = getActiveLocale()
         this.rejectRequestImmediately(
           data.id,
-          byLocale(`连接未就绪，已拒绝请求: ${data.method}`, `Connection not ready. Rejected request: ${data.method}`, locale),
+          localize(`连接未就绪，已拒绝请求: ${data.method}`, `Connection not ready. Rejected request: ${data.method}`),
         )
         return
       }
@@ -96,15 +164,23 @@ export class OpenClawWebSocket {
         if (dropped?.frame.type === 'req') {
           this.rejectRequestImmediately(
             dropped.frame.id,
-            byLocale('请求队列已满，最早请求已丢弃', 'Request queue full. Dropped the oldest request.', getActiveLocale()),
+            localize('请求队列已满，最早请求已丢弃', 'Request queue full. Dropped the oldest request.'),
           )
         }
       }
 
       this.messageQueue.push({ frame: data, serialized })
+      this.emitMetrics()
     }
   }
 
+  cancel(id: string): boolean {
+    const index = this.messageQueue.findIndex((item) => item.frame.type === 'req' && item.frame.id === id)
+    if (index < 0) return false
+    this.messageQueue.splice(index, 1)
+    return true
+  }
+
   on(event: string, handler: EventHandler): () => void {
     if (!this.listeners.has(event)) {
       this.listeners.set(event, new Set())
@@ -129,7 +205,7 @@ export class OpenClawWebSocket {
 
   private async sendConnect(): Promise<void> {
     if (this.connectSent) return
-    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return
+    if (!this.ws || this.ws.readyState !== WS_READY_STATE.OPEN) return
     if (!this.pendingConnectId) return
     if (!this.connectNonce) return
 
@@ -141,24 +217,24 @@ export class OpenClawWebSocket {
         type: 'req',
         id: this.pendingConnectId,
         method: 'connect',
-        params: await buildConnectParams(this.config.auth || '', { nonce: this.connectNonce }),
+        params: await (this.config.connectParamsBuilder ?? buildConnectParams)(this.config.auth || '', {
+          nonce: this.connectNonce,
+          deviceIdentityScope: this.config.deviceIdentityScope,
+        }),
       }
-      this.ws.send(JSON.stringify(connectFrame))
+      this.writeFrame(this.ws, connectFrame, JSON.stringify(connectFrame))
       this.startConnectTimeout()
     } catch (e) {
-      const locale = getActiveLocale()
       const errorMessage = (e as Error)?.message || 'unknown error'
       const isSecureContextError = /crypto\.subtle|secure context/i.test(errorMessage)
       const reason = isSecureContextError
-        ? byLocale(
+        ? localize(
             '设备签名需要安全上下文（HTTPS 或 localhost）',
             'Device auth requires a secure context (HTTPS or localhost).',
-            locale,
           )
-        : byLocale(
+        : localize(
             `Gateway connect 参数构造失败: ${errorMessage}`,
             `Failed to build Gateway connect params: ${errorMessage}`,
-            locale,
           )
       this.pendingConnectId = null
       this.setState(ConnectionState.FAILED)
@@ -170,24 +246,31 @@ export class OpenClawWebSocket {
 
   private createConnection(): void {
     try {
-      this.ws = new WebSocket(this.buildConnectionUrl())
+      this.ws = getClientRuntime().createWebSocket(this.buildConnectionUrl())
 
       this.ws.onopen = () => {
         const connectId = `connect-${Date.now()}`
         this.pendingConnectId = connectId
         this.connectNonce = null
         this.connectSent = false
+        // gateway 的事件 seq 按连接计数，新连接从头开始
+        this.lastSeq = null
         // connect.challenge nonce 是 v2 设备签名握手必需
         this.startChallengeTimeout()
       }
 
-      this.ws.onmessage = (event: MessageEvent) => {
+      this.ws.onmessage = (event) => {
         this.handleIncomingData(event.data)
       }
 
-      this.ws.onclose = (event: CloseEvent) => {
+      this.ws.onclose = (event) => {
         this.clearTimers()
         this.pendingConnectId = null
+        if (this._state === ConnectionState.CONNECTED) {
+          this.resyncPending = true
+          this.metrics.markDropped(this.messageQueue.length)
+          this.emitMetrics()
+        }
         this.emit('disconnected', event.code, event.reason)
 
         const shouldReconnect =
@@ -197,15 +280,24 @@ export class OpenClawWebSocket {
 
         if (shouldReconnect) {
           this.scheduleReconnect()
-        } else {
-          if (this._state !== ConnectionState.FAILED) {
-            this.setState(ConnectionState.DISCONNECTED)
-          }
+        } else if (this._state === ConnectionState.CONNECTING) {
+          this.failBeforeHandshake(
+            localize(
+              `握手完成前连接已关闭 (code: ${event.code}, reason: ${event.reason || 'n/a'})`,
+              `Connection closed before handshake (code: ${event.code}, reason: ${event.reason || 'n/a'})`,
+            ),
+          )
+        } else if (this._state !== ConnectionState.FAILED) {
+          this.setState(ConnectionState.DISCONNECTED)
         }
       }
 
       this.ws.onerror = () => {
         this.emit('error', 'WebSocket connection error')
+        // Node 自带的 WebSocket 在连接被拒绝时只触发 error，不再触发 close
+        if (!this.config.reconnect && this._state === ConnectionState.CONNECTING) {
+          this.failBeforeHandshake(localize('握手完成前连接出错', 'WebSocket error before handshake'))
+        }
       }
     } catch (e) {
       console.error('[WebSocket] Connection failed:', e)
@@ -213,15 +305,28 @@ export class OpenClawWebSocket {
         this.scheduleReconnect()
       } else {
         this.setState(ConnectionState.FAILED)
+        this.emit('failed', e instanceof Error ? e.message : String(e))
       }
     }
   }
 
+  // 不自动重连时握手前断开即视为失败，调用方无需等到连接超时
+  private failBeforeHandshake(reason: string): void {
+    this.clearTimers()
+    this.pendingConnectId = null
+    this.setState(ConnectionState.FAILED)
+    this.emit('failed', reason)
+    this.safeClose(1000, reason)
+  }
+
   private handleFrame(frame: RPCFrame): void {
     if (frame.type === 'res') {
       if (this.pendingConnectId && frame.id === this.pendingConnectId) {
         this.handleConnectResponse(frame as RPCResponse<unknown>)
       }
+      if (this.metrics.resolveProbe(frame.id, this.messageQueue.length)) {
+        this.emitMetrics()
+      }
       this.emit(`rpc:${frame.id}`, frame)
     } else if (frame.type === 'event') {
       const evt = frame as RPCEvent
@@ -234,11 +339,43 @@ export class OpenClawWebSocket {
           void this.sendConnect()
         }
       }
+      if (!this.trackEventSeq(evt)) return
+      this.metrics.recordEvent()
       this.emit('event', evt)
       this.emit(`event:${evt.event}`, evt.payload)
     }
   }
 
+  private trackEventSeq(evt: RPCEvent): boolean {
+    const seq = evt.seq
+    if (typeof seq !== 'number' || !Number.isFinite(seq)) return true
+
+    const last = this.lastSeq
+    if (last !== null) {
+      if (seq <= last) {
+        // 重复或乱序到达的旧事件直接丢弃，避免流式内容被重复合并
+        return false
+      }
+      if (seq > last + 1) {
+        this.emitGap({
+          reason: 'sequence',
+          expected: last + 1,
+          received: seq,
+          missed: seq - last - 1,
+          detectedAtMs: Date.now(),
+        })
+      }
+    }
+
+    this.lastSeq = seq
+    return true
+  }
+
+  private emitGap(gap: EventGap): void {
+    console.warn('[WebSocket] Event gap detected:', gap)
+    this.emit('gap', gap)
+  }
+
   private handleConnectResponse(frame: RPCResponse<unknown>): void {
     this.pendingConnectId = null
     if (this.connectTimer) {
@@ -248,14 +385,26 @@ export class OpenClawWebSocket {
 
     if (frame.ok) {
       this.setState(ConnectionState.CONNECTED)
+      this.metrics.markConnected(this.reconnectAttempts)
       this.reconnectAttempts = 0
-      this.startHeartbeat()
       this.flushQueue()
+      this.startHeartbeat()
       this.emit('connected', frame.payload)
+      this.emitMetrics()
+      if (this.resyncPending) {
+        this.resyncPending = false
+        // 断线期间的事件无法回放，通知上层重新拉取受影响的数据
+        this.emitGap({
+          reason: 'reconnect',
+          expected: null,
+          received: null,
+          missed: null,
+          detectedAtMs: Date.now(),
+        })
+      }
       return
     }
 
-    const locale = getActiveLocale()
     const error = (frame.error ?? {}) as {
       message?: unknown
       code?: unknown
@@ -264,13 +413,18 @@ export class OpenClawWebSocket {
     const errorMessage = typeof error.message === 'string' ? error.message : ''
     const details = (error.details ?? {}) as { requestId?: unknown }
     const requestId = typeof details.requestId === 'string' ? details.requestId : ''
-    const reason = requestId
-      ? byLocale(
+    const pairingReason = requestId
+      ? localize(
           `设备配对待批准，请在 Gateway 上运行 openclaw devices approve ${requestId}`,
           `Device pairing required. Approve on the Gateway: openclaw devices approve ${requestId}`,
-          locale,
         )
-      : errorMessage || byLocale('Gateway connect 握手失败', 'Gateway connect handshake failed', locale)
+      : ''
+    // 协议版本不匹配时给出升级提示，而不是原样透出网关的报错
+    const reason =
+      describeProtocolMismatch(errorMessage, error.details) ||
+      pairingReason ||
+      errorMessage ||
+      localize('Gateway connect 握手失败', 'Gateway connect handshake failed')
     this.setState(ConnectionState.FAILED)
     this.emit('error', reason)
     this.emit('failed', reason)
@@ -284,10 +438,9 @@ export class OpenClawWebSocket {
     this.challengeTimer = setTimeout(() => {
       if (!this.pendingConnectId || this.connectSent) return
       this.pendingConnectId = null
-      const reason = byLocale(
+      const reason = localize(
         '未收到 Gateway connect.challenge，无法开始设备签名握手，请检查网关地址/网络/代理',
         'Missing Gateway connect.challenge. Cannot start device-auth handshake. Check gateway URL/network/proxy.',
-        getActiveLocale(),
       )
       this.setState(ConnectionState.FAILED)
       this.emit('error', reason)
@@ -309,7 +462,7 @@ export class OpenClawWebSocket {
     this.connectTimer = setTimeout(() => {
       if (!this.pendingConnectId) return
       this.pendingConnectId = null
-      const reason = byLocale('Gateway connect 握手超时', 'Gateway connect handshake timeout', getActiveLocale())
+      const reason = localize('Gateway connect 握手超时', 'Gateway connect handshake timeout')
       this.setState(ConnectionState.FAILED)
       this.emit('error', reason)
       this.emit('failed', reason)
@@ -319,7 +472,7 @@ export class OpenClawWebSocket {
 
   private buildConnectionUrl(): string {
     try {
-      const parsed = new URL(this.config.url, window.location.href)
+      const parsed = new URL(this.config.url, globalThis.location?.href)
       if (this.config.auth && this.config.auth.trim()) {
         parsed.searchParams.set('auth', this.config.auth)
       } else {
@@ -353,20 +506,37 @@ export class OpenClawWebSocket {
   }
 
   private startHeartbeat(): void {
-    this.heartbeatTimer = setInterval(() => {
-      if (this.ws?.readyState === WebSocket.OPEN) {
-        this.send({ type: 'req', id: `health-${Date.now()}`, method: 'health' })
-      }
-    }, this.config.heartbeatInterval)
+    // 握手后立即探测一次，连接质量面板不必等满一个心跳周期
+    this.sendHeartbeat()
+    this.heartbeatTimer = setInterval(() => this.sendHeartbeat(), this.config.heartbeatInterval)
+  }
+
+  // 心跳兼作往返延迟探测；上一次探测到下一次心跳仍未响应则记为丢失
+  private sendHeartbeat(): void {
+    if (this.ws?.readyState !== WS_READY_STATE.OPEN) return
+    const id = `health-${Date.now()}`
+    if (this.metrics.beginProbe(id, this.messageQueue.length)) {
+      this.emitMetrics()
+    }
+    this.send({ type: 'req', id, method: 'health' })
+  }
+
+  private emitMetrics(): void {
+    this.emit('metrics', this.getMetrics())
   }
 
   private flushQueue(): void {
-    while (this.messageQueue.length > 0) {
+    while (this.messageQueue.length > 0 && this.ws) {
       const queued = this.messageQueue.shift()!
-      this.ws?.send(queued.serialized)
+      this.writeFrame(this.ws, queued.frame, queued.serialized)
     }
   }
 
+  private writeFrame(socket: WebSocketLike, frame: RPCFrame, serialized: string): void {
+    socket.send(serialized)
+    this.wireRecorder?.record('out', frame, utf8Length(serialized))
+  }
+
   private setState(state: ConnectionState): void {
     this._state = state
     this.emit('stateChange', state)
@@ -374,11 +544,14 @@ export class OpenClawWebSocket {
 
   private handleIncomingData(rawData: unknown): void {
     if (typeof rawData !== 'string') {
-      if (rawData instanceof Blob) {
+      if (typeof Blob !== 'undefined' && rawData instanceof Blob) {
         rawData
           .text()
           .then((text) => this.handleIncomingText(text))
           .catch((err) => console.error('[WebSocket] Failed to read blob message:', err))
+      } else if (rawData instanceof ArrayBuffer || ArrayBuffer.isView(rawData)) {
+        // Node 侧的 ws 实现可能直接交付二进制帧
+        this.handleIncomingText(new TextDecoder().decode(rawData))
       }
       return
     }
@@ -399,6 +572,7 @@ export class OpenClawWebSocket {
       console.error('[WebSocket] Failed to parse message:', err)
       return
     }
+    this.wireRecorder?.record('in', frame, utf8Length(trimmed))
 
     try {
       this.handleFrame(frame)
@@ -408,7 +582,7 @@ export class OpenClawWebSocket {
   }
 
   private safeClose(code: number, reason: string): void {
-    if (!this.ws || this.ws.readyState >= WebSocket.CLOSING) {
+    if (!this.ws || this.ws.readyState >= WS_READY_STATE.CLOSING) {
       return
     }
 
@@ -0,0 +1,264 @@
+import type { RPCFrame } from './types'
+import { getClientRuntime, localize } from './runtime'
+
+// 录制文件格式标识，导入时据此校验
+export const WIRE_RECORDING_FORMAT = 'openclaw-wire-recording'
+export const WIRE_RECORDING_VERSION = 1
+
+const DEFAULT_CAPACITY = 2000
+const DEFAULT_MAX_BYTES = 16 * 1024 * 1024
+const MAX_PENDING = 500
+const REDACTED = '[redacted]'
+
+// 与 utils/secret-mask 的判定保持一致；api/ 层不依赖界面代码，这里单独维护一份
+const SECRET_KEY_PATTERN =
+  /(token|secret|password|passwd|pwd|api[-_]?key|access[-_]?key|private[-_]?key|client[-_]?secret|app[-_]?secret|credential|bearer|cookie|signature)$/i
+
+export type WireDirection = 'out' | 'in'
+
+// RPCClient 为每个请求附带的降级/重试上下文
+export interface WireRequestTrace {
+  // 同一次调用的候选方法，如 "sessions.list|session.list"
+  group: string
+  // 当前候选在本次降级顺序中的位置（从 1 开始）与候选总数
+  candidate: number
+  candidates: number
+  // 同一候选的重试次数（从 1 开始）
+  attempt: number
+}
+
+export interface WireRecord {
+  index: number
+  at: number
+  direction: WireDirection
+  kind: 'req' | 'res' | 'event'
+  id?: string
+  // res 帧本身不带方法名，按 id 从对应的 req 补齐
+  method?: string
+  event?: string
+  seq?: number
+  ok?: boolean
+  errorCode?: string
+  errorMessage?: string
+  bytes: number
+  latencyMs?: number
+  trace?: WireRequestTrace
+  // 脱敏后的完整帧
+  frame: unknown
+}
+
+export interface WireRecording {
+  format: typeof WIRE_RECORDING_FORMAT
+  version: number
+  exportedAt: number
+  clientVersion: string
+  records: WireRecord[]
+}
+
+export interface WireRecorderOptions {
+  capacity?: number
+  maxBytes?: number
+}
+
+export function utf8Length(text: string): number {
+  let bytes = 0
+  for (let index = 0; index < text.length; index += 1) {
+    const code = text.charCodeAt(index)
+    if (code < 0x80) bytes += 1
+    else if (code < 0x800) bytes += 2
+    else if (code >= 0xd800 && code <= 0xdbff) {
+      // 代理对合计 4 字节
+      bytes += 4
+      index += 1
+    } else bytes += 3
+  }
+  return bytes
+}
+
+function redactValue(value: unknown, depth: number): unknown {
+  if (depth > 40 || value === null || typeof value !== 'object') return value
+  if (Array.isArray(value)) return value.map((item) => redactValue(item, depth + 1))
+
+  const result: Record<string, unknown> = {}
+  for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+    if (SECRET_KEY_PATTERN.test(key) && (typeof item === 'string' || typeof item === 'number')) {
+      result[key] = item === '' ? '' : REDACTED
+    } else if (key === 'raw' && typeof item === 'string') {
+      result[key] = redactRawConfig(item)
+    } else {
+      result[key] = redactValue(item, depth + 1)
+    }
+  }
+  return result
+}
+
+// config.get / config.patch 的 raw 是整份配置文本；能解析时逐字段脱敏，否则整体隐藏
+function redactRawConfig(raw: string): string {
+  try {
+    return JSON.stringify(redactValue(JSON.parse(raw), 0), null, 2)
+  } catch {
+    return `${REDACTED} (${raw.length} chars)`
+  }
+}
+
+export function redactFrame(frame: unknown): unknown {
+  return redactValue(frame, 0)
+}
+
+/**
+ * 网关收发帧的环形缓冲：按条数与字节数双重上限淘汰最早的记录。
+ * 默认不启用，由传输层在 setRecorder 后调用 record。
+ */
+export class WireRecorder {
+  private records: WireRecord[] = []
+  private totalBytes = 0
+  private nextIndex = 1
+  private readonly capacity: number
+  private readonly maxBytes: number
+  private readonly pendingRequests = new Map<string, WireRecord>()
+  private readonly traces = new Map<string, WireRequestTrace>()
+  private readonly listeners = new Set<() => void>()
+
+  constructor(options: WireRecorderOptions = {}) {
+    this.capacity = Math.max(1, options.capacity ?? DEFAULT_CAPACITY)
+    this.maxBytes = Math.max(1024, options.maxBytes ?? DEFAULT_MAX_BYTES)
+  }
+
+  get size(): number {
+    return this.records.length
+  }
+
+  // 须在请求帧发出前调用，记录时与 req 帧合并
+  annotate(id: string, trace: WireRequestTrace): void {
+    this.traces.set(id, trace)
+    if (this.traces.size > MAX_PENDING) {
+      const oldest = this.traces.keys().next().value
+      if (oldest !== undefined) this.traces.delete(oldest)
+    }
+  }
+
+  record(direction: WireDirection, frame: RPCFrame, bytes: number): void {
+    const entry: WireRecord = {
+      index: this.nextIndex++,
+      at: Date.now(),
+      direction,
+      kind: frame.type,
+      bytes,
+      frame: redactFrame(frame),
+    }
+
+    if (frame.type === 'req') {
+      entry.id = frame.id
+      entry.method = frame.method
+      const trace = this.traces.get(frame.id)
+      if (trace) {
+        entry.trace = trace
+        this.traces.delete(frame.id)
+      }
+      this.pendingRequests.set(frame.id, entry)
+      if (this.pendingRequests.size > MAX_PENDING) {
+        const oldest = this.pendingRequests.keys().next().value
+        if (oldest !== undefined) this.pendingRequests.delete(oldest)
+      }
+    } else if (frame.type === 'res') {
+      entry.id = frame.id
+      entry.ok = frame.ok
+      if (!frame.ok && frame.error) {
+        entry.errorCode = frame.error.code === undefined ? undefined : String(frame.error.code)
+        entry.errorMessage = frame.error.message
+      }
+      const request = this.pendingRequests.get(frame.id)
+      if (request) {
+        this.pendingRequests.delete(frame.id)
+        entry.method = request.method
+        entry.latencyMs = entry.at - request.at
+      }
+    } else {
+      entry.event = frame.event
+      if (typeof frame.seq === 'number') entry.seq = frame.seq
+    }
+
+    this.records.push(entry)
+    this.totalBytes += entry.bytes
+    while (this.records.length > 1 && (this.records.length > this.capacity || this.totalBytes > this.maxBytes)) {
+      const dropped = this.records.shift()
+      if (dropped) this.totalBytes -= dropped.bytes
+    }
+    this.notify()
+  }
+
+  getRecords(): WireRecord[] {
+    return [...this.records]
+  }
+
+  clear(): void {
+    this.records = []
+    this.totalBytes = 0
+    this.pendingRequests.clear()
+    this.traces.clear()
+    this.notify()
+  }
+
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  exportRecording(): WireRecording {
+    return {
+      format: WIRE_RECORDING_FORMAT,
+      version: WIRE_RECORDING_VERSION,
+      exportedAt: Date.now(),
+      clientVersion: getClientRuntime().clientVersion,
+      records: this.getRecords(),
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener()
+      } catch (e) {
+        console.error('[WireRecorder] Listener error:', e)
+      }
+    })
+  }
+}
+
+export function parseWireRecording(text: string): WireRecording {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    throw new Error(localize('录制文件不是有效的 JSON', 'The recording file is not valid JSON'))
+  }
+  const row = parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>) : {}
+  if (row.format !== WIRE_RECORDING_FORMAT || !Array.isArray(row.records)) {
+    throw new Error(localize('不是 OpenClaw 协议录制文件', 'Not an OpenClaw wire recording'))
+  }
+  if (typeof row.version !== 'number' || row.version > WIRE_RECORDING_VERSION) {
+    throw new Error(
+      localize(
+        `不支持的录制文件版本: ${String(row.version)}`,
+        `Unsupported recording version: ${String(row.version)}`,
+      ),
+    )
+  }
+  const records = row.records.filter(
+    (item): item is WireRecord =>
+      !!item &&
+      typeof item === 'object' &&
+      ((item as WireRecord).direction === 'in' || (item as WireRecord).direction === 'out') &&
+      typeof (item as WireRecord).at === 'number' &&
+      !!(item as WireRecord).frame,
+  )
+  return {
+    format: WIRE_RECORDING_FORMAT,
+    version: row.version,
+    exportedAt: typeof row.exportedAt === 'number' ? row.exportedAt : 0,
+    clientVersion: typeof row.clientVersion === 'string' ? row.clientVersion : '',
+    records,
+  }
+}
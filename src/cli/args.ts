@@ -0,0 +1,43 @@
+import { CliUsageError } from './output'
+
+export function parsePositiveInt(value: string | undefined, name: string, allowZero = false): number | undefined {
+  if (value === undefined) return undefined
+  const parsed = Number(value)
+  if (!Number.isInteger(parsed) || parsed < 0 || (!allowZero && parsed === 0)) {
+    throw new CliUsageError(`--${name} must be a ${allowZero ? 'non-negative' : 'positive'} integer`)
+  }
+  return parsed
+}
+
+// 10s / 5m / 2h / 1d；纯数字按毫秒
+export function parseDuration(value: string, name: string): number {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)(ms|s|m|h|d)?$/)
+  if (!match) throw new CliUsageError(`--${name} must look like 30s, 5m, 2h or 1d`)
+  const amount = Number(match[1])
+  const unit = match[2] ?? 'ms'
+  const multiplier = { ms: 1, s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 }[unit] ?? 1
+  const ms = Math.round(amount * multiplier)
+  if (ms <= 0) throw new CliUsageError(`--${name} must be greater than zero`)
+  return ms
+}
+
+// 配置值优先按 JSON 解析（数字、布尔、对象），否则视为字符串
+export function parseValue(raw: string): unknown {
+  try {
+    return JSON.parse(raw) as unknown
+  } catch {
+    return raw
+  }
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+export async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = []
+  for await (const chunk of process.stdin) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : (chunk as Buffer))
+  }
+  return Buffer.concat(chunks).toString('utf8')
+}
@@ -0,0 +1,53 @@
+import { readFileSync } from 'node:fs'
+import type { CommandHandler } from '../context'
+import { CliUsageError, printJson, printLine, printNotice, printTable, formatTimestamp } from '../output'
+import { readStdin } from '../args'
+
+const USAGE = 'Usage: agents files <list <agentId> | get <agentId> <name> | set <agentId> <name> [--file path]>'
+
+export const agentsCommand: CommandHandler = async (ctx, args) => {
+  const [group, action, agentId, name] = args
+  if (group !== 'files' || !agentId) throw new CliUsageError(USAGE)
+  const { rpc } = ctx.client
+
+  if (action === 'list') {
+    const result = await rpc.listAgentFiles(agentId)
+    if (ctx.options.json) {
+      printJson(result)
+      return
+    }
+    printNotice(`workspace: ${result.workspace || '-'}`)
+    printTable(
+      result.files.map((file) => ({ ...file, updated: formatTimestamp(file.updatedAtMs) })),
+      ['name', 'size', 'missing', 'updated', 'path'],
+    )
+    return
+  }
+
+  if (action === 'get') {
+    if (!name) throw new CliUsageError(USAGE)
+    const result = await rpc.getAgentFile(agentId, name)
+    if (ctx.options.json) {
+      printJson(result)
+      return
+    }
+    if (result.file.missing) throw new Error(`File not found: ${name}`)
+    // 原样输出文件内容，便于重定向保存
+    process.stdout.write(result.file.content ?? '')
+    return
+  }
+
+  if (action === 'set') {
+    if (!name) throw new CliUsageError(USAGE)
+    const content = ctx.options.file ? readFileSync(ctx.options.file, 'utf8') : await readStdin()
+    const result = await rpc.setAgentFile(agentId, name, content)
+    if (ctx.options.json) {
+      printJson({ ...result, file: { ...result.file, content: undefined } })
+    } else {
+      printLine(`Saved ${result.file.path || name} (${Buffer.byteLength(content)} bytes)`)
+    }
+    return
+  }
+
+  throw new CliUsageError(USAGE)
+}
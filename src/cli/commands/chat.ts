@@ -0,0 +1,133 @@
+import type { RPCEvent } from '@/api/sdk'
+import type { CommandHandler } from '../context'
+import { CliUsageError, printJsonLine, printNotice } from '../output'
+
+const USAGE = 'Usage: chat send <sessionKey> <message...> [--model id]'
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {}
+}
+
+function asString(value: unknown): string {
+  return typeof value === 'string' ? value : ''
+}
+
+function eventSessionKey(payload: Record<string, unknown>): string {
+  return asString(payload.sessionKey) || asString(payload.key) || asString(asRecord(payload.session).key)
+}
+
+// chat final 载荷里的消息内容可能是字符串或 [{ type: 'text', text }] 数组
+function messageText(message: unknown): string {
+  const row = asRecord(message)
+  const content = row.content ?? row.text ?? message
+  if (typeof content === 'string') return content
+  if (Array.isArray(content)) {
+    return content
+      .map((part) => {
+        const item = asRecord(part)
+        return item.type === 'text' || typeof item.text === 'string' ? asString(item.text) : ''
+      })
+      .join('')
+  }
+  return ''
+}
+
+function chatState(eventName: string, payload: Record<string, unknown>): string {
+  const direct = asString(payload.state || payload.status || payload.phase).toLowerCase()
+  if (direct) return direct
+  const suffix = eventName.split('.').pop() ?? ''
+  return suffix === 'done' ? 'final' : suffix
+}
+
+export const chatCommand: CommandHandler = async (ctx, args) => {
+  const [action, sessionKey, ...words] = args
+  const message = words.join(' ').trim()
+  if (action !== 'send' || !sessionKey || !message) throw new CliUsageError(USAGE)
+
+  const { rpc, transport } = ctx.client
+  let runId = ''
+  let printedText = ''
+  let lineOpen = false
+
+  const writeText = (text: string) => {
+    if (!text) return
+    process.stdout.write(text)
+    printedText += text
+    lineOpen = !text.endsWith('\n')
+  }
+  const notice = (text: string) => {
+    if (lineOpen) {
+      process.stdout.write('\n')
+      lineOpen = false
+    }
+    printNotice(text)
+  }
+
+  const finished = new Promise<{ ok: boolean; detail?: string }>((resolve) => {
+    const off = transport.on('event', (raw: unknown) => {
+      const evt = raw as RPCEvent
+      const name = evt.event.toLowerCase()
+      if (!name.startsWith('chat') && !name.startsWith('agent')) return
+      const payload = asRecord(evt.payload)
+      const key = eventSessionKey(payload)
+      const eventRunId = asString(payload.runId)
+      if (key && key !== sessionKey) return
+      if (runId && eventRunId && eventRunId !== runId) return
+
+      if (ctx.options.json) printJsonLine({ event: evt.event, seq: evt.seq, payload: evt.payload })
+
+      const done = (ok: boolean, detail?: string) => {
+        off()
+        resolve({ ok, detail })
+      }
+
+      if (name === 'agent') {
+        const stream = asString(payload.stream).toLowerCase()
+        const data = asRecord(payload.data)
+        if (stream === 'assistant' && !ctx.options.json) {
+          const delta = asString(data.delta)
+          const text = asString(data.text)
+          // 兼容只下发累计文本的网关：只输出新增部分
+          writeText(delta || (text.startsWith(printedText) ? text.slice(printedText.length) : ''))
+        } else if (stream === 'tool' && !ctx.options.json) {
+          const phase = asString(data.phase || data.state).toLowerCase()
+          const tool = asString(data.name || data.tool || data.toolName)
+          if (phase === 'start' || phase === 'result') notice(`[tool] ${tool} ${phase}${data.isError ? ' (error)' : ''}`)
+        } else if (stream === 'lifecycle') {
+          const phase = asString(data.phase).toLowerCase()
+          if (phase === 'end') done(true)
+          if (phase === 'error') done(false, asString(data.error) || 'agent error')
+        }
+        return
+      }
+
+      if (name.startsWith('chat')) {
+        const state = chatState(name, payload)
+        if (state === 'final' || state === 'done') {
+          if (!ctx.options.json && !printedText) writeText(messageText(payload.message))
+          done(true)
+        } else if (state === 'aborted') {
+          done(false, 'aborted')
+        } else if (state === 'error') {
+          done(false, asString(payload.errorMessage) || 'chat error')
+        }
+      }
+    })
+  })
+
+  const onInterrupt = () => {
+    notice('[chat] aborting...')
+    void rpc.abortChat(runId || undefined, sessionKey).finally(() => process.exit(130))
+  }
+  process.once('SIGINT', onInterrupt)
+
+  try {
+    const response = asRecord(await rpc.sendChatMessage({ sessionKey, message, model: ctx.options.model }))
+    runId = asString(response.runId)
+    const result = await finished
+    if (lineOpen) process.stdout.write('\n')
+    if (!result.ok) throw new Error(`Chat run ended: ${result.detail ?? 'failed'}`)
+  } finally {
+    process.off('SIGINT', onInterrupt)
+  }
+}
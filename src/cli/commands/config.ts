@@ -0,0 +1,76 @@
+import { readFileSync } from 'node:fs'
+import type { ConfigPatch } from '@/api/sdk'
+import type { CommandHandler } from '../context'
+import { CliUsageError, printJson, printLine, printNotice } from '../output'
+import { parseValue } from '../args'
+import { applyConfigPatches, diffConfig, formatChange, getAtPath, maskChange } from '../config-diff'
+
+const PATCH_USAGE = 'Usage: config patch <path=value>... | --file patches.json [--dry-run]'
+
+// --file 支持 [{ path, value }] 数组或 { "a.b": value } 映射
+function readPatchFile(path: string): ConfigPatch[] {
+  const parsed = JSON.parse(readFileSync(path, 'utf8')) as unknown
+  if (Array.isArray(parsed)) {
+    return parsed.map((item) => {
+      const row = (item ?? {}) as Record<string, unknown>
+      if (typeof row.path !== 'string') throw new CliUsageError(`Invalid patch entry in ${path}: missing "path"`)
+      return { path: row.path, value: row.value }
+    })
+  }
+  if (parsed && typeof parsed === 'object') {
+    return Object.entries(parsed as Record<string, unknown>).map(([key, value]) => ({ path: key, value }))
+  }
+  throw new CliUsageError(`Invalid patch file ${path}`)
+}
+
+function parsePatchArgs(args: string[]): ConfigPatch[] {
+  return args.map((arg) => {
+    const index = arg.indexOf('=')
+    if (index <= 0) throw new CliUsageError(PATCH_USAGE)
+    return { path: arg.slice(0, index).trim(), value: parseValue(arg.slice(index + 1)) }
+  })
+}
+
+export const configCommand: CommandHandler = async (ctx, args) => {
+  const [action, ...rest] = args
+  const { rpc } = ctx.client
+
+  if (action === 'get') {
+    const config = await rpc.getConfig()
+    const path = rest[0]
+    const value = path ? getAtPath(config, path) : config
+    if (value === undefined) throw new Error(`Config path not found: ${path}`)
+    if (ctx.options.json || typeof value === 'object') {
+      printJson(value)
+    } else {
+      printLine(String(value))
+    }
+    return
+  }
+
+  if (action === 'patch') {
+    const patches = [
+      ...(ctx.options.file ? readPatchFile(ctx.options.file) : []),
+      ...parsePatchArgs(rest),
+    ].filter((patch) => !!patch.path)
+    if (patches.length === 0) throw new CliUsageError(PATCH_USAGE)
+
+    const before = await rpc.getConfig()
+    const changes = diffConfig(before, applyConfigPatches(before, patches)).map(maskChange)
+
+    if (ctx.options.json) {
+      printJson({ dryRun: ctx.options.dryRun, applied: !ctx.options.dryRun && changes.length > 0, changes })
+    } else if (changes.length === 0) {
+      printNotice('No changes.')
+    } else {
+      changes.forEach((change) => printLine(formatChange(change)))
+    }
+
+    if (ctx.options.dryRun || changes.length === 0) return
+    await rpc.patchConfig(patches)
+    if (!ctx.options.json) printNotice(`Applied ${changes.length} change(s).`)
+    return
+  }
+
+  throw new CliUsageError('Usage: config <get|patch>')
+}
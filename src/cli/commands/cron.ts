@@ -0,0 +1,107 @@
+import type { CronDelivery, CronPayload, CronSchedule, CronUpsertParams } from '@/api/sdk'
+import type { CliOptions, CommandHandler } from '../context'
+import { CliUsageError, printJson, printNotice, printTable } from '../output'
+import { parseDuration } from '../args'
+
+const CREATE_USAGE =
+  'Usage: cron create --name <name> (--schedule "<cron expr>" [--tz zone] | --every 10m | --at <ISO time>) ' +
+  '(--message <agent prompt> [--model id] [--channel c] [--to t] | --text <system event>) [--agent id] [--disabled]'
+
+function buildSchedule(options: CliOptions): CronSchedule {
+  const given = [options.schedule, options.every, options.at].filter((value) => value !== undefined)
+  if (given.length !== 1) throw new CliUsageError(CREATE_USAGE)
+
+  if (options.schedule) {
+    return { kind: 'cron', expr: options.schedule.trim(), tz: options.tz?.trim() || undefined }
+  }
+  if (options.every) {
+    return { kind: 'every', everyMs: parseDuration(options.every, 'every') }
+  }
+  const atMs = Date.parse(options.at ?? '')
+  if (!Number.isFinite(atMs)) throw new CliUsageError('--at must be a valid date/time')
+  return { kind: 'at', at: new Date(atMs).toISOString() }
+}
+
+// 与定时任务页一致：系统事件投递到主会话，agent 指令在独立会话中执行并可回传结果
+function buildJob(options: CliOptions): CronUpsertParams {
+  const name = options.name?.trim()
+  if (!name) throw new CliUsageError(CREATE_USAGE)
+
+  const message = options.message?.trim()
+  const text = options.text?.trim()
+  if (!!message === !!text) throw new CliUsageError(CREATE_USAGE)
+
+  let payload: CronPayload
+  let delivery: CronDelivery | undefined
+  if (message) {
+    payload = { kind: 'agentTurn', message, model: options.model?.trim() || undefined }
+    delivery = {
+      mode: 'announce',
+      channel: options.channel?.trim() || 'last',
+      to: options.to?.trim() || undefined,
+    }
+  } else {
+    payload = { kind: 'systemEvent', text: text ?? '' }
+  }
+
+  const job: CronUpsertParams = {
+    name,
+    enabled: !options.disabled,
+    schedule: buildSchedule(options),
+    sessionTarget: message ? 'isolated' : 'main',
+    wakeMode: 'next-heartbeat',
+    payload,
+    delivery,
+  }
+  const agentId = options.agent?.trim()
+  if (agentId) job.agentId = agentId
+  return job
+}
+
+export const cronCommand: CommandHandler = async (ctx, args) => {
+  const [action, id] = args
+  const { rpc } = ctx.client
+
+  if (action === 'list') {
+    const jobs = await rpc.listCrons()
+    if (ctx.options.json) {
+      printJson(jobs)
+      return
+    }
+    printTable(
+      jobs.map((job) => ({ ...job, lastStatus: job.state?.lastStatus })),
+      ['id', 'name', 'enabled', 'schedule', 'nextRun', 'lastRun', 'lastStatus'],
+    )
+    return
+  }
+
+  if (action === 'create') {
+    const job = buildJob(ctx.options)
+    if (ctx.options.dryRun) {
+      printJson(job)
+      return
+    }
+    await rpc.createCron(job)
+    if (ctx.options.json) {
+      printJson({ ok: true, job })
+    } else {
+      printNotice(`Created cron job "${job.name}"`)
+    }
+    return
+  }
+
+  if (action === 'run') {
+    if (!id) throw new CliUsageError('Usage: cron run <jobId> [--mode force|due]')
+    const mode = ctx.options.mode ?? 'force'
+    if (mode !== 'force' && mode !== 'due') throw new CliUsageError('--mode must be force or due')
+    await rpc.runCron(id, mode)
+    if (ctx.options.json) {
+      printJson({ ok: true, id, mode })
+    } else {
+      printNotice(`Triggered cron job ${id} (${mode})`)
+    }
+    return
+  }
+
+  throw new CliUsageError('Usage: cron <list|create|run>')
+}
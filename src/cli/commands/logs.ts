@@ -0,0 +1,34 @@
+import type { CommandHandler } from '../context'
+import { CliUsageError, printJsonLine, printLine, printNotice } from '../output'
+import { parsePositiveInt, sleep } from '../args'
+
+const DEFAULT_FOLLOW_INTERVAL_MS = 2000
+
+export const logsCommand: CommandHandler = async (ctx, args) => {
+  if (args[0] !== 'tail') throw new CliUsageError('Usage: logs tail [--cursor n] [--limit n] [--follow]')
+
+  const { rpc } = ctx.client
+  const limit = parsePositiveInt(ctx.options.limit, 'limit')
+  const interval = parsePositiveInt(ctx.options.interval, 'interval') ?? DEFAULT_FOLLOW_INTERVAL_MS
+  let cursor = ctx.options.cursor !== undefined ? parsePositiveInt(ctx.options.cursor, 'cursor', true) : undefined
+
+  for (;;) {
+    const result = await rpc.tailLogs({ cursor, limit })
+    if (result.reset) {
+      printNotice(`[logs] ${result.file || 'log file'} was rotated; reading from the start`)
+    }
+    if (ctx.options.json) {
+      // 每行带上 cursor，中断后可用 --cursor 续读
+      result.lines.forEach((line) => printJsonLine({ file: result.file, cursor: result.cursor, line }))
+    } else {
+      result.lines.forEach((line) => printLine(line))
+    }
+    cursor = result.cursor
+
+    if (!ctx.options.follow) {
+      if (!ctx.options.json) printNotice(`[logs] cursor=${result.cursor}`)
+      return
+    }
+    await sleep(interval)
+  }
+}
@@ -0,0 +1,38 @@
+import { writeFileSync } from 'node:fs'
+import type { CommandHandler } from '../context'
+import { CliUsageError, printJson, printNotice, printTable } from '../output'
+
+export const sessionsCommand: CommandHandler = async (ctx, args) => {
+  const [action, key] = args
+  const { rpc } = ctx.client
+
+  if (action === 'list') {
+    const sessions = await rpc.listSessions()
+    if (ctx.options.json) {
+      printJson(sessions)
+      return
+    }
+    printTable(
+      sessions.map((session) => ({
+        ...session,
+        tokens: session.tokenUsage ? session.tokenUsage.totalInput + session.tokenUsage.totalOutput : undefined,
+      })),
+      ['key', 'agentId', 'channel', 'messageCount', 'model', 'tokens', 'lastActivity'],
+    )
+    return
+  }
+
+  if (action === 'export') {
+    if (!key) throw new CliUsageError('Usage: sessions export <sessionKey> [--out file]')
+    const data = await rpc.exportSession(key)
+    if (ctx.options.out) {
+      writeFileSync(ctx.options.out, `${JSON.stringify(data, null, 2)}\n`)
+      printNotice(`Exported ${key} to ${ctx.options.out}`)
+      return
+    }
+    printJson(data)
+    return
+  }
+
+  throw new CliUsageError('Usage: sessions <list|export>')
+}
@@ -0,0 +1,99 @@
+import type { ConfigPatch } from '@/api/sdk'
+import { isSecretFieldKey } from '@/utils/secret-mask'
+
+export interface ConfigChange {
+  path: string
+  kind: 'added' | 'removed' | 'changed'
+  before?: unknown
+  after?: unknown
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function splitPath(path: string): string[] {
+  return path
+    .split('.')
+    .map((segment) => segment.trim())
+    .filter(Boolean)
+}
+
+export function getAtPath(root: unknown, path: string): unknown {
+  let cursor = root
+  for (const segment of splitPath(path)) {
+    if (!isPlainObject(cursor)) return undefined
+    cursor = cursor[segment]
+  }
+  return cursor
+}
+
+// 按网关 config.patch 的 merge-patch 语义在本地模拟：null 表示删除该键
+export function applyConfigPatches<T>(config: T, patches: ConfigPatch[]): T {
+  const next = structuredClone(config) as unknown as Record<string, unknown>
+  for (const patch of patches) {
+    const segments = splitPath(patch.path)
+    const leaf = segments.pop()
+    if (!leaf) continue
+    let cursor = next
+    for (const segment of segments) {
+      if (!isPlainObject(cursor[segment])) cursor[segment] = {}
+      cursor = cursor[segment] as Record<string, unknown>
+    }
+    if (patch.value === null || patch.value === undefined) {
+      delete cursor[leaf]
+    } else {
+      cursor[leaf] = structuredClone(patch.value)
+    }
+  }
+  return next as unknown as T
+}
+
+function collectLeaves(value: unknown, prefix: string, out: Map<string, unknown>): void {
+  if (isPlainObject(value)) {
+    const entries = Object.entries(value)
+    if (entries.length === 0 && prefix) out.set(prefix, {})
+    entries.forEach(([key, child]) => collectLeaves(child, prefix ? `${prefix}.${key}` : key, out))
+    return
+  }
+  if (prefix) out.set(prefix, value)
+}
+
+export function diffConfig(before: unknown, after: unknown): ConfigChange[] {
+  const left = new Map<string, unknown>()
+  const right = new Map<string, unknown>()
+  collectLeaves(before, '', left)
+  collectLeaves(after, '', right)
+
+  const changes: ConfigChange[] = []
+  const paths = [...new Set([...left.keys(), ...right.keys()])].sort()
+  for (const path of paths) {
+    const hasBefore = left.has(path)
+    const hasAfter = right.has(path)
+    const beforeValue = left.get(path)
+    const afterValue = right.get(path)
+    if (hasBefore && !hasAfter) {
+      changes.push({ path, kind: 'removed', before: beforeValue })
+    } else if (!hasBefore && hasAfter) {
+      changes.push({ path, kind: 'added', after: afterValue })
+    } else if (JSON.stringify(beforeValue) !== JSON.stringify(afterValue)) {
+      changes.push({ path, kind: 'changed', before: beforeValue, after: afterValue })
+    }
+  }
+  return changes
+}
+
+// 预览输出可能进入 CI 日志，密钥类字段只显示是否变化
+export function maskChange(change: ConfigChange): ConfigChange {
+  const leafKey = change.path.split('.').pop() ?? ''
+  if (!isSecretFieldKey(leafKey)) return change
+  const mask = (value: unknown) => (value === undefined ? undefined : '****')
+  return { ...change, before: mask(change.before), after: mask(change.after) }
+}
+
+export function formatChange(change: ConfigChange): string {
+  const show = (value: unknown) => JSON.stringify(value)
+  if (change.kind === 'added') return `+ ${change.path} = ${show(change.after)}`
+  if (change.kind === 'removed') return `- ${change.path} (was ${show(change.before)})`
+  return `~ ${change.path}: ${show(change.before)} -> ${show(change.after)}`
+}
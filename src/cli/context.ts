@@ -0,0 +1,32 @@
+import type { GatewayClient } from '@/api/sdk'
+
+export interface CliOptions {
+  json: boolean
+  out?: string
+  file?: string
+  cursor?: string
+  limit?: string
+  follow: boolean
+  interval?: string
+  dryRun: boolean
+  name?: string
+  schedule?: string
+  every?: string
+  at?: string
+  tz?: string
+  message?: string
+  text?: string
+  agent?: string
+  mode?: string
+  model?: string
+  channel?: string
+  to?: string
+  disabled: boolean
+}
+
+export interface CliContext {
+  client: GatewayClient
+  options: CliOptions
+}
+
+export type CommandHandler = (ctx: CliContext, args: string[]) => Promise<void>
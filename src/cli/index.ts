@@ -0,0 +1,174 @@
+import { parseArgs } from 'node:util'
+import { connectGateway, isRpcError } from '@/api/sdk'
+import type { CliOptions, CommandHandler } from './context'
+import { CliUsageError, exitOnClosedStdout, printNotice } from './output'
+import { parsePositiveInt } from './args'
+import { createFileStorage, defaultStatePath, resolveWebSocketFactory } from './node-runtime'
+import { sessionsCommand } from './commands/sessions'
+import { logsCommand } from './commands/logs'
+import { cronCommand } from './commands/cron'
+import { configCommand } from './commands/config'
+import { agentsCommand } from './commands/agents'
+import { chatCommand } from './commands/chat'
+
+const HELP = `openclaw-web — command-line companion for the OpenClaw Gateway
+
+Usage: openclaw-web <command> [options]
+
+Commands:
+  sessions list                               List sessions
+  sessions export <key> [--out file]          Export a session transcript as JSON
+  logs tail [--cursor n] [--limit n]          Read gateway logs (--follow to keep polling)
+  cron list                                   List cron jobs
+  cron create --name <n> ...                  Create a cron job:
+      --schedule "<expr>" [--tz zone] | --every 10m | --at <ISO time>
+      --message <agent prompt> [--model id] [--channel c] [--to t] | --text <system event>
+      [--agent id] [--disabled] [--dry-run]
+  cron run <id> [--mode force|due]            Run a cron job now
+  config get [path]                           Print the config or a dotted path
+  config patch <path=value>... [--dry-run]    Patch config; always prints the diff first
+  agents files list <agentId>                 List agent workspace files
+  agents files get <agentId> <name>           Print an agent file
+  agents files set <agentId> <name>           Write an agent file from --file or stdin
+  chat send <sessionKey> <message...>         Send a message and stream agent events
+
+Connection:
+  --url <ws-url>      Gateway URL (env OPENCLAW_GATEWAY_URL, default ws://127.0.0.1:18789)
+  --token <token>     Gateway token (env OPENCLAW_GATEWAY_TOKEN)
+  --state <file>      Device identity/state file (env OPENCLAW_WEB_STATE)
+  --scope <name>      Separate device identity, e.g. per gateway
+  --timeout <ms>      Connect timeout (default 30000)
+
+Output:
+  --json              Machine-readable JSON on stdout (NDJSON for streams)
+`
+
+const COMMANDS: Record<string, CommandHandler> = {
+  sessions: sessionsCommand,
+  logs: logsCommand,
+  cron: cronCommand,
+  config: configCommand,
+  agents: agentsCommand,
+  chat: chatCommand,
+}
+
+function parseCli(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      url: { type: 'string' },
+      token: { type: 'string' },
+      state: { type: 'string' },
+      scope: { type: 'string' },
+      timeout: { type: 'string' },
+      json: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+      out: { type: 'string', short: 'o' },
+      file: { type: 'string', short: 'f' },
+      cursor: { type: 'string' },
+      limit: { type: 'string' },
+      follow: { type: 'boolean', default: false },
+      interval: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+      name: { type: 'string' },
+      schedule: { type: 'string' },
+      every: { type: 'string' },
+      at: { type: 'string' },
+      tz: { type: 'string' },
+      message: { type: 'string' },
+      text: { type: 'string' },
+      agent: { type: 'string' },
+      mode: { type: 'string' },
+      model: { type: 'string' },
+      channel: { type: 'string' },
+      to: { type: 'string' },
+      disabled: { type: 'boolean', default: false },
+    },
+  })
+}
+
+async function main(argv: string[]): Promise<number> {
+  let parsed: ReturnType<typeof parseCli>
+  try {
+    parsed = parseCli(argv)
+  } catch (error) {
+    throw new CliUsageError(error instanceof Error ? error.message : String(error))
+  }
+  const { values, positionals } = parsed
+  const [command, ...args] = positionals
+
+  if (values.help || !command) {
+    process.stdout.write(HELP)
+    return command || values.help ? 0 : 2
+  }
+  const handler = COMMANDS[command]
+  if (!handler) throw new CliUsageError(`Unknown command: ${command}`)
+
+  const options: CliOptions = {
+    json: values.json,
+    out: values.out,
+    file: values.file,
+    cursor: values.cursor,
+    limit: values.limit,
+    follow: values.follow,
+    interval: values.interval,
+    dryRun: values['dry-run'],
+    name: values.name,
+    schedule: values.schedule,
+    every: values.every,
+    at: values.at,
+    tz: values.tz,
+    message: values.message,
+    text: values.text,
+    agent: values.agent,
+    mode: values.mode,
+    model: values.model,
+    channel: values.channel,
+    to: values.to,
+    disabled: values.disabled,
+  }
+
+  const client = await connectGateway({
+    url: values.url || process.env.OPENCLAW_GATEWAY_URL || 'ws://127.0.0.1:18789',
+    token: values.token ?? process.env.OPENCLAW_GATEWAY_TOKEN ?? '',
+    deviceIdentityScope: values.scope ?? null,
+    connectTimeoutMs: parsePositiveInt(values.timeout, 'timeout'),
+    runtime: {
+      storage: createFileStorage(values.state || process.env.OPENCLAW_WEB_STATE || defaultStatePath()),
+      createWebSocket: await resolveWebSocketFactory(),
+      clientDisplayName: 'OpenClaw Web CLI',
+    },
+  })
+
+  // 结果输出到 stdout，兼容性提示只写 stderr，不影响 --json 管道
+  const { status, hello, testedVersions } = client.compatibility
+  if (status === 'gateway-older' || status === 'gateway-newer') {
+    printNotice(
+      `warning: gateway ${hello.version ?? 'unknown'} (protocol ${hello.protocol ?? '?'}) is ${
+        status === 'gateway-older' ? 'older' : 'newer'
+      } than the tested range (${testedVersions.min}${testedVersions.max ? ` - ${testedVersions.max}` : '+'}); some commands may fail`,
+    )
+  }
+
+  try {
+    await handler({ client, options }, args)
+  } finally {
+    client.close()
+  }
+  return 0
+}
+
+exitOnClosedStdout()
+main(process.argv.slice(2))
+  .then((code) => process.exit(code))
+  .catch((error: unknown) => {
+    if (error instanceof CliUsageError) {
+      printNotice(error.message)
+      printNotice('Run "openclaw-web --help" for usage.')
+      process.exit(2)
+    }
+    const message = error instanceof Error ? error.message : String(error)
+    printNotice(isRpcError(error) ? `error: ${error.method}: ${message}` : `error: ${message}`)
+    process.exit(1)
+  })
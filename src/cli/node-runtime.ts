@@ -0,0 +1,67 @@
+import { chmodSync, existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { homedir } from 'node:os'
+import { dirname, join } from 'node:path'
+import type { KeyValueStorage, WebSocketFactory, WebSocketLike } from '@/api/sdk'
+
+export function defaultStatePath(): string {
+  const base = process.env.XDG_CONFIG_HOME || join(homedir(), '.config')
+  return join(base, 'openclaw-web', 'cli-state.json')
+}
+
+/**
+ * 基于 JSON 文件的存储：设备身份（含私钥）与结构缓存在多次运行间复用，
+ * 否则每次运行都是新设备，需要重新在网关上批准配对。
+ */
+export function createFileStorage(path: string): KeyValueStorage {
+  let data: Record<string, string> = {}
+  try {
+    if (existsSync(path)) {
+      const parsed = JSON.parse(readFileSync(path, 'utf8')) as unknown
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        data = parsed as Record<string, string>
+      }
+    }
+  } catch (error) {
+    console.warn(`[openclaw-web] 无法读取状态文件 ${path}:`, error)
+  }
+
+  const persist = () => {
+    mkdirSync(dirname(path), { recursive: true })
+    writeFileSync(path, JSON.stringify(data, null, 2), { mode: 0o600 })
+    chmodSync(path, 0o600)
+  }
+
+  return {
+    getItem: (key) => (typeof data[key] === 'string' ? data[key] : null),
+    setItem: (key, value) => {
+      data[key] = value
+      persist()
+    },
+    removeItem: (key) => {
+      delete data[key]
+      persist()
+    },
+  }
+}
+
+// Node 22+ 自带 WebSocket；更早的版本使用依赖中的 ws 包
+export async function resolveWebSocketFactory(): Promise<WebSocketFactory> {
+  if (typeof WebSocket !== 'undefined') {
+    return (url) => new WebSocket(url) as unknown as WebSocketLike
+  }
+
+  const moduleName = 'ws'
+  try {
+    const mod = (await import(/* @vite-ignore */ moduleName)) as {
+      default?: new (url: string) => unknown
+      WebSocket?: new (url: string) => unknown
+    }
+    const Ctor = mod.WebSocket ?? mod.default
+    if (Ctor) {
+      return (url) => new Ctor(url) as WebSocketLike
+    }
+  } catch {
+    // 落到下方统一报错
+  }
+  throw new Error('No WebSocket implementation found. Use Node.js 22+ or reinstall dependencies (the "ws" package is missing).')
+}
@@ -0,0 +1,62 @@
+// --json 时 stdout 只输出 JSON（便于管道处理），提示信息一律写到 stderr
+
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CliUsageError'
+  }
+}
+
+// 下游提前关闭管道（如 `--json | head -5`）时安静退出，不把 EPIPE 当作未处理的异常抛出
+export function exitOnClosedStdout(): void {
+  process.stdout.on('error', (error: NodeJS.ErrnoException) => {
+    if (error.code === 'EPIPE') process.exit(0)
+    process.stderr.write(`error: stdout: ${error.message}\n`)
+    process.exit(1)
+  })
+}
+
+export function printJson(value: unknown): void {
+  process.stdout.write(`${JSON.stringify(value, null, 2)}\n`)
+}
+
+// 流式输出（日志、对话事件）每条一行，方便 jq 逐行处理
+export function printJsonLine(value: unknown): void {
+  process.stdout.write(`${JSON.stringify(value)}\n`)
+}
+
+export function printLine(text = ''): void {
+  process.stdout.write(`${text}\n`)
+}
+
+export function printNotice(text: string): void {
+  process.stderr.write(`${text}\n`)
+}
+
+export function printTable(rows: Array<Record<string, unknown>>, columns: string[]): void {
+  if (rows.length === 0) {
+    printNotice('(empty)')
+    return
+  }
+  const cells = rows.map((row) => columns.map((column) => formatCell(row[column])))
+  const widths = columns.map((column, index) =>
+    Math.max(column.length, ...cells.map((line) => line[index]?.length ?? 0)),
+  )
+  const render = (line: string[]) =>
+    line.map((cell, index) => cell.padEnd(widths[index] ?? 0)).join('  ').trimEnd()
+  printLine(render(columns.map((column) => column.toUpperCase())))
+  cells.forEach((line) => printLine(render(line)))
+}
+
+function formatCell(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '-'
+  if (typeof value === 'boolean') return value ? 'yes' : 'no'
+  if (Array.isArray(value)) return value.join(',')
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+export function formatTimestamp(ms?: number): string {
+  if (!ms || !Number.isFinite(ms)) return ''
+  return new Date(ms).toISOString()
+}
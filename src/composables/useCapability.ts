@@ -0,0 +1,35 @@
+import { computed, toValue, type MaybeRefOrGetter } from 'vue'
+import { useWebSocketStore } from '@/stores/websocket'
+import { resolveCapabilities, resolveCapability, type CapabilityId } from '@/api/capabilities'
+
+export function useCapability(id: MaybeRefOrGetter<CapabilityId>) {
+  const wsStore = useWebSocketStore()
+
+  const report = computed(() => resolveCapability(toValue(id), wsStore.gatewayMethods))
+  // 方法列表未知时不拦截，交给调用失败时的错误提示
+  const available = computed(() => report.value.status !== 'unavailable')
+  const unavailable = computed(() => report.value.status === 'unavailable')
+
+  return {
+    report,
+    status: computed(() => report.value.status),
+    available,
+    unavailable,
+  }
+}
+
+export function useCapabilityReports() {
+  const wsStore = useWebSocketStore()
+
+  const reports = computed(() => resolveCapabilities(wsStore.gatewayMethods))
+  const methodsKnown = computed(() => wsStore.gatewayMethods.length > 0)
+  const unavailableCount = computed(
+    () => reports.value.filter((report) => report.status === 'unavailable').length,
+  )
+
+  return {
+    reports,
+    methodsKnown,
+    unavailableCount,
+  }
+}
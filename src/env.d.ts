@@ -12,6 +12,7 @@ interface ImportMetaEnv {
   readonly VITE_APP_VERSION?: string
   readonly VITE_OPENCLAW_CLIENT_ID?: string
   readonly VITE_OPENCLAW_CLIENT_MODE?: string
+  readonly VITE_MOCK_GATEWAY?: string
 }
 
 interface ImportMeta {
@@ -8,6 +8,7 @@ export default {
     chat: 'Live Chat',
     sessions: 'Sessions',
     sessionDetail: 'Session Detail',
+    search: 'Search',
     memory: 'Memory',
     cron: 'Cron',
     models: 'Models',
@@ -49,12 +50,98 @@ export default {
     languageEn: 'English',
   },
   components: {
+    capabilities: {
+      menuUnavailable: 'Not supported by the connected gateway. See Settings → Gateway Capabilities.',
+      actionUnavailable: 'Not supported by the connected gateway',
+    },
+    compatibility: {
+      title: 'Gateway compatibility',
+      olderProtocol: 'The gateway negotiated protocol v{protocol}, older than this client supports ({range}). Some requests may fail; please upgrade the OpenClaw gateway.',
+      newerProtocol: 'The gateway negotiated protocol v{protocol}, newer than this client supports ({range}). Some requests may fail; please upgrade OpenClaw Web.',
+      olderVersion: 'Gateway {version} is older than the oldest tested release ({min}). Some features may be missing or fail; please upgrade the OpenClaw gateway.',
+      newerVersion: 'Gateway {version} is newer than the latest tested release ({max}). If requests start failing with "invalid params", upgrade OpenClaw Web.',
+    },
+    execApproval: {
+      title: 'Command needs approval',
+      pendingTitle: 'Pending exec approvals ({count})',
+      expiresIn: 'Expires in {time}',
+      resolvedPath: 'Resolved path',
+      cwd: 'Working directory',
+      agent: 'Agent',
+      session: 'Session',
+      node: 'Node',
+      allowOnce: 'Allow once',
+      allowAlways: 'Always allow',
+      deny: 'Deny',
+      messages: {
+        allowlistAdded: 'Added {pattern} to the allowlist',
+        allowlistExists: '{pattern} is already in the allowlist',
+        failed: 'Failed to answer approval: {error}',
+      },
+    },
+    sessionExport: {
+      title: 'Export session',
+      bulkTitle: 'Export {count} sessions',
+      format: 'Format',
+      formats: {
+        markdown: 'Markdown',
+        html: 'HTML',
+        jsonl: 'JSONL',
+        json: 'JSON',
+      },
+      formatHints: {
+        markdown: 'Readable transcript; tool calls become collapsible <details> blocks.',
+        html: 'Single self-contained page styled like the chat view; opens offline.',
+        jsonl: 'One {example} line per session with tool inputs as assistant tool_calls, ready for fine-tuning or eval datasets.',
+        json: 'Structured transcript including tool inputs and outputs.',
+      },
+      options: {
+        redactSecrets: 'Redact secrets (tokens, passwords, API keys)',
+        includeToolOutput: 'Include tool output',
+        includeSystem: 'Include system messages',
+      },
+      redactHint: 'Redaction is pattern based: secret-named fields and common key formats are replaced with [REDACTED]. Review the file before sharing.',
+      exportZip: 'Export ZIP',
+      bulkSuccess: 'Exported {count} sessions',
+      partialFailed: '{count} sessions failed to export; see manifest.json in the ZIP',
+      cancelled: 'Export cancelled',
+      labels: {
+        exportedAt: 'Exported at',
+        messageCount: 'Messages',
+        toolCall: 'Tool call',
+        toolInput: 'Input',
+        toolOutput: 'Output',
+        outputOmitted: 'Tool output omitted',
+      },
+    },
     connectionStatus: {
       connected: 'Connected',
       connecting: 'Connecting...',
       reconnecting: 'Reconnecting...',
       disconnected: 'Disconnected',
       failed: 'Connection failed',
+      resyncAfterReconnect: 'Reconnected. Live data may have missed events and is being refreshed.',
+      eventGap: 'Missed {count} live events. Refreshing affected data.',
+      rateLimitWait: 'Rate limited by the gateway. Retrying {method} in {seconds}s...',
+      degraded: 'Connected · degraded',
+      metrics: {
+        title: 'Connection quality',
+        latency: 'Heartbeat latency',
+        average: 'avg {value}',
+        dropRate: 'Heartbeat loss',
+        probes: '{lost}/{sent} lost',
+        reconnects: 'Reconnects',
+        reconnectPending: 'reconnecting…',
+        lastOutage: 'last outage {duration}, {attempts} attempts',
+        queue: 'Queued requests',
+        events: 'Event throughput',
+        hint: 'Heartbeats only measure the gateway round trip. If latency stays low while replies are slow, the model is the bottleneck.',
+        empty: 'No heartbeat samples yet. They appear once connected.',
+      },
+    },
+    profileSwitcher: {
+      current: '{name} (current)',
+      manage: 'Manage profiles...',
     },
   },
   pages: {
@@ -73,6 +160,9 @@ export default {
       connectionClosed: 'Connection closed',
       connectionClosedWithCode: 'Connection closed (code {code})',
       connectFailed: 'Connection failed. Please check the Gateway URL',
+      or: 'or',
+      useMockGateway: 'Use mock gateway (offline demo)',
+      mockGatewayHint: 'The mock gateway runs in browser memory with sample data, which resets when the app is closed.',
     },
     skills: {
       title: 'Skills',
@@ -959,6 +1049,45 @@ export default {
     },
     chat: {
       title: 'Live Chat (Workbench)',
+      searchSession: 'Search this session',
+      compare: {
+        open: 'Compare models',
+        title: 'Model comparison',
+        hint: 'Each model answers in its own throwaway session of agent {agent}; sessions are deleted once metrics are collected.',
+        back: 'Back to chat',
+        modelsPlaceholder: 'Pick or type up to {max} models (provider/model)',
+        promptPlaceholder: 'Prompt sent to every selected model',
+        run: 'Run ({count})',
+        stop: 'Stop',
+        save: 'Save',
+        saved: 'Comparison saved',
+        savedList: 'Saved ({count})',
+        savedEmpty: 'No saved comparisons',
+        confirmDelete: 'Delete this saved comparison?',
+        modelCount: '{count} models',
+        winnerLabel: 'Winner: {model}',
+        markWinner: 'Mark as winner',
+        unmarkWinner: 'Winner (click to clear)',
+        fastest: 'Fastest',
+        cheapest: 'Cheapest',
+        noResponse: 'No response',
+        empty: 'Pick models and a prompt, then run to see answers side by side.',
+        tooManyModels: 'At most {max} models per comparison',
+        runFailed: 'Comparison failed: {error}',
+        status: {
+          pending: 'Waiting',
+          streaming: 'Replying',
+          done: 'Done',
+          error: 'Failed',
+          aborted: 'Stopped',
+        },
+        metrics: {
+          firstToken: 'First token',
+          latency: 'Latency',
+          tokens: 'Tokens in/out',
+          cost: 'Cost',
+        },
+      },
       actions: {
         refreshChat: 'Refresh',
         send: 'Send',
@@ -983,6 +1112,75 @@ export default {
       sessionKey: 'Session key',
       sessionKeyPlaceholder: 'Enter or select session key (auto loads on select)',
       sessionTag: 'Session {key}',
+      panes: {
+        layoutTabs: 'Tabs',
+        layoutSplit: 'Split',
+        limitReached: 'Up to {count} sessions can be open at once',
+        noMoreSessions: 'Every session is already open; pick another key from the session selector',
+      },
+      attachments: {
+        add: 'Attach',
+        remove: 'Remove attachment',
+        untitled: 'Untitled file',
+        dropHint: 'Drop files to attach them to the message',
+        limitHint: 'Up to {count} files per message, {size} each',
+        status: {
+          reading: 'Reading {percent}%',
+          uploading: 'Uploading...',
+          uploaded: 'Uploaded',
+          failed: 'Upload failed',
+        },
+        messages: {
+          tooMany: 'Up to {count} attachments per message',
+          tooLarge: '{name} exceeds the {limit} attachment limit',
+          unsupported: 'This gateway cannot receive {name}: binary uploads require agents.files.upload',
+          waitUpload: 'Wait for attachments to finish uploading',
+        },
+      },
+      branches: {
+        navigator: 'Branches ({count})',
+        forkedFrom: 'Forked from {key}',
+        nodeLabel: '{kind} · {count} msgs · {time}',
+        kind: {
+          fork: 'Fork',
+          edit: 'Edit',
+          regenerate: 'Regenerate',
+        },
+        actions: {
+          edit: 'Edit and resend in a new branch',
+          regenerate: 'Regenerate this reply in a new branch',
+          fork: 'Fork a new session from here',
+        },
+        edit: {
+          title: 'Edit and resend',
+          hint: 'The edited message is sent in a new branch session; the original conversation stays unchanged.',
+          submit: 'Send in new branch',
+        },
+        messages: {
+          forked: 'Forked a new branch session',
+          forkFailed: 'Failed to create branch: {reason}',
+          noPrompt: 'No user message found before this reply',
+        },
+      },
+      timeline: {
+        title: 'Tool timeline',
+        summary: '{count} tool calls · {duration}',
+        failed: '{count} failed',
+        statusLabel: 'Status',
+        meta: 'Meta',
+        status: {
+          running: 'Running',
+          done: 'Done',
+          error: 'Failed',
+          cancelled: 'Interrupted',
+        },
+        runStatus: {
+          running: 'Running',
+          done: 'Done',
+          aborted: 'Stopped',
+          error: 'Error',
+        },
+      },
       session: {
         model: 'Model',
       },
@@ -1018,6 +1216,29 @@ export default {
         placeholder: 'Type a message (type / to see OpenClaw commands)',
         sendHint: 'Sending to: {key} | Enter send, Shift+Enter newline, Ctrl/Cmd+Enter send',
       },
+      outbox: {
+        retry: 'Retry',
+        discard: 'Discard',
+        status: {
+          pending: 'Queued',
+          sending: 'Sending',
+          sent: 'Sent',
+          failed: 'Failed',
+        },
+        messages: {
+          queued: 'Offline. The message is queued and will be sent after reconnecting.',
+          failed: 'Message failed to send',
+        },
+      },
+      promptHistory: {
+        title: 'Prompt history',
+        searchPlaceholder: 'Search sent prompts',
+        empty: 'Prompts you send appear here',
+        noMatch: 'No matching prompts',
+        clear: 'Clear',
+        confirmClear: 'Clear all saved prompt history?',
+        recallHint: 'In the input box, press ↑ / ↓ to recall messages sent in the current session.',
+      },
       quickReplies: {
         title: 'Quick replies',
         add: 'Add',
@@ -1025,9 +1246,27 @@ export default {
         empty: 'No quick replies',
         confirmDelete: 'Delete this quick reply?',
         searchPlaceholder: 'Search quick replies...',
-        storageHint: 'Stored in this browser. For long-term content, consider putting it in workspace.',
+        storageHint: 'Stored in this browser. Push to the workspace to share templates with your team.',
         dirLabel: 'Suggested dir: ',
         copyDir: 'Copy directory',
+        variableCount: '{count} fields',
+        variableTypes: {
+          text: 'Text',
+          date: 'Date',
+          select: 'Select',
+          file: 'Workspace file',
+        },
+        import: 'Import',
+        export: 'Export',
+        pull: 'Pull from workspace',
+        push: 'Push to workspace',
+        pullHint: 'Merge templates from {path} in the current agent workspace; newer versions win',
+        pushHint: 'Merge the templates in this browser into {path} in the current agent workspace; shared templates are kept, newer versions win and templates deleted here are removed from the shared file',
+        fill: {
+          title: 'Fill in: {title}',
+          textPlaceholder: 'Enter a value',
+          filePlaceholder: 'Relative path in the agent workspace',
+        },
         messages: {
           titleRequired: 'Please enter a title',
           contentRequired: 'Please enter content',
@@ -1037,6 +1276,13 @@ export default {
           inserted: 'Inserted: {title}',
           dirCopied: 'Workspace dir copied',
           dirCopyFailed: 'Copy failed. Please copy the path manually.',
+          variableRequired: 'Please fill in {name}',
+          fileMissing: 'File not found in the agent workspace: {path}',
+          imported: 'Imported templates: {added} added, {updated} updated, {removed} removed',
+          importFailed: 'Failed to import templates: {error}',
+          workspaceEmpty: 'No shared templates found at {path}',
+          pushed: '{path} now holds {count} templates after merging',
+          pushFailed: 'Failed to push templates: {error}',
         },
         modal: {
           createTitle: 'Create quick reply',
@@ -1045,6 +1291,8 @@ export default {
           titlePlaceholder: 'Enter title',
           content: 'Content',
           contentPlaceholder: 'Enter content',
+          variables: 'Fields',
+          syntaxHint: 'Placeholders open a form before insertion: {text} text, {date} date, {select} options, {file} content of a workspace file.',
           saveChanges: 'Save changes',
         },
       },
@@ -1148,6 +1396,28 @@ export default {
         viewArgs: 'View args',
       },
     },
+    search: {
+      title: 'Search chat transcripts',
+      placeholder: 'Search all sessions, e.g. nginx migration or "exact phrase"',
+      hint: 'Type keywords to search every indexed session. All words must appear in the same message.',
+      sync: 'Update index',
+      rebuild: 'Rebuild index',
+      indexStats: '{sessions} sessions, {messages} messages indexed',
+      lastSynced: 'updated {time}',
+      syncFailed: 'Failed to update the search index: {error}',
+      partialFailed: '{count} sessions could not be fetched and were skipped this time',
+      resultCount: '{count} matching messages',
+      resultLimited: 'showing the first {max}; add keywords or filters to narrow down',
+      noResults: 'No matching messages',
+      emptyIndex: 'The index is empty. Click "Update index" to fetch chat history first.',
+      filters: {
+        session: 'All sessions',
+        agent: 'All agents',
+        channel: 'All channels',
+        role: 'All roles',
+        clear: 'Clear filters',
+      },
+    },
     sessions: {
       roles: {
         user: 'User',
@@ -1208,6 +1478,7 @@ export default {
         confirmReset: 'Reset this session?',
         summary: 'Summary: {text}',
         emptySide: 'Select a session on the left to view/export/reset/delete.',
+        exportSelected: 'Export selected ({count})',
       },
       detail: {
         title: 'Session Detail',
@@ -1245,6 +1516,7 @@ export default {
         logs: 'Live logs (logs.tail)',
         approvals: 'Approvals (exec.approvals.*)',
         update: 'Update & restart (update.run)',
+        inspector: 'Protocol inspector',
       },
       methodNotSupported: 'This Gateway does not support {method}',
       errors: {
@@ -1348,6 +1620,7 @@ export default {
         restartWarning: 'This operation will restart the Gateway. A brief disconnection is expected.',
         actions: {
           run: 'Run update',
+          stopWaiting: 'Stop waiting',
         },
         confirm: {
           title: 'Run update?',
@@ -1374,6 +1647,7 @@ export default {
           skipped: 'Update skipped',
           failed: 'Update failed: {reason}',
           unknownReason: 'Unknown reason',
+          stoppedWaiting: 'Stopped waiting. The update may still be running on the Gateway.',
         },
         errors: {
           runFailed: 'Run update failed',
@@ -1390,6 +1664,47 @@ export default {
         sentinel: 'Sentinel file: {path}',
         stepsTitle: 'Steps ({count})',
       },
+      inspector: {
+        title: 'Protocol inspector',
+        recording: 'Record traffic',
+        hint: 'Recent frames exchanged with the Gateway (secrets redacted, oldest evicted first). Click a request to view its payload. Exported recordings can be replayed offline to reproduce rendering issues.',
+        disabledHint: 'Recording is off. Turn on "Record traffic" and new requests will be captured here.',
+        sharedTransportHint: 'Shared cross-tab connection is active: only this page\'s frames are captured, and replay is unavailable. Turn off the shared connection in Settings to replay.',
+        replayActive: 'Replaying a recording: the Gateway connection is suspended and pages only see recorded responses. Stop replay to reconnect.',
+        empty: 'No requests recorded yet',
+        eventCounts: 'Events received',
+        fallback: 'fallback {current}/{total}',
+        retry: 'retry #{attempt}',
+        actions: {
+          replay: 'Import & replay',
+          stopReplay: 'Stop replay',
+        },
+        status: {
+          pending: 'pending',
+        },
+        stats: {
+          frames: 'Frames',
+          requests: 'Requests',
+          failed: '{count} failed',
+          latency: 'Avg latency',
+          fallbacks: 'Fallbacks / retries',
+          events: 'Events',
+          bytes: 'Traffic',
+        },
+        columns: {
+          time: 'Time',
+          method: 'Method',
+          status: 'Result',
+          latency: 'Latency',
+          size: 'Request / response',
+          attempt: 'Attempt',
+        },
+        messages: {
+          emptyRecording: 'The recording contains no frames',
+          replayStarted: 'Replaying recording ({count} frames)',
+          replayStopped: 'Replay stopped, reconnecting to the Gateway',
+        },
+      },
     },
     settings: {
       connectionSettings: 'Connection',
@@ -1400,6 +1715,89 @@ export default {
       tokenPlaceholder: 'Gateway Token',
       saveAndReconnect: 'Save & reconnect',
       savedAndReconnected: 'Connection settings saved and reconnected',
+      sharedTransport: 'Share across tabs',
+      sharedTransportHint: 'Open tabs share one gateway connection, handshake and heartbeat instead of one each.',
+      sharedTransportUnsupported: 'This browser supports neither SharedWorker nor BroadcastChannel + Web Locks.',
+      sharedTransportActive: 'This tab is using the shared connection.',
+      qualityThresholds: 'Quality warnings',
+      qualityLatency: 'Latency above (ms)',
+      qualityDropRate: 'Heartbeat loss above (%)',
+      qualityThresholdsHint: 'The connection badge turns into a warning when the average of the last 10 heartbeats crosses either threshold.',
+      capabilities: {
+        title: 'Gateway Capabilities',
+        hint: 'Features are matched against the methods the gateway advertises during the handshake. Menu entries and actions whose methods are missing are disabled.',
+        protocol: 'Protocol: ',
+        protocolValue: 'v{protocol} (client supports {range})',
+        gatewayBuild: 'Gateway build: ',
+        testedVersions: 'tested from {min}',
+        testedVersionsRange: 'tested {min} - {max}',
+        unknown: 'The gateway did not advertise a method list, so every feature is treated as available. Unsupported calls will fail with an error instead.',
+        summary: '{count} feature(s) unavailable on this gateway',
+        allAvailable: 'Every feature is supported by this gateway.',
+        columns: {
+          feature: 'Feature',
+          status: 'Status',
+          reason: 'Details',
+        },
+        status: {
+          available: 'Available',
+          unavailable: 'Unavailable',
+          unknown: 'Unknown',
+        },
+        matched: 'Via {methods}',
+        missing: 'Gateway advertises none of: {methods}',
+        notAdvertised: 'Needs one of: {methods}',
+        features: {
+          chat: 'Chat',
+          chatInject: 'Carry context into branches',
+          sessions: 'Sessions',
+          sessionUsage: 'Session usage stats',
+          usageCost: 'Usage cost',
+          agentFiles: 'Agent files (memory)',
+          agentFilesWrite: 'Edit agent files',
+          fileUpload: 'Upload attachments',
+          cron: 'Cron jobs',
+          cronCreate: 'Create cron jobs',
+          cronUpdate: 'Edit cron jobs',
+          cronRemove: 'Delete cron jobs',
+          cronRun: 'Run cron jobs now',
+          models: 'Model catalog',
+          config: 'Gateway config',
+          configWrite: 'Save gateway config',
+          channels: 'Channels',
+          plugins: 'Plugin list',
+          pluginInstall: 'Install plugins',
+          skills: 'Skills',
+          skillInstall: 'Install skills',
+          skillUpdate: 'Update skills',
+          nodes: 'Nodes',
+          presence: 'System presence',
+          health: 'Health check',
+          status: 'Gateway status',
+          logs: 'Log tail',
+          execApprovals: 'Exec approvals (gateway)',
+          nodeExecApprovals: 'Exec approvals (node)',
+          execApprovalResolve: 'Answer exec approval prompts',
+          update: 'Gateway update',
+        },
+      },
+      diagnostics: {
+        title: 'Developer Diagnostics',
+        strictMode: 'Strict Schema Mode',
+        strictModeHint: 'Check gateway responses against the declared schemas and record unknown or missing fields. Enabled by default in development builds.',
+        clear: 'Clear',
+        empty: 'No schema drift detected yet.',
+        disabled: 'Strict mode is off; responses are decoded without drift checks.',
+        columns: {
+          method: 'Method',
+          schema: 'Schema',
+          unknownFields: 'Unknown Fields',
+          missingFields: 'Missing Fields',
+          count: 'Count',
+          lastSeen: 'Last Seen',
+        },
+      },
+      sharedTransportReloadHint: 'Saved. Reload the page to apply.',
       connectionFailed: 'Connection failed',
       reconnectTimeout: 'Reconnect timed out',
       statusConnected: 'Connected',
@@ -1414,6 +1812,29 @@ export default {
       about: 'About',
       aboutLine1: 'OpenClaw Gateway admin console',
       aboutLine2: 'Built with Vue 3 + Naive UI',
+      profiles: {
+        title: 'Connection profiles',
+        hint: 'Save several gateways (staging, production, personal) and switch between them from the header. Switching tears down all gateway data and reconnects.',
+        add: 'Add profile',
+        active: 'Active',
+        switch: 'Switch',
+        isolatedIdentity: 'Own device identity',
+        defaultSession: 'default session {key}',
+        confirmDelete: 'Delete profile "{name}"?',
+        createTitle: 'New connection profile',
+        editTitle: 'Edit connection profile',
+        name: 'Name',
+        namePlaceholder: 'e.g. Production',
+        deviceIdentity: 'Device identity',
+        identityShared: 'Shared',
+        identityIsolated: 'Per profile',
+        defaultSessionKey: 'Default session',
+        color: 'Color',
+        nameRequired: 'Please enter a profile name',
+        urlRequired: 'Please enter the Gateway URL',
+        saved: 'Profile saved',
+        deleted: 'Profile deleted',
+      },
     },
     tools: {
       title: 'Tools',
@@ -8,6 +8,7 @@ export default {
     chat: '在线对话',
     sessions: '会话管理',
     sessionDetail: '会话详情',
+    search: '聊天搜索',
     memory: '记忆管理',
     cron: 'Cron 管理',
     models: 'Model 管理',
@@ -49,12 +50,98 @@ export default {
     languageEn: 'English',
   },
   components: {
+    capabilities: {
+      menuUnavailable: '当前网关不支持此功能，详见设置 → 网关能力',
+      actionUnavailable: '当前网关不支持此操作',
+    },
+    compatibility: {
+      title: '网关兼容性',
+      olderProtocol: '网关协商的协议版本 v{protocol} 早于当前客户端支持的 {range}，部分请求可能失败，请升级 OpenClaw 网关。',
+      newerProtocol: '网关协商的协议版本 v{protocol} 比当前客户端支持的 {range} 更新，部分请求可能失败，请升级 OpenClaw Web。',
+      olderVersion: '网关版本 {version} 早于已验证的最低版本 {min}，部分功能可能缺失或报错，请升级 OpenClaw 网关。',
+      newerVersion: '网关版本 {version} 比已验证的最新版本 {max} 更新；如请求出现“invalid params”错误，请升级 OpenClaw Web。',
+    },
+    execApproval: {
+      title: '命令等待审批',
+      pendingTitle: '待处理的执行审批（{count}）',
+      expiresIn: '{time} 后过期',
+      resolvedPath: '解析路径',
+      cwd: '工作目录',
+      agent: 'Agent',
+      session: '会话',
+      node: '节点',
+      allowOnce: '允许一次',
+      allowAlways: '始终允许',
+      deny: '拒绝',
+      messages: {
+        allowlistAdded: '已将 {pattern} 加入白名单',
+        allowlistExists: '{pattern} 已在白名单中',
+        failed: '处理审批失败：{error}',
+      },
+    },
+    sessionExport: {
+      title: '导出会话',
+      bulkTitle: '导出 {count} 个会话',
+      format: '格式',
+      formats: {
+        markdown: 'Markdown',
+        html: 'HTML',
+        jsonl: 'JSONL',
+        json: 'JSON',
+      },
+      formatHints: {
+        markdown: '便于阅读的对话记录，工具调用显示为可折叠的 <details> 区块。',
+        html: '样式与聊天页一致的单文件网页，离线也能打开。',
+        jsonl: '每个会话一行 {example}，工具调用入参记为助手消息的 tool_calls，可直接用作微调或评测数据集。',
+        json: '结构化的对话记录，保留工具入参与输出。',
+      },
+      options: {
+        redactSecrets: '脱敏密钥（Token、密码、API Key）',
+        includeToolOutput: '包含工具输出',
+        includeSystem: '包含系统消息',
+      },
+      redactHint: '脱敏基于规则：敏感字段名与常见密钥格式会替换为 [REDACTED]，分享前请再检查一遍文件。',
+      exportZip: '导出 ZIP',
+      bulkSuccess: '已导出 {count} 个会话',
+      partialFailed: '{count} 个会话导出失败，详见 ZIP 中的 manifest.json',
+      cancelled: '已取消导出',
+      labels: {
+        exportedAt: '导出时间',
+        messageCount: '消息数',
+        toolCall: '工具调用',
+        toolInput: '入参',
+        toolOutput: '输出',
+        outputOmitted: '已省略工具输出',
+      },
+    },
     connectionStatus: {
       connected: '已连接',
       connecting: '连接中...',
       reconnecting: '重连中...',
       disconnected: '已断开',
       failed: '连接失败',
+      resyncAfterReconnect: '已重新连接，断线期间可能遗漏实时事件，正在刷新数据',
+      eventGap: '遗漏了 {count} 条实时事件，正在刷新相关数据',
+      rateLimitWait: '网关限流中，{seconds} 秒后重试 {method}...',
+      degraded: '已连接 · 质量下降',
+      metrics: {
+        title: '连接质量',
+        latency: '心跳延迟',
+        average: '平均 {value}',
+        dropRate: '心跳丢失率',
+        probes: '丢失 {lost}/{sent}',
+        reconnects: '重连次数',
+        reconnectPending: '重连中…',
+        lastOutage: '上次中断 {duration}，尝试 {attempts} 次',
+        queue: '排队请求',
+        events: '事件吞吐',
+        hint: '心跳只测量与网关之间的往返；延迟正常但回复很慢时，瓶颈在模型一侧。',
+        empty: '暂无心跳采样，连接后自动开始统计。',
+      },
+    },
+    profileSwitcher: {
+      current: '{name}（当前）',
+      manage: '管理连接配置...',
     },
   },
   pages: {
@@ -73,6 +160,9 @@ export default {
       connectionClosed: '连接已关闭',
       connectionClosedWithCode: '连接已关闭 (code {code})',
       connectFailed: '连接失败，请检查 Gateway 地址',
+      or: '或',
+      useMockGateway: '使用模拟网关（离线演示）',
+      mockGatewayHint: '模拟网关运行在浏览器内存中，使用示例数据，关闭应用后数据重置。',
     },
     skills: {
       title: '技能管理',
@@ -959,6 +1049,45 @@ export default {
     },
     chat: {
       title: '在线对话（工作台）',
+      searchSession: '在当前会话中搜索',
+      compare: {
+        open: '模型对比',
+        title: '模型对比',
+        hint: '每个模型在 Agent {agent} 下各用一个临时会话作答，读取用量后自动删除。',
+        back: '返回聊天',
+        modelsPlaceholder: '选择或输入最多 {max} 个模型（provider/model）',
+        promptPlaceholder: '发送给所有已选模型的提示词',
+        run: '开始对比（{count}）',
+        stop: '停止',
+        save: '保存',
+        saved: '对比结果已保存',
+        savedList: '已保存（{count}）',
+        savedEmpty: '暂无保存的对比',
+        confirmDelete: '删除这条保存的对比？',
+        modelCount: '{count} 个模型',
+        winnerLabel: '胜出：{model}',
+        markWinner: '标记为胜出',
+        unmarkWinner: '已胜出（点击取消）',
+        fastest: '最快',
+        cheapest: '最便宜',
+        noResponse: '没有回复',
+        empty: '选择模型并填写提示词，开始后各模型的回答会并排显示。',
+        tooManyModels: '每次最多对比 {max} 个模型',
+        runFailed: '对比失败：{error}',
+        status: {
+          pending: '等待中',
+          streaming: '回复中',
+          done: '已完成',
+          error: '失败',
+          aborted: '已停止',
+        },
+        metrics: {
+          firstToken: '首字',
+          latency: '耗时',
+          tokens: '输入/输出 Token',
+          cost: '费用',
+        },
+      },
       actions: {
         refreshChat: '刷新聊天数据',
         send: '发送',
@@ -983,6 +1112,75 @@ export default {
       sessionKey: '会话 Key',
       sessionKeyPlaceholder: '输入或选择会话 Key（选中后自动加载）',
       sessionTag: '会话 {key}',
+      panes: {
+        layoutTabs: '标签页',
+        layoutSplit: '分屏',
+        limitReached: '最多同时打开 {count} 个会话',
+        noMoreSessions: '所有会话都已打开，可在会话下拉框中输入其他 Key',
+      },
+      attachments: {
+        add: '附件',
+        remove: '移除附件',
+        untitled: '未命名文件',
+        dropHint: '松开即可将文件添加为附件',
+        limitHint: '每条消息最多 {count} 个文件，单个不超过 {size}',
+        status: {
+          reading: '读取中 {percent}%',
+          uploading: '上传中...',
+          uploaded: '已上传',
+          failed: '上传失败',
+        },
+        messages: {
+          tooMany: '每条消息最多 {count} 个附件',
+          tooLarge: '{name} 超过 {limit} 的附件大小限制',
+          unsupported: '当前网关无法接收 {name}：二进制文件需要 agents.files.upload 支持',
+          waitUpload: '请等待附件上传完成',
+        },
+      },
+      branches: {
+        navigator: '分支（{count}）',
+        forkedFrom: '分叉自 {key}',
+        nodeLabel: '{kind} · {count} 条消息 · {time}',
+        kind: {
+          fork: '分叉',
+          edit: '编辑',
+          regenerate: '重新生成',
+        },
+        actions: {
+          edit: '编辑后在新分支中重新发送',
+          regenerate: '在新分支中重新生成这条回复',
+          fork: '从这里分叉出新会话',
+        },
+        edit: {
+          title: '编辑并重新发送',
+          hint: '编辑后的消息会在新的分支会话中发送，原会话保持不变。',
+          submit: '在新分支中发送',
+        },
+        messages: {
+          forked: '已分叉出新的分支会话',
+          forkFailed: '创建分支失败：{reason}',
+          noPrompt: '这条回复之前没有找到用户消息',
+        },
+      },
+      timeline: {
+        title: '工具调用时间线',
+        summary: '{count} 次工具调用 · {duration}',
+        failed: '{count} 次失败',
+        statusLabel: '状态',
+        meta: '摘要',
+        status: {
+          running: '进行中',
+          done: '完成',
+          error: '失败',
+          cancelled: '已中断',
+        },
+        runStatus: {
+          running: '运行中',
+          done: '完成',
+          aborted: '已停止',
+          error: '出错',
+        },
+      },
       session: {
         model: '模型',
       },
@@ -1018,6 +1216,29 @@ export default {
         placeholder: '输入消息（输入 / 可查看 OpenClaw 命令）',
         sendHint: '当前发送到：{key} ｜ Enter 发送，Shift+Enter 换行，Ctrl/Cmd+Enter 发送',
       },
+      outbox: {
+        retry: '重试',
+        discard: '丢弃',
+        status: {
+          pending: '排队中',
+          sending: '发送中',
+          sent: '已发送',
+          failed: '发送失败',
+        },
+        messages: {
+          queued: '当前离线，消息已排队，重连后自动发送',
+          failed: '消息发送失败',
+        },
+      },
+      promptHistory: {
+        title: '提示词历史',
+        searchPlaceholder: '搜索发送过的提示词',
+        empty: '发送过的提示词会显示在这里',
+        noMatch: '没有匹配的提示词',
+        clear: '清空',
+        confirmClear: '确认清空全部提示词历史？',
+        recallHint: '在输入框中按 ↑ / ↓ 可调出当前会话发过的消息',
+      },
       quickReplies: {
         title: '常用对话',
         add: '新增',
@@ -1025,9 +1246,27 @@ export default {
         empty: '暂无常用对话',
         confirmDelete: '确认删除该条常用对话？',
         searchPlaceholder: '搜索标题/内容',
-        storageHint: '存储位置：当前浏览器。按官方建议，长期可维护内容可放到 workspace。',
+        storageHint: '存储位置：当前浏览器。推送到 Agent 工作区后可与团队共享模板。',
         dirLabel: '建议目录：',
         copyDir: '复制目录',
+        variableCount: '{count} 个填写项',
+        variableTypes: {
+          text: '文本',
+          date: '日期',
+          select: '选项',
+          file: '工作区文件',
+        },
+        import: '导入',
+        export: '导出',
+        pull: '从工作区拉取',
+        push: '推送到工作区',
+        pullHint: '合并当前 Agent 工作区 {path} 中的模板，同一模板保留较新的版本',
+        pushHint: '把当前浏览器里的模板合并到当前 Agent 工作区的 {path}，保留已共享的模板，同一模板保留较新的版本，本地删除的模板会从共享文件中移除',
+        fill: {
+          title: '填写模板：{title}',
+          textPlaceholder: '输入内容',
+          filePlaceholder: 'Agent 工作区内的相对路径',
+        },
         messages: {
           titleRequired: '请输入常用对话标题',
           contentRequired: '请输入常用对话内容',
@@ -1037,6 +1276,13 @@ export default {
           inserted: '已插入：{title}',
           dirCopied: '已复制 workspace 建议目录',
           dirCopyFailed: '复制失败，请手动复制目录路径',
+          variableRequired: '请填写 {name}',
+          fileMissing: 'Agent 工作区中找不到文件：{path}',
+          imported: '已导入模板：新增 {added} 条，更新 {updated} 条，删除 {removed} 条',
+          importFailed: '导入模板失败：{error}',
+          workspaceEmpty: '{path} 中还没有共享模板',
+          pushed: '已合并推送，{path} 现有 {count} 条模板',
+          pushFailed: '推送模板失败：{error}',
         },
         modal: {
           createTitle: '新增常用对话',
@@ -1045,6 +1291,8 @@ export default {
           titlePlaceholder: '例如：确认需求澄清',
           content: '内容',
           contentPlaceholder: '输入常用对话正文',
+          variables: '填写项',
+          syntaxHint: '内容中的占位符会在插入前弹出填写表单：{text} 文本、{date} 日期、{select} 选项、{file} 工作区文件内容',
           saveChanges: '保存修改',
         },
       },
@@ -1148,6 +1396,28 @@ export default {
         viewArgs: '查看入参',
       },
     },
+    search: {
+      title: '搜索聊天记录',
+      placeholder: '在所有会话中搜索，例如 nginx 迁移 或 "完整短语"',
+      hint: '输入关键词搜索所有已索引的会话，多个词需出现在同一条消息中',
+      sync: '更新索引',
+      rebuild: '重建索引',
+      indexStats: '已索引 {sessions} 个会话、{messages} 条消息',
+      lastSynced: '{time}更新',
+      syncFailed: '更新搜索索引失败：{error}',
+      partialFailed: '{count} 个会话拉取失败，本次已跳过',
+      resultCount: '找到 {count} 条消息',
+      resultLimited: '仅显示前 {max} 条，可增加关键词或筛选条件缩小范围',
+      noResults: '没有匹配的消息',
+      emptyIndex: '索引为空，请先点击「更新索引」拉取聊天记录',
+      filters: {
+        session: '全部会话',
+        agent: '全部 Agent',
+        channel: '全部渠道',
+        role: '全部角色',
+        clear: '清空筛选',
+      },
+    },
     sessions: {
       roles: {
         user: '用户',
@@ -1208,6 +1478,7 @@ export default {
         confirmReset: '确认重置该会话？',
         summary: '当前会话摘要：{text}',
         emptySide: '从左侧选择会话后，可进行查看详情、导出、重置或删除。',
+        exportSelected: '导出所选（{count}）',
       },
       detail: {
         title: '会话详情',
@@ -1245,6 +1516,7 @@ export default {
         logs: '实时日志（logs.tail）',
         approvals: '审批策略（exec.approvals.*）',
         update: '更新与重启（update.run）',
+        inspector: '协议检查器',
       },
       methodNotSupported: '当前 Gateway 不支持 {method}',
       errors: {
@@ -1348,6 +1620,7 @@ export default {
         restartWarning: '该操作会触发 Gateway 重启，页面连接短暂断开属于预期行为。',
         actions: {
           run: '执行更新',
+          stopWaiting: '停止等待',
         },
         confirm: {
           title: '确认执行更新？',
@@ -1374,6 +1647,7 @@ export default {
           skipped: '更新任务已执行，但被跳过',
           failed: '更新任务失败：{reason}',
           unknownReason: '未知原因',
+          stoppedWaiting: '已停止等待，网关上的更新可能仍在进行。',
         },
         errors: {
           runFailed: '执行更新失败',
@@ -1390,6 +1664,47 @@ export default {
         sentinel: '哨兵文件：{path}',
         stepsTitle: '步骤回显（{count}）',
       },
+      inspector: {
+        title: '协议检查器',
+        recording: '录制流量',
+        hint: '最近与 Gateway 收发的帧（敏感字段已脱敏，超出上限时淘汰最早的记录）。点击请求查看载荷；导出的录制可离线回放，用于复现渲染问题。',
+        disabledHint: '录制未开启。打开「录制流量」后，新的请求会显示在这里。',
+        sharedTransportHint: '当前使用跨标签页共享连接：只能录制本页面的帧，且无法回放。如需回放，请在设置中关闭共享连接。',
+        replayActive: '正在回放录制：已暂停与 Gateway 的连接，页面只会收到录制中的响应。停止回放后自动重连。',
+        empty: '暂无录制的请求',
+        eventCounts: '已接收事件',
+        fallback: '降级 {current}/{total}',
+        retry: '重试 #{attempt}',
+        actions: {
+          replay: '导入并回放',
+          stopReplay: '停止回放',
+        },
+        status: {
+          pending: '等待中',
+        },
+        stats: {
+          frames: '帧数',
+          requests: '请求数',
+          failed: '失败 {count}',
+          latency: '平均延迟',
+          fallbacks: '降级 / 重试',
+          events: '事件数',
+          bytes: '流量',
+        },
+        columns: {
+          time: '时间',
+          method: '方法',
+          status: '结果',
+          latency: '延迟',
+          size: '请求 / 响应',
+          attempt: '尝试',
+        },
+        messages: {
+          emptyRecording: '录制文件中没有任何帧',
+          replayStarted: '正在回放录制（{count} 帧）',
+          replayStopped: '已停止回放，正在重连 Gateway',
+        },
+      },
     },
     settings: {
       connectionSettings: '连接设置',
@@ -1400,6 +1715,89 @@ export default {
       tokenPlaceholder: 'Gateway Token',
       saveAndReconnect: '保存并重连',
       savedAndReconnected: '连接设置已保存并重连成功',
+      sharedTransport: '多标签页共享',
+      sharedTransportHint: '多个标签页共用一条网关连接，只做一次握手与心跳。',
+      sharedTransportUnsupported: '当前浏览器不支持 SharedWorker，也不支持 BroadcastChannel + Web Locks。',
+      sharedTransportActive: '当前页面正在使用共享连接。',
+      qualityThresholds: '质量告警',
+      qualityLatency: '延迟超过（毫秒）',
+      qualityDropRate: '心跳丢失率超过（%）',
+      qualityThresholdsHint: '最近 10 次心跳的平均值超过任一阈值时，顶部连接状态显示为告警。',
+      capabilities: {
+        title: '网关能力',
+        hint: '根据网关握手时公布的方法列表判断各功能是否可用，缺少所需方法的菜单项和操作会被禁用。',
+        protocol: '协议版本：',
+        protocolValue: 'v{protocol}（客户端支持 {range}）',
+        gatewayBuild: '网关版本：',
+        testedVersions: '已验证 {min} 及以上',
+        testedVersionsRange: '已验证 {min} - {max}',
+        unknown: '网关未公布方法列表，所有功能按可用处理；不支持的调用会在执行时报错。',
+        summary: '当前网关有 {count} 项功能不可用',
+        allAvailable: '当前网关支持全部功能。',
+        columns: {
+          feature: '功能',
+          status: '状态',
+          reason: '说明',
+        },
+        status: {
+          available: '可用',
+          unavailable: '不可用',
+          unknown: '未知',
+        },
+        matched: '通过 {methods}',
+        missing: '网关未提供以下任一方法：{methods}',
+        notAdvertised: '需要以下任一方法：{methods}',
+        features: {
+          chat: '聊天',
+          chatInject: '分支携带上下文',
+          sessions: '会话',
+          sessionUsage: '会话用量统计',
+          usageCost: '用量费用',
+          agentFiles: 'Agent 文件（记忆）',
+          agentFilesWrite: '编辑 Agent 文件',
+          fileUpload: '上传附件',
+          cron: '定时任务',
+          cronCreate: '创建定时任务',
+          cronUpdate: '编辑定时任务',
+          cronRemove: '删除定时任务',
+          cronRun: '立即执行定时任务',
+          models: '模型目录',
+          config: '网关配置',
+          configWrite: '保存网关配置',
+          channels: '渠道',
+          plugins: '插件列表',
+          pluginInstall: '安装插件',
+          skills: '技能',
+          skillInstall: '安装技能',
+          skillUpdate: '更新技能',
+          nodes: '节点',
+          presence: '在线实例',
+          health: '健康检查',
+          status: '网关状态',
+          logs: '日志跟踪',
+          execApprovals: '执行审批（网关）',
+          nodeExecApprovals: '执行审批（节点）',
+          execApprovalResolve: '处理执行审批请求',
+          update: '网关更新',
+        },
+      },
+      diagnostics: {
+        title: '开发者诊断',
+        strictMode: '严格结构模式',
+        strictModeHint: '按声明的结构检查网关响应，记录未知字段与缺失字段。开发构建默认开启。',
+        clear: '清空',
+        empty: '尚未发现结构漂移。',
+        disabled: '严格模式未开启，响应解码时不做漂移检查。',
+        columns: {
+          method: '方法',
+          schema: '结构',
+          unknownFields: '未知字段',
+          missingFields: '缺失字段',
+          count: '次数',
+          lastSeen: '最近出现',
+        },
+      },
+      sharedTransportReloadHint: '已保存，刷新页面后生效。',
       connectionFailed: '连接失败',
       reconnectTimeout: '重连超时',
       statusConnected: '已连接',
@@ -1414,6 +1812,29 @@ export default {
       about: '关于',
       aboutLine1: 'OpenClaw Gateway 管理后台',
       aboutLine2: '基于 Vue 3 + Naive UI 构建',
+      profiles: {
+        title: '连接配置',
+        hint: '保存多个网关（测试、生产、个人）并在顶栏快速切换。切换时会清空当前网关的全部数据并重新连接。',
+        add: '新增配置',
+        active: '当前',
+        switch: '切换',
+        isolatedIdentity: '独立设备身份',
+        defaultSession: '默认会话 {key}',
+        confirmDelete: '确认删除配置「{name}」？',
+        createTitle: '新建连接配置',
+        editTitle: '编辑连接配置',
+        name: '名称',
+        namePlaceholder: '例如：生产环境',
+        deviceIdentity: '设备身份',
+        identityShared: '共享',
+        identityIsolated: '按配置隔离',
+        defaultSessionKey: '默认会话',
+        color: '标识颜色',
+        nameRequired: '请填写配置名称',
+        urlRequired: '请填写 Gateway 地址',
+        saved: '配置已保存',
+        deleted: '配置已删除',
+      },
     },
     tools: {
       title: '工具管理',
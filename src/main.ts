@@ -3,10 +3,16 @@ import { createPinia } from 'pinia'
 import App from './App.vue'
 import router from './router'
 import { i18n } from '@/i18n'
+import { trackStoresPlugin } from '@/stores/gateway-scope'
+import { configureWebClientRuntime } from '@/utils/client-runtime'
 import './assets/styles/main.css'
 
+configureWebClientRuntime()
+
 const app = createApp(App)
-app.use(createPinia())
+const pinia = createPinia()
+pinia.use(trackStoresPlugin)
+app.use(pinia)
 app.use(i18n)
 app.use(router)
 app.mount('#app')
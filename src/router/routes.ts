@@ -22,13 +22,13 @@ export const routes: RouteRecordRaw[] = [
         path: 'chat',
         name: 'Chat',
         component: () => import('@/views/chat/ChatPage.vue'),
-        meta: { titleKey: 'routes.chat', icon: 'ChatboxEllipsesOutline' },
+        meta: { titleKey: 'routes.chat', icon: 'ChatboxEllipsesOutline', capability: 'chat' },
       },
       {
         path: 'sessions',
         name: 'Sessions',
         component: () => import('@/views/sessions/SessionsPage.vue'),
-        meta: { titleKey: 'routes.sessions', icon: 'ChatbubblesOutline' },
+        meta: { titleKey: 'routes.sessions', icon: 'ChatbubblesOutline', capability: 'sessions' },
       },
       {
         path: 'sessions/:key',
@@ -36,29 +36,35 @@ export const routes: RouteRecordRaw[] = [
         component: () => import('@/views/sessions/SessionDetailPage.vue'),
         meta: { titleKey: 'routes.sessionDetail', hidden: true },
       },
+      {
+        path: 'search',
+        name: 'Search',
+        component: () => import('@/views/search/SearchPage.vue'),
+        meta: { titleKey: 'routes.search', icon: 'SearchOutline', capability: 'sessions' },
+      },
       {
         path: 'memory',
         name: 'Memory',
         component: () => import('@/views/memory/MemoryPage.vue'),
-        meta: { titleKey: 'routes.memory', icon: 'BookOutline' },
+        meta: { titleKey: 'routes.memory', icon: 'BookOutline', capability: 'agentFiles' },
       },
       {
         path: 'cron',
         name: 'Cron',
         component: () => import('@/views/cron/CronPage.vue'),
-        meta: { titleKey: 'routes.cron', icon: 'CalendarOutline' },
+        meta: { titleKey: 'routes.cron', icon: 'CalendarOutline', capability: 'cron' },
       },
       {
         path: 'models',
         name: 'Models',
         component: () => import('@/views/models/ModelsPage.vue'),
-        meta: { titleKey: 'routes.models', icon: 'SparklesOutline' },
+        meta: { titleKey: 'routes.models', icon: 'SparklesOutline', capability: 'config' },
       },
       {
         path: 'channels',
         name: 'Channels',
         component: () => import('@/views/channels/ChannelsPage.vue'),
-        meta: { titleKey: 'routes.channels', icon: 'GitNetworkOutline' },
+        meta: { titleKey: 'routes.channels', icon: 'GitNetworkOutline', capability: 'channels' },
       },
       {
         path: 'config',
@@ -69,7 +75,7 @@ export const routes: RouteRecordRaw[] = [
         path: 'skills',
         name: 'Skills',
         component: () => import('@/views/skills/SkillsPage.vue'),
-        meta: { titleKey: 'routes.skills', icon: 'ExtensionPuzzleOutline' },
+        meta: { titleKey: 'routes.skills', icon: 'ExtensionPuzzleOutline', capability: 'skills' },
       },
       {
         path: 'tools',
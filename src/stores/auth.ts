@@ -1,37 +1,202 @@
 import { ref, computed } from 'vue'
 import { defineStore } from 'pinia'
+import { MOCK_GATEWAY_URL } from '@/api/mock/urls'
 
 const STORAGE_KEY = 'openclaw_auth'
+const GATEWAY_URL_STORAGE_KEY = 'openclaw_gateway_url'
+const PROFILES_STORAGE_KEY = 'openclaw_connection_profiles_v1'
+const ACTIVE_PROFILE_STORAGE_KEY = 'openclaw_active_profile_v1'
+const DEFAULT_PROFILE_ID = 'default'
+const DEFAULT_PROFILE_COLOR = '#18a058'
+
+export type DeviceIdentityMode = 'shared' | 'isolated'
+
+export interface ConnectionProfile {
+  id: string
+  name: string
+  gatewayUrl: string
+  token: string
+  deviceIdentity: DeviceIdentityMode
+  defaultSessionKey: string
+  color: string
+  updatedAt: number
+}
+
+function defaultGatewayUrl(): string {
+  if (import.meta.env.VITE_MOCK_GATEWAY === 'true') return MOCK_GATEWAY_URL
+  return import.meta.env.VITE_WS_URL || 'ws://127.0.0.1:18789'
+}
+
+function createProfileId(): string {
+  return `profile-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+function normalizeProfile(value: unknown): ConnectionProfile | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null
+  const row = value as Record<string, unknown>
+  const id = typeof row.id === 'string' ? row.id.trim() : ''
+  if (!id) return null
+
+  return {
+    id,
+    name: typeof row.name === 'string' && row.name.trim() ? row.name.trim() : id,
+    gatewayUrl: typeof row.gatewayUrl === 'string' && row.gatewayUrl.trim() ? row.gatewayUrl.trim() : defaultGatewayUrl(),
+    token: typeof row.token === 'string' ? row.token : '',
+    deviceIdentity: row.deviceIdentity === 'isolated' ? 'isolated' : 'shared',
+    defaultSessionKey: typeof row.defaultSessionKey === 'string' ? row.defaultSessionKey.trim() : '',
+    color: typeof row.color === 'string' && row.color.trim() ? row.color.trim() : DEFAULT_PROFILE_COLOR,
+    updatedAt: typeof row.updatedAt === 'number' && Number.isFinite(row.updatedAt) ? row.updatedAt : Date.now(),
+  }
+}
+
+function loadProfiles(): ConnectionProfile[] {
+  try {
+    const raw = localStorage.getItem(PROFILES_STORAGE_KEY)
+    if (raw) {
+      const parsed = JSON.parse(raw)
+      if (Array.isArray(parsed)) {
+        const seen = new Set<string>()
+        const list = parsed
+          .map((item) => normalizeProfile(item))
+          .filter((item): item is ConnectionProfile => {
+            if (!item || seen.has(item.id)) return false
+            seen.add(item.id)
+            return true
+          })
+        if (list.length > 0) return list
+      }
+    }
+  } catch (error) {
+    console.warn('[AuthStore] 读取连接配置失败:', error)
+  }
+
+  // 兼容旧版单连接存储：迁移为默认配置
+  return [
+    {
+      id: DEFAULT_PROFILE_ID,
+      name: 'Default',
+      gatewayUrl: localStorage.getItem(GATEWAY_URL_STORAGE_KEY) || defaultGatewayUrl(),
+      token: localStorage.getItem(STORAGE_KEY) || '',
+      deviceIdentity: 'shared',
+      defaultSessionKey: '',
+      color: DEFAULT_PROFILE_COLOR,
+      updatedAt: Date.now(),
+    },
+  ]
+}
 
 export const useAuthStore = defineStore('auth', () => {
-  const token = ref<string>(localStorage.getItem(STORAGE_KEY) || '')
-  const gatewayUrl = ref<string>(
-    localStorage.getItem('openclaw_gateway_url') || import.meta.env.VITE_WS_URL || 'ws://127.0.0.1:18789'
+  const profiles = ref<ConnectionProfile[]>(loadProfiles())
+  const storedActiveId = localStorage.getItem(ACTIVE_PROFILE_STORAGE_KEY) || ''
+  const activeProfileId = ref<string>(
+    profiles.value.some((item) => item.id === storedActiveId) ? storedActiveId : profiles.value[0]!.id
   )
 
+  // 当前配置的连接参数被改写后递增，页面以配置 ID 与它一起作为重建依据
+  const connectionRevision = ref(0)
+
+  const activeProfile = computed<ConnectionProfile>(
+    () => profiles.value.find((item) => item.id === activeProfileId.value) || profiles.value[0]!
+  )
+  const token = computed(() => activeProfile.value.token)
+  const gatewayUrl = computed(() => activeProfile.value.gatewayUrl)
   const isAuthenticated = computed(() => !!token.value)
+  // 共享模式沿用全局设备身份；隔离模式每个配置单独生成，避免跨网关复用配对关系
+  const deviceIdentityScope = computed(() =>
+    activeProfile.value.deviceIdentity === 'isolated' ? activeProfile.value.id : null
+  )
+
+  function persistProfiles() {
+    localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles.value))
+    localStorage.setItem(ACTIVE_PROFILE_STORAGE_KEY, activeProfileId.value)
+    // 旧版字段保持同步，便于回滚
+    localStorage.setItem(GATEWAY_URL_STORAGE_KEY, activeProfile.value.gatewayUrl)
+    if (activeProfile.value.token) {
+      localStorage.setItem(STORAGE_KEY, activeProfile.value.token)
+    } else {
+      localStorage.removeItem(STORAGE_KEY)
+    }
+  }
+
+  function updateActiveProfile(patch: Partial<Omit<ConnectionProfile, 'id'>>) {
+    profiles.value = profiles.value.map((item) =>
+      item.id === activeProfileId.value ? { ...item, ...patch, updatedAt: Date.now() } : item
+    )
+    persistProfiles()
+  }
 
   function setToken(newToken: string) {
-    token.value = newToken
-    localStorage.setItem(STORAGE_KEY, newToken)
+    updateActiveProfile({ token: newToken })
   }
 
   function setGatewayUrl(url: string) {
-    gatewayUrl.value = url
-    localStorage.setItem('openclaw_gateway_url', url)
+    updateActiveProfile({ gatewayUrl: url })
+  }
+
+  function saveProfile(input: Partial<ConnectionProfile> & { name: string; gatewayUrl: string }): ConnectionProfile {
+    const id = input.id?.trim() || createProfileId()
+    const existing = profiles.value.find((item) => item.id === id)
+    const next = normalizeProfile({
+      ...existing,
+      ...input,
+      id,
+      updatedAt: Date.now(),
+    })!
+
+    profiles.value = existing
+      ? profiles.value.map((item) => (item.id === id ? next : item))
+      : [...profiles.value, next]
+    persistProfiles()
+    return next
+  }
+
+  function deleteProfile(id: string) {
+    if (profiles.value.length <= 1) return
+    profiles.value = profiles.value.filter((item) => item.id !== id)
+    if (activeProfileId.value === id) {
+      activeProfileId.value = profiles.value[0]!.id
+    }
+    persistProfiles()
+  }
+
+  function switchProfile(id: string): boolean {
+    if (id === activeProfileId.value) return false
+    if (!profiles.value.some((item) => item.id === id)) return false
+    activeProfileId.value = id
+    persistProfiles()
+    return true
+  }
+
+  function markConnectionChanged() {
+    connectionRevision.value += 1
+  }
+
+  // 按配置隔离的本地存储 key；默认配置沿用原 key，兼容已有数据
+  function scopedStorageKey(base: string): string {
+    if (activeProfileId.value === DEFAULT_PROFILE_ID) return base
+    return `${base}@${activeProfileId.value}`
   }
 
   function logout() {
-    token.value = ''
-    localStorage.removeItem(STORAGE_KEY)
+    updateActiveProfile({ token: '' })
   }
 
   return {
+    profiles,
+    activeProfileId,
+    connectionRevision,
+    activeProfile,
     token,
     gatewayUrl,
     isAuthenticated,
+    deviceIdentityScope,
     setToken,
     setGatewayUrl,
+    saveProfile,
+    deleteProfile,
+    switchProfile,
+    markConnectionChanged,
+    scopedStorageKey,
     logout,
   }
 })
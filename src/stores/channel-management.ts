@@ -9,6 +9,7 @@ import type {
   PluginPackage,
 } from '@/api/types'
 import { ConnectionState } from '@/api/types'
+import { resolveCapability } from '@/api/capabilities'
 import { useWebSocketStore } from './websocket'
 import {
   buildChannelPatches,
@@ -33,8 +34,6 @@ type PluginInstallHints = {
   pluginIds?: string[]
 }
 
-const PLUGIN_LIST_METHODS = ['plugins.list', 'plugin.list', 'plugins.status', 'plugin.status']
-
 function asAccountsRecord(value: unknown): Record<string, ChannelAccountConfig> {
   if (!value || typeof value !== 'object' || Array.isArray(value)) return {}
   const result: Record<string, ChannelAccountConfig> = {}
@@ -330,8 +329,7 @@ export const useChannelManagementStore = defineStore('channel-management', () =>
   async function refreshPlugins(): Promise<void> {
     pluginLastError.value = null
 
-    const hasMethodSnapshot = wsStore.gatewayMethods.length > 0
-    if (hasMethodSnapshot && !wsStore.supportsAnyMethod(PLUGIN_LIST_METHODS)) {
+    if (resolveCapability('plugins', wsStore.gatewayMethods).status === 'unavailable') {
       plugins.value = []
       pluginRpcSupported.value = false
       syncPluginInstalledMap()
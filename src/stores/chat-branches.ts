@@ -0,0 +1,182 @@
+import { ref } from 'vue'
+import { defineStore } from 'pinia'
+import { useWebSocketStore } from './websocket'
+import { useAuthStore } from './auth'
+import type { ChatMessage } from '@/api/types'
+import { parseSessionKey } from '@/utils/format'
+
+const BRANCHES_STORAGE_KEY = 'openclaw_chat_branches_v1'
+// 注入分支的上下文过长时只保留最近的部分，避免单条消息撑爆模型上下文
+const MAX_BRANCH_CONTEXT_CHARS = 60000
+
+export type ChatBranchKind = 'fork' | 'edit' | 'regenerate'
+
+export interface ChatBranch {
+  key: string
+  parentKey: string
+  // 分叉点：从父会话带过来的消息条数
+  forkIndex: number
+  kind: ChatBranchKind
+  createdAtMs: number
+  // 网关不支持 chat.inject 时，前缀随分支的第一条消息一起发出
+  pendingContext: string | null
+}
+
+export interface ChatBranchTreeNode {
+  key: string
+  branch: ChatBranch | null
+  children: ChatBranchTreeNode[]
+}
+
+function isBranchKind(value: unknown): value is ChatBranchKind {
+  return value === 'fork' || value === 'edit' || value === 'regenerate'
+}
+
+function normalizeBranch(value: unknown): ChatBranch | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null
+  const row = value as Record<string, unknown>
+  if (typeof row.key !== 'string' || !row.key || typeof row.parentKey !== 'string' || !row.parentKey) return null
+  return {
+    key: row.key,
+    parentKey: row.parentKey,
+    forkIndex: typeof row.forkIndex === 'number' ? row.forkIndex : 0,
+    kind: isBranchKind(row.kind) ? row.kind : 'fork',
+    createdAtMs: typeof row.createdAtMs === 'number' ? row.createdAtMs : 0,
+    pendingContext: typeof row.pendingContext === 'string' ? row.pendingContext : null,
+  }
+}
+
+// 分支会话的 Key 沿用父会话的 Agent，保证附件与记忆都在同一个工作区
+function buildBranchKey(parentKey: string, now = Date.now()): string {
+  const agent = parseSessionKey(parentKey).agent
+  return `agent:${agent}:main:branch-${now.toString(36)}${Math.random().toString(36).slice(2, 6)}`
+}
+
+function formatBranchContext(parentKey: string, messages: ChatMessage[]): string {
+  const lines = messages
+    .filter((item) => (item.role === 'user' || item.role === 'assistant') && item.content.trim())
+    .map((item) => `${item.role === 'user' ? 'User' : 'Assistant'}: ${item.content.trim()}`)
+  let body = lines.join('\n\n')
+  if (body.length > MAX_BRANCH_CONTEXT_CHARS) {
+    body = `...\n${body.slice(body.length - MAX_BRANCH_CONTEXT_CHARS)}`
+  }
+  return `[branch] This conversation continues from session ${parentKey}. Earlier conversation:\n\n${body}`
+}
+
+export const useChatBranchStore = defineStore('chat-branches', () => {
+  const wsStore = useWebSocketStore()
+  const authStore = useAuthStore()
+  const storageKey = authStore.scopedStorageKey(BRANCHES_STORAGE_KEY)
+
+  const branches = ref<Record<string, ChatBranch>>(readBranches())
+
+  function readBranches(): Record<string, ChatBranch> {
+    try {
+      const raw = localStorage.getItem(storageKey)
+      const parsed = raw ? (JSON.parse(raw) as unknown) : null
+      const list = Array.isArray(parsed) ? parsed : []
+      const result: Record<string, ChatBranch> = {}
+      for (const item of list) {
+        const branch = normalizeBranch(item)
+        if (branch) result[branch.key] = branch
+      }
+      return result
+    } catch (error) {
+      console.warn('[ChatBranchStore] 读取分支记录失败:', error)
+      return {}
+    }
+  }
+
+  function persist() {
+    try {
+      localStorage.setItem(storageKey, JSON.stringify(Object.values(branches.value)))
+    } catch (error) {
+      console.warn('[ChatBranchStore] 保存分支记录失败:', error)
+    }
+  }
+
+  function parentOf(key: string): string | null {
+    return branches.value[key]?.parentKey ?? null
+  }
+
+  function rootOf(key: string): string {
+    const seen = new Set<string>()
+    let current = key
+    while (!seen.has(current)) {
+      seen.add(current)
+      const parent = parentOf(current)
+      if (!parent) break
+      current = parent
+    }
+    return current
+  }
+
+  function childrenOf(key: string): ChatBranch[] {
+    return Object.values(branches.value)
+      .filter((item) => item.parentKey === key)
+      .sort((a, b) => a.createdAtMs - b.createdAtMs)
+  }
+
+  // 以根会话为起点构建整棵分支树；没有任何分支时返回 null
+  function treeOf(key: string): ChatBranchTreeNode | null {
+    const rootKey = rootOf(key)
+    const seen = new Set<string>()
+    const build = (nodeKey: string): ChatBranchTreeNode => {
+      seen.add(nodeKey)
+      return {
+        key: nodeKey,
+        branch: branches.value[nodeKey] ?? null,
+        children: childrenOf(nodeKey)
+          .filter((item) => !seen.has(item.key))
+          .map((item) => build(item.key)),
+      }
+    }
+    const root = build(rootKey)
+    return root.children.length > 0 ? root : null
+  }
+
+  /**
+   * 以父会话的一段前缀消息新建分支会话，返回新会话 Key。
+   * 前缀通过 chat.inject 写入新会话；网关不支持时暂存，随分支的第一条消息发出。
+   */
+  async function forkSession(parentKey: string, prefix: ChatMessage[], kind: ChatBranchKind): Promise<string> {
+    const key = buildBranchKey(parentKey)
+    await wsStore.rpc.newSession(key)
+
+    let pendingContext: string | null = null
+    if (prefix.length > 0) {
+      const context = formatBranchContext(parentKey, prefix)
+      const injected = await wsStore.rpc.injectChatMessage({ sessionKey: key, message: context, label: 'branch' })
+      if (!injected) pendingContext = context
+    }
+
+    branches.value = {
+      ...branches.value,
+      [key]: { key, parentKey, forkIndex: prefix.length, kind, createdAtMs: Date.now(), pendingContext },
+    }
+    persist()
+    return key
+  }
+
+  function pendingContextOf(key: string): string | null {
+    return branches.value[key]?.pendingContext ?? null
+  }
+
+  function clearPendingContext(key: string) {
+    const branch = branches.value[key]
+    if (!branch?.pendingContext) return
+    branches.value = { ...branches.value, [key]: { ...branch, pendingContext: null } }
+    persist()
+  }
+
+  return {
+    branches,
+    parentOf,
+    rootOf,
+    childrenOf,
+    treeOf,
+    forkSession,
+    pendingContextOf,
+    clearPendingContext,
+  }
+})
@@ -0,0 +1,196 @@
+import { onScopeDispose, ref } from 'vue'
+import { defineStore } from 'pinia'
+import { useAuthStore } from './auth'
+
+const DRAFTS_STORAGE_KEY = 'openclaw_chat_drafts_v1'
+const PROMPT_HISTORY_STORAGE_KEY = 'openclaw_chat_prompt_history_v1'
+// 历史只保留最近的部分，避免 localStorage 无限增长
+const MAX_PROMPT_HISTORY = 500
+// 输入时合并写入，避免每次按键都序列化全部草稿
+const DRAFT_PERSIST_DELAY_MS = 300
+
+export interface ChatDraft {
+  text: string
+  updatedAtMs: number
+}
+
+export interface PromptHistoryEntry {
+  id: string
+  text: string
+  sessionKey: string
+  sentAtMs: number
+}
+
+function normalizeDraft(value: unknown): ChatDraft | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null
+  const row = value as Record<string, unknown>
+  if (typeof row.text !== 'string' || !row.text) return null
+  return { text: row.text, updatedAtMs: typeof row.updatedAtMs === 'number' ? row.updatedAtMs : 0 }
+}
+
+function normalizePromptEntry(value: unknown): PromptHistoryEntry | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null
+  const row = value as Record<string, unknown>
+  if (typeof row.text !== 'string' || !row.text.trim()) return null
+  return {
+    id: typeof row.id === 'string' && row.id ? row.id : `prompt-${Math.random().toString(36).slice(2, 10)}`,
+    text: row.text,
+    sessionKey: typeof row.sessionKey === 'string' ? row.sessionKey : '',
+    sentAtMs: typeof row.sentAtMs === 'number' ? row.sentAtMs : 0,
+  }
+}
+
+/**
+ * 聊天输入框状态：按会话 Key 保存未发送的草稿，并记录发送过的提示词供检索与复用。
+ * 两者都按连接配置隔离保存在 localStorage。
+ */
+export const useChatComposerStore = defineStore('chat-composer', () => {
+  const authStore = useAuthStore()
+  const draftsKey = authStore.scopedStorageKey(DRAFTS_STORAGE_KEY)
+  const historyKey = authStore.scopedStorageKey(PROMPT_HISTORY_STORAGE_KEY)
+
+  const drafts = ref<Record<string, ChatDraft>>(readDrafts())
+  // 按发送时间从旧到新排列
+  const promptHistory = ref<PromptHistoryEntry[]>(readPromptHistory())
+  let draftPersistTimer: ReturnType<typeof setTimeout> | null = null
+
+  // 关闭或刷新页面时立即写入还在等待合并的草稿
+  window.addEventListener('pagehide', flushDrafts)
+  // 切换连接配置销毁 store 时移除监听，并把未写入的草稿存到原配置下
+  onScopeDispose(() => {
+    window.removeEventListener('pagehide', flushDrafts)
+    if (draftPersistTimer) flushDrafts()
+  })
+
+  function readDrafts(): Record<string, ChatDraft> {
+    try {
+      const raw = localStorage.getItem(draftsKey)
+      const parsed = raw ? (JSON.parse(raw) as unknown) : null
+      const result: Record<string, ChatDraft> = {}
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return result
+      for (const [key, value] of Object.entries(parsed)) {
+        const draft = normalizeDraft(value)
+        if (draft) result[key] = draft
+      }
+      return result
+    } catch (error) {
+      console.warn('[ChatComposer] 读取草稿失败:', error)
+      return {}
+    }
+  }
+
+  function readPromptHistory(): PromptHistoryEntry[] {
+    try {
+      const raw = localStorage.getItem(historyKey)
+      const parsed = raw ? (JSON.parse(raw) as unknown) : null
+      if (!Array.isArray(parsed)) return []
+      return parsed
+        .map(normalizePromptEntry)
+        .filter((item): item is PromptHistoryEntry => item !== null)
+        .slice(-MAX_PROMPT_HISTORY)
+    } catch (error) {
+      console.warn('[ChatComposer] 读取提示词历史失败:', error)
+      return []
+    }
+  }
+
+  function flushDrafts() {
+    if (draftPersistTimer) {
+      clearTimeout(draftPersistTimer)
+      draftPersistTimer = null
+    }
+    try {
+      localStorage.setItem(draftsKey, JSON.stringify(drafts.value))
+    } catch (error) {
+      console.warn('[ChatComposer] 保存草稿失败:', error)
+    }
+  }
+
+  function persistDrafts() {
+    if (draftPersistTimer) clearTimeout(draftPersistTimer)
+    draftPersistTimer = setTimeout(flushDrafts, DRAFT_PERSIST_DELAY_MS)
+  }
+
+  function persistPromptHistory() {
+    try {
+      localStorage.setItem(historyKey, JSON.stringify(promptHistory.value))
+    } catch (error) {
+      console.warn('[ChatComposer] 保存提示词历史失败:', error)
+    }
+  }
+
+  function draftOf(sessionKey: string): string {
+    return drafts.value[sessionKey]?.text ?? ''
+  }
+
+  function setDraft(sessionKey: string, text: string) {
+    if (!sessionKey) return
+    if ((drafts.value[sessionKey]?.text ?? '') === text) return
+    const next = { ...drafts.value }
+    if (text) {
+      next[sessionKey] = { text, updatedAtMs: Date.now() }
+    } else {
+      delete next[sessionKey]
+    }
+    drafts.value = next
+    persistDrafts()
+  }
+
+  // 与上一条相同的提示词不重复记录，只更新发送时间
+  function recordPrompt(sessionKey: string, text: string) {
+    const trimmed = text.trim()
+    if (!trimmed) return
+    const list = promptHistory.value
+    const last = list[list.length - 1]
+    if (last && last.text === trimmed && last.sessionKey === sessionKey) {
+      promptHistory.value = [...list.slice(0, -1), { ...last, sentAtMs: Date.now() }]
+    } else {
+      const entry: PromptHistoryEntry = {
+        id: `prompt-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+        text: trimmed,
+        sessionKey,
+        sentAtMs: Date.now(),
+      }
+      promptHistory.value = [...list, entry].slice(-MAX_PROMPT_HISTORY)
+    }
+    persistPromptHistory()
+  }
+
+  // 按时间从新到旧返回，多个词需同时出现；同样的提示词只保留最近一次
+  function searchPrompts(query: string, limit = 50): PromptHistoryEntry[] {
+    const terms = query.trim().toLowerCase().split(/\s+/).filter(Boolean)
+    const seen = new Set<string>()
+    const result: PromptHistoryEntry[] = []
+    for (let index = promptHistory.value.length - 1; index >= 0 && result.length < limit; index -= 1) {
+      const entry = promptHistory.value[index]
+      if (!entry || seen.has(entry.text)) continue
+      const lower = entry.text.toLowerCase()
+      if (!terms.every((term) => lower.includes(term))) continue
+      seen.add(entry.text)
+      result.push(entry)
+    }
+    return result
+  }
+
+  function removePrompt(id: string) {
+    promptHistory.value = promptHistory.value.filter((entry) => entry.id !== id)
+    persistPromptHistory()
+  }
+
+  function clearPromptHistory() {
+    promptHistory.value = []
+    persistPromptHistory()
+  }
+
+  return {
+    drafts,
+    promptHistory,
+    draftOf,
+    setDraft,
+    flushDrafts,
+    recordPrompt,
+    searchPrompts,
+    removePrompt,
+    clearPromptHistory,
+  }
+})
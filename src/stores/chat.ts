@@ -1,10 +1,14 @@
-import { ref } from 'vue'
+import { computed, onScopeDispose, reactive, ref, shallowReactive } from 'vue'
 import { defineStore } from 'pinia'
 import { useWebSocketStore } from './websocket'
-import type { ChatMessage } from '@/api/types'
+import { useOutboxStore, type OutboxEntry, type OutboxStatus } from './outbox'
+import { useSessionStore } from './session'
+import type { ChatAttachment, ChatMessage } from '@/api/types'
+import { isAbortError } from '@/api/rpc-error'
 import { byLocale, getActiveLocale } from '@/i18n/text'
+import { appendAttachmentReferences } from '@/utils/chat-attachments'
 
-type AgentPhase =
+export type AgentPhase =
   | 'idle'
   | 'sending'
   | 'waiting'
@@ -16,7 +20,7 @@ type AgentPhase =
   | 'aborted'
   | 'error'
 
-interface AgentStatus {
+export interface AgentStatus {
   phase: AgentPhase
   runId: string | null
   detail: string | null
@@ -43,15 +47,291 @@ interface ToolProgress {
   updatedAtMs: number
 }
 
+export type ToolCallStatus = 'running' | 'done' | 'error' | 'cancelled'
+
+export interface ToolCallRecord {
+  toolCallId: string
+  name: string
+  // 子代理发起的调用挂在父调用下，顶层为 null
+  parentCallId: string | null
+  depth: number
+  status: ToolCallStatus
+  meta: string | null
+  argsPreview: string | null
+  partialPreview: string | null
+  resultPreview: string | null
+  startedAtMs: number
+  endedAtMs: number | null
+}
+
+export interface RunTimeline {
+  runId: string
+  // 该次运行回应的是会话里第几条用户消息（从 1 开始），界面据此挂到对应轮次下
+  userTurn: number
+  status: 'running' | 'done' | 'aborted' | 'error'
+  startedAtMs: number
+  endedAtMs: number | null
+  calls: ToolCallRecord[]
+}
+
+export type ChatLayout = 'tabs' | 'split'
+
 const MAX_AGENT_STEPS = 30
 const TOOL_PREVIEW_MAX_CHARS = 6000
 const FINALIZED_RUN_TTL_MS = 5 * 60 * 1000
+const MAX_RUN_TIMELINES = 20
+const MAX_TIMELINE_CALLS = 200
+// 同时打开的会话上限，分屏时每个会话占一列
+export const MAX_OPEN_CHAT_SESSIONS = 4
 
-export const useChatStore = defineStore('chat', () => {
-  const CONTEXT_COMPACTION_DETAIL_ZH = '上下文压缩中...'
-  const CONTEXT_COMPACTION_DETAIL_EN = 'Compacting context...'
+const CONTEXT_COMPACTION_DETAIL_ZH = '上下文压缩中...'
+const CONTEXT_COMPACTION_DETAIL_EN = 'Compacting context...'
+
+function toolCompletedDetail(toolName: string): string {
+  const locale = getActiveLocale()
+  return byLocale(`工具完成：${toolName}`, `Tool done: ${toolName}`, locale)
+}
+
+function contextCompactionDetail(): string {
+  const locale = getActiveLocale()
+  return byLocale(CONTEXT_COMPACTION_DETAIL_ZH, CONTEXT_COMPACTION_DETAIL_EN, locale)
+}
+
+function isContextCompactionDetail(value: string | null): boolean {
+  if (!value) return false
+  return value === CONTEXT_COMPACTION_DETAIL_ZH || value === CONTEXT_COMPACTION_DETAIL_EN
+}
+
+function truncatePreview(value: string, maxChars = TOOL_PREVIEW_MAX_CHARS): string {
+  const text = value.trim()
+  if (text.length <= maxChars) return text
+  return `${text.slice(0, maxChars)}...`
+}
+
+function redactSensitive(value: unknown, depth = 0): unknown {
+  if (depth > 4) return value
+  if (!value) return value
+  if (typeof value !== 'object') return value
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redactSensitive(item, depth + 1))
+  }
+
+  const row = value as Record<string, unknown>
+  const next: Record<string, unknown> = {}
+  for (const [key, raw] of Object.entries(row)) {
+    if (/token|password|secret|api[_-]?key|authorization|cookie/i.test(key)) {
+      next[key] = '[REDACTED]'
+      continue
+    }
+    next[key] = redactSensitive(raw, depth + 1)
+  }
+  return next
+}
+
+function toJsonPreview(value: unknown): string | null {
+  if (value === undefined || value === null) return null
+  if (typeof value === 'string') {
+    const trimmed = value.trim()
+    return trimmed ? truncatePreview(trimmed) : null
+  }
+
+  try {
+    const redacted = redactSensitive(value)
+    const json = JSON.stringify(redacted, null, 2)
+    return json ? truncatePreview(json) : null
+  } catch {
+    const fallback = String(value)
+    return fallback.trim() ? truncatePreview(fallback) : null
+  }
+}
+
+function stepLabel(phase: AgentPhase, detail: string | null): string {
+  const locale = getActiveLocale()
+  if (phase === 'sending') return byLocale('消息发送中', 'Sending', locale)
+  if (phase === 'waiting') return byLocale('等待响应', 'Waiting', locale)
+  if (phase === 'thinking') return detail?.trim() ? detail.trim() : byLocale('思考中', 'Thinking', locale)
+  if (phase === 'tool') {
+    return detail?.trim()
+      ? byLocale(`调用工具：${detail.trim()}`, `Calling tool: ${detail.trim()}`, locale)
+      : byLocale('调用工具中', 'Running tool', locale)
+  }
+  if (phase === 'replying') return byLocale('回复中', 'Replying', locale)
+  if (phase === 'aborting') return byLocale('停止中...', 'Stopping...', locale)
+  if (phase === 'done') return byLocale('本轮完成', 'Done', locale)
+  if (phase === 'aborted') return byLocale('已停止', 'Stopped', locale)
+  if (phase === 'error') return detail?.trim() ? byLocale(`错误：${detail.trim()}`, `Error: ${detail.trim()}`, locale) : byLocale('错误', 'Error', locale)
+  return byLocale('空闲', 'Idle', locale)
+}
+
+function resolveChatEventState(normalizedEvent: string, payloadRow?: Record<string, unknown> | null): string {
+  const direct = asString(payloadRow?.state || payloadRow?.status || payloadRow?.phase).trim().toLowerCase()
+  if (direct) return direct
+
+  if (normalizedEvent === 'chat.delta' || normalizedEvent.endsWith('.delta')) return 'delta'
+  if (normalizedEvent === 'chat.final' || normalizedEvent.endsWith('.final') || normalizedEvent === 'chat.done') return 'final'
+  if (normalizedEvent === 'chat.aborted' || normalizedEvent.endsWith('.aborted') || normalizedEvent === 'chat.stop') return 'aborted'
+  if (normalizedEvent === 'chat.error' || normalizedEvent.endsWith('.error')) return 'error'
+  return ''
+}
+
+function extractSessionKey(payload: unknown): string {
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) return ''
+  const row = payload as Record<string, unknown>
+  if (typeof row.sessionKey === 'string') return row.sessionKey
+  if (typeof row.key === 'string') return row.key
+  if (row.session && typeof row.session === 'object' && !Array.isArray(row.session)) {
+    const session = row.session as Record<string, unknown>
+    if (typeof session.key === 'string') return session.key
+    if (typeof session.sessionKey === 'string') return session.sessionKey
+  }
+  return ''
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    return value as Record<string, unknown>
+  }
+  return null
+}
+
+function asString(value: unknown): string {
+  if (typeof value === 'string') return value
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value)
+  return ''
+}
+
+function asText(value: unknown): string {
+  if (typeof value === 'string') return value
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value)
+  if (Array.isArray(value)) {
+    return value
+      .map((item) => asText(item))
+      .filter((item) => item.trim().length > 0)
+      .join('\n')
+  }
+  const row = asRecord(value)
+  if (!row) return ''
+
+  if ('text' in row) return asText(row.text)
+  if ('content' in row) return asText(row.content)
+  if ('message' in row) return asText(row.message)
+  if ('output' in row) return asText(row.output)
+  if ('delta' in row) return asText(row.delta)
+  return ''
+}
+
+function normalizeRole(value: unknown): ChatMessage['role'] {
+  if (value === 'user' || value === 'assistant' || value === 'tool' || value === 'system') return value
+  if (value === 'toolResult') return 'tool'
+  return 'assistant'
+}
+
+function normalizeRealtimeMessage(value: unknown): ChatMessage | null {
+  const row = asRecord(value)
+  if (!row) return null
+
+  const content = asText(
+    row.content ?? row.text ?? row.message ?? row.output ?? row.delta ?? row.payload ?? row.input
+  ).trim()
+  if (!content) return null
+
+  const id = typeof row.id === 'string' ? row.id : typeof row.messageId === 'string' ? row.messageId : undefined
+  const timestamp =
+    typeof row.timestamp === 'string'
+      ? row.timestamp
+      : typeof row.createdAt === 'string'
+        ? row.createdAt
+        : typeof row.time === 'string'
+          ? row.time
+          : undefined
+  const name =
+    typeof row.name === 'string' ? row.name : typeof row.model === 'string' ? row.model : undefined
+
+  return {
+    id,
+    role: normalizeRole(row.role ?? row.type),
+    content,
+    timestamp,
+    name,
+  }
+}
+
+function extractRealtimeMessages(payload: unknown): ChatMessage[] {
+  const rawItems: unknown[] = []
+
+  if (Array.isArray(payload)) {
+    rawItems.push(...payload)
+  } else {
+    const row = asRecord(payload)
+    if (!row) return []
+
+    if (Array.isArray(row.messages)) rawItems.push(...row.messages)
+    if (Array.isArray(row.items)) rawItems.push(...row.items)
+    if (Array.isArray(row.transcript)) rawItems.push(...row.transcript)
+    if (Array.isArray(row.history)) rawItems.push(...row.history)
+
+    if (row.message) rawItems.push(row.message)
+    if (row.item) rawItems.push(row.item)
+
+    if (row.role || row.type || row.content || row.text || row.message || row.output || row.delta) {
+      rawItems.push(row)
+    }
+  }
+
+  return rawItems.map((item) => normalizeRealtimeMessage(item)).filter((item): item is ChatMessage => !!item)
+}
 
-  const sessionKey = ref('')
+function extractRunId(payload: unknown): string {
+  const row = asRecord(payload)
+  if (!row) return ''
+  const runId = asString(row.runId).trim()
+  if (runId) return runId
+  return ''
+}
+
+function isTerminalPhase(phase: AgentPhase): boolean {
+  return phase === 'done' || phase === 'aborted' || phase === 'error'
+}
+
+function isSubagentSessionKey(key: string): boolean {
+  return /:subagent:/i.test(key)
+}
+
+// 子代理事件里的发起方信息，可能在顶层也可能在 data 里
+function extractSpawnerField(payload: unknown, keys: string[]): string {
+  const row = asRecord(payload)
+  for (const source of [row, asRecord(row?.data)]) {
+    for (const key of keys) {
+      const value = asString(source?.[key]).trim()
+      if (value) return value
+    }
+  }
+  return ''
+}
+
+function outboxMessage(entry: OutboxEntry): ChatMessage {
+  return {
+    id: entry.idempotencyKey,
+    role: 'user',
+    content: entry.message,
+    timestamp: new Date(entry.createdAt).toISOString(),
+  }
+}
+
+/**
+ * 单个会话的聊天状态：消息列表、流式合并、Agent 阶段与工具进度各自独立，
+ * 同时打开多个会话时互不干扰。会话 Key 在创建后固定，切换会话即换一个实例。
+ */
+function createChatSession(
+  key: string,
+  deps: {
+    wsStore: ReturnType<typeof useWebSocketStore>
+    outboxStore: ReturnType<typeof useOutboxStore>
+  }
+) {
+  const { wsStore, outboxStore } = deps
+  const sessionKey = key.trim()
   const messages = ref<ChatMessage[]>([])
   const loading = ref(false)
   const syncing = ref(false)
@@ -67,28 +347,26 @@ export const useChatStore = defineStore('chat', () => {
   })
   const agentSteps = ref<AgentStep[]>([])
   const toolProgress = ref<ToolProgress | null>(null)
+  const runTimelines = ref<RunTimeline[]>([])
   let refreshTimer: ReturnType<typeof setTimeout> | null = null
   let pollTimers: Array<ReturnType<typeof setTimeout>> = []
   let streamFlushRaf: number | null = null
   let pendingStreamMessages: ChatMessage[] = []
+  let historyController: AbortController | null = null
   let lastToolPreviewUpdateAtMs = 0
   const finalizedRuns = new Map<string, number>()
-
-  const wsStore = useWebSocketStore()
-
-  function toolCompletedDetail(toolName: string): string {
-    const locale = getActiveLocale()
-    return byLocale(`工具完成：${toolName}`, `Tool done: ${toolName}`, locale)
-  }
-
-  function contextCompactionDetail(): string {
-    const locale = getActiveLocale()
-    return byLocale(CONTEXT_COMPACTION_DETAIL_ZH, CONTEXT_COMPACTION_DETAIL_EN, locale)
-  }
-
-  function isContextCompactionDetail(value: string | null): boolean {
-    if (!value) return false
-    return value === CONTEXT_COMPACTION_DETAIL_ZH || value === CONTEXT_COMPACTION_DETAIL_EN
+  // 当前 sendMessage 正在提交的消息，其结果由 sendMessage 自己处理
+  let submittingKey: string | null = null
+
+  // 发件箱在重连后补发的消息：送达后进入等待回复，失败时提示错误
+  function handleOutboxSettled(entry: OutboxEntry) {
+    if (entry.idempotencyKey === submittingKey) return
+    if (entry.status === 'sent') {
+      setAgentStatusPhase('waiting', { runId: entry.idempotencyKey, detail: null })
+      scheduleHistoryRefresh(600)
+      return
+    }
+    lastError.value = entry.lastError || null
   }
 
   function markRunFinal(runId: string) {
@@ -120,79 +398,119 @@ export const useChatStore = defineStore('chat', () => {
     return true
   }
 
-  function truncatePreview(value: string, maxChars = TOOL_PREVIEW_MAX_CHARS): string {
-    const text = value.trim()
-    if (text.length <= maxChars) return text
-    return `${text.slice(0, maxChars)}...`
-  }
-
-  function redactSensitive(value: unknown, depth = 0): unknown {
-    if (depth > 4) return value
-    if (!value) return value
-    if (typeof value !== 'object') return value
+  function appendAgentStep(phase: AgentPhase, detail: string | null) {
+    if (phase === 'idle') return
 
-    if (Array.isArray(value)) {
-      return value.map((item) => redactSensitive(item, depth + 1))
+    const label = stepLabel(phase, detail)
+    const now = Date.now()
+    const last = agentSteps.value[agentSteps.value.length - 1]
+    if (last && last.phase === phase && last.label === label) {
+      return
     }
 
-    const row = value as Record<string, unknown>
-    const next: Record<string, unknown> = {}
-    for (const [key, raw] of Object.entries(row)) {
-      if (/token|password|secret|api[_-]?key|authorization|cookie/i.test(key)) {
-        next[key] = '[REDACTED]'
-        continue
-      }
-      next[key] = redactSensitive(raw, depth + 1)
-    }
-    return next
+    agentSteps.value = [...agentSteps.value, { ts: now, phase, label }].slice(-MAX_AGENT_STEPS)
   }
 
-  function toJsonPreview(value: unknown): string | null {
-    if (value === undefined || value === null) return null
-    if (typeof value === 'string') {
-      const trimmed = value.trim()
-      return trimmed ? truncatePreview(trimmed) : null
-    }
-
-    try {
-      const redacted = redactSensitive(value)
-      const json = JSON.stringify(redacted, null, 2)
-      return json ? truncatePreview(json) : null
-    } catch {
-      const fallback = String(value)
-      return fallback.trim() ? truncatePreview(fallback) : null
+  // 按运行记录完整的工具调用时间线；运行 ID 缺失时沿用最近一条仍在进行的时间线
+  function ensureRunTimeline(runId: string | null): RunTimeline {
+    const list = runTimelines.value
+    const existing = runId
+      ? list.find((item) => item.runId === runId)
+      : [...list].reverse().find((item) => item.status === 'running')
+    if (existing) return existing
+
+    const timeline: RunTimeline = {
+      runId: runId || `local-${Date.now().toString(36)}`,
+      userTurn: messages.value.filter((item) => item.role === 'user').length,
+      status: 'running',
+      startedAtMs: Date.now(),
+      endedAtMs: null,
+      calls: [],
     }
+    runTimelines.value = [...list, timeline].slice(-MAX_RUN_TIMELINES)
+    return runTimelines.value[runTimelines.value.length - 1]!
   }
 
-  function stepLabel(phase: AgentPhase, detail: string | null): string {
-    const locale = getActiveLocale()
-    if (phase === 'sending') return byLocale('消息发送中', 'Sending', locale)
-    if (phase === 'waiting') return byLocale('等待响应', 'Waiting', locale)
-    if (phase === 'thinking') return detail?.trim() ? detail.trim() : byLocale('思考中', 'Thinking', locale)
-    if (phase === 'tool') {
-      return detail?.trim()
-        ? byLocale(`调用工具：${detail.trim()}`, `Calling tool: ${detail.trim()}`, locale)
-        : byLocale('调用工具中', 'Running tool', locale)
+  function finishRunTimeline(runId: string | null, phase: AgentPhase) {
+    const list = runTimelines.value
+    const timeline = runId
+      ? list.find((item) => item.runId === runId)
+      : [...list].reverse().find((item) => item.status === 'running')
+    if (!timeline || timeline.status !== 'running') return
+
+    const now = Date.now()
+    timeline.status = phase === 'aborted' ? 'aborted' : phase === 'error' ? 'error' : 'done'
+    timeline.endedAtMs = now
+    // 运行结束时仍未收到结果的调用视为被中断
+    for (const call of timeline.calls) {
+      if (call.status !== 'running') continue
+      call.status = 'cancelled'
+      call.endedAtMs = now
     }
-    if (phase === 'replying') return byLocale('回复中', 'Replying', locale)
-    if (phase === 'aborting') return byLocale('停止中...', 'Stopping...', locale)
-    if (phase === 'done') return byLocale('本轮完成', 'Done', locale)
-    if (phase === 'aborted') return byLocale('已停止', 'Stopped', locale)
-    if (phase === 'error') return detail?.trim() ? byLocale(`错误：${detail.trim()}`, `Error: ${detail.trim()}`, locale) : byLocale('错误', 'Error', locale)
-    return byLocale('空闲', 'Idle', locale)
   }
 
-  function appendAgentStep(phase: AgentPhase, detail: string | null) {
-    if (phase === 'idle') return
+  function recordToolCall(
+    timeline: RunTimeline,
+    data: Record<string, unknown>,
+    toolPhase: string,
+    fallbackParentId: string | null
+  ) {
+    const toolName = asString(data.name || data.tool || data.toolName).trim()
+    const toolCallId = asString(data.toolCallId || data.callId || data.id).trim()
+    if (!toolName || !toolCallId) return
 
-    const label = stepLabel(phase, detail)
     const now = Date.now()
-    const last = agentSteps.value[agentSteps.value.length - 1]
-    if (last && last.phase === phase && last.label === label) {
+    let call = timeline.calls.find((item) => item.toolCallId === toolCallId)
+    if (!call) {
+      if (timeline.calls.length >= MAX_TIMELINE_CALLS) return
+      const parentId = asString(data.parentToolCallId || data.parentCallId).trim() || fallbackParentId
+      const parent = parentId ? timeline.calls.find((item) => item.toolCallId === parentId) : undefined
+      timeline.calls.push({
+        toolCallId,
+        name: toolName,
+        parentCallId: parent?.toolCallId ?? null,
+        depth: parent ? parent.depth + 1 : 0,
+        status: 'running',
+        meta: null,
+        argsPreview: toJsonPreview(data.args),
+        partialPreview: null,
+        resultPreview: null,
+        startedAtMs: now,
+        endedAtMs: null,
+      })
+      call = timeline.calls[timeline.calls.length - 1]!
+    }
+
+    if (toolPhase === 'update') {
+      call.partialPreview = toJsonPreview(data.partialResult) || call.partialPreview
       return
     }
+    if (toolPhase === 'result') {
+      call.status = data.isError === true ? 'error' : 'done'
+      call.meta = asString(data.meta).trim() || call.meta
+      call.resultPreview = toJsonPreview(data.result)
+      call.endedAtMs = now
+    }
+  }
 
-    agentSteps.value = [...agentSteps.value, { ts: now, phase, label }].slice(-MAX_AGENT_STEPS)
+  /**
+   * 子代理在独立会话中运行，其工具调用记入本会话发起它的运行（给出 runId 时只匹配该运行）。
+   * 只有一个进行中的顶层调用时挂到它下面；有多个时无法判断由哪个调用发起，不做嵌套。
+   * 本会话没有对应的进行中运行时返回 false。
+   */
+  function recordSubagentToolEvent(payload: unknown, runId: string | null): boolean {
+    const payloadRow = asRecord(payload)
+    if (asString(payloadRow?.stream).trim().toLowerCase() !== 'tool') return false
+    const timeline = [...runTimelines.value]
+      .reverse()
+      .find((item) => item.status === 'running' && (!runId || item.runId === runId))
+    if (!timeline) return false
+    const running = timeline.calls.filter((item) => item.status === 'running' && item.depth === 0)
+
+    const data = asRecord(payloadRow?.data) || {}
+    const toolPhase = asString(data.phase || data.state).trim().toLowerCase()
+    recordToolCall(timeline, data, toolPhase, running.length === 1 ? running[0]!.toolCallId : null)
+    return true
   }
 
   function resetAgentProgress() {
@@ -220,6 +538,9 @@ export const useChatStore = defineStore('chat', () => {
     if (unchanged) return
 
     agentStatus.value = next
+    if (isTerminalPhase(next.phase) && !isTerminalPhase(prev.phase)) {
+      finishRunTimeline(prev.runId, next.phase)
+    }
 
     const phaseChanged = prev.phase !== next.phase
     const detailChanged = prev.detail !== next.detail
@@ -242,57 +563,27 @@ export const useChatStore = defineStore('chat', () => {
     }
   }
 
-  function resolveChatEventState(normalizedEvent: string, payloadRow?: Record<string, unknown> | null): string {
-    const direct = asString(payloadRow?.state || payloadRow?.status || payloadRow?.phase).trim().toLowerCase()
-    if (direct) return direct
-
-    if (normalizedEvent === 'chat.delta' || normalizedEvent.endsWith('.delta')) return 'delta'
-    if (normalizedEvent === 'chat.final' || normalizedEvent.endsWith('.final') || normalizedEvent === 'chat.done') return 'final'
-    if (normalizedEvent === 'chat.aborted' || normalizedEvent.endsWith('.aborted') || normalizedEvent === 'chat.stop') return 'aborted'
-    if (normalizedEvent === 'chat.error' || normalizedEvent.endsWith('.error')) return 'error'
-    return ''
-  }
-
-  function resetAgentStatus() {
-    agentStatus.value = {
-      phase: 'idle',
-      runId: null,
-      detail: null,
-      updatedAtMs: Date.now(),
-      sinceMs: Date.now(),
-    }
-  }
-
-  function setSessionKey(key: string) {
-    sessionKey.value = key.trim()
-    resetAgentStatus()
-    resetAgentProgress()
-    finalizedRuns.clear()
-    pendingStreamMessages = []
-    if (streamFlushRaf !== null) {
-      cancelAnimationFrame(streamFlushRaf)
-      streamFlushRaf = null
-    }
-  }
-
-  async function fetchHistory(
-    key = sessionKey.value,
-    options?: {
-      silent?: boolean
-      clearError?: boolean
-    }
-  ) {
-    if (!key.trim()) {
+  async function fetchHistory(options?: {
+    silent?: boolean
+    clearError?: boolean
+  }) {
+    if (!sessionKey) {
       messages.value = []
       return
     }
 
     const silent = options?.silent ?? false
     const clearError = options?.clearError ?? !silent
-    if (silent && syncing.value) {
+    // 静默刷新不打断正在进行的加载，否则会把用户主动发起的请求取消掉
+    if (silent && (syncing.value || loading.value)) {
       return
     }
 
+    // 新的请求取代旧的，旧请求的结果已无意义
+    historyController?.abort()
+    const controller = new AbortController()
+    historyController = controller
+
     if (silent) {
       syncing.value = true
     } else {
@@ -303,24 +594,34 @@ export const useChatStore = defineStore('chat', () => {
     }
 
     try {
-      const normalizedKey = key.trim()
-      sessionKey.value = normalizedKey
-      messages.value = await wsStore.rpc.listChatHistory(normalizedKey)
+      const history = await wsStore.rpc.listChatHistory(sessionKey, { signal: controller.signal })
+      await outboxStore.whenReady()
+      messages.value = withUnsentMessages(history)
       lastSyncedAt.value = Date.now()
     } catch (error) {
+      if (isAbortError(error)) return
       if (!silent || clearError) {
         lastError.value = error instanceof Error ? error.message : String(error)
       }
       console.error('[ChatStore] fetchHistory failed:', error)
     } finally {
-      if (silent) {
+      // 被取代的请求不改动状态，由最新的请求负责收尾
+      if (historyController === controller) {
+        historyController = null
         syncing.value = false
-      } else {
         loading.value = false
       }
     }
   }
 
+  // 历史里还没有的待发送/失败消息，追加回列表末尾，刷新页面后仍可见
+  function withUnsentMessages(history: ChatMessage[]): ChatMessage[] {
+    const unsent = outboxStore.unsentForSession(sessionKey)
+    if (unsent.length === 0) return history
+    const ids = new Set(history.map((item) => item.id).filter(Boolean))
+    return [...history, ...unsent.filter((entry) => !ids.has(entry.idempotencyKey)).map(outboxMessage)]
+  }
+
   function clearTimers() {
     if (refreshTimer) {
       clearTimeout(refreshTimer)
@@ -337,144 +638,36 @@ export const useChatStore = defineStore('chat', () => {
     pendingStreamMessages = []
   }
 
+  // 关闭会话时停止定时刷新并取消在途的历史请求
+  function dispose() {
+    clearTimers()
+    historyController?.abort()
+    historyController = null
+  }
+
   function scheduleHistoryRefresh(delay = 250) {
-    if (!sessionKey.value.trim()) return
+    if (!sessionKey) return
     if (refreshTimer) {
       clearTimeout(refreshTimer)
       refreshTimer = null
     }
     refreshTimer = setTimeout(() => {
-      fetchHistory(sessionKey.value, { silent: true, clearError: false })
+      fetchHistory({ silent: true, clearError: false })
     }, delay)
   }
 
   function schedulePostSendRefreshes() {
-    if (!sessionKey.value.trim()) return
+    if (!sessionKey) return
     clearTimers()
     // 发送后做低频兜底刷新，避免高频回拉导致列表抖动
     for (const delay of [1400, 4200]) {
       const timer = setTimeout(() => {
-        fetchHistory(sessionKey.value, { silent: true, clearError: false })
+        fetchHistory({ silent: true, clearError: false })
       }, delay)
       pollTimers.push(timer)
     }
   }
 
-  function extractSessionKey(payload: unknown): string {
-    if (!payload || typeof payload !== 'object' || Array.isArray(payload)) return ''
-    const row = payload as Record<string, unknown>
-    if (typeof row.sessionKey === 'string') return row.sessionKey
-    if (typeof row.key === 'string') return row.key
-    if (row.session && typeof row.session === 'object' && !Array.isArray(row.session)) {
-      const session = row.session as Record<string, unknown>
-      if (typeof session.key === 'string') return session.key
-      if (typeof session.sessionKey === 'string') return session.sessionKey
-    }
-    return ''
-  }
-
-  function asRecord(value: unknown): Record<string, unknown> | null {
-    if (value && typeof value === 'object' && !Array.isArray(value)) {
-      return value as Record<string, unknown>
-    }
-    return null
-  }
-
-  function asString(value: unknown): string {
-    if (typeof value === 'string') return value
-    if (typeof value === 'number' || typeof value === 'boolean') return String(value)
-    return ''
-  }
-
-  function asText(value: unknown): string {
-    if (typeof value === 'string') return value
-    if (typeof value === 'number' || typeof value === 'boolean') return String(value)
-    if (Array.isArray(value)) {
-      return value
-        .map((item) => asText(item))
-        .filter((item) => item.trim().length > 0)
-        .join('\n')
-    }
-    const row = asRecord(value)
-    if (!row) return ''
-
-    if ('text' in row) return asText(row.text)
-    if ('content' in row) return asText(row.content)
-    if ('message' in row) return asText(row.message)
-    if ('output' in row) return asText(row.output)
-    if ('delta' in row) return asText(row.delta)
-    return ''
-  }
-
-  function normalizeRole(value: unknown): ChatMessage['role'] {
-    if (value === 'user' || value === 'assistant' || value === 'tool' || value === 'system') return value
-    if (value === 'toolResult') return 'tool'
-    return 'assistant'
-  }
-
-  function normalizeRealtimeMessage(value: unknown): ChatMessage | null {
-    const row = asRecord(value)
-    if (!row) return null
-
-    const content = asText(
-      row.content ?? row.text ?? row.message ?? row.output ?? row.delta ?? row.payload ?? row.input
-    ).trim()
-    if (!content) return null
-
-    const id = typeof row.id === 'string' ? row.id : typeof row.messageId === 'string' ? row.messageId : undefined
-    const timestamp =
-      typeof row.timestamp === 'string'
-        ? row.timestamp
-        : typeof row.createdAt === 'string'
-          ? row.createdAt
-          : typeof row.time === 'string'
-            ? row.time
-            : undefined
-    const name =
-      typeof row.name === 'string' ? row.name : typeof row.model === 'string' ? row.model : undefined
-
-    return {
-      id,
-      role: normalizeRole(row.role ?? row.type),
-      content,
-      timestamp,
-      name,
-    }
-  }
-
-  function extractRealtimeMessages(payload: unknown): ChatMessage[] {
-    const rawItems: unknown[] = []
-
-    if (Array.isArray(payload)) {
-      rawItems.push(...payload)
-    } else {
-      const row = asRecord(payload)
-      if (!row) return []
-
-      if (Array.isArray(row.messages)) rawItems.push(...row.messages)
-      if (Array.isArray(row.items)) rawItems.push(...row.items)
-      if (Array.isArray(row.transcript)) rawItems.push(...row.transcript)
-      if (Array.isArray(row.history)) rawItems.push(...row.history)
-
-      if (row.message) rawItems.push(row.message)
-      if (row.item) rawItems.push(row.item)
-
-      if (row.role || row.type || row.content || row.text || row.message || row.output || row.delta) {
-        rawItems.push(row)
-      }
-    }
-
-    return rawItems.map((item) => normalizeRealtimeMessage(item)).filter((item): item is ChatMessage => !!item)
-  }
-
-  function extractRunId(payload: unknown): string {
-    const row = asRecord(payload)
-    if (!row) return ''
-    const runId = asString(row.runId).trim()
-    if (runId) return runId
-    return ''
-  }
-
   function mergeRealtimeMessages(
     nextMessages: ChatMessage[],
     options?: {
@@ -543,9 +736,9 @@ export const useChatStore = defineStore('chat', () => {
       streaming?: boolean
     }
   ) {
-    if (!sessionKey.value.trim()) return
+    if (!sessionKey) return
     const keyInEvent = extractSessionKey(payload)
-    if (keyInEvent && keyInEvent !== sessionKey.value) {
+    if (keyInEvent && keyInEvent !== sessionKey) {
       return
     }
 
@@ -572,12 +765,12 @@ export const useChatStore = defineStore('chat', () => {
   }
 
   function handleAgentStatusEvent(eventName: string, payload: unknown) {
-    if (!sessionKey.value.trim()) return
+    if (!sessionKey) return
     const normalizedEvent = eventName.trim().toLowerCase()
     if (!normalizedEvent) return
 
     const keyInEvent = extractSessionKey(payload)
-    if (keyInEvent && keyInEvent.trim() !== sessionKey.value) {
+    if (keyInEvent && keyInEvent.trim() !== sessionKey) {
       return
     }
 
@@ -642,6 +835,7 @@ export const useChatStore = defineStore('chat', () => {
             if (prevPhase === 'idle' || prevPhase === 'done' || prevPhase === 'aborted' || prevPhase === 'error') {
               resetAgentProgress()
             }
+            ensureRunTimeline(activeRunId || runIdInEvent || null)
             if (agentStatus.value.phase !== 'thinking') {
               setAgentStatusPhase('thinking', { runId: activeRunId || runIdInEvent || null, detail: null })
             }
@@ -668,6 +862,10 @@ export const useChatStore = defineStore('chat', () => {
 
           if (toolName && toolCallId) {
             const now = Date.now()
+            // 进度更新按节流写入，避免高频事件反复生成预览
+            if (toolPhase !== 'update' || now - lastToolPreviewUpdateAtMs >= 120) {
+              recordToolCall(ensureRunTimeline(activeRunId || runIdInEvent || null), data, toolPhase, null)
+            }
             if (toolPhase === 'start') {
               toolProgress.value = {
                 toolCallId,
@@ -798,10 +996,15 @@ export const useChatStore = defineStore('chat', () => {
     }
   }
 
-  async function sendMessage(content: string, model?: string) {
-    const text = content.trim()
-    if (!text) return
-    if (!sessionKey.value.trim()) {
+  async function sendMessage(
+    content: string,
+    options?: { model?: string; attachments?: ChatAttachment[] }
+  ): Promise<OutboxStatus | null> {
+    const attachments = options?.attachments ?? []
+    // 附件引用写进正文，旧网关忽略结构化附件字段时 Agent 仍能按路径读取
+    const text = appendAttachmentReferences(content.trim(), attachments)
+    if (!text) return null
+    if (!sessionKey) {
       throw new Error(byLocale('请先填写会话 Key', 'Please enter the session key', getActiveLocale()))
     }
 
@@ -818,30 +1021,49 @@ export const useChatStore = defineStore('chat', () => {
 
     sending.value = true
     lastError.value = null
+    submittingKey = idempotencyKey
     try {
-      await wsStore.rpc.sendChatMessage({
-        sessionKey: sessionKey.value.trim(),
+      // 先写入发件箱再投递，断线或刷新页面后仍会以同一幂等键补发
+      const entry = await outboxStore.submit({
+        sessionKey,
         message: text,
-        model: model?.trim() || undefined,
+        model: options?.model?.trim() || undefined,
+        attachments: attachments.length > 0 ? attachments : undefined,
         idempotencyKey,
       })
-      if (agentStatus.value.phase === 'sending' && agentStatus.value.runId === idempotencyKey) {
-        setAgentStatusPhase('waiting', { runId: idempotencyKey, detail: null })
-      }
-    } catch (error) {
-      lastError.value = error instanceof Error ? error.message : String(error)
-      messages.value = messages.value.filter((item) => item.id !== idempotencyKey)
-      if (agentStatus.value.runId === idempotencyKey) {
-        setAgentStatusPhase('error', { runId: null, detail: lastError.value })
+      const ownsStatus = agentStatus.value.runId === idempotencyKey
+      if (entry.status === 'sent') {
+        if (ownsStatus && agentStatus.value.phase === 'sending') {
+          setAgentStatusPhase('waiting', { runId: idempotencyKey, detail: null })
+        }
+      } else if (entry.status === 'failed') {
+        lastError.value = entry.lastError || null
+        if (ownsStatus) {
+          setAgentStatusPhase('error', { runId: null, detail: lastError.value })
+        }
+      } else if (ownsStatus) {
+        // 离线排队中：不占用发送状态，允许继续输入，重连后由发件箱补发
+        setAgentStatusPhase('idle', { runId: null, detail: null })
       }
-      throw error
+      return entry.status
     } finally {
+      submittingKey = null
       sending.value = false
     }
   }
 
+  async function retryOutboxMessage(idempotencyKey: string) {
+    lastError.value = null
+    await outboxStore.retry(idempotencyKey)
+  }
+
+  async function discardOutboxMessage(idempotencyKey: string) {
+    await outboxStore.discard(idempotencyKey)
+    messages.value = messages.value.filter((item) => item.id !== idempotencyKey)
+  }
+
   async function abortActiveRun() {
-    if (!sessionKey.value.trim()) {
+    if (!sessionKey) {
       throw new Error(byLocale('请先填写会话 Key', 'Please enter the session key', getActiveLocale()))
     }
     const phase = agentStatus.value.phase
@@ -851,7 +1073,7 @@ export const useChatStore = defineStore('chat', () => {
 
     setAgentStatusPhase('aborting', { detail: byLocale('停止中...', 'Stopping...', getActiveLocale()) })
     try {
-      await wsStore.rpc.abortChat(undefined, sessionKey.value.trim())
+      await wsStore.rpc.abortChat(undefined, sessionKey)
     } catch (error) {
       const reason = error instanceof Error ? error.message : String(error)
       setAgentStatusPhase('error', { runId: null, detail: reason })
@@ -859,7 +1081,7 @@ export const useChatStore = defineStore('chat', () => {
     }
   }
 
-  return {
+  return reactive({
     sessionKey,
     messages,
     loading,
@@ -870,12 +1092,185 @@ export const useChatStore = defineStore('chat', () => {
     agentStatus,
     agentSteps,
     toolProgress,
-    setSessionKey,
+    runTimelines,
     fetchHistory,
+    scheduleHistoryRefresh,
     handleRealtimeEvent,
     handleAgentStatusEvent,
+    recordSubagentToolEvent,
+    handleOutboxSettled,
     clearTimers,
+    dispose,
     sendMessage,
+    retryOutboxMessage,
+    discardOutboxMessage,
     abortActiveRun,
+  })
+}
+
+export type ChatSession = ReturnType<typeof createChatSession>
+
+/**
+ * 聊天页打开的会话集合：每个会话一个独立实例，实时事件按 extractSessionKey 分发到对应实例；
+ * 不带会话 Key 的旧版事件交给当前激活的会话。layout 决定页面以标签页还是分屏展示。
+ */
+export const useChatStore = defineStore('chat', () => {
+  const wsStore = useWebSocketStore()
+  const outboxStore = useOutboxStore()
+  const sessionStore = useSessionStore()
+  const sessions = shallowReactive(new Map<string, ChatSession>())
+  const openKeys = ref<string[]>([])
+  const activeKey = ref('')
+  const layout = ref<ChatLayout>('tabs')
+
+  const activeSession = computed(() => sessions.get(activeKey.value) ?? null)
+  const openSessions = computed(() =>
+    openKeys.value
+      .map((key) => sessions.get(key))
+      .filter((session): session is ChatSession => !!session)
+  )
+
+  const stopOutboxListener = outboxStore.onSettled((entry) => {
+    sessions.get(entry.sessionKey)?.handleOutboxSettled(entry)
+  })
+
+  // 断线重连或事件序号出现缺口时，实时流已不可信，所有打开的会话各回拉一次历史兜底
+  const stopResyncListener = wsStore.onResync(() => {
+    sessions.forEach((session) => session.scheduleHistoryRefresh(0))
+  })
+
+  // 切换网关时随 store 销毁，停止各会话的定时刷新与在途请求
+  onScopeDispose(() => {
+    stopOutboxListener()
+    stopResyncListener()
+    sessions.forEach((session) => session.dispose())
+    sessions.clear()
+  })
+
+  function getSession(key: string): ChatSession | null {
+    return sessions.get(key.trim()) ?? null
+  }
+
+  function ensureSession(key: string): ChatSession {
+    const existing = sessions.get(key)
+    if (existing) return existing
+    const session = createChatSession(key, { wsStore, outboxStore })
+    sessions.set(key, session)
+    return session
+  }
+
+  function removeSession(key: string) {
+    sessions.get(key)?.dispose()
+    sessions.delete(key)
+  }
+
+  // 新开一个标签；已打开时直接切换过去，达到上限时改为替换当前会话
+  function openSession(rawKey: string): ChatSession {
+    const key = rawKey.trim() || 'main'
+    if (openKeys.value.includes(key)) {
+      activeKey.value = key
+      return ensureSession(key)
+    }
+    if (openKeys.value.length >= MAX_OPEN_CHAT_SESSIONS) {
+      return showSession(key)
+    }
+    openKeys.value = [...openKeys.value, key]
+    activeKey.value = key
+    return ensureSession(key)
+  }
+
+  // 在当前标签中切换到指定会话；该会话已在其他标签打开时直接切换过去
+  function showSession(rawKey: string): ChatSession {
+    const key = rawKey.trim() || 'main'
+    if (openKeys.value.includes(key)) {
+      activeKey.value = key
+      return ensureSession(key)
+    }
+    const index = openKeys.value.indexOf(activeKey.value)
+    if (index < 0) {
+      return openSession(key)
+    }
+    const previous = activeKey.value
+    const nextKeys = [...openKeys.value]
+    nextKeys[index] = key
+    openKeys.value = nextKeys
+    activeKey.value = key
+    removeSession(previous)
+    return ensureSession(key)
+  }
+
+  function activateSession(key: string) {
+    if (openKeys.value.includes(key)) {
+      activeKey.value = key
+    }
+  }
+
+  function closeSession(key: string) {
+    const index = openKeys.value.indexOf(key)
+    if (index < 0) return
+    const nextKeys = openKeys.value.filter((item) => item !== key)
+    openKeys.value = nextKeys
+    removeSession(key)
+    if (activeKey.value === key) {
+      activeKey.value = nextKeys[Math.min(index, nextKeys.length - 1)] ?? ''
+    }
+  }
+
+  function setLayout(value: ChatLayout) {
+    layout.value = value
+  }
+
+  function routeEvent(eventName: string, payload: unknown, options?: { streaming?: boolean }) {
+    const keyInEvent = extractSessionKey(payload).trim()
+    const target = keyInEvent ? sessions.get(keyInEvent) : activeSession.value
+    if (!target) {
+      if (keyInEvent && isSubagentSessionKey(keyInEvent) && eventName.trim().toLowerCase() === 'agent') {
+        routeSubagentEvent(keyInEvent, payload)
+      }
+      return
+    }
+    target.handleAgentStatusEvent(eventName, payload)
+    target.handleRealtimeEvent(payload, {
+      refreshHistory: false,
+      streaming: options?.streaming ?? false,
+    })
+  }
+
+  // 子代理事件只记入发起它的会话：依次看事件里的父会话、会话列表记录的 spawnedBy、父运行 ID，都没有时不做嵌套
+  function routeSubagentEvent(key: string, payload: unknown) {
+    const parentRunId = extractSpawnerField(payload, ['parentRunId', 'spawnedByRunId', 'requesterRunId']) || null
+    const parentKey =
+      extractSpawnerField(payload, ['spawnedBy', 'parentSessionKey', 'requesterSessionKey']) ||
+      sessionStore.sessions.find((item) => item.key === key)?.spawnedBy ||
+      ''
+    if (parentKey) {
+      sessions.get(parentKey)?.recordSubagentToolEvent(payload, parentRunId)
+      return
+    }
+    if (!parentRunId) return
+    for (const session of sessions.values()) {
+      if (session.recordSubagentToolEvent(payload, parentRunId)) break
+    }
+  }
+
+  function clearTimers() {
+    sessions.forEach((session) => session.clearTimers())
+  }
+
+  return {
+    sessions,
+    openKeys,
+    activeKey,
+    layout,
+    activeSession,
+    openSessions,
+    getSession,
+    openSession,
+    showSession,
+    activateSession,
+    closeSession,
+    setLayout,
+    routeEvent,
+    clearTimers,
   }
 })
@@ -0,0 +1,116 @@
+import { onScopeDispose, ref } from 'vue'
+import { defineStore } from 'pinia'
+import { useWebSocketStore } from './websocket'
+import type { ExecApprovalDecision, ExecApprovalRequest, RPCEvent } from '@/api/types'
+import {
+  EXEC_APPROVAL_REQUESTED_EVENT,
+  EXEC_APPROVAL_RESOLVED_EVENT,
+  appendExecAllowlistPattern,
+  buildExecAllowlistPattern,
+  parseExecApprovalRequest,
+  parseExecApprovalResolved,
+} from '@/api/exec-approvals'
+
+// 网关未给出过期时间时，保留一段时间后自动移除，避免失效的请求一直挂在页面上
+const DEFAULT_APPROVAL_TTL_MS = 10 * 60 * 1000
+
+export interface ExecApprovalResolveResult {
+  // “始终允许”时写入白名单的规则；规则已存在时 added 为 false
+  pattern: string | null
+  added: boolean
+}
+
+/**
+ * 执行审批请求：Agent 要运行未放行的命令时由网关推送，任一客户端处理后网关广播 resolved。
+ * 监听随 store 创建开始，切换网关时随 store 一起销毁。
+ * 网关没有列出待审批请求的方法，连接前已发出的请求不会显示，只能等其超时后由 Agent 重新发起。
+ */
+export const useExecApprovalStore = defineStore('exec-approvals', () => {
+  const wsStore = useWebSocketStore()
+  const pending = ref<ExecApprovalRequest[]>([])
+  const resolving = ref<Record<string, ExecApprovalDecision>>({})
+  const expiryTimers = new Map<string, ReturnType<typeof setTimeout>>()
+
+  const stopEventListener = wsStore.subscribe('event', (evt: unknown) => {
+    const { event, payload } = evt as RPCEvent
+    if (event === EXEC_APPROVAL_REQUESTED_EVENT) {
+      const request = parseExecApprovalRequest(payload)
+      if (request) add(request)
+      return
+    }
+    if (event === EXEC_APPROVAL_RESOLVED_EVENT) {
+      const resolved = parseExecApprovalResolved(payload)
+      if (resolved) remove(resolved.id)
+    }
+  })
+
+  onScopeDispose(() => {
+    stopEventListener()
+    expiryTimers.forEach((timer) => clearTimeout(timer))
+    expiryTimers.clear()
+  })
+
+  function add(request: ExecApprovalRequest) {
+    const expiresAtMs = request.expiresAtMs ?? request.createdAtMs + DEFAULT_APPROVAL_TTL_MS
+    const delay = expiresAtMs - Date.now()
+    if (delay <= 0) return
+
+    pending.value = [...pending.value.filter((item) => item.id !== request.id), request]
+    clearTimeout(expiryTimers.get(request.id))
+    expiryTimers.set(request.id, setTimeout(() => remove(request.id), delay))
+  }
+
+  function remove(id: string) {
+    clearTimeout(expiryTimers.get(id))
+    expiryTimers.delete(id)
+    pending.value = pending.value.filter((item) => item.id !== id)
+    if (resolving.value[id]) {
+      const next = { ...resolving.value }
+      delete next[id]
+      resolving.value = next
+    }
+  }
+
+  function forSession(sessionKey: string): ExecApprovalRequest[] {
+    return pending.value.filter((item) => item.sessionKey === sessionKey)
+  }
+
+  /**
+   * 回复审批请求。“始终允许”先放行本次命令，再把生成的规则追加到对应 Agent 的白名单；
+   * 白名单写入失败时本次放行已生效，错误交给调用方提示。
+   */
+  async function resolve(request: ExecApprovalRequest, decision: ExecApprovalDecision): Promise<ExecApprovalResolveResult> {
+    if (resolving.value[request.id]) return { pattern: null, added: false }
+    resolving.value = { ...resolving.value, [request.id]: decision }
+    try {
+      await wsStore.rpc.resolveExecApproval(request.id, decision)
+      remove(request.id)
+    } catch (error) {
+      const next = { ...resolving.value }
+      delete next[request.id]
+      resolving.value = next
+      throw error
+    }
+
+    if (decision !== 'allow-always') return { pattern: null, added: false }
+
+    const pattern = buildExecAllowlistPattern(request)
+    const target = request.nodeId ? { nodeId: request.nodeId } : undefined
+    const snapshot = await wsStore.rpc.getExecApprovals(target)
+    const { file, added } = appendExecAllowlistPattern(snapshot.file, request.agentId || 'main', pattern, {
+      command: request.command,
+      resolvedPath: request.resolvedPath,
+    })
+    if (added) {
+      await wsStore.rpc.setExecApprovals({ file, baseHash: snapshot.hash, nodeId: request.nodeId ?? undefined })
+    }
+    return { pattern, added }
+  }
+
+  return {
+    pending,
+    resolving,
+    forSession,
+    resolve,
+  }
+})
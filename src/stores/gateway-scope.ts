@@ -0,0 +1,30 @@
+import { getActivePinia, type PiniaPluginContext, type StoreGeneric } from 'pinia'
+
+// 与网关无关的本地偏好，切换连接配置时保留
+const PROFILE_INDEPENDENT_STORE_IDS = new Set(['auth', 'theme', 'locale'])
+
+const liveStores = new Map<string, StoreGeneric>()
+
+export function trackStoresPlugin({ store }: PiniaPluginContext) {
+  liveStores.set(store.$id, store)
+}
+
+/**
+ * 销毁所有与当前网关绑定的 store（含 websocket 连接），下次 useXxxStore() 时按新配置重建，
+ * 保证切换网关后旧数据不会残留在页面上。调用方需负责重新挂载使用这些 store 的组件。
+ */
+export function resetGatewayScopedStores() {
+  const pinia = getActivePinia()
+  if (!pinia) return
+
+  for (const [id, store] of liveStores) {
+    if (PROFILE_INDEPENDENT_STORE_IDS.has(id)) continue
+    if (id === 'websocket') {
+      const wsStore = store as StoreGeneric & { disconnect?: () => void }
+      wsStore.disconnect?.()
+    }
+    store.$dispose()
+    delete pinia.state.value[id]
+    liveStores.delete(id)
+  }
+}
@@ -0,0 +1,401 @@
+import { computed, onScopeDispose, ref } from 'vue'
+import { defineStore } from 'pinia'
+import { useWebSocketStore } from './websocket'
+import { useAuthStore } from './auth'
+import type { RPCEvent } from '@/api/types'
+
+const SAVED_STORAGE_KEY = 'openclaw_model_comparisons_v1'
+const MAX_SAVED_COMPARISONS = 50
+// 同时对比的模型数上限，避免一次占满网关的并发
+export const MAX_COMPARE_MODELS = 4
+// 超过这个时间仍未收到结束事件，按超时处理
+const COMPARE_TIMEOUT_MS = 3 * 60 * 1000
+
+export type CompareColumnStatus = 'pending' | 'streaming' | 'done' | 'error' | 'aborted'
+
+export interface CompareUsage {
+  input: number
+  output: number
+  total: number
+  // 网关没有计价信息时为 null
+  cost: number | null
+}
+
+export interface CompareColumn {
+  model: string
+  sessionKey: string
+  status: CompareColumnStatus
+  response: string
+  error: string | null
+  startedAtMs: number
+  // 收到第一段回复的时间，用于计算首字延迟
+  firstTokenAtMs: number | null
+  finishedAtMs: number | null
+  usage: CompareUsage | null
+}
+
+export interface ModelComparison {
+  id: string
+  prompt: string
+  agentId: string
+  createdAtMs: number
+  columns: CompareColumn[]
+  // 胜出模型的 modelRef
+  winner: string | null
+  savedAtMs: number | null
+}
+
+function isColumnStatus(value: unknown): value is CompareColumnStatus {
+  return value === 'pending' || value === 'streaming' || value === 'done' || value === 'error' || value === 'aborted'
+}
+
+function asFiniteNumber(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null
+}
+
+function normalizeUsage(value: unknown): CompareUsage | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null
+  const row = value as Record<string, unknown>
+  return {
+    input: asFiniteNumber(row.input) ?? 0,
+    output: asFiniteNumber(row.output) ?? 0,
+    total: asFiniteNumber(row.total) ?? 0,
+    cost: asFiniteNumber(row.cost),
+  }
+}
+
+function normalizeColumn(value: unknown): CompareColumn | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null
+  const row = value as Record<string, unknown>
+  if (typeof row.model !== 'string' || !row.model) return null
+  // 保存时仍在运行的列已无法继续，读回后视为中断
+  const status = isColumnStatus(row.status) && row.status !== 'pending' && row.status !== 'streaming' ? row.status : 'aborted'
+  return {
+    model: row.model,
+    sessionKey: typeof row.sessionKey === 'string' ? row.sessionKey : '',
+    status,
+    response: typeof row.response === 'string' ? row.response : '',
+    error: typeof row.error === 'string' ? row.error : null,
+    startedAtMs: asFiniteNumber(row.startedAtMs) ?? 0,
+    firstTokenAtMs: asFiniteNumber(row.firstTokenAtMs),
+    finishedAtMs: asFiniteNumber(row.finishedAtMs),
+    usage: normalizeUsage(row.usage),
+  }
+}
+
+function normalizeComparison(value: unknown): ModelComparison | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null
+  const row = value as Record<string, unknown>
+  if (typeof row.id !== 'string' || typeof row.prompt !== 'string' || !Array.isArray(row.columns)) return null
+  const columns = row.columns.map(normalizeColumn).filter((item): item is CompareColumn => item !== null)
+  if (columns.length === 0) return null
+  return {
+    id: row.id,
+    prompt: row.prompt,
+    agentId: typeof row.agentId === 'string' ? row.agentId : 'main',
+    createdAtMs: asFiniteNumber(row.createdAtMs) ?? 0,
+    columns,
+    winner: typeof row.winner === 'string' && columns.some((column) => column.model === row.winner) ? row.winner : null,
+    savedAtMs: asFiniteNumber(row.savedAtMs),
+  }
+}
+
+function eventText(value: unknown): string {
+  if (typeof value === 'string') return value
+  if (Array.isArray(value)) {
+    return value
+      .map((item) => eventText(item))
+      .filter((item) => item.trim())
+      .join('\n')
+  }
+  if (!value || typeof value !== 'object') return ''
+  const row = value as Record<string, unknown>
+  if ('text' in row) return eventText(row.text)
+  if ('content' in row) return eventText(row.content)
+  if ('delta' in row) return eventText(row.delta)
+  return ''
+}
+
+// 增量事件有的带完整文本、有的只带新片段，按前缀关系合并
+function mergeStreamText(current: string, next: string): string {
+  if (!next) return current
+  if (next.startsWith(current)) return next
+  if (current.endsWith(next)) return current
+  return `${current}${next}`
+}
+
+// 对比用的会话沿用当前 Agent，Key 独立生成，不会带入已有会话的上下文
+function buildCompareSessionKey(agentId: string, comparisonId: string, index: number): string {
+  return `agent:${agentId || 'main'}:main:compare-${comparisonId}-${index + 1}`
+}
+
+export function isCompareSessionKey(key: string): boolean {
+  return /:main:compare-[a-z0-9]+-\d+$/.test(key)
+}
+
+export function compareLatencyMs(column: CompareColumn): number | null {
+  return column.finishedAtMs !== null ? column.finishedAtMs - column.startedAtMs : null
+}
+
+export function compareFirstTokenMs(column: CompareColumn): number | null {
+  return column.firstTokenAtMs !== null ? column.firstTokenAtMs - column.startedAtMs : null
+}
+
+/**
+ * 多模型对比：把同一条提示词并行发给多个模型，每个模型使用一个一次性会话。
+ * 回复结束后读取该会话的用量与费用，随后删除临时会话；对比结果可标记胜出模型并保存在本地。
+ */
+export const useModelCompareStore = defineStore('model-compare', () => {
+  const wsStore = useWebSocketStore()
+  const authStore = useAuthStore()
+  const storageKey = authStore.scopedStorageKey(SAVED_STORAGE_KEY)
+
+  const current = ref<ModelComparison | null>(null)
+  const saved = ref<ModelComparison[]>(readSaved())
+  const timeoutTimers = new Map<string, ReturnType<typeof setTimeout>>()
+  // 正在读取结果与用量、尚未更新状态的列
+  const finishing = new Set<string>()
+
+  const running = computed(() =>
+    (current.value?.columns ?? []).some((column) => column.status === 'pending' || column.status === 'streaming')
+  )
+
+  const stopEventListener = wsStore.subscribe('event', (evt: unknown) => {
+    const { event, payload } = evt as RPCEvent
+    if (event !== 'chat' || !payload || typeof payload !== 'object') return
+    const row = payload as Record<string, unknown>
+    const sessionKey = typeof row.sessionKey === 'string' ? row.sessionKey.trim() : ''
+    const column = sessionKey ? findColumn(sessionKey) : null
+    if (!column || (column.status !== 'pending' && column.status !== 'streaming') || finishing.has(column.sessionKey)) return
+
+    const state = typeof row.state === 'string' ? row.state : ''
+    const message = row.message && typeof row.message === 'object' ? (row.message as Record<string, unknown>) : null
+    // 只取助手的回复，工具结果等不计入对比内容
+    const text = message && (message.role === undefined || message.role === 'assistant') ? eventText(message) : ''
+    if (text) {
+      if (column.firstTokenAtMs === null) column.firstTokenAtMs = Date.now()
+      column.response = state === 'final' ? text : mergeStreamText(column.response, text)
+      column.status = 'streaming'
+    }
+
+    if (state === 'final') {
+      void finishColumn(column, 'done')
+    } else if (state === 'aborted') {
+      void finishColumn(column, 'aborted')
+    } else if (state === 'error') {
+      const reason = typeof row.errorMessage === 'string' ? row.errorMessage : typeof row.error === 'string' ? row.error : null
+      void finishColumn(column, 'error', reason)
+    }
+  })
+
+  onScopeDispose(() => {
+    stopEventListener()
+    timeoutTimers.forEach((timer) => clearTimeout(timer))
+    timeoutTimers.clear()
+  })
+
+  function readSaved(): ModelComparison[] {
+    try {
+      const raw = localStorage.getItem(storageKey)
+      const parsed = raw ? (JSON.parse(raw) as unknown) : null
+      if (!Array.isArray(parsed)) return []
+      return parsed
+        .map(normalizeComparison)
+        .filter((item): item is ModelComparison => item !== null)
+        .slice(0, MAX_SAVED_COMPARISONS)
+    } catch (error) {
+      console.warn('[ModelCompare] 读取对比记录失败:', error)
+      return []
+    }
+  }
+
+  function persistSaved() {
+    try {
+      localStorage.setItem(storageKey, JSON.stringify(saved.value))
+    } catch (error) {
+      console.warn('[ModelCompare] 保存对比记录失败:', error)
+    }
+  }
+
+  function findColumn(sessionKey: string): CompareColumn | null {
+    return current.value?.columns.find((column) => column.sessionKey === sessionKey) ?? null
+  }
+
+  function clearTimeoutFor(sessionKey: string) {
+    clearTimeout(timeoutTimers.get(sessionKey))
+    timeoutTimers.delete(sessionKey)
+  }
+
+  // 以会话历史里的最后一条助手消息为准，补齐流式过程中可能漏掉的片段
+  async function loadFinalResponse(column: CompareColumn) {
+    try {
+      const history = await wsStore.rpc.listChatHistory(column.sessionKey)
+      const last = [...history].reverse().find((item) => item.role === 'assistant' && item.content.trim())
+      if (last) column.response = last.content
+    } catch (error) {
+      console.warn(`[ModelCompare] 读取 ${column.sessionKey} 历史失败:`, error)
+    }
+  }
+
+  async function loadUsage(column: CompareColumn) {
+    try {
+      const result = await wsStore.rpc.getSessionsUsage({ key: column.sessionKey, limit: 1 })
+      const session = result.sessions.find((item) => item.key === column.sessionKey)
+      const usage = session?.usage
+      if (!usage) return
+      column.usage = {
+        input: usage.input,
+        output: usage.output,
+        total: usage.totalTokens,
+        cost: usage.totalCost ?? null,
+      }
+    } catch (error) {
+      console.warn(`[ModelCompare] 读取 ${column.sessionKey} 用量失败:`, error)
+    }
+  }
+
+  async function discardSession(sessionKey: string) {
+    try {
+      await wsStore.rpc.deleteSession(sessionKey)
+    } catch (error) {
+      console.warn(`[ModelCompare] 删除临时会话 ${sessionKey} 失败:`, error)
+    }
+  }
+
+  // 结果与用量读取完后才更新状态，running 在此之前保持为 true，避免保存缺少用量的对比
+  async function finishColumn(column: CompareColumn, status: CompareColumnStatus, error: string | null = null) {
+    if (column.status !== 'pending' && column.status !== 'streaming') return
+    if (finishing.has(column.sessionKey)) return
+    finishing.add(column.sessionKey)
+    clearTimeoutFor(column.sessionKey)
+    column.finishedAtMs = Date.now()
+    try {
+      if (status === 'done') await loadFinalResponse(column)
+      // 用量要在删除会话前读取
+      await loadUsage(column)
+      await discardSession(column.sessionKey)
+    } finally {
+      finishing.delete(column.sessionKey)
+      column.status = status
+      column.error = error
+    }
+  }
+
+  async function sendColumn(comparison: ModelComparison, column: CompareColumn, index: number) {
+    timeoutTimers.set(
+      column.sessionKey,
+      setTimeout(() => {
+        void wsStore.rpc.abortChat(undefined, column.sessionKey).catch(() => undefined)
+        void finishColumn(column, 'error', 'timeout')
+      }, COMPARE_TIMEOUT_MS),
+    )
+    try {
+      await wsStore.rpc.sendChatMessage({
+        sessionKey: column.sessionKey,
+        message: comparison.prompt,
+        model: column.model,
+        idempotencyKey: `web-compare-${comparison.id}-${index + 1}`,
+      })
+    } catch (error) {
+      await finishColumn(column, 'error', error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  /**
+   * 开始一轮新的对比；上一轮还在运行时先中断。
+   * 各模型并行发送，互不等待，单个模型失败只影响自己那一列。
+   */
+  async function start(prompt: string, models: string[], agentId: string) {
+    const text = prompt.trim()
+    const list = [...new Set(models.map((item) => item.trim()).filter(Boolean))].slice(0, MAX_COMPARE_MODELS)
+    if (!text || list.length === 0) return
+    if (running.value) await abort()
+
+    const id = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`
+    const now = Date.now()
+    current.value = {
+      id,
+      prompt: text,
+      agentId,
+      createdAtMs: now,
+      columns: list.map((model, index) => ({
+        model,
+        sessionKey: buildCompareSessionKey(agentId, id, index),
+        status: 'pending',
+        response: '',
+        error: null,
+        startedAtMs: now,
+        firstTokenAtMs: null,
+        finishedAtMs: null,
+        usage: null,
+      })),
+      winner: null,
+      savedAtMs: null,
+    }
+    const comparison = current.value
+    await Promise.all(comparison.columns.map((column, index) => sendColumn(comparison, column, index)))
+  }
+
+  async function abort() {
+    const columns = (current.value?.columns ?? []).filter(
+      (column) => column.status === 'pending' || column.status === 'streaming'
+    )
+    await Promise.all(
+      columns.map(async (column) => {
+        try {
+          await wsStore.rpc.abortChat(undefined, column.sessionKey)
+        } catch (error) {
+          console.warn(`[ModelCompare] 中断 ${column.sessionKey} 失败:`, error)
+        }
+        await finishColumn(column, 'aborted')
+      })
+    )
+  }
+
+  function setWinner(model: string | null) {
+    const comparison = current.value
+    if (!comparison) return
+    comparison.winner = comparison.winner === model ? null : model
+    // 已保存的对比同步更新胜出模型
+    if (comparison.savedAtMs !== null) save()
+  }
+
+  function save() {
+    const comparison = current.value
+    if (!comparison || running.value) return
+    comparison.savedAtMs = Date.now()
+    const snapshot = JSON.parse(JSON.stringify(comparison)) as ModelComparison
+    saved.value = [snapshot, ...saved.value.filter((item) => item.id !== comparison.id)].slice(0, MAX_SAVED_COMPARISONS)
+    persistSaved()
+  }
+
+  function openSaved(id: string) {
+    const item = saved.value.find((entry) => entry.id === id)
+    if (!item || running.value) return
+    current.value = JSON.parse(JSON.stringify(item)) as ModelComparison
+  }
+
+  function removeSaved(id: string) {
+    saved.value = saved.value.filter((item) => item.id !== id)
+    persistSaved()
+    if (current.value?.id === id) current.value.savedAtMs = null
+  }
+
+  function clear() {
+    if (running.value) return
+    current.value = null
+  }
+
+  return {
+    current,
+    saved,
+    running,
+    start,
+    abort,
+    setWinner,
+    save,
+    openSaved,
+    removeSaved,
+    clear,
+  }
+})
@@ -0,0 +1,263 @@
+import { onScopeDispose, ref, toRaw, watch } from 'vue'
+import { defineStore } from 'pinia'
+import { useWebSocketStore } from './websocket'
+import { useAuthStore } from './auth'
+import { ConnectionState, type ChatAttachment } from '@/api/types'
+import { isAbortError, isRpcError } from '@/api/rpc-error'
+import {
+  deleteOutboxEntry,
+  listOutboxEntries,
+  putOutboxEntry,
+  type OutboxEntry,
+  type OutboxStatus,
+} from '@/utils/outbox-db'
+
+export type { OutboxEntry, OutboxStatus }
+
+const OUTBOX_SCOPE_BASE = 'openclaw_chat_outbox'
+// 因连接问题连续多次未送达后转为失败，交给用户决定重试或丢弃
+const MAX_DELIVERY_ATTEMPTS = 5
+// 已送达的条目从 IndexedDB 删除，但在内存中保留一会，页面据此显示“已发送”
+const SENT_RETENTION_MS = 60 * 1000
+
+/**
+ * 聊天消息发件箱：发送前先写入 IndexedDB，连接就绪时按顺序投递。
+ * 断线、休眠或刷新页面后，未送达的消息在重连时以原幂等键补发，由网关去重。
+ */
+export const useOutboxStore = defineStore('outbox', () => {
+  const entries = ref<OutboxEntry[]>([])
+  const hydrated = ref(false)
+  const wsStore = useWebSocketStore()
+  const authStore = useAuthStore()
+  const scope = authStore.scopedStorageKey(OUTBOX_SCOPE_BASE)
+  const settledListeners = new Set<(entry: OutboxEntry) => void>()
+  const retentionTimers = new Map<string, ReturnType<typeof setTimeout>>()
+  // 正在进行的 flush，并发调用共用同一个 Promise
+  let flushing: Promise<void> | null = null
+  let disposed = false
+  let inflight: { key: string; controller: AbortController } | null = null
+
+  const ready = hydrate()
+
+  watch(
+    () => wsStore.state,
+    (state) => {
+      if (state === ConnectionState.CONNECTED) {
+        void flush()
+        return
+      }
+      // 连接中断时撤回在途请求，重连后以同一幂等键重发
+      inflight?.controller.abort()
+    },
+  )
+
+  // 切换网关时随 store 销毁：撤回在途请求（条目保留为待发送），不再向新连接投递
+  onScopeDispose(() => {
+    disposed = true
+    inflight?.controller.abort()
+    retentionTimers.forEach((timer) => clearTimeout(timer))
+    retentionTimers.clear()
+    settledListeners.clear()
+  })
+
+  async function hydrate() {
+    try {
+      const stored = await listOutboxEntries(scope)
+      // 上次关闭页面时仍在发送的条目无法确认是否送达，按待发送处理
+      const restored = stored.map((entry) =>
+        entry.status === 'sending' ? { ...entry, status: 'pending' as const } : entry,
+      )
+      const known = new Set(entries.value.map((entry) => entry.idempotencyKey))
+      entries.value = [...restored.filter((entry) => !known.has(entry.idempotencyKey)), ...entries.value]
+    } catch (error) {
+      console.warn('[OutboxStore] 读取发件箱失败:', error)
+    } finally {
+      hydrated.value = true
+    }
+    void flush()
+  }
+
+  function whenReady(): Promise<void> {
+    return ready
+  }
+
+  function find(idempotencyKey: string): OutboxEntry | undefined {
+    return entries.value.find((entry) => entry.idempotencyKey === idempotencyKey)
+  }
+
+  function statusOf(idempotencyKey: string | undefined): OutboxStatus | null {
+    if (!idempotencyKey) return null
+    return find(idempotencyKey)?.status ?? null
+  }
+
+  // 尚未送达的消息，聊天页回拉历史后据此补回本地气泡
+  function unsentForSession(sessionKey: string): OutboxEntry[] {
+    return entries.value.filter((entry) => entry.sessionKey === sessionKey && entry.status !== 'sent')
+  }
+
+  function onSettled(listener: (entry: OutboxEntry) => void): () => void {
+    settledListeners.add(listener)
+    return () => {
+      settledListeners.delete(listener)
+    }
+  }
+
+  async function persist(entry: OutboxEntry) {
+    try {
+      if (entry.status === 'sent') {
+        await deleteOutboxEntry(entry.idempotencyKey)
+      } else {
+        // 条目来自响应式列表，附件仍是代理对象，structured clone 无法写入 IndexedDB
+        const raw = toRaw(entry)
+        await putOutboxEntry({
+          ...raw,
+          attachments: raw.attachments?.map((attachment) => ({ ...toRaw(attachment) })),
+        })
+      }
+    } catch (error) {
+      console.warn('[OutboxStore] 写入发件箱失败:', error)
+    }
+  }
+
+  async function update(idempotencyKey: string, patch: Partial<OutboxEntry>): Promise<OutboxEntry | null> {
+    const current = find(idempotencyKey)
+    if (!current) return null
+    const next: OutboxEntry = { ...current, ...patch }
+    entries.value = entries.value.map((entry) => (entry.idempotencyKey === idempotencyKey ? next : entry))
+    await persist(next)
+
+    if (next.status === 'sent') {
+      const timer = setTimeout(() => {
+        retentionTimers.delete(idempotencyKey)
+        entries.value = entries.value.filter((entry) => entry.idempotencyKey !== idempotencyKey)
+      }, SENT_RETENTION_MS)
+      retentionTimers.set(idempotencyKey, timer)
+    }
+    return next
+  }
+
+  function notifySettled(entry: OutboxEntry) {
+    settledListeners.forEach((listener) => {
+      try {
+        listener(entry)
+      } catch (error) {
+        console.error('[OutboxStore] Listener error:', error)
+      }
+    })
+  }
+
+  async function submit(input: {
+    sessionKey: string
+    message: string
+    model?: string
+    attachments?: ChatAttachment[]
+    idempotencyKey: string
+  }): Promise<OutboxEntry> {
+    await ready
+    const entry: OutboxEntry = {
+      ...input,
+      scope,
+      createdAt: Date.now(),
+      status: 'pending',
+      attempts: 0,
+    }
+    entries.value = [...entries.value, entry]
+    await persist(entry)
+    await flushEntry(entry.idempotencyKey)
+    return find(entry.idempotencyKey) ?? entry
+  }
+
+  function flush(): Promise<void> {
+    if (!flushing) {
+      flushing = drain().finally(() => {
+        flushing = null
+      })
+    }
+    return flushing
+  }
+
+  // 等待已在运行的 flush；它可能在本条变为待发送之前就扫描完队列，本条仍待发送时再补一轮
+  async function flushEntry(idempotencyKey: string) {
+    await flush()
+    if (find(idempotencyKey)?.status === 'pending') await flush()
+  }
+
+  async function drain() {
+    if (disposed || !hydrated.value) return
+    while (!disposed && wsStore.state === ConnectionState.CONNECTED) {
+      const next = entries.value.find((entry) => entry.status === 'pending')
+      if (!next) break
+      await deliver(next)
+    }
+  }
+
+  async function deliver(entry: OutboxEntry) {
+    const controller = new AbortController()
+    inflight = { key: entry.idempotencyKey, controller }
+    const attempts = entry.attempts + 1
+    await update(entry.idempotencyKey, { status: 'sending', attempts, lastError: undefined })
+
+    try {
+      await wsStore.rpc.sendChatMessage(
+        {
+          sessionKey: entry.sessionKey,
+          message: entry.message,
+          model: entry.model,
+          attachments: entry.attachments,
+          idempotencyKey: entry.idempotencyKey,
+        },
+        { signal: controller.signal },
+      )
+      const sent = await update(entry.idempotencyKey, { status: 'sent', sentAt: Date.now() })
+      if (sent) notifySettled(sent)
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error)
+      // 断线、超时或被撤回时送达与否未知，保留待发送；网关明确拒绝则直接失败
+      const transient =
+        isAbortError(error) ||
+        (isRpcError(error) && error.isTimeout) ||
+        wsStore.state !== ConnectionState.CONNECTED
+      const status: OutboxStatus = transient && attempts < MAX_DELIVERY_ATTEMPTS ? 'pending' : 'failed'
+      const next = await update(entry.idempotencyKey, { status, lastError: reason })
+      if (next && status === 'failed') notifySettled(next)
+    } finally {
+      if (inflight?.key === entry.idempotencyKey) inflight = null
+    }
+  }
+
+  async function retry(idempotencyKey: string) {
+    const entry = find(idempotencyKey)
+    if (!entry || entry.status !== 'failed') return
+    await update(idempotencyKey, { status: 'pending', attempts: 0, lastError: undefined })
+    await flushEntry(idempotencyKey)
+  }
+
+  async function discard(idempotencyKey: string) {
+    const entry = find(idempotencyKey)
+    if (!entry || entry.status === 'sending') return
+    entries.value = entries.value.filter((item) => item.idempotencyKey !== idempotencyKey)
+    const timer = retentionTimers.get(idempotencyKey)
+    if (timer) {
+      clearTimeout(timer)
+      retentionTimers.delete(idempotencyKey)
+    }
+    try {
+      await deleteOutboxEntry(idempotencyKey)
+    } catch (error) {
+      console.warn('[OutboxStore] 删除发件箱条目失败:', error)
+    }
+  }
+
+  return {
+    entries,
+    hydrated,
+    whenReady,
+    statusOf,
+    unsentForSession,
+    onSettled,
+    submit,
+    flush,
+    retry,
+    discard,
+  }
+})
@@ -1,15 +1,28 @@
-import { ref } from 'vue'
+import { onScopeDispose, ref } from 'vue'
 import { defineStore } from 'pinia'
 import { useWebSocketStore } from './websocket'
 import type { Session, SessionDetail, SessionExport } from '@/api/types'
+import { isAbortError } from '@/api/rpc-error'
 
 export const useSessionStore = defineStore('session', () => {
   const sessions = ref<Session[]>([])
   const currentSession = ref<SessionDetail | null>(null)
   const loading = ref(false)
+  let sessionsController: AbortController | null = null
 
   const wsStore = useWebSocketStore()
 
+  // 任何缺口（重连或 seq 跳号）都可能漏掉会话变更，已加载过列表时重新拉取；进行中的请求可能早于缺口，由 fetchSessions 撤回后重发
+  const stopResyncListener = wsStore.onResync(() => {
+    if (sessions.value.length === 0) return
+    void fetchSessions()
+  })
+
+  onScopeDispose(() => {
+    stopResyncListener()
+    sessionsController?.abort()
+  })
+
   function parseUsageNumber(value: unknown): number | undefined {
     if (typeof value === 'number' && Number.isFinite(value)) {
       return Math.max(0, Math.floor(value))
@@ -116,9 +129,14 @@ export const useSessionStore = defineStore('session', () => {
   }
 
   async function fetchSessions() {
+    sessionsController?.abort()
+    const controller = new AbortController()
+    sessionsController = controller
+    const { signal } = controller
+
     loading.value = true
     try {
-      const list = await wsStore.rpc.listSessions()
+      const list = await wsStore.rpc.listSessions({ signal })
       if (list.length === 0) {
         sessions.value = list
         return
@@ -132,18 +150,24 @@ export const useSessionStore = defineStore('session', () => {
       }
 
       try {
-        const usage = await wsStore.rpc.getSessionsUsage({
-          limit: Math.max(200, list.length * 4),
-        })
+        const usage = await wsStore.rpc.getSessionsUsage(
+          { limit: Math.max(200, list.length * 4) },
+          { signal },
+        )
         sessions.value = mergeUsageIntoSessions(list, usage)
-      } catch {
+      } catch (error) {
+        if (isAbortError(error)) return
         sessions.value = list
       }
     } catch (error) {
+      if (isAbortError(error)) return
       sessions.value = []
       console.error('[SessionStore] fetchSessions failed:', error)
     } finally {
-      loading.value = false
+      if (sessionsController === controller) {
+        sessionsController = null
+        loading.value = false
+      }
     }
   }
 
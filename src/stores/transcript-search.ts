@@ -0,0 +1,214 @@
+import { onScopeDispose, ref, shallowRef } from 'vue'
+import { defineStore } from 'pinia'
+import { useWebSocketStore } from './websocket'
+import { useAuthStore } from './auth'
+import type { ChatMessage, RPCEvent, Session } from '@/api/types'
+import { isAbortError } from '@/api/rpc-error'
+import { parseSessionKey } from '@/utils/format'
+import { isCompareSessionKey } from './model-compare'
+import {
+  deleteTranscriptEntry,
+  listTranscriptEntries,
+  putTranscriptEntry,
+  transcriptEntryId,
+  type TranscriptIndexEntry,
+} from '@/utils/search-db'
+import { searchTranscripts, toIndexedMessages, type TranscriptSearchFilters } from '@/utils/transcript-search'
+
+const SEARCH_SCOPE_BASE = 'openclaw_search_index'
+// 一轮对话结束后稍等再拉取历史，合并同一会话里连续到达的事件
+const REALTIME_REINDEX_DELAY_MS = 1500
+
+export interface TranscriptIndexProgress {
+  done: number
+  total: number
+}
+
+function sessionSignature(session: Session): string {
+  return `${session.lastActivity || ''}|${session.messageCount ?? ''}`
+}
+
+/**
+ * 聊天记录全文索引：拉取各会话历史保存到 IndexedDB，在本地完成跨会话搜索。
+ * 同步时只重新拉取最后活动时间或消息数有变化的会话；对话结束的事件会触发对应会话单独重建。
+ */
+export const useTranscriptSearchStore = defineStore('transcript-search', () => {
+  const wsStore = useWebSocketStore()
+  const authStore = useAuthStore()
+  const scope = authStore.scopedStorageKey(SEARCH_SCOPE_BASE)
+
+  // 索引可能很大，整体替换而不做深层响应式
+  const entries = shallowRef<TranscriptIndexEntry[]>([])
+  const hydrated = ref(false)
+  const syncing = ref(false)
+  const progress = ref<TranscriptIndexProgress>({ done: 0, total: 0 })
+  const lastSyncedAt = ref<number | null>(null)
+  const lastError = ref<string | null>(null)
+  // 最近一次同步中拉取失败的会话数
+  const failedCount = ref(0)
+  const reindexTimers = new Map<string, ReturnType<typeof setTimeout>>()
+  let syncController: AbortController | null = null
+
+  const ready = hydrate()
+
+  const stopEventListener = wsStore.subscribe('event', (evt: unknown) => {
+    const { event, payload } = evt as RPCEvent
+    if (event !== 'chat' || !payload || typeof payload !== 'object') return
+    const row = payload as Record<string, unknown>
+    const state = typeof row.state === 'string' ? row.state : ''
+    const sessionKey = typeof row.sessionKey === 'string' ? row.sessionKey.trim() : ''
+    if (!sessionKey || (state !== 'final' && state !== 'aborted' && state !== 'error')) return
+    // 模型对比的临时会话结束后即被删除，不进索引
+    if (isCompareSessionKey(sessionKey)) return
+    // 还没建立过索引时不做增量，等用户首次同步
+    if (lastSyncedAt.value === null) return
+    scheduleReindex(sessionKey)
+  })
+
+  onScopeDispose(() => {
+    stopEventListener()
+    reindexTimers.forEach((timer) => clearTimeout(timer))
+    reindexTimers.clear()
+    syncController?.abort()
+  })
+
+  async function hydrate() {
+    try {
+      entries.value = await listTranscriptEntries(scope)
+      lastSyncedAt.value = entries.value.reduce<number | null>(
+        (latest, entry) => (latest === null || entry.indexedAt > latest ? entry.indexedAt : latest),
+        null,
+      )
+    } catch (error) {
+      console.warn('[TranscriptSearch] 读取索引失败:', error)
+    } finally {
+      hydrated.value = true
+    }
+  }
+
+  function replaceEntry(entry: TranscriptIndexEntry) {
+    entries.value = [...entries.value.filter((item) => item.id !== entry.id), entry]
+  }
+
+  async function fetchTranscript(sessionKey: string, signal?: AbortSignal): Promise<ChatMessage[]> {
+    try {
+      return await wsStore.rpc.listChatHistory(sessionKey, { signal })
+    } catch (error) {
+      if (isAbortError(error)) throw error
+      // 旧网关没有 chat.history 时退回会话详情里的 transcript
+      const detail = await wsStore.rpc.getSession(sessionKey, { signal })
+      return (detail.transcript ?? []).map((item) => ({
+        role: item.role,
+        content: typeof item.content === 'string' ? item.content : '',
+        timestamp: item.timestamp,
+        name: item.name,
+      }))
+    }
+  }
+
+  async function indexSession(sessionKey: string, signature: string, signal?: AbortSignal) {
+    const messages = await fetchTranscript(sessionKey, signal)
+    const parsed = parseSessionKey(sessionKey)
+    const entry: TranscriptIndexEntry = {
+      id: transcriptEntryId(scope, sessionKey),
+      scope,
+      sessionKey,
+      agent: parsed.agent,
+      channel: parsed.channel,
+      signature,
+      indexedAt: Date.now(),
+      messages: toIndexedMessages(messages),
+    }
+    await putTranscriptEntry(entry)
+    replaceEntry(entry)
+  }
+
+  function scheduleReindex(sessionKey: string) {
+    clearTimeout(reindexTimers.get(sessionKey))
+    reindexTimers.set(
+      sessionKey,
+      setTimeout(() => {
+        reindexTimers.delete(sessionKey)
+        // 拿不到最新的会话列表签名，留空让下次同步再校准一次
+        void indexSession(sessionKey, '').catch((error) => {
+          console.warn('[TranscriptSearch] 增量索引失败:', error)
+        })
+      }, REALTIME_REINDEX_DELAY_MS),
+    )
+  }
+
+  /**
+   * 按会话列表同步索引；force 为 true 时忽略签名全部重建。
+   * 单个会话拉取失败不影响其他会话，已不存在的会话从索引中移除。
+   */
+  async function sync(options?: { force?: boolean }) {
+    if (syncing.value) return
+    await ready
+    syncController = new AbortController()
+    const { signal } = syncController
+    syncing.value = true
+    lastError.value = null
+    failedCount.value = 0
+
+    try {
+      const sessions = await wsStore.rpc.listSessions({ signal })
+      const known = new Map(entries.value.map((entry) => [entry.sessionKey, entry]))
+      const stale = sessions.filter((session) => {
+        const entry = known.get(session.key)
+        return options?.force || !entry || entry.signature !== sessionSignature(session)
+      })
+      progress.value = { done: 0, total: stale.length }
+
+      for (const session of stale) {
+        if (signal.aborted) break
+        try {
+          await indexSession(session.key, sessionSignature(session), signal)
+        } catch (error) {
+          if (isAbortError(error)) break
+          failedCount.value += 1
+          console.warn(`[TranscriptSearch] 索引会话 ${session.key} 失败:`, error)
+        }
+        progress.value = { done: progress.value.done + 1, total: stale.length }
+      }
+
+      if (!signal.aborted) {
+        const listed = new Set(sessions.map((session) => session.key))
+        const removed = entries.value.filter((entry) => !listed.has(entry.sessionKey))
+        await Promise.all(removed.map((entry) => deleteTranscriptEntry(entry.id)))
+        if (removed.length > 0) {
+          entries.value = entries.value.filter((entry) => listed.has(entry.sessionKey))
+        }
+        lastSyncedAt.value = Date.now()
+      }
+    } catch (error) {
+      if (!isAbortError(error)) {
+        lastError.value = error instanceof Error ? error.message : String(error)
+      }
+    } finally {
+      syncing.value = false
+      syncController = null
+    }
+  }
+
+  function cancelSync() {
+    syncController?.abort()
+  }
+
+  function search(query: string, filters?: TranscriptSearchFilters, limit?: number) {
+    return searchTranscripts(entries.value, query, filters, limit)
+  }
+
+  return {
+    entries,
+    hydrated,
+    syncing,
+    progress,
+    lastSyncedAt,
+    lastError,
+    failedCount,
+    ready,
+    sync,
+    cancelSync,
+    search,
+  }
+})
@@ -1,9 +1,87 @@
-import { ref, shallowRef } from 'vue'
+import { computed, ref, shallowRef } from 'vue'
 import { defineStore } from 'pinia'
-import { OpenClawWebSocket } from '@/api/websocket'
+import { OpenClawWebSocket, type ConnectOptions, type EventGap, type GatewayTransport } from '@/api/websocket'
+import { SharedGatewayTransport, isSharedTransportSupported } from '@/api/shared-transport'
 import { RPCClient } from '@/api/rpc-client'
+import type { RetryWaitInfo } from '@/api/retry-policy'
+import { RpcShapeCache, resolveGatewayFingerprint } from '@/api/shape-cache'
+import { evaluateGatewayCompatibility, parseGatewayHello, type GatewayCompatibility } from '@/api/protocol'
+import { WireRecorder, type WireRecording } from '@/api/wire-recorder'
+import {
+  createEmptyMetricsSnapshot,
+  probeDropRate,
+  type ConnectionMetricsSnapshot,
+} from '@/api/connection-metrics'
+import { REPLAY_GATEWAY_URL, isReplayGatewayUrl } from '@/api/mock/urls'
 import { ConnectionState } from '@/api/types'
 import { byLocale, getActiveLocale } from '@/i18n/text'
+import { ensureMockGateway, loadMockGateway } from '@/utils/client-runtime'
+import { useAuthStore } from './auth'
+
+const SHARED_TRANSPORT_STORAGE_KEY = 'openclaw_shared_transport_v1'
+const RPC_SHAPE_CACHE_STORAGE_KEY = 'openclaw_rpc_shapes_v1'
+const WIRE_RECORDER_STORAGE_KEY = 'openclaw_wire_recorder_v1'
+const QUALITY_THRESHOLDS_STORAGE_KEY = 'openclaw_connection_thresholds_v1'
+// 连接质量按最近若干次心跳判断，避免单次抖动触发告警
+const QUALITY_WINDOW = 10
+
+export interface ConnectionQualityThresholds {
+  // 心跳往返延迟的告警阈值（毫秒）
+  latencyMs: number
+  // 心跳丢失比例的告警阈值（0-1）
+  dropRate: number
+}
+
+export type ConnectionQualityLevel = 'good' | 'warning' | 'unknown'
+
+const DEFAULT_QUALITY_THRESHOLDS: ConnectionQualityThresholds = {
+  latencyMs: 1500,
+  dropRate: 0.2,
+}
+
+function readQualityThresholds(): ConnectionQualityThresholds {
+  try {
+    const raw = localStorage.getItem(QUALITY_THRESHOLDS_STORAGE_KEY)
+    const row = raw ? (JSON.parse(raw) as Partial<ConnectionQualityThresholds>) : {}
+    return {
+      latencyMs:
+        typeof row.latencyMs === 'number' && row.latencyMs > 0 ? row.latencyMs : DEFAULT_QUALITY_THRESHOLDS.latencyMs,
+      dropRate:
+        typeof row.dropRate === 'number' && row.dropRate > 0 && row.dropRate <= 1
+          ? row.dropRate
+          : DEFAULT_QUALITY_THRESHOLDS.dropRate,
+    }
+  } catch {
+    return { ...DEFAULT_QUALITY_THRESHOLDS }
+  }
+}
+
+function readFlagPreference(key: string): boolean {
+  try {
+    return localStorage.getItem(key) === '1'
+  } catch {
+    return false
+  }
+}
+
+function writeFlagPreference(key: string, enabled: boolean) {
+  if (enabled) {
+    localStorage.setItem(key, '1')
+  } else {
+    localStorage.removeItem(key)
+  }
+}
+
+function createTransport(useShared: boolean): GatewayTransport {
+  if (useShared && isSharedTransportSupported()) {
+    try {
+      return new SharedGatewayTransport()
+    } catch (error) {
+      console.warn('[WebSocketStore] 共享连接初始化失败，回退为独立连接:', error)
+    }
+  }
+  return new OpenClawWebSocket()
+}
 
 function asRecord(value: unknown): Record<string, unknown> {
   if (value && typeof value === 'object' && !Array.isArray(value)) {
@@ -28,11 +106,55 @@ export const useWebSocketStore = defineStore('websocket', () => {
   const lastError = ref<string | null>(null)
   const reconnectAttempts = ref(0)
   const gatewayMethods = ref<string[]>([])
+  // hello 中协商的协议版本与网关构建，以及是否在已验证范围内
+  const gatewayCompatibility = shallowRef<GatewayCompatibility | null>(null)
+  const lastGap = ref<EventGap | null>(null)
+  const gapCount = ref(0)
+  const retryWait = ref<(RetryWaitInfo & { untilMs: number }) | null>(null)
   let listenersBound = false
 
-  const ws = shallowRef<OpenClawWebSocket>(new OpenClawWebSocket())
+  // 跨标签页共享连接需在创建 store 时决定，修改偏好后刷新页面生效
+  const sharedTransportEnabled = ref(readFlagPreference(SHARED_TRANSPORT_STORAGE_KEY))
+  const sharedTransportSupported = isSharedTransportSupported()
+  const ws = shallowRef<GatewayTransport>(createTransport(sharedTransportEnabled.value))
+  const usingSharedTransport = ws.value instanceof SharedGatewayTransport
   const rpc = shallowRef<RPCClient>(new RPCClient(ws.value))
 
+  // 协议录制默认关闭；开启后收发帧（已脱敏）写入环形缓冲，供监控页的协议检查器查看与导出
+  const recorder = new WireRecorder()
+  const wireRecordingEnabled = ref(readFlagPreference(WIRE_RECORDER_STORAGE_KEY))
+  if (wireRecordingEnabled.value) {
+    ws.value.setRecorder(recorder)
+  }
+  const activeUrl = ref('')
+  const replayActive = computed(() => isReplayGatewayUrl(activeUrl.value))
+
+  const metrics = shallowRef<ConnectionMetricsSnapshot>(createEmptyMetricsSnapshot())
+  const qualityThresholds = ref<ConnectionQualityThresholds>(readQualityThresholds())
+  const connectionQuality = computed(() => {
+    const recent = metrics.value.samples.slice(-QUALITY_WINDOW)
+    const latencies = recent
+      .map((sample) => sample.latencyMs)
+      .filter((value): value is number => value !== null)
+    const averageLatencyMs = latencies.length > 0
+      ? Math.round(latencies.reduce((sum, value) => sum + value, 0) / latencies.length)
+      : null
+    const dropRate = probeDropRate(recent)
+    const latencyExceeded = averageLatencyMs !== null && averageLatencyMs > qualityThresholds.value.latencyMs
+    const dropRateExceeded = recent.length > 0 && dropRate > qualityThresholds.value.dropRate
+    let level: ConnectionQualityLevel = 'good'
+    if (state.value !== ConnectionState.CONNECTED || recent.length === 0) {
+      level = 'unknown'
+    } else if (latencyExceeded || dropRateExceeded) {
+      level = 'warning'
+    }
+    return { level, averageLatencyMs, dropRate, latencyExceeded, dropRateExceeded }
+  })
+
+  rpc.value.onRetryWait((info) => {
+    retryWait.value = { ...info, untilMs: Date.now() + info.delayMs }
+  })
+
   function bindListeners() {
     if (listenersBound) return
 
@@ -54,6 +176,26 @@ export const useWebSocketStore = defineStore('websocket', () => {
 
     ws.value.on('connected', (payload: unknown) => {
       gatewayMethods.value = normalizeGatewayMethods(payload)
+      gatewayCompatibility.value = evaluateGatewayCompatibility(parseGatewayHello(payload))
+      rpc.value.setProtocol(gatewayCompatibility.value.hello.protocol)
+      // 回放的 hello 与真实网关相同，录制外的方法不能写进真实网关的结构缓存
+      if (isReplayGatewayUrl(activeUrl.value)) {
+        rpc.value.setShapeCache(null)
+        return
+      }
+      const authStore = useAuthStore()
+      rpc.value.setShapeCache(
+        new RpcShapeCache(authStore.scopedStorageKey(RPC_SHAPE_CACHE_STORAGE_KEY), resolveGatewayFingerprint(payload)),
+      )
+    })
+
+    ws.value.on('metrics', (snapshot: unknown) => {
+      metrics.value = snapshot as ConnectionMetricsSnapshot
+    })
+
+    ws.value.on('gap', (gap: unknown) => {
+      lastGap.value = gap as EventGap
+      gapCount.value += 1
     })
 
     ws.value.on('disconnected', (code: unknown, reason: unknown) => {
@@ -70,21 +212,71 @@ export const useWebSocketStore = defineStore('websocket', () => {
     listenersBound = true
   }
 
-  function connect(url: string, auth?: string) {
+  async function connect(url: string, auth?: string, options?: ConnectOptions) {
     lastError.value = null
+    activeUrl.value = url
     bindListeners()
-    ws.value.connect(url, auth)
+    try {
+      await ensureMockGateway(url)
+    } catch (error) {
+      lastError.value = error instanceof Error ? error.message : String(error)
+      return
+    }
+    // 加载模拟网关期间又切换了地址时，以后一次连接为准
+    if (activeUrl.value !== url) return
+    ws.value.connect(url, auth, options)
   }
 
   function disconnect() {
     ws.value.disconnect()
     gatewayMethods.value = []
+    gatewayCompatibility.value = null
+    lastGap.value = null
   }
 
   function subscribe(event: string, handler: (...args: unknown[]) => void): () => void {
     return ws.value.on(event, handler)
   }
 
+  function onResync(handler: (gap: EventGap) => void): () => void {
+    return ws.value.on('gap', (gap: unknown) => handler(gap as EventGap))
+  }
+
+  function setSharedTransportEnabled(enabled: boolean) {
+    sharedTransportEnabled.value = enabled
+    writeFlagPreference(SHARED_TRANSPORT_STORAGE_KEY, enabled)
+  }
+
+  function setQualityThresholds(next: Partial<ConnectionQualityThresholds>) {
+    qualityThresholds.value = { ...qualityThresholds.value, ...next }
+    localStorage.setItem(QUALITY_THRESHOLDS_STORAGE_KEY, JSON.stringify(qualityThresholds.value))
+  }
+
+  function setWireRecordingEnabled(enabled: boolean) {
+    wireRecordingEnabled.value = enabled
+    writeFlagPreference(WIRE_RECORDER_STORAGE_KEY, enabled)
+    ws.value.setRecorder(enabled ? recorder : null)
+  }
+
+  // 断开当前网关，改为回放录制；回放期间的请求只会命中录制中的响应
+  async function startReplay(recording: WireRecording) {
+    const authStore = useAuthStore()
+    const mock = await loadMockGateway()
+    mock.setReplayRecording(recording)
+    disconnect()
+    await connect(REPLAY_GATEWAY_URL, '', { deviceIdentityScope: authStore.deviceIdentityScope })
+  }
+
+  async function stopReplay() {
+    if (!replayActive.value) return
+    const authStore = useAuthStore()
+    disconnect()
+    // 回放期间模块已经加载，这里直接拿到缓存的模块
+    const mock = await loadMockGateway()
+    mock.setReplayRecording(null)
+    await connect(authStore.gatewayUrl, authStore.token, { deviceIdentityScope: authStore.deviceIdentityScope })
+  }
+
   function supportsAnyMethod(methods: string[]): boolean {
     if (gatewayMethods.value.length === 0) return false
     const methodSet = new Set(gatewayMethods.value)
@@ -96,11 +288,30 @@ export const useWebSocketStore = defineStore('websocket', () => {
     lastError,
     reconnectAttempts,
     gatewayMethods,
+    gatewayCompatibility,
+    lastGap,
+    gapCount,
+    retryWait,
+    sharedTransportEnabled,
+    sharedTransportSupported,
+    usingSharedTransport,
+    recorder,
+    wireRecordingEnabled,
+    replayActive,
+    metrics,
+    qualityThresholds,
+    connectionQuality,
     ws,
     rpc,
     connect,
     disconnect,
     subscribe,
+    onResync,
+    setSharedTransportEnabled,
+    setQualityThresholds,
+    setWireRecordingEnabled,
+    startReplay,
+    stopReplay,
     supportsAnyMethod,
   }
 })
@@ -0,0 +1,127 @@
+import type { ChatAttachment, ChatAttachmentKind } from '@/api/types'
+
+// 附件经 WebSocket 单帧上传，过大的文件会阻塞同一连接上的其他请求
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024
+export const MAX_ATTACHMENTS_PER_MESSAGE = 5
+// 上传到 Agent 工作区下的目录
+export const ATTACHMENT_UPLOAD_DIR = 'uploads'
+
+const TEXT_EXTENSIONS = new Set([
+  'txt', 'log', 'md', 'markdown', 'csv', 'tsv', 'json', 'jsonl', 'ndjson', 'yaml', 'yml', 'toml', 'ini', 'conf',
+  'xml', 'html', 'htm', 'css', 'js', 'mjs', 'cjs', 'ts', 'tsx', 'jsx', 'vue', 'py', 'rb', 'go', 'rs', 'java',
+  'kt', 'c', 'h', 'cpp', 'hpp', 'cs', 'php', 'sh', 'bash', 'zsh', 'sql', 'diff', 'patch', 'env',
+])
+
+const REFERENCE_PATTERN = /^\[attachment\] (.+) \(([^,()]+), (\d+) bytes\)$/
+
+function fileExtension(name: string): string {
+  const index = name.lastIndexOf('.')
+  return index > 0 ? name.slice(index + 1).toLowerCase() : ''
+}
+
+export function detectAttachmentKind(file: { name: string; type: string }): ChatAttachmentKind {
+  const mime = file.type.toLowerCase()
+  if (mime.startsWith('image/')) return 'image'
+  if (mime.startsWith('text/') || /json|xml|yaml|csv|javascript|typescript|x-sh|sql/.test(mime)) return 'text'
+  if (TEXT_EXTENSIONS.has(fileExtension(file.name))) return 'text'
+  return 'file'
+}
+
+// 去掉路径分隔符与空白等字符，并加时间戳前缀，避免覆盖工作区里的同名文件
+export function buildUploadName(fileName: string, now = Date.now()): string {
+  const safe = fileName
+    .trim()
+    .replace(/[\\/]+/g, '_')
+    .replace(/[^\p{L}\p{N}._-]+/gu, '_')
+    .replace(/_+/g, '_')
+    .replace(/^[._]+/, '')
+    .slice(-96)
+  return `${ATTACHMENT_UPLOAD_DIR}/${now.toString(36)}-${safe || 'file'}`
+}
+
+// 去掉 buildUploadName 加的时间戳前缀，得到展示用的文件名
+export function attachmentDisplayName(path: string): string {
+  const base = path.split('/').pop() || path
+  return base.replace(/^[0-9a-z]{6,10}-/, '')
+}
+
+/**
+ * 读取文件内容：文本文件按 utf8 原样上传，其他文件转为 base64。
+ * onProgress 收到 0~1 的读取进度；signal 取消时以 AbortError 拒绝。
+ */
+export function readFileForUpload(
+  file: File,
+  kind: ChatAttachmentKind,
+  onProgress?: (ratio: number) => void,
+  signal?: AbortSignal
+): Promise<{ content: string; encoding: 'utf8' | 'base64' }> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    const abort = () => reader.abort()
+    signal?.addEventListener('abort', abort, { once: true })
+
+    reader.onprogress = (event) => {
+      if (event.lengthComputable && event.total > 0) {
+        onProgress?.(event.loaded / event.total)
+      }
+    }
+    reader.onabort = () => {
+      reject(new DOMException('Attachment read aborted', 'AbortError'))
+    }
+    reader.onerror = () => {
+      reject(reader.error ?? new Error(`Failed to read ${file.name}`))
+    }
+    reader.onload = () => {
+      signal?.removeEventListener('abort', abort)
+      onProgress?.(1)
+      const result = typeof reader.result === 'string' ? reader.result : ''
+      if (kind === 'text') {
+        resolve({ content: result, encoding: 'utf8' })
+        return
+      }
+      // readAsDataURL 结果形如 data:<mime>;base64,<data>
+      const commaIndex = result.indexOf(',')
+      resolve({ content: commaIndex >= 0 ? result.slice(commaIndex + 1) : result, encoding: 'base64' })
+    }
+
+    if (kind === 'text') {
+      reader.readAsText(file)
+    } else {
+      reader.readAsDataURL(file)
+    }
+  })
+}
+
+export function formatAttachmentReference(attachment: ChatAttachment): string {
+  return `[attachment] ${attachment.path} (${attachment.mimeType || 'application/octet-stream'}, ${attachment.size} bytes)`
+}
+
+// 附件引用以固定格式追加在正文末尾，Agent 可按路径读取，历史记录回放时也能还原出附件
+export function appendAttachmentReferences(message: string, attachments: ChatAttachment[]): string {
+  if (attachments.length === 0) return message
+  const references = attachments.map(formatAttachmentReference).join('\n')
+  return message.trim() ? `${message.trim()}\n\n${references}` : references
+}
+
+export function extractAttachmentReferences(content: string): { text: string; attachments: ChatAttachment[] } {
+  const lines = content.split('\n')
+  const attachments: ChatAttachment[] = []
+  let end = lines.length
+  while (end > 0) {
+    const line = lines[end - 1]?.trim() ?? ''
+    const matched = line.match(REFERENCE_PATTERN)
+    if (!matched) break
+    const path = matched[1] ?? ''
+    const mimeType = matched[2] ?? ''
+    attachments.unshift({
+      name: attachmentDisplayName(path),
+      path,
+      mimeType,
+      size: Number(matched[3]),
+      kind: detectAttachmentKind({ name: path, type: mimeType }),
+    })
+    end -= 1
+  }
+  if (attachments.length === 0) return { text: content, attachments }
+  return { text: lines.slice(0, end).join('\n').trimEnd(), attachments }
+}
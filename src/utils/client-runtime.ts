@@ -0,0 +1,49 @@
+import { configureClientRuntime, getClientRuntime, type WebSocketFactory } from '@/api/runtime'
+import { isMockGatewayUrl, isReplayGatewayUrl } from '@/api/mock/urls'
+import { getPreferredLocale } from '@/i18n/locale'
+import { byLocale, getActiveLocale } from '@/i18n/text'
+
+type MockModule = typeof import('@/api/mock')
+
+let mockModule: MockModule | null = null
+let mockModulePromise: Promise<MockModule> | null = null
+
+// 模拟网关与回放只在用到 mock:// / replay:// 地址时按需加载，正式连接的打包结果不包含它们
+export function loadMockGateway(): Promise<MockModule> {
+  if (!mockModulePromise) {
+    mockModulePromise = import('@/api/mock').then((module) => {
+      mockModule = module
+      return module
+    })
+    // 加载失败（如分块下载中断）时允许下次重试
+    mockModulePromise.catch(() => {
+      mockModulePromise = null
+    })
+  }
+  return mockModulePromise
+}
+
+// 连接前调用：地址需要模拟网关时先加载模块，WebSocket 工厂是同步的，无法在创建连接时再加载
+export async function ensureMockGateway(url: string): Promise<void> {
+  if (isMockGatewayUrl(url) || isReplayGatewayUrl(url)) await loadMockGateway()
+}
+
+function withLazyMockGateway(factory: WebSocketFactory): WebSocketFactory {
+  return (url) => {
+    if (!isMockGatewayUrl(url) && !isReplayGatewayUrl(url)) return factory(url)
+    if (!mockModule) throw new Error('Mock gateway is not loaded; call ensureMockGateway() before connecting')
+    return mockModule.withMockGateway(factory)(url)
+  }
+}
+
+// Web 应用（页面与 SharedWorker）接入 api/ 层的运行环境：错误文案跟随界面语言
+export function configureWebClientRuntime(): void {
+  configureClientRuntime({
+    localize: (zhCN, enUS) => byLocale(zhCN, enUS, getActiveLocale()),
+    clientVersion: import.meta.env.VITE_APP_VERSION || '0.1.0',
+    getLocale: () => getPreferredLocale(),
+    schemaStrictByDefault: !!import.meta.env.DEV,
+    // mock:// 地址连接内存中的模拟网关，用于离线开发与演示
+    createWebSocket: withLazyMockGateway(getClientRuntime().createWebSocket),
+  })
+}
@@ -0,0 +1,95 @@
+/**
+ * 按连接配置隔离的 IndexedDB 记录存储：一个库一张表，记录带 scope 字段并建有 scope 索引。
+ * 不支持 IndexedDB（如隐私模式）时退化为内存存储，刷新后丢失。
+ */
+export interface ScopedRecordStoreOptions<T> {
+  dbName: string
+  storeName: string
+  keyPath: keyof T & string
+  // 日志前缀
+  label: string
+  version?: number
+}
+
+export interface ScopedRecordStore<T> {
+  list(scope: string): Promise<T[]>
+  put(record: T): Promise<void>
+  delete(key: string): Promise<void>
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export function createScopedRecordStore<T extends { scope: string }>(
+  options: ScopedRecordStoreOptions<T>,
+): ScopedRecordStore<T> {
+  const { dbName, storeName, keyPath, label, version = 1 } = options
+  let dbPromise: Promise<IDBDatabase | null> | null = null
+  const memoryFallback = new Map<string, T>()
+
+  function openDb(): Promise<IDBDatabase | null> {
+    if (dbPromise) return dbPromise
+    dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null)
+        return
+      }
+      try {
+        const request = indexedDB.open(dbName, version)
+        request.onupgradeneeded = () => {
+          const db = request.result
+          if (!db.objectStoreNames.contains(storeName)) {
+            const store = db.createObjectStore(storeName, { keyPath })
+            store.createIndex('scope', 'scope', { unique: false })
+          }
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => {
+          console.warn(`[${label}] IndexedDB 不可用，改用内存存储:`, request.error)
+          resolve(null)
+        }
+      } catch (error) {
+        console.warn(`[${label}] IndexedDB 不可用，改用内存存储:`, error)
+        resolve(null)
+      }
+    })
+    return dbPromise
+  }
+
+  async function withStore<R>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<R>,
+  ): Promise<R> {
+    const db = await openDb()
+    if (!db) throw new Error('IndexedDB unavailable')
+    return requestToPromise(run(db.transaction(storeName, mode).objectStore(storeName)))
+  }
+
+  return {
+    async list(scope) {
+      const db = await openDb()
+      if (!db) return [...memoryFallback.values()].filter((record) => record.scope === scope)
+      return withStore('readonly', (store) => store.index('scope').getAll(scope) as IDBRequest<T[]>)
+    },
+    async put(record) {
+      const db = await openDb()
+      if (!db) {
+        memoryFallback.set(String(record[keyPath]), { ...record })
+        return
+      }
+      await withStore('readwrite', (store) => store.put({ ...record }))
+    },
+    async delete(key) {
+      const db = await openDb()
+      if (!db) {
+        memoryFallback.delete(key)
+        return
+      }
+      await withStore('readwrite', (store) => store.delete(key))
+    },
+  }
+}
@@ -308,8 +308,13 @@ function normalizeMarkdownInput(markdown: string, options: { autoNestList: boole
   return normalizeGfmTableBlocks(lines).join('\n')
 }
 
+// 与 renderSimpleMarkdown 相同的预处理（修复压扁的表格、自动嵌套列表），供导出 Markdown 文件使用
+export function normalizeSimpleMarkdown(markdown: string, options: { autoNestList?: boolean } = {}): string {
+  return normalizeMarkdownInput(markdown || '', { autoNestList: options.autoNestList ?? false })
+}
+
 export function renderSimpleMarkdown(markdown: string, options: SimpleMarkdownRenderOptions = {}): string {
-  const normalized = normalizeMarkdownInput(markdown || '', { autoNestList: options.autoNestList ?? false })
+  const normalized = normalizeSimpleMarkdown(markdown, options)
   if (!normalized.trim()) {
     return options.emptyHtml || ''
   }
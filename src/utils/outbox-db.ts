@@ -0,0 +1,40 @@
+import type { ChatAttachment } from '@/api/types'
+import { createScopedRecordStore } from './indexed-db'
+
+export type OutboxStatus = 'pending' | 'sending' | 'sent' | 'failed'
+
+export interface OutboxEntry {
+  // 同一条消息重发时沿用，网关据此去重
+  idempotencyKey: string
+  // 连接配置隔离键，切换配置后互不可见
+  scope: string
+  sessionKey: string
+  message: string
+  model?: string
+  attachments?: ChatAttachment[]
+  createdAt: number
+  status: OutboxStatus
+  attempts: number
+  lastError?: string
+  sentAt?: number
+}
+
+const store = createScopedRecordStore<OutboxEntry>({
+  dbName: 'openclaw-outbox',
+  storeName: 'chat',
+  keyPath: 'idempotencyKey',
+  label: 'Outbox',
+})
+
+export async function listOutboxEntries(scope: string): Promise<OutboxEntry[]> {
+  const entries = await store.list(scope)
+  return entries.sort((a, b) => a.createdAt - b.createdAt)
+}
+
+export function putOutboxEntry(entry: OutboxEntry): Promise<void> {
+  return store.put(entry)
+}
+
+export function deleteOutboxEntry(idempotencyKey: string): Promise<void> {
+  return store.delete(idempotencyKey)
+}
@@ -0,0 +1,191 @@
+export type TemplateVariableType = 'text' | 'date' | 'select' | 'file'
+
+export interface PromptTemplate {
+  id: string
+  title: string
+  content: string
+  updatedAt: number
+}
+
+export interface TemplateVariable {
+  name: string
+  type: TemplateVariableType
+  // select 的候选项
+  options: string[]
+  // text 的默认值、file 的默认路径；date 写 today 表示当天
+  defaultValue: string
+}
+
+// 删除记录：合并时据此剔除删除前的旧版本，避免已删除的模板被共享文件或导入重新带回
+export interface PromptTemplateTombstone {
+  id: string
+  title: string
+  deletedAt: number
+}
+
+export interface PromptTemplatePack {
+  kind: typeof TEMPLATE_PACK_KIND
+  version: 1
+  exportedAt: string
+  templates: PromptTemplate[]
+  deleted: PromptTemplateTombstone[]
+}
+
+export interface PromptTemplateSet {
+  templates: PromptTemplate[]
+  deleted: PromptTemplateTombstone[]
+}
+
+export const TEMPLATE_PACK_KIND = 'openclaw.prompt-templates'
+// 与团队共享的模板包在 Agent 工作区内的相对路径
+export const WORKSPACE_TEMPLATE_DIR = 'prompts/common-replies'
+export const WORKSPACE_TEMPLATE_FILE = `${WORKSPACE_TEMPLATE_DIR}/templates.json`
+
+/**
+ * 占位符写法：{{name}}、{{name:date}}、{{name:select:选项1|选项2}}、{{name:file:默认路径}}。
+ * 第三段为可选的默认值，同名占位符只按第一次出现的定义生成表单项。
+ */
+const PLACEHOLDER_PATTERN = /\{\{\s*([\p{L}\p{N}_.-]+)\s*(?::\s*(text|date|select|file)\s*(?::([^}]*))?)?\}\}/gu
+
+function isVariableType(value: string | undefined): value is TemplateVariableType {
+  return value === 'text' || value === 'date' || value === 'select' || value === 'file'
+}
+
+export function parseTemplateVariables(content: string): TemplateVariable[] {
+  const variables: TemplateVariable[] = []
+  const seen = new Set<string>()
+  for (const matched of content.matchAll(PLACEHOLDER_PATTERN)) {
+    const name = matched[1] ?? ''
+    if (!name || seen.has(name)) continue
+    seen.add(name)
+    const type = isVariableType(matched[2]) ? matched[2] : 'text'
+    const extra = (matched[3] ?? '').trim()
+    const options = type === 'select' ? extra.split('|').map((item) => item.trim()).filter(Boolean) : []
+    variables.push({
+      name,
+      type,
+      options,
+      defaultValue: type === 'select' ? options[0] ?? '' : extra,
+    })
+  }
+  return variables
+}
+
+// 把占位符替换为填写的值；没有提供值的占位符原样保留，方便发现遗漏
+export function renderTemplate(content: string, values: Record<string, string>): string {
+  return content.replace(PLACEHOLDER_PATTERN, (whole, name: string) => values[name] ?? whole)
+}
+
+export function formatTemplateDate(value: number): string {
+  const date = new Date(value)
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+export function createTemplateId(now = Date.now()): string {
+  return `quick-${now}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+export function normalizePromptTemplate(value: unknown): PromptTemplate | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null
+  const row = value as Record<string, unknown>
+  const title = typeof row.title === 'string' ? row.title.trim() : ''
+  const content = typeof row.content === 'string' ? row.content.trim() : ''
+  if (!title || !content) return null
+  return {
+    id: typeof row.id === 'string' && row.id.trim() ? row.id.trim() : createTemplateId(),
+    title,
+    content,
+    updatedAt: typeof row.updatedAt === 'number' && Number.isFinite(row.updatedAt) ? row.updatedAt : Date.now(),
+  }
+}
+
+export function normalizeTemplateTombstone(value: unknown): PromptTemplateTombstone | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null
+  const row = value as Record<string, unknown>
+  const id = typeof row.id === 'string' ? row.id.trim() : ''
+  const title = typeof row.title === 'string' ? row.title.trim() : ''
+  if ((!id && !title) || typeof row.deletedAt !== 'number' || !Number.isFinite(row.deletedAt)) return null
+  return { id, title, deletedAt: row.deletedAt }
+}
+
+export function createTemplateTombstone(template: PromptTemplate, now = Date.now()): PromptTemplateTombstone {
+  return { id: template.id, title: template.title, deletedAt: now }
+}
+
+export function buildTemplatePack(templates: PromptTemplate[], deleted: PromptTemplateTombstone[] = []): PromptTemplatePack {
+  return {
+    kind: TEMPLATE_PACK_KIND,
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    templates: templates.map((item) => ({ ...item })),
+    deleted: deleted.map((item) => ({ ...item })),
+  }
+}
+
+// 兼容模板包对象与直接导出的模板数组；格式不对时抛出错误，由调用方提示
+export function parseTemplatePack(raw: string): PromptTemplateSet {
+  const parsed = JSON.parse(raw) as unknown
+  const row = parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed as Record<string, unknown> : null
+  const list = Array.isArray(parsed) ? parsed : Array.isArray(row?.templates) ? row.templates as unknown[] : null
+  if (!list) throw new Error('Not a prompt template pack')
+  return {
+    templates: list.map(normalizePromptTemplate).filter((item): item is PromptTemplate => item !== null),
+    deleted: Array.isArray(row?.deleted)
+      ? (row.deleted as unknown[]).map(normalizeTemplateTombstone).filter((item): item is PromptTemplateTombstone => item !== null)
+      : [],
+  }
+}
+
+function matchesTombstone(template: PromptTemplate, tombstone: PromptTemplateTombstone): boolean {
+  return (tombstone.id !== '' && template.id === tombstone.id) || (tombstone.title !== '' && template.title === tombstone.title)
+}
+
+// 合并两份删除记录，同一模板保留较晚的删除时间
+export function mergeTemplateTombstones(
+  current: PromptTemplateTombstone[],
+  incoming: PromptTemplateTombstone[],
+): PromptTemplateTombstone[] {
+  const result = [...current]
+  for (const item of incoming) {
+    const index = result.findIndex((existing) => existing.id === item.id && existing.title === item.title)
+    const existing = index >= 0 ? result[index] : undefined
+    if (!existing) result.push(item)
+    else if (item.deletedAt > existing.deletedAt) result[index] = item
+  }
+  return result
+}
+
+/**
+ * 合并模板：按 id 匹配，id 不同但标题相同也视为同一模板；同一模板保留更新时间较新的版本。
+ * 更新时间不晚于删除记录的模板视为已删除，删除后重新创建的同名模板不受影响。
+ * 返回合并结果以及新增、更新、删除的数量。
+ */
+export function mergePromptTemplates(
+  current: PromptTemplate[],
+  incoming: PromptTemplate[],
+  deleted: PromptTemplateTombstone[] = [],
+): { templates: PromptTemplate[]; added: number; updated: number; removed: number } {
+  const isDeleted = (item: PromptTemplate) =>
+    deleted.some((tombstone) => matchesTombstone(item, tombstone) && tombstone.deletedAt >= item.updatedAt)
+  const result = current.filter((item) => !isDeleted(item))
+  const removed = current.length - result.length
+  let added = 0
+  let updated = 0
+  for (const item of incoming) {
+    if (isDeleted(item)) continue
+    const index = result.findIndex((existing) => existing.id === item.id || existing.title === item.title)
+    const existing = index >= 0 ? result[index] : undefined
+    if (!existing) {
+      result.push(item)
+      added += 1
+      continue
+    }
+    if (item.updatedAt > existing.updatedAt && (item.content !== existing.content || item.title !== existing.title)) {
+      result[index] = { ...item, id: existing.id }
+      updated += 1
+    }
+  }
+  return { templates: result, added, updated, removed }
+}
@@ -0,0 +1,47 @@
+import type { ChatMessage } from '@/api/types'
+import { createScopedRecordStore } from './indexed-db'
+
+export interface IndexedMessage {
+  // 在会话历史中的位置，跳转到消息时据此定位
+  index: number
+  role: ChatMessage['role']
+  content: string
+  timestampMs: number | null
+}
+
+export interface TranscriptIndexEntry {
+  // `${scope}|${sessionKey}`
+  id: string
+  // 连接配置隔离键，切换配置后互不可见
+  scope: string
+  sessionKey: string
+  agent: string
+  channel: string
+  // 会话列表中的最后活动时间与消息数，变化时才重新拉取历史
+  signature: string
+  indexedAt: number
+  messages: IndexedMessage[]
+}
+
+const store = createScopedRecordStore<TranscriptIndexEntry>({
+  dbName: 'openclaw-search',
+  storeName: 'transcripts',
+  keyPath: 'id',
+  label: 'SearchIndex',
+})
+
+export function transcriptEntryId(scope: string, sessionKey: string): string {
+  return `${scope}|${sessionKey}`
+}
+
+export function listTranscriptEntries(scope: string): Promise<TranscriptIndexEntry[]> {
+  return store.list(scope)
+}
+
+export function putTranscriptEntry(entry: TranscriptIndexEntry): Promise<void> {
+  return store.put(entry)
+}
+
+export function deleteTranscriptEntry(id: string): Promise<void> {
+  return store.delete(id)
+}
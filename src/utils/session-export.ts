@@ -0,0 +1,547 @@
+import type { SessionExport, TranscriptMessage } from '@/api/types'
+import { normalizeSimpleMarkdown, renderSimpleMarkdown } from './markdown'
+import { isSecretFieldKey } from './secret-mask'
+import { parseSessionKey } from './format'
+import { createZip, type ZipEntry } from './zip'
+
+export type SessionExportFormat = 'markdown' | 'html' | 'jsonl' | 'json'
+
+export interface SessionExportOptions {
+  format: SessionExportFormat
+  // 按字段名与常见密钥格式把敏感内容替换为 [REDACTED]
+  redactSecrets: boolean
+  // 关闭时工具调用只保留名称与入参
+  includeToolOutput: boolean
+  includeSystem: boolean
+}
+
+// 导出文件里的标题文字由页面按当前语言传入
+export interface SessionExportLabels {
+  exportedAt: string
+  messageCount: string
+  roles: Record<TranscriptMessage['role'], string>
+  toolCall: string
+  toolInput: string
+  toolOutput: string
+  outputOmitted: string
+}
+
+export interface PreparedMessage {
+  index: number
+  role: TranscriptMessage['role']
+  content: string
+  timestamp: string
+  name?: string
+  input?: unknown
+  output?: unknown
+  outputOmitted: boolean
+}
+
+export interface SessionExportFile {
+  filename: string
+  mimeType: string
+  content: string
+}
+
+export const SESSION_EXPORT_EXTENSIONS: Record<SessionExportFormat, string> = {
+  markdown: 'md',
+  html: 'html',
+  jsonl: 'jsonl',
+  json: 'json',
+}
+
+const SESSION_EXPORT_MIME_TYPES: Record<SessionExportFormat, string> = {
+  markdown: 'text/markdown;charset=utf-8',
+  html: 'text/html;charset=utf-8',
+  jsonl: 'application/x-ndjson;charset=utf-8',
+  json: 'application/json;charset=utf-8',
+}
+
+export const DEFAULT_SESSION_EXPORT_OPTIONS: SessionExportOptions = {
+  format: 'markdown',
+  redactSecrets: true,
+  includeToolOutput: true,
+  includeSystem: false,
+}
+
+const REDACTED = '[REDACTED]'
+
+// 文本里常见的密钥格式：私钥块、Authorization 头、各家平台的 Token 前缀与 JWT
+const SECRET_TEXT_PATTERNS: Array<[RegExp, string]> = [
+  [/-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g, `${REDACTED} private key`],
+  [/\b(Bearer|Basic)\s+[A-Za-z0-9._~+/=-]{8,}/g, `$1 ${REDACTED}`],
+  [/\bsk-[A-Za-z0-9_-]{16,}/g, REDACTED],
+  [/\bgh[pousr]_[A-Za-z0-9]{20,}/g, REDACTED],
+  [/\bxox[abprs]-[A-Za-z0-9-]{10,}/g, REDACTED],
+  [/\bAKIA[0-9A-Z]{16}\b/g, REDACTED],
+  [/\bAIza[0-9A-Za-z_-]{35}\b/g, REDACTED],
+  [/\beyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g, REDACTED],
+  // token=xxx、"apiKey": "xxx" 这类键值写法只替换值
+  [
+    /\b([\w-]*(?:token|secret|password|passwd|api[_-]?key|access[_-]?key|private[_-]?key|client[_-]?secret)["']?\s*[:=]\s*["']?)([^\s"',;]{4,})/gi,
+    `$1${REDACTED}`,
+  ],
+]
+
+export function redactSecretText(text: string): string {
+  return SECRET_TEXT_PATTERNS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text)
+}
+
+export function redactSecretValue(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') return redactSecretText(value)
+  if (depth > 40 || value === null || typeof value !== 'object') return value
+  if (Array.isArray(value)) return value.map((item) => redactSecretValue(item, depth + 1))
+
+  const result: Record<string, unknown> = {}
+  for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+    if (isSecretFieldKey(key) && (typeof item === 'string' || typeof item === 'number')) {
+      result[key] = item === '' ? '' : REDACTED
+    } else {
+      result[key] = redactSecretValue(item, depth + 1)
+    }
+  }
+  return result
+}
+
+/**
+ * 按导出选项过滤与脱敏消息；index 保留原始位置，方便与聊天页的消息定位对应。
+ * 不包含工具输出时，工具消息的正文也视为输出一并去掉，只留下调用名称与入参。
+ */
+export function prepareTranscript(transcript: TranscriptMessage[], options: SessionExportOptions): PreparedMessage[] {
+  const result: PreparedMessage[] = []
+  transcript.forEach((message, index) => {
+    if (message.role === 'system' && !options.includeSystem) return
+    const omitOutput = message.role === 'tool' && !options.includeToolOutput
+    const prepared: PreparedMessage = {
+      index,
+      role: message.role,
+      content: omitOutput ? '' : message.content || '',
+      timestamp: message.timestamp || '',
+      outputOmitted: omitOutput && (!!message.content || message.output !== undefined),
+    }
+    if (message.name) prepared.name = message.name
+    if (message.input !== undefined) prepared.input = message.input
+    if (message.output !== undefined && !omitOutput) prepared.output = message.output
+    if (options.redactSecrets) {
+      prepared.content = redactSecretText(prepared.content)
+      if (prepared.input !== undefined) prepared.input = redactSecretValue(prepared.input)
+      if (prepared.output !== undefined) prepared.output = redactSecretValue(prepared.output)
+    }
+    result.push(prepared)
+  })
+  return result
+}
+
+function stringifyPayload(value: unknown): string {
+  if (typeof value === 'string') return value
+  try {
+    return JSON.stringify(value, null, 2) ?? ''
+  } catch {
+    return String(value)
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+// 围栏长度要超过内容里最长的反引号串，避免工具输出里的 ``` 提前结束代码块
+function fenceBlock(text: string, language = ''): string {
+  const longest = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length))
+  const fence = '`'.repeat(Math.max(3, longest + 1))
+  return `${fence}${language}\n${text}\n${fence}`
+}
+
+function isToolMessage(message: PreparedMessage): boolean {
+  return message.role === 'tool' || message.input !== undefined || message.output !== undefined
+}
+
+function toolOutputText(message: PreparedMessage): string {
+  if (message.output !== undefined) return stringifyPayload(message.output)
+  return message.role === 'tool' ? message.content : ''
+}
+
+function exportFileBase(key: string): string {
+  return `session-${key.replace(/[:/\\?*"<>|]/g, '-')}`
+}
+
+function messageHeading(message: PreparedMessage, labels: SessionExportLabels): string {
+  const role = labels.roles[message.role] ?? message.role
+  return message.timestamp ? `${role} · ${message.timestamp}` : role
+}
+
+export function renderSessionMarkdown(
+  data: SessionExport,
+  messages: PreparedMessage[],
+  labels: SessionExportLabels,
+): string {
+  const parsed = parseSessionKey(data.key)
+  const lines: string[] = [
+    `# ${data.key}`,
+    '',
+    `- Agent: \`${parsed.agent}\` · Channel: \`${parsed.channel}\`${parsed.peer ? ` · Peer: \`${parsed.peer}\`` : ''}`,
+    `- ${labels.exportedAt}: ${data.exportedAt}`,
+    `- ${labels.messageCount}: ${messages.length}`,
+  ]
+
+  for (const message of messages) {
+    lines.push('', '---', '', `### ${messageHeading(message, labels)}`, '')
+    if (isToolMessage(message)) {
+      // <details> 在 GitHub 等常见渲染器里显示为可折叠区块
+      const output = toolOutputText(message)
+      lines.push('<details>', `<summary>${escapeHtml(`${labels.toolCall}: ${message.name || '-'}`)}</summary>`, '')
+      if (message.input !== undefined) {
+        lines.push(`**${labels.toolInput}**`, '', fenceBlock(stringifyPayload(message.input), 'json'), '')
+      }
+      if (output) {
+        lines.push(`**${labels.toolOutput}**`, '', fenceBlock(output), '')
+      } else if (message.outputOmitted) {
+        lines.push(`_${labels.outputOmitted}_`, '')
+      }
+      lines.push('</details>')
+      if (message.role !== 'tool' && message.content.trim()) {
+        lines.push('', normalizeSimpleMarkdown(message.content, { autoNestList: true }))
+      }
+      continue
+    }
+    lines.push(normalizeSimpleMarkdown(message.content, { autoNestList: message.role !== 'user' }))
+  }
+
+  return `${lines.join('\n')}\n`
+}
+
+// 与聊天页 .chat-markdown 一致的排版，主题变量取自 main.css，按系统深色模式切换
+const HTML_EXPORT_STYLE = `
+:root {
+  --bg-primary: #ffffff;
+  --bg-secondary: #f5f7fa;
+  --bg-card: #ffffff;
+  --text-primary: #1a1a2e;
+  --text-secondary: #64748b;
+  --border-color: #e2e8f0;
+  --link-color: #16a34a;
+  --link-color-hover: #15803d;
+  --link-underline: rgba(22, 163, 74, 0.28);
+  --md-bullet-color: #9ca3af;
+  --md-bullet-nested-color: #c4c9d2;
+  --md-blockquote-bg: rgba(100, 116, 139, 0.06);
+  --md-blockquote-border: #cbd5e1;
+  --md-code-bg: rgba(100, 116, 139, 0.08);
+  --md-code-border: rgba(100, 116, 139, 0.13);
+  --md-pre-bg: rgba(100, 116, 139, 0.05);
+}
+@media (prefers-color-scheme: dark) {
+  :root {
+    --bg-primary: #101014;
+    --bg-secondary: #18181c;
+    --bg-card: #1e1e22;
+    --text-primary: #ffffffde;
+    --text-secondary: #a0a0b0;
+    --border-color: #2c2c32;
+    --link-color: #34d399;
+    --link-color-hover: #6ee7b7;
+    --link-underline: rgba(52, 211, 153, 0.3);
+    --md-bullet-color: #6b7280;
+    --md-bullet-nested-color: #4b5563;
+    --md-blockquote-bg: rgba(160, 160, 176, 0.07);
+    --md-blockquote-border: #3f3f46;
+    --md-code-bg: rgba(160, 160, 176, 0.1);
+    --md-code-border: rgba(160, 160, 176, 0.12);
+    --md-pre-bg: rgba(0, 0, 0, 0.2);
+  }
+}
+* { box-sizing: border-box; }
+body {
+  margin: 0;
+  padding: 24px 16px;
+  background: var(--bg-primary);
+  color: var(--text-primary);
+  font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', 'PingFang SC', 'Microsoft YaHei', sans-serif;
+}
+main { max-width: 880px; margin: 0 auto; }
+header h1 { margin: 0 0 6px; font-size: 20px; word-break: break-all; }
+header p { margin: 0 0 16px; color: var(--text-secondary); font-size: 13px; }
+.message {
+  margin: 0 0 12px;
+  padding: 12px 14px;
+  border: 1px solid var(--border-color);
+  border-radius: 8px;
+  background: var(--bg-card);
+}
+.message.role-user { background: var(--bg-secondary); }
+.message-meta { margin-bottom: 6px; color: var(--text-secondary); font-size: 12px; }
+.message-role { margin-right: 6px; font-weight: 600; }
+.role-user .message-role { color: #2080f0; }
+.role-assistant .message-role { color: #18a058; }
+.role-tool .message-role { color: #f0a020; }
+details.tool-call { margin: 4px 0; border: 1px solid var(--border-color); border-radius: 6px; }
+details.tool-call summary { padding: 6px 10px; cursor: pointer; font-size: 12.5px; font-weight: 600; }
+.tool-call-body { padding: 0 10px 8px; }
+.tool-call-label { margin: 6px 0 2px; color: var(--text-secondary); font-size: 12px; }
+.tool-call-omitted { color: var(--text-secondary); font-size: 12px; font-style: italic; }
+pre.tool-call-payload {
+  margin: 0;
+  padding: 9px 11px;
+  border-radius: 6px;
+  border: 1px solid var(--md-code-border);
+  background: var(--md-pre-bg);
+  overflow-x: auto;
+  font-family: 'SFMono-Regular', Menlo, Monaco, Consolas, monospace;
+  font-size: 12px;
+  line-height: 1.52;
+  white-space: pre-wrap;
+  word-break: break-word;
+}
+.chat-markdown { white-space: normal; font-size: 12.5px; line-height: 1.72; word-break: break-word; overflow-wrap: break-word; }
+.chat-markdown > :first-child { margin-top: 0; }
+.chat-markdown > :last-child { margin-bottom: 0; }
+.chat-markdown h1, .chat-markdown h2, .chat-markdown h3, .chat-markdown h4, .chat-markdown h5, .chat-markdown h6 {
+  margin: 16px 0 4px; line-height: 1.4; font-weight: 600; letter-spacing: -0.01em;
+}
+.chat-markdown h1 { font-size: 1.25em; }
+.chat-markdown h2 { font-size: 1.12em; }
+.chat-markdown h3 { font-size: 1.02em; }
+.chat-markdown p { margin: 4px 0; line-height: 1.72; }
+.chat-markdown table {
+  width: 100%; margin: 8px 0; border-collapse: separate; border-spacing: 0;
+  border: 1px solid var(--border-color); border-radius: 8px; background: var(--bg-card);
+}
+.chat-markdown th, .chat-markdown td {
+  padding: 10px 12px; border-right: 1px solid var(--border-color); border-bottom: 1px solid var(--border-color);
+  vertical-align: top; text-align: left;
+}
+.chat-markdown th { background: var(--bg-secondary); color: var(--text-secondary); font-weight: 600; }
+.chat-markdown th:last-child, .chat-markdown td:last-child { border-right: none; }
+.chat-markdown tr:last-child > td { border-bottom: none; }
+.chat-markdown ul { margin: 4px 0; padding-left: 1.1em; list-style: none; }
+.chat-markdown ul > li { position: relative; margin: 2px 0; line-height: 1.72; }
+.chat-markdown ul > li::before {
+  content: ''; position: absolute; left: -0.88em; top: 0.58em; width: 4px; height: 4px;
+  border-radius: 50%; background: var(--md-bullet-color);
+}
+.chat-markdown ul ul { margin: 1px 0 1px 0.15em; }
+.chat-markdown ul ul > li::before {
+  width: 3.5px; height: 3.5px; background: transparent; border: 1px solid var(--md-bullet-nested-color); top: 0.62em;
+}
+.chat-markdown ul ul ul > li::before { width: 3px; height: 3px; border: none; background: var(--md-bullet-nested-color); border-radius: 0; }
+.chat-markdown ol { margin: 4px 0; padding-left: 1.5em; list-style-position: outside; }
+.chat-markdown ol > li { margin: 2px 0; line-height: 1.72; }
+.chat-markdown ol > li::marker { color: var(--md-bullet-color); font-size: 0.9em; font-weight: 500; }
+.chat-markdown a {
+  color: var(--link-color); font-weight: 500; text-underline-offset: 2px; text-decoration-thickness: 1px;
+  text-decoration-line: underline; text-decoration-color: var(--link-underline);
+}
+.chat-markdown a:hover { color: var(--link-color-hover); text-decoration-color: var(--link-color-hover); }
+.chat-markdown blockquote {
+  margin: 6px 0; padding: 4px 10px; border-left: 2.5px solid var(--md-blockquote-border);
+  border-radius: 0 4px 4px 0; background: var(--md-blockquote-bg);
+}
+.chat-markdown blockquote p { margin: 2px 0; color: var(--text-secondary); font-size: 0.94em; }
+.chat-markdown pre {
+  margin: 6px 0; padding: 9px 11px; border-radius: 6px; border: 1px solid var(--md-code-border);
+  background: var(--md-pre-bg); overflow-x: auto; line-height: 1.52;
+}
+.chat-markdown code { font-family: 'SFMono-Regular', Menlo, Monaco, Consolas, monospace; font-size: 0.87em; }
+.chat-markdown p code, .chat-markdown li code, .chat-markdown td code, .chat-markdown th code {
+  padding: 0.5px 4.5px; border-radius: 3px; border: 1px solid var(--md-code-border); background: var(--md-code-bg);
+}
+.chat-markdown hr { border: 0; height: 1px; background: var(--border-color); margin: 10px 0; }
+.chat-markdown strong { font-weight: 600; }
+`
+
+function renderHtmlToolCall(message: PreparedMessage, labels: SessionExportLabels): string {
+  const output = toolOutputText(message)
+  const parts = [
+    '<details class="tool-call">',
+    `<summary>${escapeHtml(`${labels.toolCall}: ${message.name || '-'}`)}</summary>`,
+    '<div class="tool-call-body">',
+  ]
+  if (message.input !== undefined) {
+    parts.push(
+      `<div class="tool-call-label">${escapeHtml(labels.toolInput)}</div>`,
+      `<pre class="tool-call-payload">${escapeHtml(stringifyPayload(message.input))}</pre>`,
+    )
+  }
+  if (output) {
+    parts.push(
+      `<div class="tool-call-label">${escapeHtml(labels.toolOutput)}</div>`,
+      `<pre class="tool-call-payload">${escapeHtml(output)}</pre>`,
+    )
+  } else if (message.outputOmitted) {
+    parts.push(`<div class="tool-call-omitted">${escapeHtml(labels.outputOmitted)}</div>`)
+  }
+  parts.push('</div>', '</details>')
+  return parts.join('\n')
+}
+
+/**
+ * 生成单文件 HTML：样式内联、不引用任何外部资源，离线也能打开。
+ * 正文经 renderSimpleMarkdown 渲染（不允许原始 HTML），其余文本一律转义。
+ */
+export function renderSessionHtml(data: SessionExport, messages: PreparedMessage[], labels: SessionExportLabels): string {
+  const blocks = messages.map((message) => {
+    const body: string[] = []
+    if (isToolMessage(message)) body.push(renderHtmlToolCall(message, labels))
+    if (message.role !== 'tool' && message.content.trim()) {
+      body.push(
+        `<div class="chat-markdown">${renderSimpleMarkdown(message.content, { autoNestList: message.role !== 'user' })}</div>`,
+      )
+    }
+    const time = message.timestamp ? `<span>${escapeHtml(message.timestamp)}</span>` : ''
+    return [
+      `<section class="message role-${message.role}">`,
+      `<div class="message-meta"><span class="message-role">${escapeHtml(labels.roles[message.role] ?? message.role)}</span>${time}</div>`,
+      ...body,
+      '</section>',
+    ].join('\n')
+  })
+
+  return [
+    '<!DOCTYPE html>',
+    '<html>',
+    '<head>',
+    '<meta charset="utf-8" />',
+    '<meta name="viewport" content="width=device-width, initial-scale=1" />',
+    `<title>${escapeHtml(data.key)}</title>`,
+    `<style>${HTML_EXPORT_STYLE}</style>`,
+    '</head>',
+    '<body>',
+    '<main>',
+    '<header>',
+    `<h1>${escapeHtml(data.key)}</h1>`,
+    `<p>${escapeHtml(`${labels.exportedAt}: ${data.exportedAt} · ${labels.messageCount}: ${messages.length}`)}</p>`,
+    '</header>',
+    ...blocks,
+    '</main>',
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n')
+}
+
+// 微调数据集里工具入参按惯例是 JSON 字符串，不做缩进
+function toolArguments(input: unknown): string {
+  if (typeof input === 'string') return input
+  try {
+    return JSON.stringify(input) ?? ''
+  } catch {
+    return String(input)
+  }
+}
+
+/**
+ * 每个会话一行，采用常见微调 / 评测数据集的 {"messages": [...]} 结构。
+ * 工具调用的入参写成助手消息的 tool_calls（入参记在 tool 消息上时补一条只含调用的助手消息），
+ * 对应的 tool 消息以 tool_call_id 关联（按工具名匹配尚未返回的调用）；不包含工具输出时只省略 tool 消息，调用本身仍然保留。
+ */
+export function renderSessionJsonlLine(data: SessionExport, messages: PreparedMessage[]): string {
+  const rows: Array<Record<string, unknown>> = []
+  const pendingCalls: Array<{ id: string; name: string }> = []
+  for (const message of messages) {
+    const call = message.input === undefined
+      ? null
+      : {
+          id: `call_${message.index}`,
+          type: 'function',
+          function: { name: message.name || '', arguments: toolArguments(message.input) },
+        }
+    if (call && message.role !== 'assistant') rows.push({ role: 'assistant', content: '', tool_calls: [call] })
+    if (message.role === 'tool') {
+      let callId = call?.id
+      const pendingIndex = call ? -1 : pendingCalls.findIndex((item) => !message.name || item.name === message.name)
+      if (pendingIndex >= 0) callId = pendingCalls.splice(pendingIndex, 1)[0]?.id
+      if (message.outputOmitted || (!message.content && message.output === undefined)) continue
+      rows.push({
+        role: 'tool',
+        ...(callId ? { tool_call_id: callId } : {}),
+        ...(message.name ? { name: message.name } : {}),
+        content: message.output !== undefined ? stringifyPayload(message.output) : message.content,
+      })
+      continue
+    }
+    if (message.role === 'assistant' && call) {
+      pendingCalls.push({ id: call.id, name: call.function.name })
+      rows.push({ role: 'assistant', content: message.content, tool_calls: [call] })
+      continue
+    }
+    if (!message.content.trim()) continue
+    rows.push({ role: message.role, content: message.content })
+  }
+  const parsed = parseSessionKey(data.key)
+  return JSON.stringify({
+    messages: rows,
+    metadata: { sessionKey: data.key, agent: parsed.agent, channel: parsed.channel, exportedAt: data.exportedAt },
+  })
+}
+
+export function buildSessionExportFile(
+  data: SessionExport,
+  options: SessionExportOptions,
+  labels: SessionExportLabels,
+): SessionExportFile {
+  const messages = prepareTranscript(data.transcript ?? [], options)
+  const filename = `${exportFileBase(data.key)}.${SESSION_EXPORT_EXTENSIONS[options.format]}`
+  const mimeType = SESSION_EXPORT_MIME_TYPES[options.format]
+  switch (options.format) {
+    case 'markdown':
+      return { filename, mimeType, content: renderSessionMarkdown(data, messages, labels) }
+    case 'html':
+      return { filename, mimeType, content: renderSessionHtml(data, messages, labels) }
+    case 'jsonl':
+      return { filename, mimeType, content: `${renderSessionJsonlLine(data, messages)}\n` }
+    case 'json':
+      return {
+        filename,
+        mimeType,
+        content: JSON.stringify({ key: data.key, exportedAt: data.exportedAt, transcript: messages }, null, 2),
+      }
+  }
+}
+
+/**
+ * 把多个会话打包为 ZIP：Markdown / HTML / JSON 每个会话一个文件；
+ * JSONL 合并为一个 sessions.jsonl 数据集。manifest.json 记录导出选项与失败的会话。
+ */
+export function buildSessionExportZip(
+  sessions: SessionExport[],
+  options: SessionExportOptions,
+  labels: SessionExportLabels,
+  failed: Array<{ key: string; error: string }> = [],
+): Blob {
+  const entries: ZipEntry[] = []
+  if (options.format === 'jsonl') {
+    const lines = sessions.map((data) => renderSessionJsonlLine(data, prepareTranscript(data.transcript ?? [], options)))
+    entries.push({ name: 'sessions.jsonl', content: lines.length ? `${lines.join('\n')}\n` : '' })
+  } else {
+    const used = new Set<string>()
+    for (const data of sessions) {
+      const file = buildSessionExportFile(data, options, labels)
+      // 不同 key 替换非法字符后可能重名，追加序号区分
+      let name = file.filename
+      for (let suffix = 2; used.has(name); suffix += 1) {
+        name = file.filename.replace(/(\.[^.]+)$/, `-${suffix}$1`)
+      }
+      used.add(name)
+      entries.push({ name, content: file.content })
+    }
+  }
+  entries.push({
+    name: 'manifest.json',
+    content: JSON.stringify(
+      {
+        exportedAt: new Date().toISOString(),
+        options,
+        sessions: sessions.map((data) => data.key),
+        failed,
+      },
+      null,
+      2,
+    ),
+  })
+  return createZip(entries)
+}
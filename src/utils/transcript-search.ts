@@ -0,0 +1,170 @@
+import type { ChatMessage } from '@/api/types'
+import type { IndexedMessage, TranscriptIndexEntry } from './search-db'
+
+// 片段在首个命中前后保留的字符数
+const SNIPPET_CONTEXT_CHARS = 60
+// 单条消息只索引前面这部分，超长的工具输出不值得占用 IndexedDB 空间
+export const MAX_INDEXED_MESSAGE_CHARS = 20000
+
+export interface TranscriptSearchFilters {
+  sessionKey?: string | null
+  agent?: string | null
+  channel?: string | null
+  role?: ChatMessage['role'] | null
+  // 按消息时间筛选的毫秒时间戳区间，闭区间
+  fromMs?: number | null
+  toMs?: number | null
+}
+
+export interface SnippetPart {
+  text: string
+  match: boolean
+}
+
+export interface TranscriptSearchHit {
+  sessionKey: string
+  agent: string
+  channel: string
+  index: number
+  role: ChatMessage['role']
+  timestampMs: number | null
+  snippet: SnippetPart[]
+  score: number
+}
+
+/**
+ * 拆分查询词：空白分隔，双引号包裹的内容作为整体短语，统一转小写。
+ * 中文没有空格分词，连续的中文按子串匹配，效果与短语一致。
+ */
+export function parseSearchQuery(query: string): string[] {
+  const terms: string[] = []
+  const pattern = /"([^"]+)"|(\S+)/g
+  let matched: RegExpExecArray | null
+  while ((matched = pattern.exec(query)) !== null) {
+    const term = (matched[1] ?? matched[2] ?? '').trim().replace(/\s+/g, ' ').toLowerCase()
+    if (term && !terms.includes(term)) terms.push(term)
+  }
+  return terms
+}
+
+export function parseMessageTimestamp(value: string | undefined): number | null {
+  if (!value) return null
+  const numeric = Number(value)
+  if (Number.isFinite(numeric) && numeric > 0) {
+    // 秒级时间戳换算为毫秒
+    return numeric < 1e12 ? numeric * 1000 : numeric
+  }
+  const parsed = Date.parse(value)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+export function toIndexedMessages(messages: ChatMessage[]): IndexedMessage[] {
+  return messages
+    .map((item, index) => ({
+      index,
+      role: item.role,
+      content: item.content.slice(0, MAX_INDEXED_MESSAGE_CHARS),
+      timestampMs: parseMessageTimestamp(item.timestamp),
+    }))
+    .filter((item) => item.content.trim())
+}
+
+function findMatchRanges(text: string, terms: string[]): Array<[number, number]> {
+  const lower = text.toLowerCase()
+  const ranges: Array<[number, number]> = []
+  for (const term of terms) {
+    let from = 0
+    while (from <= lower.length) {
+      const at = lower.indexOf(term, from)
+      if (at < 0) break
+      ranges.push([at, at + term.length])
+      from = at + term.length
+    }
+  }
+  ranges.sort((a, b) => a[0] - b[0])
+  // 合并重叠的命中，避免高亮片段互相嵌套
+  const merged: Array<[number, number]> = []
+  for (const range of ranges) {
+    const last = merged[merged.length - 1]
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1])
+    } else {
+      merged.push([range[0], range[1]])
+    }
+  }
+  return merged
+}
+
+// 截取首个命中附近的文本，并把命中部分标记出来供页面高亮；text 需已压缩空白
+export function buildSnippet(text: string, ranges: Array<[number, number]>): SnippetPart[] {
+  const first = ranges[0]
+  if (!first) return [{ text: text.slice(0, SNIPPET_CONTEXT_CHARS * 3), match: false }]
+
+  const start = Math.max(0, first[0] - SNIPPET_CONTEXT_CHARS)
+  const end = Math.min(text.length, first[1] + SNIPPET_CONTEXT_CHARS * 2)
+  const parts: SnippetPart[] = []
+  let cursor = start
+  for (const [rangeStart, rangeEnd] of ranges) {
+    if (rangeEnd <= start) continue
+    if (rangeStart >= end) break
+    if (rangeStart > cursor) parts.push({ text: text.slice(cursor, rangeStart), match: false })
+    parts.push({ text: text.slice(Math.max(cursor, rangeStart), Math.min(rangeEnd, end)), match: true })
+    cursor = Math.min(rangeEnd, end)
+  }
+  if (cursor < end) parts.push({ text: text.slice(cursor, end), match: false })
+  if (start > 0) parts.unshift({ text: '…', match: false })
+  if (end < text.length) parts.push({ text: '…', match: false })
+  return parts
+}
+
+function matchesFilters(entry: TranscriptIndexEntry, message: IndexedMessage, filters: TranscriptSearchFilters): boolean {
+  if (filters.sessionKey && entry.sessionKey !== filters.sessionKey) return false
+  if (filters.agent && entry.agent !== filters.agent) return false
+  if (filters.channel && entry.channel !== filters.channel) return false
+  if (filters.role && message.role !== filters.role) return false
+  if (filters.fromMs || filters.toMs) {
+    // 没有时间戳的消息无法判断，按日期筛选时排除
+    if (message.timestampMs === null) return false
+    if (filters.fromMs && message.timestampMs < filters.fromMs) return false
+    if (filters.toMs && message.timestampMs > filters.toMs) return false
+  }
+  return true
+}
+
+/**
+ * 在已索引的会话里查找同时包含全部查询词的消息。
+ * 按命中次数排序，次数相同时较新的消息靠前；最多返回 limit 条。
+ */
+export function searchTranscripts(
+  entries: TranscriptIndexEntry[],
+  query: string,
+  filters: TranscriptSearchFilters = {},
+  limit = 200,
+): TranscriptSearchHit[] {
+  const terms = parseSearchQuery(query)
+  if (terms.length === 0) return []
+
+  const hits: TranscriptSearchHit[] = []
+  for (const entry of entries) {
+    for (const message of entry.messages) {
+      if (!matchesFilters(entry, message, filters)) continue
+      const text = message.content.replace(/\s+/g, ' ')
+      const lower = text.toLowerCase()
+      if (!terms.every((term) => lower.includes(term))) continue
+      const ranges = findMatchRanges(text, terms)
+      hits.push({
+        sessionKey: entry.sessionKey,
+        agent: entry.agent,
+        channel: entry.channel,
+        index: message.index,
+        role: message.role,
+        timestampMs: message.timestampMs,
+        snippet: buildSnippet(text, ranges),
+        score: ranges.length,
+      })
+    }
+  }
+
+  hits.sort((a, b) => b.score - a.score || (b.timestampMs ?? 0) - (a.timestampMs ?? 0))
+  return hits.slice(0, limit)
+}
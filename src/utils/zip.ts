@@ -0,0 +1,103 @@
+export interface ZipEntry {
+  name: string
+  content: string | Uint8Array
+  modifiedAt?: Date
+}
+
+const encoder = new TextEncoder()
+let crcTable: Uint32Array | null = null
+
+function getCrcTable(): Uint32Array {
+  if (crcTable) return crcTable
+  const table = new Uint32Array(256)
+  for (let index = 0; index < 256; index += 1) {
+    let value = index
+    for (let bit = 0; bit < 8; bit += 1) {
+      value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1
+    }
+    table[index] = value >>> 0
+  }
+  crcTable = table
+  return table
+}
+
+export function crc32(data: Uint8Array): number {
+  const table = getCrcTable()
+  let crc = 0xffffffff
+  for (const byte of data) {
+    crc = (table[(crc ^ byte) & 0xff] ?? 0) ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// ZIP 使用 MS-DOS 时间格式，精度 2 秒，最早只能表示 1980 年
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(1980, date.getFullYear())
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  }
+}
+
+/**
+ * 生成只存储不压缩的 ZIP 包：导出的文本不大，省去压缩依赖。
+ * 文件名按 UTF-8 写入并设置通用标志位 bit 11，中文文件名在常见解压工具里不会乱码。
+ */
+export function createZip(entries: ZipEntry[]): Blob {
+  const parts: Uint8Array[] = []
+  const central: Uint8Array[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const nameBytes = encoder.encode(entry.name)
+    const data = typeof entry.content === 'string' ? encoder.encode(entry.content) : entry.content
+    const checksum = crc32(data)
+    const stamp = toDosDateTime(entry.modifiedAt ?? new Date())
+
+    const local = new Uint8Array(30 + nameBytes.length)
+    const localView = new DataView(local.buffer)
+    localView.setUint32(0, 0x04034b50, true)
+    localView.setUint16(4, 20, true)
+    localView.setUint16(6, 0x0800, true)
+    localView.setUint16(8, 0, true)
+    localView.setUint16(10, stamp.time, true)
+    localView.setUint16(12, stamp.date, true)
+    localView.setUint32(14, checksum, true)
+    localView.setUint32(18, data.length, true)
+    localView.setUint32(22, data.length, true)
+    localView.setUint16(26, nameBytes.length, true)
+    localView.setUint16(28, 0, true)
+    local.set(nameBytes, 30)
+
+    const header = new Uint8Array(46 + nameBytes.length)
+    const headerView = new DataView(header.buffer)
+    headerView.setUint32(0, 0x02014b50, true)
+    headerView.setUint16(4, 20, true)
+    headerView.setUint16(6, 20, true)
+    headerView.setUint16(8, 0x0800, true)
+    headerView.setUint16(10, 0, true)
+    headerView.setUint16(12, stamp.time, true)
+    headerView.setUint16(14, stamp.date, true)
+    headerView.setUint32(16, checksum, true)
+    headerView.setUint32(20, data.length, true)
+    headerView.setUint32(24, data.length, true)
+    headerView.setUint16(28, nameBytes.length, true)
+    headerView.setUint32(42, offset, true)
+    header.set(nameBytes, 46)
+
+    parts.push(local, data)
+    central.push(header)
+    offset += local.length + data.length
+  }
+
+  const centralSize = central.reduce((sum, item) => sum + item.length, 0)
+  const end = new Uint8Array(22)
+  const endView = new DataView(end.buffer)
+  endView.setUint32(0, 0x06054b50, true)
+  endView.setUint16(8, entries.length, true)
+  endView.setUint16(10, entries.length, true)
+  endView.setUint32(12, centralSize, true)
+  endView.setUint32(16, offset, true)
+
+  return new Blob([...parts, ...central, end] as BlobPart[], { type: 'application/zip' })
+}
@@ -0,0 +1,25 @@
+import { resolve } from 'path'
+import { defineConfig } from 'vite'
+
+// 命令行工具构建：以 Node 为目标打包 src/cli，依赖保持外部引用
+export default defineConfig({
+  publicDir: false,
+  resolve: {
+    alias: {
+      '@': resolve(__dirname, 'src'),
+    },
+  },
+  build: {
+    target: 'node18',
+    outDir: 'dist-cli',
+    emptyOutDir: true,
+    minify: false,
+    ssr: resolve(__dirname, 'src/cli/index.ts'),
+    rollupOptions: {
+      output: {
+        entryFileNames: 'openclaw-web.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+})
@@ -14,6 +14,10 @@ export default defineConfig({
     port: 3001,
     allowedHosts: true,
   },
+  // SharedWorker 以 module 类型创建，按 ES 模块打包才能按需加载模拟网关
+  worker: {
+    format: 'es',
+  },
   build: {
     target: 'esnext',
     rollupOptions: {
@@ -0,0 +1,26 @@
+import { resolve } from 'path'
+import { defineConfig } from 'vite'
+
+// 无头 SDK 构建：只打包 src/api，输出可在 Node 18+ 中直接 import 的 ESM
+export default defineConfig({
+  publicDir: false,
+  resolve: {
+    alias: {
+      '@': resolve(__dirname, 'src'),
+    },
+  },
+  build: {
+    target: 'node18',
+    outDir: 'dist-sdk',
+    emptyOutDir: true,
+    minify: false,
+    lib: {
+      entry: resolve(__dirname, 'src/api/sdk.ts'),
+      formats: ['es'],
+      fileName: 'openclaw-sdk',
+    },
+    rollupOptions: {
+      external: ['@noble/ed25519'],
+    },
+  },
+})